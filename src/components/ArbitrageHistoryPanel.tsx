@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react'
+import { History, RefreshCw, Trash2, Info } from 'lucide-react'
+import {
+  ArbitrageTrackingService,
+  ArbitrageScanType,
+  TrackedOpportunity,
+  TrackedOpportunityStatus
+} from '../services/arbitrageTrackingService'
+
+const scanTypeLabels: Record<ArbitrageScanType, string> = {
+  price: 'Price',
+  volatility: 'Volatility',
+  'put-call-parity': 'Put-Call Parity',
+  'box-conversion': 'Box / Conversion',
+  'chain-consistency': 'Chain Consistency'
+}
+
+const statusColors: Record<TrackedOpportunityStatus, string> = {
+  open: 'text-blue-600 bg-blue-100',
+  converged: 'text-green-600 bg-green-100',
+  vanished: 'text-yellow-600 bg-yellow-100',
+  expired: 'text-gray-600 bg-gray-100'
+}
+
+export default function ArbitrageHistoryPanel() {
+  const [records, setRecords] = useState<TrackedOpportunity[]>([])
+  const [loading, setLoading] = useState(true)
+  const [typeFilter, setTypeFilter] = useState<string>('all')
+
+  useEffect(() => {
+    loadHistory()
+  }, [])
+
+  const loadHistory = async () => {
+    setLoading(true)
+    try {
+      setRecords(await ArbitrageTrackingService.recheckAgainstHistory())
+    } catch (error) {
+      console.error('Error re-checking arbitrage history:', error)
+      setRecords(ArbitrageTrackingService.getHistory())
+    }
+    setLoading(false)
+  }
+
+  const clearHistory = () => {
+    if (!window.confirm('Delete all tracked arbitrage opportunities?')) return
+    ArbitrageTrackingService.clearHistory()
+    setRecords([])
+  }
+
+  const formatMinutes = (minutes: number | null) => {
+    if (minutes === null) return '--'
+    if (minutes < 60) return `${Math.round(minutes)}m`
+    if (minutes < 1440) return `${(minutes / 60).toFixed(1)}h`
+    return `${(minutes / 1440).toFixed(1)}d`
+  }
+
+  const formatPercent = (value: number | null) => {
+    return value === null ? '--' : `${(value * 100).toFixed(0)}%`
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+  }
+
+  const stats = ArbitrageTrackingService.getSurvivalStats(records)
+  const visibleRecords = records
+    .filter(record => typeFilter === 'all' || record.type === typeFilter)
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, 200)
+
+  return (
+    <div className="space-y-6">
+      <div className="card shadow-md border-blue-200">
+        <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <History className="h-5 w-5 text-blue-600" />
+              <h3 className="text-lg font-medium text-gray-900">Opportunity Survival by Scan Type</h3>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={loadHistory} disabled={loading} className="btn btn-secondary text-sm">
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                Re-check
+              </button>
+              <button onClick={clearHistory} disabled={records.length === 0} className="btn btn-secondary text-sm">
+                <Trash2 className="h-4 w-4" />
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="card-body">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <RefreshCw className="h-8 w-8 text-blue-500 animate-spin" />
+            </div>
+          ) : stats.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No tracked opportunities yet</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Every scan is recorded here. Run the scanners a few times to build a history.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Scan Type</th>
+                      <th>Tracked</th>
+                      <th>Open</th>
+                      <th>Converged</th>
+                      <th>Vanished</th>
+                      <th>Expired</th>
+                      <th>Convergence Rate</th>
+                      <th>Median Life</th>
+                      {ArbitrageTrackingService.SURVIVAL_CHECKPOINTS.map(minutes => (
+                        <th key={minutes}>Alive {formatMinutes(minutes)}</th>
+                      ))}
+                      <th>Avg Initial Edge</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.map(stat => (
+                      <tr key={stat.type}>
+                        <td className="font-medium text-blue-700">{scanTypeLabels[stat.type]}</td>
+                        <td>{stat.total}</td>
+                        <td>{stat.open}</td>
+                        <td className="text-green-600">{stat.converged}</td>
+                        <td className="text-yellow-600">{stat.vanished}</td>
+                        <td className="text-gray-500">{stat.expired}</td>
+                        <td className="font-medium">{formatPercent(stat.convergenceRate)}</td>
+                        <td className="font-medium">{formatMinutes(stat.medianLifetimeMinutes)}</td>
+                        {stat.survival.map(point => (
+                          <td key={point.minutes}>{formatPercent(point.probability)}</td>
+                        ))}
+                        <td>{formatCurrency(stat.averageInitialEdge)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-3 flex items-start">
+                <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                Converged opportunities closed with their contracts still quoted and, for single contracts, the quote
+                closer to fair value; vanished ones closed because a quote disappeared or dropped out of the scan
+                without moving toward fair value, which usually points to data noise. Opportunities are only closed by
+                a scan with the settings that last reported them. Survival is a Kaplan-Meier estimate with open
+                opportunities censored at their last sighting, and lifetimes are only as precise as the scan interval.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {records.length > 0 && (
+        <div className="card shadow-md border-gray-200">
+          <div className="card-header">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Tracked Opportunities</h3>
+              <select
+                className="form-select w-48"
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+              >
+                <option value="all">All Scan Types</option>
+                {Object.entries(scanTypeLabels).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="card-body">
+            <div className="overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Opportunity</th>
+                    <th>Type</th>
+                    <th>First Seen</th>
+                    <th>Last Seen</th>
+                    <th>Scans</th>
+                    <th>Lifetime</th>
+                    <th>Initial Edge</th>
+                    <th>Last Edge</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRecords.map(record => (
+                    <tr key={`${record.fingerprint}-${record.firstSeen}`}>
+                      <td>
+                        <div className="font-medium text-blue-700">{record.underlyingTicker}</div>
+                        <div className="text-sm text-gray-500">{record.description}</div>
+                      </td>
+                      <td className="text-sm">{scanTypeLabels[record.type]}</td>
+                      <td className="text-sm">{new Date(record.firstSeen).toLocaleString()}</td>
+                      <td className="text-sm">{new Date(record.lastSeen).toLocaleString()}</td>
+                      <td>{record.observations}</td>
+                      <td>{formatMinutes(ArbitrageTrackingService.lifetimeMinutes(record))}</td>
+                      <td>{formatCurrency(record.initialEdge)}</td>
+                      <td>{formatCurrency(record.edge)}</td>
+                      <td>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[record.status]}`}
+                          title={record.closedBy === 'history' ? 'Closed from stored daily quotes' : undefined}
+                        >
+                          {record.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { auth } from '../lib/supabase.ts'
+import { RateCurveService } from '../services/rateCurveService'
 
 export type AuthContextType = {
   user: User | null
@@ -66,6 +67,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [])
 
+  // Per-account pricing preferences follow whoever is signed in
+  useEffect(() => {
+    RateCurveService.setActiveAccount(user?.id ?? null)
+  }, [user])
+
   const signIn = async (email: string, password: string) => {
     setLoading(true)
     try {
@@ -3,12 +3,15 @@ import { Search, TrendingUp, TrendingDown, Activity, Info } from 'lucide-react'
 import { OptionsContract } from '../types/options'
 import { GreeksCalculator } from '../services/greeksCalculator'
 import { isContractExpired } from '../services/optionsChainGenerator'
+import { NO_IV_REASON_LABELS, type ChainIVQuote, type NoIVReason } from '../services/impliedVolatilityEngine'
 
 interface ContractSelectorProps {
   contracts: OptionsContract[]
   onSelectContract: (contract: OptionsContract) => void
   selectedContract?: OptionsContract | null
   underlyingPrice: number
+  // Bid/mid/ask IVs solved from the live quotes, keyed by contract ticker
+  chainIVs?: Record<string, ChainIVQuote>
 }
 
 type SortField = 'strike' | 'volume' | 'openInterest' | 'iv' | 'delta' | 'last'
@@ -18,7 +21,8 @@ export default function ContractSelector({
   contracts,
   onSelectContract,
   selectedContract,
-  underlyingPrice
+  underlyingPrice,
+  chainIVs
 }: ContractSelectorProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [filterType, setFilterType] = useState<'all' | 'call' | 'put'>('all')
@@ -131,6 +135,11 @@ export default function ContractSelector({
     return `${(value * 100).toFixed(1)}%`
   }
 
+  const formatQuoteIV = (iv: number | null, reason?: NoIVReason) => {
+    if (iv !== null) return formatPercent(iv)
+    return reason ? NO_IV_REASON_LABELS[reason] : '--'
+  }
+
   const getLiquidityScore = (contract: OptionsContract): { score: number; color: string } => {
     const volumeScore = Math.min(contract.volume / 1000, 1) * 0.4
     const oiScore = Math.min(contract.open_interest / 5000, 1) * 0.4
@@ -267,6 +276,7 @@ export default function ContractSelector({
                 const moneyness = getMoneyness(contract)
                 const liquidity = getLiquidityScore(contract)
                 const isSelected = selectedContract?.ticker === contract.ticker
+                const quoteIV = chainIVs?.[contract.ticker]
 
                 return (
                   <tr
@@ -296,6 +306,9 @@ export default function ContractSelector({
                         )}
                         {contract.contract_type.toUpperCase()}
                       </span>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {GreeksCalculator.getPricingModel(contract) === 'binomial' ? 'American · Binomial' : 'European · B-S'}
+                      </div>
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-900">
                       {formatCurrency(contract.strike_price)}
@@ -318,7 +331,16 @@ export default function ContractSelector({
                       {contract.open_interest.toLocaleString()}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-900">
-                      {formatPercent(contract.implied_volatility)}
+                      {quoteIV ? (
+                        <>
+                          <div>{formatQuoteIV(quoteIV.midIV, quoteIV.midReason)}</div>
+                          <div className="text-xs text-gray-500 whitespace-nowrap">
+                            {formatQuoteIV(quoteIV.bidIV, quoteIV.bidReason)} / {formatQuoteIV(quoteIV.askIV, quoteIV.askReason)}
+                          </div>
+                        </>
+                      ) : (
+                        formatPercent(contract.implied_volatility)
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-900">
                       {contract.delta.toFixed(3)}
@@ -345,7 +367,9 @@ export default function ContractSelector({
             <Info className="h-5 w-5 text-blue-600 mr-2 flex-shrink-0 mt-0.5" />
             <p className="text-sm text-blue-800">
               Click on a row to select a contract. Liquidity score considers volume, open interest, and bid-ask spread.
-              Higher scores indicate more liquid contracts with tighter spreads.
+              Higher scores indicate more liquid contracts with tighter spreads. American-style contracts are priced
+              with a binomial tree to capture early exercise; European-style contracts use Black-Scholes.
+              {chainIVs && ' IV is solved from the mid quote on the same model, with the bid / ask IVs beneath it or the reason none could be solved.'}
             </p>
           </div>
         </div>
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react'
+import { History, Info } from 'lucide-react'
+import { EarningsMoveService, EarningsMoveSummary } from '../services/earningsMoveService'
+
+interface EarningsMoveHistoryProps {
+  ticker: string
+  lookbackDays?: number
+}
+
+export default function EarningsMoveHistory({
+  ticker,
+  lookbackDays = EarningsMoveService.DEFAULT_LOOKBACK_DAYS
+}: EarningsMoveHistoryProps) {
+  const [summary, setSummary] = useState<EarningsMoveSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSummary()
+  }, [ticker, lookbackDays])
+
+  const loadSummary = async () => {
+    setLoading(true)
+    try {
+      setSummary(await EarningsMoveService.getEarningsMoveSummary(ticker, lookbackDays))
+    } catch (error) {
+      console.error('Error loading earnings move history:', error)
+      setSummary(null)
+    }
+    setLoading(false)
+  }
+
+  const formatPercent = (value: number | null, signed: boolean = false) => {
+    if (value === null) return '--'
+    const prefix = signed && value > 0 ? '+' : ''
+    return `${prefix}${(value * 100).toFixed(1)}%`
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-20 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  const verdict = summary?.averageRatio === null || summary?.averageRatio === undefined
+    ? null
+    : summary.averageRatio < 1
+      ? `${ticker} options have over-priced earnings on average`
+      : `${ticker} options have under-priced earnings on average`
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <History className="w-6 h-6 text-purple-600" />
+          <h3 className="text-xl font-bold text-gray-900">Earnings Moves: Implied vs Realized</h3>
+        </div>
+        {verdict && <p className="text-sm text-gray-600 mt-1">{verdict}</p>}
+      </div>
+
+      <div className="p-6">
+        {!summary || summary.events === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            No past earnings with price history for {ticker}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              <div className="bg-purple-50 rounded-lg p-3">
+                <div className="text-xs text-purple-700">Events</div>
+                <div className="text-lg font-bold text-purple-900">
+                  {summary.events}
+                  <span className="text-xs font-normal text-purple-700 ml-1">
+                    ({summary.eventsWithImpliedMove} priced)
+                  </span>
+                </div>
+              </div>
+              <div className="bg-purple-50 rounded-lg p-3">
+                <div className="text-xs text-purple-700">Avg Implied Move</div>
+                <div className="text-lg font-bold text-purple-900">{formatPercent(summary.averageImpliedMove)}</div>
+              </div>
+              <div className="bg-purple-50 rounded-lg p-3">
+                <div className="text-xs text-purple-700">Avg Realized Move</div>
+                <div className="text-lg font-bold text-purple-900">{formatPercent(summary.averageRealizedMove)}</div>
+              </div>
+              <div className="bg-purple-50 rounded-lg p-3">
+                <div className="text-xs text-purple-700">Realized / Implied</div>
+                <div className="text-lg font-bold text-purple-900">
+                  {summary.averageRatio !== null ? `${summary.averageRatio.toFixed(2)}x` : '--'}
+                  {summary.medianRatio !== null && (
+                    <span className="text-xs font-normal text-purple-700 ml-1">
+                      (median {summary.medianRatio.toFixed(2)}x)
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="bg-purple-50 rounded-lg p-3">
+                <div className="text-xs text-purple-700">Straddle Seller Hit Rate</div>
+                <div className="text-lg font-bold text-purple-900">{formatPercent(summary.straddleSellerHitRate)}</div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-2">Event Date</th>
+                    <th className="py-2">Event</th>
+                    <th className="py-2 text-right">Close Before</th>
+                    <th className="py-2 text-right">Close After</th>
+                    <th className="py-2 text-right">Realized</th>
+                    <th className="py-2 text-right">Implied</th>
+                    <th className="py-2 text-right">Ratio</th>
+                    <th className="py-2 text-right">Straddle Seller</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.records.map(record => (
+                    <tr key={record.eventDate} className="border-b border-gray-100">
+                      <td className="py-2">{record.eventDate}</td>
+                      <td className="py-2 text-gray-600">{record.eventTitle}</td>
+                      <td className="py-2 text-right">${record.preEventClose.toFixed(2)}</td>
+                      <td className="py-2 text-right">${record.postEventClose.toFixed(2)}</td>
+                      <td className={`py-2 text-right font-medium ${record.realizedMove >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatPercent(record.realizedMove, true)}
+                      </td>
+                      <td className="py-2 text-right" title={record.impliedSource === 'captured' ? 'Captured before the event' : 'Replayed from stored option quotes'}>
+                        {record.impliedMove !== null ? `±${formatPercent(record.impliedMove)}` : '--'}
+                      </td>
+                      <td className="py-2 text-right">{record.ratio !== null ? `${record.ratio.toFixed(2)}x` : '--'}</td>
+                      <td className="py-2 text-right">
+                        {record.straddleSellerWon === null ? '--' : record.straddleSellerWon ? (
+                          <span className="text-green-600 font-medium">Won</span>
+                        ) : (
+                          <span className="text-red-600 font-medium">Lost</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-gray-500 mt-3 flex items-start">
+              <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              Realized moves run from the last close before the event to the first close after it. A straddle
+              seller wins when the realized move is smaller than the implied move.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
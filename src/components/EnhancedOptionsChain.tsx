@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useMemo } from 'react'
 import { liveOptionsDataService, LiveOptionsContract, OptionsExpiry, DataServiceStatus } from '../services/liveOptionsDataService'
+import { IVRankService, IVRankSummary } from '../services/ivRankService'
+import { ChainConsistencyService, ChainViolation } from '../services/chainConsistencyService'
 import { TickerSelector } from './TickerSelector'
 import { ExpiryFilter } from './ExpiryFilter'
 
@@ -24,6 +26,8 @@ export const EnhancedOptionsChain: React.FC = () => {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
   const [serviceStatus, setServiceStatus] = useState<DataServiceStatus | null>(null)
   const [showMockDataNotice, setShowMockDataNotice] = useState(false)
+  const [ivRank, setIvRank] = useState<IVRankSummary | null>(null)
+  const [chainViolations, setChainViolations] = useState<ChainViolation[]>([])
 
   useEffect(() => {
     const status = liveOptionsDataService.getStatus()
@@ -33,6 +37,35 @@ export const EnhancedOptionsChain: React.FC = () => {
     loadData()
   }, [selectedTicker])
 
+  useEffect(() => {
+    let cancelled = false
+    setIvRank(null)
+    IVRankService.getIVRank(selectedTicker)
+      .then(summary => {
+        if (!cancelled) setIvRank(summary)
+      })
+      .catch(error => console.error('[EnhancedOptionsChain] Failed to load IV rank:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedTicker])
+
+  // Calendar checks need every expiry, so the full chain is analyzed rather than the selected slice
+  useEffect(() => {
+    let cancelled = false
+    setChainViolations([])
+    liveOptionsDataService.fetchOptionsForTicker(selectedTicker)
+      .then(fullChain => {
+        if (!cancelled) setChainViolations(ChainConsistencyService.analyze(fullChain))
+      })
+      .catch(error => console.error('[EnhancedOptionsChain] Failed to check chain consistency:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedTicker])
+
   useEffect(() => {
     if (selectedExpiryDate) {
       loadOptionsForExpiry()
@@ -109,6 +142,17 @@ export const EnhancedOptionsChain: React.FC = () => {
     }
   }
 
+  const expiryViolations = useMemo(() => {
+    if (!selectedExpiryDate) return []
+    return chainViolations.filter(violation =>
+      violation.legs.some(leg => leg.expirationDate === selectedExpiryDate))
+  }, [chainViolations, selectedExpiryDate])
+
+  const getStrikeViolations = (strike: number) => {
+    return expiryViolations.filter(violation =>
+      violation.legs.some(leg => leg.strike === strike && leg.expirationDate === selectedExpiryDate))
+  }
+
   const syncData = async () => {
     setSyncing(true)
     try {
@@ -278,6 +322,19 @@ export const EnhancedOptionsChain: React.FC = () => {
         <div className="underlying-price-banner">
           <span className="price-label">Underlying Price:</span>
           <span className="price-value">${underlyingPrice.toFixed(2)}</span>
+          {ivRank && (
+            <>
+              <span className="price-label">30D ATM IV:</span>
+              <span className="iv-rank-value">{(ivRank.currentIV * 100).toFixed(1)}%</span>
+              <span className="price-label">IV Rank:</span>
+              <span className="iv-rank-value">{ivRank.ivRank.toFixed(0)}</span>
+              <span className="price-label">IV Percentile:</span>
+              <span className="iv-rank-value">{ivRank.ivPercentile.toFixed(0)}</span>
+              <span className="iv-rank-range">
+                52W {(ivRank.low52w * 100).toFixed(1)}% – {(ivRank.high52w * 100).toFixed(1)}%
+              </span>
+            </>
+          )}
         </div>
       )}
 
@@ -338,6 +395,29 @@ export const EnhancedOptionsChain: React.FC = () => {
         </div>
       </div>
 
+      {expiryViolations.length > 0 && (
+        <div className="chain-warnings">
+          <div className="chain-warnings-title">
+            ⚠️ {expiryViolations.length} static-arbitrage violation{expiryViolations.length === 1 ? '' : 's'} in this expiry
+          </div>
+          <ul>
+            {expiryViolations.slice(0, 5).map((violation, idx) => (
+              <li key={idx}>
+                <span className="chain-warning-type">{violation.type}</span>
+                {violation.description}:{' '}
+                {violation.legs.map(leg =>
+                  `${leg.action} ${leg.quantity > 1 ? `${leg.quantity}x ` : ''}${leg.expirationDate} ${leg.strike} ${leg.contractType} @ ${leg.price.toFixed(2)}`
+                ).join(', ')}
+                {' '}(edge ${violation.edge.toFixed(2)})
+              </li>
+            ))}
+          </ul>
+          {expiryViolations.length > 5 && (
+            <div className="chain-warnings-more">and {expiryViolations.length - 5} more</div>
+          )}
+        </div>
+      )}
+
       {loading ? (
         <div className="loading-state">Loading options chain...</div>
       ) : (
@@ -370,6 +450,7 @@ export const EnhancedOptionsChain: React.FC = () => {
                 const callITM = isITM(row.call)
                 const putITM = isITM(row.put)
                 const isATM = underlyingPrice && Math.abs(row.strike - underlyingPrice) < (underlyingPrice * 0.02)
+                const strikeViolations = getStrikeViolations(row.strike)
 
                 return (
                   <tr key={row.strike} className={isATM ? 'atm-row' : ''}>
@@ -397,8 +478,12 @@ export const EnhancedOptionsChain: React.FC = () => {
                     <td className={`call-cell ${callITM ? 'itm' : 'otm'}`}>
                       {formatPercent(row.call?.implied_volatility)}
                     </td>
-                    <td className="strike-cell">
+                    <td
+                      className={`strike-cell ${strikeViolations.length > 0 ? 'violation' : ''}`}
+                      title={strikeViolations.map(violation => violation.description).join('\n')}
+                    >
                       <strong>${row.strike.toFixed(2)}</strong>
+                      {strikeViolations.length > 0 && <span className="violation-flag"> ⚠</span>}
                     </td>
                     <td className={`put-cell ${putITM ? 'itm' : 'otm'}`}>
                       {formatPercent(row.put?.implied_volatility)}
@@ -615,6 +700,17 @@ export const EnhancedOptionsChain: React.FC = () => {
           color: white;
         }
 
+        .iv-rank-value {
+          font-size: 1.15rem;
+          font-weight: 700;
+          color: white;
+        }
+
+        .iv-rank-range {
+          font-size: 0.85rem;
+          color: rgba(255, 255, 255, 0.8);
+        }
+
         .chain-controls {
           display: flex;
           flex-wrap: wrap;
@@ -762,6 +858,51 @@ export const EnhancedOptionsChain: React.FC = () => {
           color: #92400e;
         }
 
+        .strike-cell.violation {
+          box-shadow: inset 0 0 0 2px #ef4444;
+        }
+
+        .violation-flag {
+          color: #dc2626;
+        }
+
+        .chain-warnings {
+          padding: 1rem 1.5rem;
+          background: #fef2f2;
+          border: 1px solid #fecaca;
+          border-radius: 8px;
+          margin-bottom: 1.5rem;
+          color: #991b1b;
+          font-size: 0.875rem;
+        }
+
+        .chain-warnings-title {
+          font-weight: 600;
+          margin-bottom: 0.5rem;
+        }
+
+        .chain-warnings ul {
+          margin: 0;
+          padding-left: 1.25rem;
+          list-style: disc;
+        }
+
+        .chain-warning-type {
+          display: inline-block;
+          margin-right: 0.5rem;
+          padding: 0 0.375rem;
+          background: #fee2e2;
+          border-radius: 4px;
+          font-size: 0.75rem;
+          font-weight: 600;
+          text-transform: uppercase;
+        }
+
+        .chain-warnings-more {
+          margin-top: 0.25rem;
+          font-size: 0.75rem;
+        }
+
         .volume-cell {
           position: relative;
           display: flex;
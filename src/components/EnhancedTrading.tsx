@@ -11,6 +11,7 @@ import KellyCriterion from './KellyCriterion'
 import MultiLegStrategyBuilder from './MultiLegStrategyBuilder'
 import { GreeksCalculator } from '../services/greeksCalculator'
 import { StrategyValidationService, type StrategyLeg, type ValidationResult } from '../services/strategyValidationService'
+import { MarginService } from '../services/marginService'
 import type { OptionsContract } from '../types/options'
 
 interface Strategy {
@@ -52,7 +53,6 @@ export default function EnhancedTrading() {
   const [regime, setRegime] = useState<MarketRegime>('Bull')
   const [selectedStrategy, setSelectedStrategy] = useState<Strategy | null>(null)
   const [selectedUnderlying, setSelectedUnderlying] = useState<string>('')
-  const [contracts, setContracts] = useState<OptionsContract[]>([])
   const [selectedContract, setSelectedContract] = useState<OptionsContract | null>(null)
   const [quantity, setQuantity] = useState('')
   const [loading, setLoading] = useState(false)
@@ -67,13 +67,21 @@ export default function EnhancedTrading() {
     }
   }, [selectedUnderlying])
 
+  // The chain lives in the context, which re-solves its IVs on every price tick.
+  // Contracts go in first so the IVs are solved once, when the spot arrives
   const loadContracts = () => {
     setLoading(true)
     const allContracts = PolygonService.getOptionsChainForUnderlying(selectedUnderlying)
-    setContracts(allContracts)
+    dispatch({ type: 'UPDATE_CONTRACT_PRICES', payload: allContracts })
+    dispatch({ type: 'SET_UNDERLYING_PRICES', payload: { [selectedUnderlying]: getUnderlyingPrice(selectedUnderlying) } })
     setLoading(false)
   }
 
+  const contracts = useMemo(
+    () => state.contracts.filter(contract => contract.underlying_ticker === selectedUnderlying),
+    [state.contracts, selectedUnderlying]
+  )
+
   const underlyingPrice = selectedUnderlying ? getUnderlyingPrice(selectedUnderlying) : 100
 
   const strategies = STRATEGY_CONFIG[regime]
@@ -82,13 +90,21 @@ export default function EnhancedTrading() {
   const canProceedToStep3 = selectedStrategy && (selectedContract || multiLegLegs.length > 0)
   const isMultiLegStrategy = selectedStrategy ? StrategyValidationService.isMultiLegStrategy(selectedStrategy.name) : false
 
+  const orderMargin = selectedContract && parseInt(quantity) > 0
+    ? MarginService.calculate(
+      StrategyValidationService.toPayoffLegs([{ contract: selectedContract, action: 'buy', quantity: parseInt(quantity) }]),
+      underlyingPrice,
+      undefined,
+      selectedUnderlying
+    )
+    : null
+
   const handlePlaceOrder = () => {
-    if (!selectedContract || !quantity || parseInt(quantity) <= 0) return
+    if (!selectedContract || !quantity || parseInt(quantity) <= 0 || !orderMargin) return
 
     const orderQuantity = parseInt(quantity)
-    const totalCost = orderQuantity * selectedContract.last * 100
 
-    if (totalCost > state.buyingPower) {
+    if (orderMargin.buyingPowerEffect > state.buyingPower) {
       alert('Insufficient buying power')
       return
     }
@@ -322,6 +338,7 @@ export default function EnhancedTrading() {
                   onSelectContract={setSelectedContract}
                   selectedContract={selectedContract}
                   underlyingPrice={underlyingPrice}
+                  chainIVs={state.chainIVs}
                 />
               )}
             </div>
@@ -410,19 +427,27 @@ export default function EnhancedTrading() {
                 />
               </div>
 
-              {quantity && parseInt(quantity) > 0 && (
+              {orderMargin && (
                 <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
-                  <div className="grid grid-cols-2 gap-4">
+                  <div className="grid grid-cols-3 gap-4">
                     <div>
                       <div className="text-sm text-blue-700">Total Cost</div>
                       <div className="text-xl font-bold text-blue-900">
-                        ${(parseInt(quantity) * selectedContract.last * 100).toLocaleString()}
+                        ${orderMargin.netPremium.toLocaleString()}
                       </div>
                     </div>
                     <div>
-                      <div className="text-sm text-blue-700">Remaining Buying Power</div>
+                      <div className="text-sm text-blue-700">
+                        Margin Requirement ({orderMargin.mode === 'portfolio' ? 'Portfolio' : 'Reg-T'})
+                      </div>
                       <div className="text-xl font-bold text-blue-900">
-                        ${(state.buyingPower - (parseInt(quantity) * selectedContract.last * 100)).toLocaleString()}
+                        ${orderMargin.requirement.toLocaleString()}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-blue-700">Remaining Buying Power</div>
+                      <div className={`text-xl font-bold ${orderMargin.buyingPowerEffect > state.buyingPower ? 'text-red-600' : 'text-blue-900'}`}>
+                        ${(state.buyingPower - orderMargin.buyingPowerEffect).toLocaleString()}
                       </div>
                     </div>
                   </div>
@@ -1,6 +1,6 @@
 import React from 'react'
 import { Info, TrendingUp, TrendingDown, Zap, Wind, DollarSign } from 'lucide-react'
-import { GreeksData } from '../services/greeksCalculator'
+import { GreeksData, GreekType, HigherOrderGreek } from '../services/greeksCalculator'
 import { GreeksCalculator } from '../services/greeksCalculator'
 
 interface GreeksPanelProps {
@@ -9,8 +9,17 @@ interface GreeksPanelProps {
   className?: string
 }
 
+const HIGHER_ORDER_GREEKS: Array<{ key: HigherOrderGreek; name: string; tooltip: string }> = [
+  { key: 'vanna', name: 'Vanna', tooltip: 'Change in Delta per 1% change in implied volatility.' },
+  { key: 'volga', name: 'Volga', tooltip: 'Change in Vega per 1% change in implied volatility (vega convexity).' },
+  { key: 'charm', name: 'Charm', tooltip: 'Change in Delta per calendar day that passes (delta bleed).' },
+  { key: 'speed', name: 'Speed', tooltip: 'Change in Gamma per $1 change in underlying price.' },
+  { key: 'color', name: 'Color', tooltip: 'Change in Gamma per calendar day that passes.' },
+  { key: 'zomma', name: 'Zomma', tooltip: 'Change in Gamma per 1% change in implied volatility.' }
+]
+
 export default function GreeksPanel({ greeks, contractType, className = '' }: GreeksPanelProps) {
-  const getGreekGaugeColor = (value: number, greekType: 'delta' | 'gamma' | 'theta' | 'vega' | 'rho'): string => {
+  const getGreekGaugeColor = (value: number, greekType: GreekType): string => {
     const interpretation = GreeksCalculator.getGreekInterpretation(value, greekType)
     switch (interpretation.color) {
       case 'green': return 'bg-green-500'
@@ -23,7 +32,7 @@ export default function GreeksPanel({ greeks, contractType, className = '' }: Gr
 
   const renderGreekGauge = (
     value: number,
-    greekType: 'delta' | 'gamma' | 'theta' | 'vega' | 'rho',
+    greekType: GreekType,
     min: number,
     max: number
   ) => {
@@ -194,6 +203,41 @@ export default function GreeksPanel({ greeks, contractType, className = '' }: Gr
           {renderGreekGauge(greeks.rho, 'rho', contractType === 'call' ? 0 : -0.5, contractType === 'call' ? 0.5 : 0)}
           <p className="text-sm text-gray-600 mt-2">{rhoInterpretation.description}</p>
         </div>
+
+        {greeks.vanna !== undefined && (
+          <div className="border-t border-gray-200 pt-4">
+            <h4 className="font-semibold text-gray-900 mb-3">Higher-Order Greeks</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {HIGHER_ORDER_GREEKS.map(({ key, name, tooltip }) => {
+                const value = greeks[key] || 0
+                const interpretation = GreeksCalculator.getGreekInterpretation(value, key)
+                return (
+                  <div key={key} className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                    <div className="flex items-center mb-1">
+                      <span className="text-sm font-medium text-gray-700">{name}</span>
+                      <div className="group relative ml-1">
+                        <Info className="h-3 w-3 text-gray-400 cursor-help" />
+                        <div className="hidden group-hover:block absolute z-10 w-56 p-3 bg-gray-900 text-white text-xs rounded-lg shadow-lg left-4 top-0">
+                          {tooltip}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-lg font-bold text-gray-900 font-mono">
+                      {GreeksCalculator.formatGreek(value, key)}
+                    </div>
+                    <div className={`text-xs font-medium ${interpretation.color === 'green' ? 'text-green-600' : interpretation.color === 'yellow' ? 'text-yellow-600' : interpretation.color === 'orange' ? 'text-orange-600' : 'text-red-600'}`}>
+                      {interpretation.label}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{interpretation.description}</p>
+                  </div>
+                )
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Weekend delta bleed (3 days of charm): {((greeks.charm || 0) * 3).toFixed(4)}
+            </p>
+          </div>
+        )}
       </div>
 
       <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
@@ -201,7 +245,7 @@ export default function GreeksPanel({ greeks, contractType, className = '' }: Gr
         <div className="text-sm text-blue-800 space-y-1">
           <p>• Option price: ${greeks.price.toFixed(2)}</p>
           <p>• Implied Volatility: {(greeks.impliedVolatility * 100).toFixed(1)}%</p>
-          <p>• Greeks calculated using Black-Scholes model</p>
+          <p>• Greeks calculated using {GreeksCalculator.getPricingModelLabel(greeks.pricingModel || 'black-scholes')} model</p>
         </div>
       </div>
     </div>
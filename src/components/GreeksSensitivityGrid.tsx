@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react'
+import React, { useMemo, useState } from 'react'
 import { OptionsContract } from '../types/options'
 import { GreeksCalculator } from '../services/greeksCalculator'
 
@@ -13,6 +13,8 @@ export default function GreeksSensitivityGrid({
   underlyingPrice,
   className = ''
 }: GreeksSensitivityGridProps) {
+  const [view, setView] = useState<'first-order' | 'higher-order'>('first-order')
+
   const sensitivityData = useMemo(() => {
     const priceRange = {
       min: underlyingPrice * 0.8,
@@ -62,6 +64,13 @@ export default function GreeksSensitivityGrid({
     return getHeatmapColor(vega, min, max)
   }
 
+  const getRelativeColor = (value: number, greekType: 'vanna' | 'charm' | 'speed' | 'zomma'): string => {
+    const allValues = sensitivityData.map(d => d[greekType])
+    const min = Math.min(...allValues)
+    const max = Math.max(...allValues)
+    return max === min ? 'bg-yellow-300 text-gray-900' : getHeatmapColor(value, min, max)
+  }
+
   const formatPrice = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -77,11 +86,35 @@ export default function GreeksSensitivityGrid({
 
   return (
     <div className={`bg-white rounded-lg shadow-lg border border-gray-200 p-6 ${className}`}>
-      <div className="mb-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-2">Greeks Sensitivity Heatmap</h3>
-        <p className="text-sm text-gray-600">
-          See how Greeks change across different underlying prices
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Greeks Sensitivity Heatmap</h3>
+          <p className="text-sm text-gray-600">
+            See how Greeks change across different underlying prices
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setView('first-order')}
+            className={`px-3 py-1 text-xs rounded ${
+              view === 'first-order'
+                ? 'bg-blue-100 text-blue-700 border border-blue-300'
+                : 'bg-gray-100 text-gray-600 border border-gray-300'
+            }`}
+          >
+            First-Order
+          </button>
+          <button
+            onClick={() => setView('higher-order')}
+            className={`px-3 py-1 text-xs rounded ${
+              view === 'higher-order'
+                ? 'bg-blue-100 text-blue-700 border border-blue-300'
+                : 'bg-gray-100 text-gray-600 border border-gray-300'
+            }`}
+          >
+            Higher-Order
+          </button>
+        </div>
       </div>
 
       <div className="overflow-x-auto">
@@ -94,18 +127,37 @@ export default function GreeksSensitivityGrid({
               <th className="px-4 py-3 text-left font-semibold text-gray-700">
                 % Change
               </th>
-              <th className="px-4 py-3 text-center font-semibold text-gray-700">
-                Delta
-              </th>
-              <th className="px-4 py-3 text-center font-semibold text-gray-700">
-                Gamma
-              </th>
-              <th className="px-4 py-3 text-center font-semibold text-gray-700">
-                Theta
-              </th>
-              <th className="px-4 py-3 text-center font-semibold text-gray-700">
-                Vega
-              </th>
+              {view === 'first-order' ? (
+                <>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Delta
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Gamma
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Theta
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Vega
+                  </th>
+                </>
+              ) : (
+                <>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Vanna
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Charm
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Speed
+                  </th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">
+                    Zomma
+                  </th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
@@ -129,18 +181,37 @@ export default function GreeksSensitivityGrid({
                   }`}>
                     {formatPercent(row.price)}
                   </td>
-                  <td className={`px-4 py-3 text-center font-mono ${getDeltaColor(row.delta)}`}>
-                    {row.delta.toFixed(4)}
-                  </td>
-                  <td className={`px-4 py-3 text-center font-mono ${getGammaColor(row.gamma)}`}>
-                    {row.gamma.toFixed(5)}
-                  </td>
-                  <td className={`px-4 py-3 text-center font-mono ${getThetaColor(row.theta)}`}>
-                    {row.theta.toFixed(4)}
-                  </td>
-                  <td className={`px-4 py-3 text-center font-mono ${getVegaColor(row.vega)}`}>
-                    {row.vega.toFixed(4)}
-                  </td>
+                  {view === 'first-order' ? (
+                    <>
+                      <td className={`px-4 py-3 text-center font-mono ${getDeltaColor(row.delta)}`}>
+                        {row.delta.toFixed(4)}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getGammaColor(row.gamma)}`}>
+                        {row.gamma.toFixed(5)}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getThetaColor(row.theta)}`}>
+                        {row.theta.toFixed(4)}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getVegaColor(row.vega)}`}>
+                        {row.vega.toFixed(4)}
+                      </td>
+                    </>
+                  ) : (
+                    <>
+                      <td className={`px-4 py-3 text-center font-mono ${getRelativeColor(row.vanna, 'vanna')}`}>
+                        {GreeksCalculator.formatGreek(row.vanna, 'vanna')}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getRelativeColor(row.charm, 'charm')}`}>
+                        {GreeksCalculator.formatGreek(row.charm, 'charm')}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getRelativeColor(row.speed, 'speed')}`}>
+                        {GreeksCalculator.formatGreek(row.speed, 'speed')}
+                      </td>
+                      <td className={`px-4 py-3 text-center font-mono ${getRelativeColor(row.zomma, 'zomma')}`}>
+                        {GreeksCalculator.formatGreek(row.zomma, 'zomma')}
+                      </td>
+                    </>
+                  )}
                 </tr>
               )
             })}
@@ -201,6 +272,11 @@ export default function GreeksSensitivityGrid({
         <p className="text-xs text-gray-600 mt-2">
           Colors indicate relative values within each Greek. Darker greens show higher values (more favorable for long positions).
         </p>
+        {view === 'higher-order' && (
+          <p className="text-xs text-gray-600 mt-1">
+            Vanna and Zomma are per 1% IV change; Charm is delta change per calendar day; Speed is gamma change per $1 move.
+          </p>
+        )}
       </div>
     </div>
   )
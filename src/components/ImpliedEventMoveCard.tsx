@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react'
+import { Zap, Info } from 'lucide-react'
+import { MarketEventsService, MarketEvent } from '../services/marketEventsService'
+import { liveOptionsDataService } from '../services/liveOptionsDataService'
+import {
+  EventAdjustedPricingService,
+  ImpliedEventMove,
+  PostEventIVForecast
+} from '../services/eventAdjustedPricingService'
+import { EarningsMoveService } from '../services/earningsMoveService'
+
+interface ImpliedEventMoveCardProps {
+  ticker: string
+  daysAhead?: number
+}
+
+export default function ImpliedEventMoveCard({
+  ticker,
+  daysAhead = 60
+}: ImpliedEventMoveCardProps) {
+  const [event, setEvent] = useState<MarketEvent | null>(null)
+  const [impliedMove, setImpliedMove] = useState<ImpliedEventMove | null>(null)
+  const [atmForecasts, setAtmForecasts] = useState<PostEventIVForecast[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadImpliedMove()
+  }, [ticker, daysAhead])
+
+  const loadImpliedMove = async () => {
+    setLoading(true)
+    setImpliedMove(null)
+    setAtmForecasts([])
+
+    try {
+      const upcoming = await MarketEventsService.getUpcomingEvents(ticker, daysAhead)
+      const nextEvent = upcoming.find(e => e.event_type === 'earnings') || upcoming[0] || null
+      setEvent(nextEvent)
+      if (!nextEvent) return
+
+      const [contracts, spotPrice] = await Promise.all([
+        liveOptionsDataService.fetchOptionsForTicker(ticker),
+        liveOptionsDataService.getUnderlyingPrice(ticker)
+      ])
+      if (!spotPrice || contracts.length === 0) return
+
+      const move = EventAdjustedPricingService.calculateImpliedEventMove(contracts, spotPrice, nextEvent.event_date)
+      setImpliedMove(move)
+      if (!move) return
+      if (nextEvent.event_type === 'earnings') {
+        EarningsMoveService.recordImpliedMove(ticker, move)
+      }
+
+      const atmContracts = contracts.filter(contract =>
+        move.termStructure.some(point =>
+          point.expirationDate === contract.expiration_date && point.atmStrike === contract.strike_price))
+      setAtmForecasts(EventAdjustedPricingService.forecastPostEventIVs(atmContracts, move))
+    } catch (error) {
+      console.error('Error loading implied event move:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatPercent = (value: number | null) => {
+    return value === null ? '--' : `${(value * 100).toFixed(1)}%`
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-20 bg-gray-200 rounded"></div>
+          <div className="h-20 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  const forecastByExpiry = (expirationDate: string) => {
+    const forecasts = atmForecasts.filter(forecast => forecast.expirationDate === expirationDate)
+    if (forecasts.length === 0) return null
+    return forecasts.reduce((sum, forecast) => sum + forecast.postEventIV, 0) / forecasts.length
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <Zap className="w-6 h-6 text-orange-600" />
+          <h3 className="text-xl font-bold text-gray-900">Market-Implied Event Move</h3>
+        </div>
+        {event && (
+          <p className="text-sm text-gray-600 mt-1">
+            {event.event_title} on {new Date(event.event_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </p>
+        )}
+      </div>
+
+      <div className="p-6">
+        {!event ? (
+          <p className="text-gray-500 text-center py-8">No upcoming events in the next {daysAhead} days</p>
+        ) : !impliedMove ? (
+          <p className="text-gray-500 text-center py-8">
+            The option chain does not have expiries on both sides of the event to extract an implied move
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div className="bg-orange-50 rounded-lg p-3">
+                <div className="text-xs text-orange-700">Implied Move</div>
+                <div className="text-2xl font-bold text-orange-900">±{formatPercent(impliedMove.impliedMove)}</div>
+                <div className="text-xs text-orange-700">±${impliedMove.impliedMoveDollars.toFixed(2)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600">Term Structure</div>
+                <div className="text-lg font-bold text-gray-900">±{formatPercent(impliedMove.termStructureMove)}</div>
+                <div className="text-xs text-gray-500">Base IV {formatPercent(impliedMove.baseVolatility)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600">ATM Straddle</div>
+                <div className="text-lg font-bold text-gray-900">±{formatPercent(impliedMove.straddleMove)}</div>
+                <div className="text-xs text-gray-500">{impliedMove.straddleExpiry || '--'}</div>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2">Expiry</th>
+                  <th className="py-2">ATM Strike</th>
+                  <th className="py-2 text-right">ATM IV</th>
+                  <th className="py-2 text-right">Post-Event IV</th>
+                  <th className="py-2 text-right">Crush</th>
+                </tr>
+              </thead>
+              <tbody>
+                {impliedMove.termStructure.map(point => {
+                  const postEventIV = point.spansEvent ? forecastByExpiry(point.expirationDate) : null
+                  return (
+                    <tr key={point.expirationDate} className="border-b border-gray-100">
+                      <td className="py-2">
+                        {point.expirationDate}
+                        {point.spansEvent && <span className="ml-2 text-xs text-orange-600">spans event</span>}
+                      </td>
+                      <td className="py-2">${point.atmStrike.toFixed(2)}</td>
+                      <td className="py-2 text-right">{formatPercent(point.atmIV)}</td>
+                      <td className="py-2 text-right">{formatPercent(postEventIV)}</td>
+                      <td className="py-2 text-right text-red-600">
+                        {postEventIV !== null ? `-${((1 - postEventIV / point.atmIV) * 100).toFixed(1)}%` : '--'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <p className="text-xs text-gray-500 mt-3 flex items-start">
+              <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              Moves are expected absolute moves on the event. Post-event IV removes the event variance
+              from each expiry's total variance.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useEffect } from 'react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Area, ComposedChart } from 'recharts'
-import { TrendingUp, TrendingDown, Minus, Info, Sliders } from 'lucide-react'
-import { PayoffCalculationService, StrategyPayoff, StrategyLeg } from '../services/payoffCalculationService'
+import { TrendingUp, TrendingDown, Minus, Info, Sliders, Clock } from 'lucide-react'
+import { PayoffCalculationService, StrategyPayoff, StrategyLeg, TimeSlice } from '../services/payoffCalculationService'
 import { OptionsContract } from '../types/options'
 import { GreeksCalculator } from '../services/greeksCalculator'
+import { VolatilitySurfaceService, VolatilitySurface, StickyMode } from '../services/volatilitySurfaceService'
+import MonteCarloPanel from './MonteCarloPanel'
 
 interface InteractivePayoffDiagramProps {
   contract?: OptionsContract
@@ -11,6 +13,8 @@ interface InteractivePayoffDiagramProps {
   underlyingPrice: number
   className?: string
   legs?: StrategyLeg[]
+  volatility?: number
+  daysToExpiry?: number
 }
 
 export default function InteractivePayoffDiagram({
@@ -18,11 +22,15 @@ export default function InteractivePayoffDiagram({
   strategyName,
   underlyingPrice,
   className = '',
-  legs
+  legs,
+  volatility,
+  daysToExpiry
 }: InteractivePayoffDiagramProps) {
   const [showBreakEvens, setShowBreakEvens] = useState(true)
   const [showStats, setShowStats] = useState(true)
   const [showControls, setShowControls] = useState(false)
+  const [showTimeSlices, setShowTimeSlices] = useState(false)
+  const [sliceDays, setSliceDays] = useState(7)
 
   const [priceAdjustment, setPriceAdjustment] = useState(0)
   const [volatilityAdjustment, setVolatilityAdjustment] = useState(0)
@@ -30,6 +38,26 @@ export default function InteractivePayoffDiagram({
     contract ? Math.max(1, GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365) : 30
   )
 
+  const [volatilityModel, setVolatilityModel] = useState<'flat' | StickyMode>('flat')
+  const [surface, setSurface] = useState<VolatilitySurface | null>(null)
+
+  useEffect(() => {
+    if (!contract || volatilityModel === 'flat' || surface?.underlying === contract.underlying_ticker) return
+
+    let cancelled = false
+    VolatilitySurfaceService.loadSurface(contract.underlying_ticker).then((loaded) => {
+      if (!cancelled) setSurface(loaded)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [contract, volatilityModel, surface?.underlying])
+
+  const activeSurface = contract && volatilityModel !== 'flat' && surface?.underlying === contract.underlying_ticker && surface.slices.length > 0
+    ? surface
+    : undefined
+
   const adjustedUnderlyingPrice = useMemo(
     () => underlyingPrice * (1 + priceAdjustment / 100),
     [underlyingPrice, priceAdjustment]
@@ -55,15 +83,38 @@ export default function InteractivePayoffDiagram({
     return PayoffCalculationService.getBullCallSpread(underlyingPrice)
   }, [legs, strategyName, contract, underlyingPrice])
 
+  const simulationInputs = useMemo(() => {
+    if (legs && legs.length > 0) {
+      return { legs, volatility: volatility || 0.3, timeToExpiry: (daysToExpiry || 30) / 365 }
+    }
+    if (contract) {
+      const leg: StrategyLeg = {
+        type: contract.contract_type,
+        strike: contract.strike_price,
+        premium: contract.last,
+        action: 'buy',
+        quantity: 1
+      }
+      return {
+        legs: [leg],
+        volatility: volatility || contract.implied_volatility || 0.3,
+        timeToExpiry: daysToExpiry ? daysToExpiry / 365 : GreeksCalculator.calculateTimeToExpiry(contract.expiration_date)
+      }
+    }
+    return null
+  }, [legs, contract, volatility, daysToExpiry])
+
   const scenarioPayoffData: StrategyPayoff | null = useMemo(() => {
-    if (showControls && contract && (priceAdjustment !== 0 || volatilityAdjustment !== 0 || daysToExpiration !== GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365)) {
+    if (showControls && contract && (priceAdjustment !== 0 || volatilityAdjustment !== 0 || activeSurface || daysToExpiration !== GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365)) {
       const adjustedGreeks = GreeksCalculator.calculateScenarioGreeks(
         contract,
         underlyingPrice,
         {
           underlyingPriceChange: priceAdjustment / 100,
           volatilityChange: volatilityAdjustment / 100,
-          daysPassed: (GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365) - daysToExpiration
+          daysPassed: (GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365) - daysToExpiration,
+          volatilitySurface: activeSurface,
+          stickyMode: volatilityModel === 'flat' ? undefined : volatilityModel
         }
       )
 
@@ -77,17 +128,51 @@ export default function InteractivePayoffDiagram({
       return PayoffCalculationService.calculatePayoff([leg], adjustedUnderlyingPrice, 'Scenario')
     }
     return null
-  }, [contract, underlyingPrice, priceAdjustment, volatilityAdjustment, daysToExpiration, showControls])
+  }, [contract, underlyingPrice, priceAdjustment, volatilityAdjustment, daysToExpiration, showControls, activeSurface, volatilityModel])
+
+  // Legs carrying their own expiry and IV, which time-sliced valuation needs
+  const sliceLegs: StrategyLeg[] | null = useMemo(() => {
+    if (legs && legs.some(leg => leg.expiry)) return legs
+    if (!legs && !strategyName && contract) {
+      return [{
+        type: contract.contract_type,
+        strike: contract.strike_price,
+        premium: contract.last,
+        action: 'buy',
+        quantity: 1,
+        expiry: contract.expiration_date,
+        impliedVolatility: contract.implied_volatility
+      }]
+    }
+    return null
+  }, [legs, strategyName, contract])
+
+  const timeSlices: TimeSlice[] = useMemo(() => {
+    if (!showTimeSlices || !sliceLegs) return []
+    return PayoffCalculationService.calculateTimeSlices(sliceLegs, underlyingPrice, {
+      daysForward: sliceDays > 0 ? [sliceDays] : [],
+      defaultVolatility: volatility,
+      underlyingTicker: contract?.underlying_ticker
+    })
+  }, [showTimeSlices, sliceLegs, underlyingPrice, sliceDays, volatility, contract])
 
   const chartData = useMemo(() => {
-    const baseData = payoffData.points.map((point, idx) => ({
-      price: point.price,
-      profit: point.profit,
-      scenarioProfit: scenarioPayoffData ? scenarioPayoffData.points[idx]?.profit || 0 : null,
-      zero: 0
-    }))
+    const baseData = payoffData.points.map((point, idx) => {
+      const row: Record<string, number | null> = {
+        price: point.price,
+        profit: point.profit,
+        scenarioProfit: scenarioPayoffData ? scenarioPayoffData.points[idx]?.profit || 0 : null,
+        zero: 0
+      }
+      timeSlices.forEach((slice, sliceIdx) => {
+        row[`slice${sliceIdx}`] = slice.points[idx]?.profit ?? null
+      })
+      return row
+    })
     return baseData
-  }, [payoffData, scenarioPayoffData])
+  }, [payoffData, scenarioPayoffData, timeSlices])
+
+  const sliceColors = ['#f59e0b', '#ec4899', '#14b8a6', '#6366f1', '#84cc16', '#f97316']
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -118,6 +203,11 @@ export default function InteractivePayoffDiagram({
           <p className={`text-sm font-bold ${data.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
             Current P&L: {formatCurrency(data.profit)}
           </p>
+          {timeSlices.map((slice, idx) => data[`slice${idx}`] !== null && (
+            <p key={slice.label} className="text-xs font-medium" style={{ color: sliceColors[idx % sliceColors.length] }}>
+              {slice.label}: {formatCurrency(data[`slice${idx}`])}
+            </p>
+          ))}
           {data.scenarioProfit !== null && (
             <p className={`text-sm font-bold ${data.scenarioProfit >= 0 ? 'text-blue-600' : 'text-orange-600'}`}>
               Scenario P&L: {formatCurrency(data.scenarioProfit)}
@@ -152,6 +242,19 @@ export default function InteractivePayoffDiagram({
         </div>
 
         <div className="flex gap-2">
+          {sliceLegs && (
+            <button
+              onClick={() => setShowTimeSlices(!showTimeSlices)}
+              className={`px-3 py-1 text-xs rounded-md transition-colors flex items-center gap-1 ${
+                showTimeSlices
+                  ? 'bg-amber-100 text-amber-700 border border-amber-300'
+                  : 'bg-gray-100 text-gray-600 border border-gray-300'
+              }`}
+            >
+              <Clock className="h-3 w-3" />
+              Time Slices
+            </button>
+          )}
           <button
             onClick={() => setShowControls(!showControls)}
             className={`px-3 py-1 text-xs rounded-md transition-colors flex items-center gap-1 ${
@@ -189,7 +292,12 @@ export default function InteractivePayoffDiagram({
       {showControls && contract && (
         <div className="mb-6 p-4 bg-purple-50 border border-purple-200 rounded-lg">
           <div className="flex items-center justify-between mb-4">
-            <h4 className="font-semibold text-purple-900">Scenario Analysis</h4>
+            <div>
+              <h4 className="font-semibold text-purple-900">Scenario Analysis</h4>
+              <p className="text-xs text-purple-600">
+                Pricing model: {GreeksCalculator.getPricingModelLabel(GreeksCalculator.getPricingModel(contract))}
+              </p>
+            </div>
             <button
               onClick={handleReset}
               className="px-3 py-1 text-xs bg-white border border-purple-300 text-purple-700 rounded hover:bg-purple-100"
@@ -219,6 +327,24 @@ export default function InteractivePayoffDiagram({
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-purple-900 mb-2">
+                Volatility Model
+              </label>
+              <select
+                value={volatilityModel}
+                onChange={(e) => setVolatilityModel(e.target.value as 'flat' | StickyMode)}
+                className="w-full px-3 py-2 text-sm bg-white border border-purple-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              >
+                <option value="flat">Flat IV (contract implied volatility)</option>
+                <option value="sticky-strike">Surface · Sticky Strike</option>
+                <option value="sticky-delta">Surface · Sticky Delta</option>
+              </select>
+              {volatilityModel !== 'flat' && !activeSurface && (
+                <p className="text-xs text-purple-600 mt-1">Surface unavailable; using flat IV.</p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-purple-900 mb-2">
                 Implied Volatility Change: {volatilityAdjustment > 0 ? '+' : ''}{volatilityAdjustment.toFixed(1)}%
@@ -265,13 +391,13 @@ export default function InteractivePayoffDiagram({
                   <div>
                     <span className="text-purple-600">Max Profit:</span>
                     <span className="ml-2 font-medium text-purple-900">
-                      {scenarioPayoffData.maxProfit === Infinity ? '∞' : formatCurrency(scenarioPayoffData.maxProfit)}
+                      {scenarioPayoffData.maxProfitUnbounded ? '∞' : formatCurrency(scenarioPayoffData.maxProfit)}
                     </span>
                   </div>
                   <div>
                     <span className="text-purple-600">Max Loss:</span>
                     <span className="ml-2 font-medium text-purple-900">
-                      {scenarioPayoffData.maxLoss === -Infinity ? '∞' : formatCurrency(scenarioPayoffData.maxLoss)}
+                      {scenarioPayoffData.maxLossUnbounded ? '∞' : formatCurrency(scenarioPayoffData.maxLoss)}
                     </span>
                   </div>
                 </div>
@@ -289,7 +415,7 @@ export default function InteractivePayoffDiagram({
               <span className="text-xs font-medium text-green-700">Max Profit</span>
             </div>
             <p className="text-lg font-bold text-green-700">
-              {payoffData.maxProfit === Infinity ? '∞' : formatCurrency(payoffData.maxProfit)}
+              {payoffData.maxProfitUnbounded ? '∞' : formatCurrency(payoffData.maxProfit)}
             </p>
           </div>
 
@@ -299,7 +425,7 @@ export default function InteractivePayoffDiagram({
               <span className="text-xs font-medium text-red-700">Max Loss</span>
             </div>
             <p className="text-lg font-bold text-red-700">
-              {payoffData.maxLoss === -Infinity ? '∞' : formatCurrency(payoffData.maxLoss)}
+              {payoffData.maxLossUnbounded ? '∞' : formatCurrency(payoffData.maxLoss)}
             </p>
           </div>
 
@@ -309,7 +435,7 @@ export default function InteractivePayoffDiagram({
               <span className="text-xs font-medium text-blue-700">Risk/Reward</span>
             </div>
             <p className="text-lg font-bold text-blue-700">
-              {payoffData.maxProfit === Infinity || payoffData.maxLoss === -Infinity
+              {payoffData.maxProfitUnbounded || payoffData.maxLossUnbounded
                 ? '∞'
                 : (Math.abs(payoffData.maxProfit / payoffData.maxLoss)).toFixed(2)}
             </p>
@@ -328,6 +454,43 @@ export default function InteractivePayoffDiagram({
                 : `${payoffData.breakEvenPoints.length} points`}
             </p>
           </div>
+
+          <p className="col-span-2 md:col-span-4 text-xs text-gray-500">
+            P&L change per $1 drop below the lowest strike: {formatCurrency(-payoffData.lowerTailSlope)}
+            {' · '}per $1 rise above the highest strike: {formatCurrency(payoffData.upperTailSlope)}
+          </p>
+        </div>
+      )}
+
+      {showStats && simulationInputs && (
+        <MonteCarloPanel
+          legs={simulationInputs.legs}
+          underlyingPrice={underlyingPrice}
+          volatility={simulationInputs.volatility}
+          timeToExpiry={simulationInputs.timeToExpiry}
+          className="mb-6"
+        />
+      )}
+
+      {showTimeSlices && timeSlices.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-4 text-xs">
+          <label className="flex items-center text-gray-600">
+            T+
+            <input
+              type="number"
+              min="0"
+              value={sliceDays}
+              onChange={(e) => setSliceDays(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-16 mx-1 border border-gray-300 rounded px-1 py-0.5"
+            />
+            days
+          </label>
+          {timeSlices.map((slice, idx) => (
+            <span key={slice.label} className="flex items-center gap-1 text-gray-700">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: sliceColors[idx % sliceColors.length] }} />
+              {slice.label}
+            </span>
+          ))}
         </div>
       )}
 
@@ -431,6 +594,17 @@ export default function InteractivePayoffDiagram({
               activeDot={{ r: 6, strokeWidth: 2, fill: '#ffffff' }}
             />
 
+            {timeSlices.map((slice, idx) => (
+              <Line
+                key={slice.label}
+                type="monotone"
+                dataKey={`slice${idx}`}
+                stroke={sliceColors[idx % sliceColors.length]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+
             {scenarioPayoffData && (
               <Line
                 type="monotone"
@@ -3,6 +3,7 @@ import { RefreshCw, Filter, Info, TrendingUp, TrendingDown, Activity, AlertCircl
 import { PolygonService } from '../services/polygonService'
 import { SentimentHeatmapService, type HeatmapData, type HeatmapCell, type HeatmapFilters } from '../services/sentimentHeatmapService'
 import { LiquidOptionsSentimentService } from '../services/liquidOptionsSentimentService'
+import { IVRankService, type IVRankSummary } from '../services/ivRankService'
 
 interface LiquidOptionsSentimentHeatmapProps {
   className?: string
@@ -24,6 +25,7 @@ export default function LiquidOptionsSentimentHeatmap({
   const [refreshing, setRefreshing] = useState(false)
   const [showFilters, setShowFilters] = useState(false)
   const [selectedCell, setSelectedCell] = useState<HeatmapCell | null>(null)
+  const [ivRanks, setIvRanks] = useState<Record<string, IVRankSummary>>({})
 
   const [filters, setFilters] = useState<HeatmapFilters>({
     tickers: initialTickers,
@@ -44,6 +46,7 @@ export default function LiquidOptionsSentimentHeatmap({
       const allContracts = PolygonService.getAllOptionsContracts()
       const data = await SentimentHeatmapService.getHeatmapData(allContracts, filters)
       setHeatmapData(data)
+      setIvRanks(await IVRankService.getIVRanks(data.tickers))
     } catch (error) {
       console.error('Error loading heatmap:', error)
     } finally {
@@ -229,6 +232,16 @@ export default function LiquidOptionsSentimentHeatmap({
                 <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded">
                   {row.expiry_date} ({row.days_to_expiry}d) - {row.expiry_type}
                 </span>
+                {ivRanks[row.ticker] && (
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded ${
+                      ivRanks[row.ticker].ivRank >= 50 ? 'bg-orange-100 text-orange-800' : 'bg-blue-100 text-blue-800'
+                    }`}
+                    title={`30-day ATM IV ${(ivRanks[row.ticker].currentIV * 100).toFixed(1)}% (52W ${(ivRanks[row.ticker].low52w * 100).toFixed(1)}% – ${(ivRanks[row.ticker].high52w * 100).toFixed(1)}%)`}
+                  >
+                    IVR {ivRanks[row.ticker].ivRank.toFixed(0)} · IVP {ivRanks[row.ticker].ivPercentile.toFixed(0)}
+                  </span>
+                )}
               </div>
 
               <div className="flex gap-6">
@@ -0,0 +1,186 @@
+import React, { useState, useMemo } from 'react'
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts'
+import { Dices, Info } from 'lucide-react'
+import { StrategyLeg } from '../services/payoffCalculationService'
+import { MonteCarloService, MonteCarloResult } from '../services/monteCarloService'
+
+interface MonteCarloPanelProps {
+  legs: StrategyLeg[]
+  underlyingPrice: number
+  volatility: number
+  timeToExpiry: number
+  // Simulation at the default settings when the parent has already run it;
+  // the panel only simulates again once the settings change
+  defaultResult?: MonteCarloResult | null
+  className?: string
+}
+
+export default function MonteCarloPanel({
+  legs,
+  underlyingPrice,
+  volatility,
+  timeToExpiry,
+  defaultResult,
+  className = ''
+}: MonteCarloPanelProps) {
+  const [profitTarget, setProfitTarget] = useState('')
+  const [stopLoss, setStopLoss] = useState('')
+  const [includeJumps, setIncludeJumps] = useState(false)
+  const [seed, setSeed] = useState(MonteCarloService.DEFAULT_SEED)
+
+  const result: MonteCarloResult | null = useMemo(() => {
+    if (legs.length === 0 || underlyingPrice <= 0 || volatility <= 0 || timeToExpiry <= 0) return null
+
+    const usesDefaults = seed === MonteCarloService.DEFAULT_SEED && profitTarget === '' && stopLoss === '' && !includeJumps
+    if (usesDefaults && defaultResult !== undefined) return defaultResult
+
+    try {
+      return MonteCarloService.simulate(legs, {
+        spotPrice: underlyingPrice,
+        volatility,
+        timeToExpiry,
+        seed,
+        profitTarget: profitTarget !== '' ? Number(profitTarget) : undefined,
+        stopLoss: stopLoss !== '' ? Number(stopLoss) : undefined,
+        // Roughly one -5% +/- 10% shock per year, a typical single-stock jump profile
+        jumps: includeJumps ? { intensity: 1, meanJump: -0.05, jumpVolatility: 0.1 } : undefined
+      })
+    } catch (error) {
+      console.error('Monte Carlo simulation failed:', error)
+      return null
+    }
+  }, [legs, underlyingPrice, volatility, timeToExpiry, seed, profitTarget, stopLoss, includeJumps, defaultResult])
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const formatProbability = (value: number | null) => {
+    return value === null ? '--' : `${(value * 100).toFixed(1)}%`
+  }
+
+  const histogramData = useMemo(() => {
+    if (!result) return []
+    return result.distribution.map(bin => ({
+      pnl: (bin.pnlLow + bin.pnlHigh) / 2,
+      probability: bin.probability * 100
+    }))
+  }, [result])
+
+  if (!result) return null
+
+  return (
+    <div className={`p-4 bg-white border border-gray-200 rounded-lg ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+          <Dices className="h-4 w-4 mr-2 text-indigo-600" />
+          Probability Analysis
+        </h4>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeJumps}
+              onChange={(e) => setIncludeJumps(e.target.checked)}
+              className="rounded mr-1"
+            />
+            Jumps
+          </label>
+          <button
+            onClick={() => setSeed(seed + 1)}
+            className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 text-gray-600"
+            title={`Seed ${seed}`}
+          >
+            Re-run
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+        <div className="bg-indigo-50 rounded p-2">
+          <div className="text-xs text-indigo-600">Prob. of Profit</div>
+          <div className="text-sm font-bold text-indigo-900">{formatProbability(result.probabilityOfProfit)}</div>
+        </div>
+        <div className="bg-indigo-50 rounded p-2">
+          <div className="text-xs text-indigo-600">Expected P&L</div>
+          <div className={`text-sm font-bold ${result.expectedPnL >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+            {formatCurrency(result.expectedPnL)}
+          </div>
+        </div>
+        <div className="bg-indigo-50 rounded p-2">
+          <div className="text-xs text-indigo-600">5% – 95% Range</div>
+          <div className="text-sm font-bold text-indigo-900">
+            {formatCurrency(result.percentiles.p5)} / {formatCurrency(result.percentiles.p95)}
+          </div>
+        </div>
+        <div className="bg-indigo-50 rounded p-2">
+          <div className="text-xs text-indigo-600">Median P&L</div>
+          <div className="text-sm font-bold text-indigo-900">{formatCurrency(result.percentiles.p50)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Profit Target ($)</label>
+          <input
+            type="number"
+            value={profitTarget}
+            onChange={(e) => setProfitTarget(e.target.value)}
+            placeholder="e.g. 200"
+            className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Touch probability: <span className="font-semibold">{formatProbability(result.probabilityOfTouchingTarget)}</span>
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Stop Loss ($)</label>
+          <input
+            type="number"
+            value={stopLoss}
+            onChange={(e) => setStopLoss(e.target.value)}
+            placeholder="e.g. 150"
+            className="w-full text-xs border border-gray-300 rounded px-2 py-1"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Touch probability: <span className="font-semibold">{formatProbability(result.probabilityOfTouchingStop)}</span>
+          </p>
+        </div>
+      </div>
+
+      {result.expectedPnLWithExits !== null && (
+        <p className="text-xs text-gray-600 mb-3">
+          Expected P&L when exiting at the first target/stop touch:{' '}
+          <span className="font-semibold">{formatCurrency(result.expectedPnLWithExits)}</span>
+        </p>
+      )}
+
+      <ResponsiveContainer width="100%" height={140}>
+        <BarChart data={histogramData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+          <XAxis dataKey="pnl" tickFormatter={(v) => formatCurrency(v)} tick={{ fontSize: 10 }} minTickGap={30} />
+          <YAxis tickFormatter={(v) => `${v.toFixed(0)}%`} tick={{ fontSize: 10 }} width={35} />
+          <Tooltip
+            formatter={(value: number) => [`${value.toFixed(2)}%`, 'Probability']}
+            labelFormatter={(label) => `P&L ≈ ${formatCurrency(Number(label))}`}
+          />
+          <Bar dataKey="probability">
+            {histogramData.map((entry, idx) => (
+              <Cell key={idx} fill={entry.pnl >= 0 ? '#10b981' : '#ef4444'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <p className="text-xs text-gray-500 mt-2 flex items-start">
+        <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+        {result.paths.toLocaleString()} simulated paths at {(volatility * 100).toFixed(1)}% volatility
+        {includeJumps ? ' with jumps' : ''} (seed {result.seed}).
+      </p>
+    </div>
+  )
+}
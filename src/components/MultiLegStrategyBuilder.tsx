@@ -25,6 +25,9 @@ export default function MultiLegStrategyBuilder({
   const [validation, setValidation] = useState<ValidationResult | null>(null)
   const [showLivePreview, setShowLivePreview] = useState(true)
   const [hoveredContract, setHoveredContract] = useState<OptionsContract | null>(null)
+  const [backExpiry, setBackExpiry] = useState<string | null>(null)
+  const [timeSpreadType, setTimeSpreadType] = useState<'call' | 'put'>('call')
+  const [timeSpreadStrikes, setTimeSpreadStrikes] = useState<Record<'call' | 'put', { front?: number; back?: number }>>({ call: {}, put: {} })
 
   const requirements = StrategyValidationService.getRequirements(strategyName)
   const underlyings = Array.from(new Set(contracts.map(c => c.underlying_ticker)))
@@ -43,6 +46,32 @@ export default function MultiLegStrategyBuilder({
          !isContractExpired(c.expiration_date)
   )
 
+  // Calendars and diagonals sell the selected expiry and buy a later one
+  const isTimeSpread = ['Calendar Spread', 'Long Calendar with Calls', 'Diagonal Spread', 'Double Calendar', 'Double Diagonal'].includes(strategyName)
+  const isCalendarStrategy = strategyName.includes('Calendar')
+  const timeSpreadSides: Array<'call' | 'put'> = strategyName.startsWith('Double')
+    ? ['put', 'call']
+    : [strategyName === 'Long Calendar with Calls' ? 'call' : timeSpreadType]
+
+  const backContracts = underlyingContracts.filter(
+    c => c.expiration_date === backExpiry && (c.open_interest > 0 || c.volume > 0)
+  )
+
+  useEffect(() => {
+    if (!isTimeSpread || !selectedExpiry || !backExpiry) return
+
+    const newLegs: StrategyLeg[] = []
+    for (const type of timeSpreadSides) {
+      const strikes = timeSpreadStrikes[type]
+      const backStrike = isCalendarStrategy ? strikes.front : strikes.back
+      const front = expiryContracts.find(c => c.contract_type === type && c.strike_price === strikes.front)
+      const back = backContracts.find(c => c.contract_type === type && c.strike_price === backStrike)
+      if (front) newLegs.push({ contract: front, action: 'sell', quantity: 1 })
+      if (back) newLegs.push({ contract: back, action: 'buy', quantity: 1 })
+    }
+    setLegs(newLegs)
+  }, [timeSpreadStrikes, timeSpreadType, backExpiry, selectedExpiry])
+
   useEffect(() => {
     if (legs.length > 0) {
       const validationResult = StrategyValidationService.validateStrategy(strategyName, legs)
@@ -55,14 +84,22 @@ export default function MultiLegStrategyBuilder({
   const handleUnderlyingChange = (underlying: string) => {
     setSelectedUnderlying(underlying)
     setSelectedExpiry(null)
+    setBackExpiry(null)
+    setTimeSpreadStrikes({ call: {}, put: {} })
     setLegs([])
   }
 
   const handleExpiryChange = (expiry: string) => {
     setSelectedExpiry(expiry)
+    if (backExpiry && backExpiry <= expiry) setBackExpiry(null)
+    setTimeSpreadStrikes({ call: {}, put: {} })
     setLegs([])
   }
 
+  const updateTimeSpreadStrike = (type: 'call' | 'put', side: 'front' | 'back', strike: number | undefined) => {
+    setTimeSpreadStrikes({ ...timeSpreadStrikes, [type]: { ...timeSpreadStrikes[type], [side]: strike } })
+  }
+
   const addLeg = (contract: OptionsContract, action: 'buy' | 'sell', quantity: number = 1) => {
     const existingIndex = legs.findIndex(l => l.contract.ticker === contract.ticker && l.action === action)
 
@@ -505,8 +542,100 @@ export default function MultiLegStrategyBuilder({
     )
   }
 
+  const renderTimeSpreadBuilder = () => {
+    const backExpiries = availableExpiries.filter(exp => selectedExpiry && exp > selectedExpiry)
+
+    return (
+      <div className="space-y-4 mt-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Back-Month Expiration (Buy) <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={backExpiry || ''}
+            onChange={(e) => setBackExpiry(e.target.value || null)}
+            className="block w-full border border-gray-300 rounded-md shadow-sm p-2"
+          >
+            <option value="">Select back month...</option>
+            {backExpiries.map(exp => (
+              <option key={exp} value={exp}>{exp}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            The {selectedExpiry} leg is sold and the back-month leg is bought
+          </p>
+        </div>
+
+        {timeSpreadSides.length === 1 && strategyName !== 'Long Calendar with Calls' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Option Type</label>
+            <select
+              value={timeSpreadType}
+              onChange={(e) => setTimeSpreadType(e.target.value as 'call' | 'put')}
+              className="block w-full border border-gray-300 rounded-md shadow-sm p-2"
+            >
+              <option value="call">Calls</option>
+              <option value="put">Puts</option>
+            </select>
+          </div>
+        )}
+
+        {backExpiry && timeSpreadSides.map(type => {
+          const fronts = expiryContracts.filter(c => c.contract_type === type).sort((a, b) => a.strike_price - b.strike_price)
+          const backs = backContracts.filter(c => c.contract_type === type).sort((a, b) => a.strike_price - b.strike_price)
+          const strikes = timeSpreadStrikes[type]
+
+          return (
+            <div key={type} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Sell {selectedExpiry} {type === 'call' ? 'Call' : 'Put'} <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={strikes.front ?? ''}
+                  onChange={(e) => updateTimeSpreadStrike(type, 'front', e.target.value ? Number(e.target.value) : undefined)}
+                  className="block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                >
+                  <option value="">Select strike...</option>
+                  {fronts.map(c => {
+                    const hasBack = backs.some(b => b.strike_price === c.strike_price)
+                    return (
+                      <option key={c.ticker} value={c.strike_price} disabled={isCalendarStrategy && !hasBack}>
+                        Strike ${c.strike_price} - ${c.last.toFixed(2)}{isCalendarStrategy && !hasBack ? ' (no back month)' : ''}
+                      </option>
+                    )
+                  })}
+                </select>
+              </div>
+              {!isCalendarStrategy && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Buy {backExpiry} {type === 'call' ? 'Call' : 'Put'} <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={strikes.back ?? ''}
+                    onChange={(e) => updateTimeSpreadStrike(type, 'back', e.target.value ? Number(e.target.value) : undefined)}
+                    className="block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  >
+                    <option value="">Select strike...</option>
+                    {backs.map(c => (
+                      <option key={c.ticker} value={c.strike_price}>
+                        Strike ${c.strike_price} - ${c.last.toFixed(2)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
   const renderStrategyBuilder = () => {
     if (!selectedExpiry) return null
+    if (isTimeSpread) return renderTimeSpreadBuilder()
 
     switch (strategyName) {
       case 'Bull Call Spread':
@@ -655,7 +784,7 @@ export default function MultiLegStrategyBuilder({
                               <span className="font-semibold">${leg.contract.last.toFixed(2)}</span>
                             </div>
                             <div className="text-xs text-gray-500 mt-1">
-                              Vol: {leg.contract.volume.toLocaleString()} | OI: {leg.contract.open_interest.toLocaleString()}
+                              {leg.contract.expiration_date} | Vol: {leg.contract.volume.toLocaleString()} | OI: {leg.contract.open_interest.toLocaleString()}
                             </div>
                           </div>
                           <button
@@ -761,13 +890,7 @@ export default function MultiLegStrategyBuilder({
               <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
                 <h3 className="text-lg font-bold text-gray-900 mb-4">Live Payoff Preview</h3>
                 <InteractivePayoffDiagram
-                  legs={legs.map(leg => ({
-                    type: leg.contract.contract_type,
-                    strike: leg.contract.strike_price,
-                    premium: leg.contract.last,
-                    action: leg.action,
-                    quantity: leg.quantity
-                  }))}
+                  legs={StrategyValidationService.toPayoffLegs(legs)}
                   strategyName={strategyName}
                   underlyingPrice={underlyingPrice}
                   className=""
@@ -106,7 +106,7 @@ export default function PayoffDiagram({ strategyName, underlyingPrice, className
               <span className="text-xs font-medium text-green-700">Max Profit</span>
             </div>
             <p className="text-lg font-bold text-green-700">
-              {payoffData.maxProfit === Infinity ? '∞' : formatCurrency(payoffData.maxProfit)}
+              {payoffData.maxProfitUnbounded ? '∞' : formatCurrency(payoffData.maxProfit)}
             </p>
           </div>
 
@@ -116,7 +116,7 @@ export default function PayoffDiagram({ strategyName, underlyingPrice, className
               <span className="text-xs font-medium text-red-700">Max Loss</span>
             </div>
             <p className="text-lg font-bold text-red-700">
-              {payoffData.maxLoss === -Infinity ? '∞' : formatCurrency(payoffData.maxLoss)}
+              {payoffData.maxLossUnbounded ? '∞' : formatCurrency(payoffData.maxLoss)}
             </p>
           </div>
 
@@ -126,7 +126,7 @@ export default function PayoffDiagram({ strategyName, underlyingPrice, className
               <span className="text-xs font-medium text-blue-700">Risk/Reward</span>
             </div>
             <p className="text-lg font-bold text-blue-700">
-              {payoffData.maxProfit === Infinity || payoffData.maxLoss === -Infinity
+              {payoffData.maxProfitUnbounded || payoffData.maxLossUnbounded
                 ? '∞'
                 : (Math.abs(payoffData.maxProfit / payoffData.maxLoss)).toFixed(2)}
             </p>
@@ -145,6 +145,11 @@ export default function PayoffDiagram({ strategyName, underlyingPrice, className
                 : `${payoffData.breakEvenPoints.length} points`}
             </p>
           </div>
+
+          <p className="col-span-2 md:col-span-4 text-xs text-gray-500">
+            P&L change per $1 drop below the lowest strike: {formatCurrency(-payoffData.lowerTailSlope)}
+            {' · '}per $1 rise above the highest strike: {formatCurrency(payoffData.upperTailSlope)}
+          </p>
         </div>
       )}
 
@@ -1,7 +1,8 @@
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useEffect } from 'react'
 import { Save, Play, RotateCcw } from 'lucide-react'
 import { OptionsContract } from '../types/options'
 import { GreeksCalculator, GreeksData } from '../services/greeksCalculator'
+import { VolatilitySurfaceService, VolatilitySurface, StickyMode } from '../services/volatilitySurfaceService'
 import { supabase } from '../lib/supabase'
 
 interface ScenarioAnalysisProps {
@@ -17,6 +18,8 @@ interface Scenario {
   daysPassed: number
 }
 
+type VolatilityModel = 'flat' | StickyMode
+
 const PRESET_SCENARIOS: Scenario[] = [
   { name: 'Bullish Move (+10%)', underlyingPriceChange: 10, volatilityChange: 0, daysPassed: 0 },
   { name: 'Bearish Move (-10%)', underlyingPriceChange: -10, volatilityChange: 0, daysPassed: 0 },
@@ -33,12 +36,39 @@ export default function ScenarioAnalysis({ contract, underlyingPrice, onScenario
   const [volatilityChange, setVolatilityChange] = useState(0)
   const [daysPassed, setDaysPassed] = useState(0)
   const [customScenarioName, setCustomScenarioName] = useState('')
+  const [volatilityModel, setVolatilityModel] = useState<VolatilityModel>('flat')
+  const [surface, setSurface] = useState<VolatilitySurface | null>(null)
+  const [loadingSurface, setLoadingSurface] = useState(false)
 
   const maxDays = Math.max(1, GreeksCalculator.calculateTimeToExpiry(contract.expiration_date) * 365)
 
+  useEffect(() => {
+    if (volatilityModel === 'flat' || surface?.underlying === contract.underlying_ticker) return
+
+    let cancelled = false
+    setLoadingSurface(true)
+    VolatilitySurfaceService.loadSurface(contract.underlying_ticker).then((loaded) => {
+      if (!cancelled) {
+        setSurface(loaded)
+        setLoadingSurface(false)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [volatilityModel, contract.underlying_ticker, surface?.underlying])
+
+  const activeSurface = volatilityModel !== 'flat' && surface?.underlying === contract.underlying_ticker && surface.slices.length > 0
+    ? surface
+    : undefined
+
   const baseGreeks = useMemo(() => {
+    if (activeSurface) {
+      return GreeksCalculator.calculateScenarioGreeks(contract, underlyingPrice, { volatilitySurface: activeSurface })
+    }
     return GreeksCalculator.calculateGreeks(contract, underlyingPrice)
-  }, [contract, underlyingPrice])
+  }, [contract, underlyingPrice, activeSurface])
 
   const scenarioGreeks = useMemo(() => {
     const greeks = GreeksCalculator.calculateScenarioGreeks(
@@ -47,7 +77,9 @@ export default function ScenarioAnalysis({ contract, underlyingPrice, onScenario
       {
         underlyingPriceChange: underlyingPriceChange / 100,
         volatilityChange: volatilityChange / 100,
-        daysPassed
+        daysPassed,
+        volatilitySurface: activeSurface,
+        stickyMode: volatilityModel === 'flat' ? undefined : volatilityModel
       }
     )
 
@@ -56,7 +88,7 @@ export default function ScenarioAnalysis({ contract, underlyingPrice, onScenario
     }
 
     return greeks
-  }, [contract, underlyingPrice, underlyingPriceChange, volatilityChange, daysPassed, onScenarioChange])
+  }, [contract, underlyingPrice, underlyingPriceChange, volatilityChange, daysPassed, activeSurface, volatilityModel, onScenarioChange])
 
   const priceDifference = scenarioGreeks.price - baseGreeks.price
   const percentDifference = (priceDifference / baseGreeks.price) * 100
@@ -119,7 +151,31 @@ export default function ScenarioAnalysis({ contract, underlyingPrice, onScenario
 
   return (
     <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">What-If Scenario Analysis</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">What-If Scenario Analysis</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={volatilityModel}
+            onChange={(e) => setVolatilityModel(e.target.value as VolatilityModel)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="flat">Flat IV</option>
+            <option value="sticky-strike">Surface · Sticky Strike</option>
+            <option value="sticky-delta">Surface · Sticky Delta</option>
+          </select>
+          <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded">
+            {GreeksCalculator.getPricingModelLabel(GreeksCalculator.getPricingModel(contract))}
+          </span>
+        </div>
+      </div>
+
+      {volatilityModel !== 'flat' && !activeSurface && (
+        <p className="text-xs text-gray-500 mb-4">
+          {loadingSurface
+            ? 'Fitting volatility surface...'
+            : 'No volatility surface available for this underlying; using flat IV.'}
+        </p>
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
         {PRESET_SCENARIOS.map((scenario) => (
@@ -177,7 +233,7 @@ export default function ScenarioAnalysis({ contract, underlyingPrice, onScenario
             <span>+50%</span>
           </div>
           <p className="text-xs text-gray-600 mt-2">
-            New IV: {((contract.implied_volatility || 0.3) * (1 + volatilityChange / 100) * 100).toFixed(1)}%
+            New IV: {(scenarioGreeks.impliedVolatility * 100).toFixed(1)}%
           </p>
         </div>
 
@@ -1,27 +1,44 @@
 import React, { useState, useEffect, useMemo } from 'react'
-import { Plus, Minus, Settings, TrendingUp, TrendingDown, Info, Save, Share2, Trash2, BarChart3, Clock } from 'lucide-react'
+import { Plus, Minus, Settings, TrendingUp, TrendingDown, Info, Save, Share2, Trash2, BarChart3, Clock, Download, Upload, History, Columns } from 'lucide-react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Bar, ComposedChart } from 'recharts'
 import type { OptionsContract } from '../types/options'
 import { PayoffCalculationService, type StrategyLeg } from '../services/payoffCalculationService'
-import { GreeksCalculator } from '../services/greeksCalculator'
-import { SavedStrategiesService } from '../services/savedStrategiesService'
+import { GreeksCalculator, type HigherOrderGreek } from '../services/greeksCalculator'
+import { SavedStrategiesService, type SavedStrategy } from '../services/savedStrategiesService'
+import { StrategyFormatService } from '../services/strategyFormatService'
+import { MarginService, type MarginMode } from '../services/marginService'
+import { MonteCarloService } from '../services/monteCarloService'
+import { StrategyClassifierService } from '../services/strategyClassifierService'
+import { StrategyValidationService, type StrategyLeg as ContractLeg, type StockLeg } from '../services/strategyValidationService'
+import { useOptionsContext } from '../context/OptionsContext'
+import { useTradingContext } from '../context/TradingContext'
+import MonteCarloPanel from './MonteCarloPanel'
+import StrategyVersionHistory from './StrategyVersionHistory'
 import { supabase } from '../lib/supabase'
 
+// Stock legs trade 100 shares per lot at price; expiry and strike are unused
 interface StrategyBuilderLeg {
   id: string
   action: 'buy' | 'sell'
   expiry: string
   strike: number
-  type: 'call' | 'put'
+  type: 'call' | 'put' | 'stock'
   lots: number
   price: number
   contract?: OptionsContract
+  // Shares taken from a stock position already held instead of bought
+  stockPositionId?: string
 }
 
 interface SensibullStrategyBuilderProps {
   ticker: string
   currentPrice: number
   contracts: OptionsContract[]
+  // Legs to start from, e.g. a structure picked in the strategy finder
+  initialLegs?: Array<ContractLeg & { price?: number }>
+  initialName?: string
+  // Sends the current legs to a strategy comparison
+  onCompare?: (name: string, legs: StrategyLeg[]) => void
   onClose?: () => void
 }
 
@@ -29,6 +46,9 @@ export default function SensibullStrategyBuilder({
   ticker,
   currentPrice,
   contracts,
+  initialLegs,
+  initialName,
+  onCompare,
   onClose
 }: SensibullStrategyBuilderProps) {
   const [legs, setLegs] = useState<StrategyBuilderLeg[]>([])
@@ -39,12 +59,53 @@ export default function SensibullStrategyBuilder({
   const [selectedLegId, setSelectedLegId] = useState<string | null>(null)
   const [availableExpiries, setAvailableExpiries] = useState<string[]>([])
   const [showBookedPnL, setShowBookedPnL] = useState(false)
+  const [showPortable, setShowPortable] = useState(false)
+  const [portableText, setPortableText] = useState('')
+  const [portableErrors, setPortableErrors] = useState<string[]>([])
+  const [portableWarnings, setPortableWarnings] = useState<string[]>([])
+  const [marginMode, setMarginMode] = useState<MarginMode>(MarginService.getMode())
+  // The saved strategy being edited; saving again records a new version of it
+  const [savedStrategy, setSavedStrategy] = useState<SavedStrategy | null>(null)
+  const [savedStrategies, setSavedStrategies] = useState<SavedStrategy[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const { state: optionsState, dispatch: optionsDispatch } = useOptionsContext()
+  const { state: tradingState, dispatch: tradingDispatch } = useTradingContext()
+
+  const heldShares = tradingState.positions.find(position => position.symbol === ticker)
+  const heldLots = heldShares ? Math.floor(heldShares.quantity / 100) : 0
+  // Lots already linked to open positions cannot cover anything else
+  const freeHeldLots = Math.max(0, heldLots - StrategyValidationService.linkedStockLots(optionsState.positions, ticker))
 
   useEffect(() => {
     const expiries = Array.from(new Set(contracts.map(c => c.expiration_date))).sort()
     setAvailableExpiries(expiries)
   }, [contracts])
 
+  useEffect(() => {
+    setSavedStrategy(null)
+    setShowHistory(false)
+    loadSavedStrategies()
+  }, [ticker])
+
+  useEffect(() => {
+    if (!initialLegs || initialLegs.length === 0) return
+    const stamp = Date.now()
+    setLegs(initialLegs.map((leg, index) => ({
+      id: `leg-${stamp}-${index}`,
+      action: leg.action,
+      expiry: leg.contract.expiration_date,
+      strike: leg.contract.strike_price,
+      type: leg.contract.contract_type,
+      lots: leg.quantity,
+      price: leg.price ?? leg.contract.last,
+      contract: leg.contract
+    })))
+    setMultiplier(1)
+    setSelectedLegId(null)
+    setStrategyName(initialName || '')
+    setSavedStrategy(null)
+  }, [initialLegs, initialName])
+
   const addNewLeg = () => {
     const newLeg: StrategyBuilderLeg = {
       id: `leg-${Date.now()}`,
@@ -59,11 +120,38 @@ export default function SensibullStrategyBuilder({
     setSelectedLegId(newLeg.id)
   }
 
+  const addStockLeg = (fromHoldings: boolean) => {
+    const newLeg: StrategyBuilderLeg = {
+      id: `leg-${Date.now()}`,
+      action: 'buy',
+      expiry: '',
+      strike: 0,
+      type: 'stock',
+      lots: fromHoldings ? freeHeldLots : 1,
+      price: fromHoldings && heldShares ? heldShares.avgPrice : currentPrice,
+      stockPositionId: fromHoldings ? heldShares?.id : undefined
+    }
+    setLegs([...legs, newLeg])
+    setSelectedLegId(newLeg.id)
+  }
+
   const updateLeg = (id: string, updates: Partial<StrategyBuilderLeg>) => {
     setLegs(legs.map(leg => {
       if (leg.id === id) {
         const updatedLeg = { ...leg, ...updates }
 
+        if (updatedLeg.type === 'stock') {
+          if (leg.type !== 'stock') {
+            return { ...updatedLeg, expiry: '', strike: 0, price: currentPrice, contract: undefined }
+          }
+          return updatedLeg
+        }
+        if (leg.type === 'stock') {
+          updatedLeg.expiry = availableExpiries[0] || ''
+          updatedLeg.strike = Math.round(currentPrice)
+          updatedLeg.stockPositionId = undefined
+        }
+
         const matchingContract = contracts.find(c =>
           c.expiration_date === updatedLeg.expiry &&
           c.strike_price === updatedLeg.strike &&
@@ -91,6 +179,9 @@ export default function SensibullStrategyBuilder({
 
   const resetPrices = () => {
     setLegs(legs.map(leg => {
+      if (leg.type === 'stock') {
+        return leg.stockPositionId ? leg : { ...leg, price: currentPrice }
+      }
       const matchingContract = contracts.find(c =>
         c.expiration_date === leg.expiry &&
         c.strike_price === leg.strike &&
@@ -103,11 +194,73 @@ export default function SensibullStrategyBuilder({
     }))
   }
 
+  const strategyLegs: StrategyLeg[] = useMemo(() => legs.map(leg => ({
+    type: leg.type,
+    strike: leg.type === 'stock' ? leg.price : leg.strike,
+    premium: leg.price,
+    action: leg.action,
+    quantity: leg.lots * multiplier,
+    expiry: leg.expiry || undefined,
+    impliedVolatility: leg.contract?.implied_volatility
+  })), [legs, multiplier])
+
+  const strategyGreeks = useMemo(() => GreeksCalculator.calculateStrategyGreeks(
+    legs
+      .filter(leg => leg.contract)
+      .map(leg => ({ contract: leg.contract!, action: leg.action, quantity: leg.lots * multiplier })),
+    currentPrice,
+    undefined,
+    legs
+      .filter(leg => leg.type === 'stock')
+      .map(leg => ({ action: leg.action, quantity: leg.lots * multiplier, price: leg.price }))
+  ), [legs, multiplier, currentPrice])
+
+  const classification = useMemo(() => StrategyClassifierService.classify(strategyLegs), [strategyLegs])
+
+  const margin = useMemo(
+    () => MarginService.calculate(strategyLegs, currentPrice, marginMode, ticker),
+    [strategyLegs, currentPrice, marginMode, ticker]
+  )
+
+  const changeMarginMode = (mode: MarginMode) => {
+    MarginService.setMode(mode)
+    setMarginMode(mode)
+  }
+
+  // Simulation inputs: average leg IV and time to the nearest leg expiry
+  const simulationVolatility = useMemo(() => {
+    const ivs = legs.map(leg => leg.contract?.implied_volatility).filter((iv): iv is number => !!iv && iv > 0)
+    return ivs.length > 0 ? ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length : 0.3
+  }, [legs])
+
+  const simulationTimeToExpiry = useMemo(() => {
+    const times = legs.filter(leg => leg.expiry).map(leg => GreeksCalculator.calculateTimeToExpiry(leg.expiry))
+    return times.length > 0 ? Math.max(1 / 365, Math.min(...times)) : 30 / 365
+  }, [legs])
+
+  // Shared with MonteCarloPanel, which reuses it until its settings change
+  const simulation = useMemo(() => {
+    if (legs.length === 0 || currentPrice <= 0) return null
+
+    try {
+      return MonteCarloService.simulate(strategyLegs, {
+        spotPrice: currentPrice,
+        volatility: simulationVolatility,
+        timeToExpiry: simulationTimeToExpiry
+      })
+    } catch (error) {
+      console.error('Monte Carlo simulation failed:', error)
+      return null
+    }
+  }, [legs, currentPrice, strategyLegs, simulationVolatility, simulationTimeToExpiry])
+
   const payoffMetrics = useMemo(() => {
     if (legs.length === 0) {
       return {
         maxProfit: 0,
         maxLoss: 0,
+        maxProfitUnbounded: false,
+        maxLossUnbounded: false,
         breakeven: [],
         pricePay: 0,
         premiumPay: 0,
@@ -118,14 +271,6 @@ export default function SensibullStrategyBuilder({
       }
     }
 
-    const strategyLegs: StrategyLeg[] = legs.map(leg => ({
-      type: leg.type,
-      strike: leg.strike,
-      premium: leg.price,
-      action: leg.action,
-      quantity: leg.lots * multiplier
-    }))
-
     const payoff = PayoffCalculationService.calculatePayoff(strategyLegs, currentPrice, 'Custom')
 
     let totalPremiumPaid = 0
@@ -134,13 +279,16 @@ export default function SensibullStrategyBuilder({
     let totalTimeValue = 0
 
     legs.forEach(leg => {
-      const cost = leg.price * leg.lots * multiplier * 100
+      // Shares already held are not paid for again
+      const cost = leg.stockPositionId ? 0 : leg.price * leg.lots * multiplier * 100
       if (leg.action === 'buy') {
         totalPremiumPaid += cost
       } else {
         totalPremiumReceived += cost
       }
 
+      if (leg.type === 'stock') return
+
       const intrinsic = leg.type === 'call'
         ? Math.max(0, currentPrice - leg.strike)
         : Math.max(0, leg.strike - currentPrice)
@@ -153,17 +301,17 @@ export default function SensibullStrategyBuilder({
     })
 
     const netDebit = totalPremiumPaid - totalPremiumReceived
-    const rewardRisk = payoff.maxLoss !== 0
-      ? Math.abs(payoff.maxProfit / payoff.maxLoss)
-      : Infinity
+    const rewardRisk = payoff.maxLossUnbounded
+      ? 0
+      : payoff.maxLoss !== 0 ? Math.abs(payoff.maxProfit / payoff.maxLoss) : Infinity
 
-    const pop = payoff.maxProfit === Infinity ? 50 : Math.min(95, Math.max(5,
-      50 + (rewardRisk > 1 ? -20 : 20)
-    ))
+    const pop = simulation ? simulation.probabilityOfProfit * 100 : 0
 
     return {
       maxProfit: payoff.maxProfit,
       maxLoss: payoff.maxLoss,
+      maxProfitUnbounded: payoff.maxProfitUnbounded,
+      maxLossUnbounded: payoff.maxLossUnbounded,
       breakeven: payoff.breakEvenPoints,
       pricePay: Math.abs(netDebit / 100),
       premiumPay: Math.abs(netDebit),
@@ -172,21 +320,22 @@ export default function SensibullStrategyBuilder({
       timeValue: totalTimeValue,
       intrinsicValue: totalIntrinsic
     }
-  }, [legs, multiplier, currentPrice])
+  }, [legs, multiplier, currentPrice, strategyLegs, simulation])
 
   const payoffChartData = useMemo(() => {
     if (legs.length === 0) return []
 
-    const strategyLegs: StrategyLeg[] = legs.map(leg => ({
-      type: leg.type,
-      strike: leg.strike,
-      premium: leg.price,
-      action: leg.action,
-      quantity: leg.lots * multiplier
-    }))
-
     const payoff = PayoffCalculationService.calculatePayoff(strategyLegs, currentPrice, 'Custom')
 
+    // Today's theoretical curve and the curve at the first leg expiry, where
+    // later-dated legs of calendars and diagonals still carry time value
+    const slices = PayoffCalculationService.calculateTimeSlices(strategyLegs, currentPrice, {
+      defaultVolatility: simulationVolatility,
+      underlyingTicker: ticker
+    })
+    const todaySlice = slices[0]
+    const firstExpirySlice = slices.find(slice => slice.daysFromNow > 0) || todaySlice
+
     const callOI: { [key: number]: number } = {}
     const putOI: { [key: number]: number } = {}
 
@@ -201,15 +350,15 @@ export default function SensibullStrategyBuilder({
       }
     })
 
-    return payoff.points.map(point => ({
+    return payoff.points.map((point, idx) => ({
       price: point.price,
       profit: point.profit,
-      profitOnExpiry: point.profit,
-      profitOnTarget: point.profit * 0.8,
+      profitOnExpiry: firstExpirySlice.points[idx]?.profit ?? point.profit,
+      profitOnTarget: todaySlice.points[idx]?.profit ?? point.profit,
       callOI: callOI[point.price] || 0,
       putOI: putOI[point.price] || 0
     }))
-  }, [legs, multiplier, currentPrice, contracts])
+  }, [legs, strategyLegs, currentPrice, contracts, simulationVolatility, ticker])
 
   const availableStrikes = useMemo(() => {
     const selectedLeg = legs.find(l => l.id === selectedLegId)
@@ -222,46 +371,289 @@ export default function SensibullStrategyBuilder({
     )).sort((a, b) => a - b)
   }, [contracts, selectedLegId, legs])
 
-  const handleSaveStrategy = async () => {
+  const handleTradeAll = () => {
+    const optionLegs = legs.filter(leg => leg.type !== 'stock')
+    const shareLegs = legs.filter(leg => leg.type === 'stock')
+
+    if (optionLegs.length === 0) {
+      alert('Add at least one option leg to trade')
+      return
+    }
+    if (optionLegs.some(leg => !leg.contract)) {
+      alert('Every option leg needs a listed contract at its expiry and strike')
+      return
+    }
+
+    const sharesFor = (leg: StrategyBuilderLeg) => leg.lots * multiplier * 100
+    const heldShareLegs = shareLegs.filter(leg => leg.stockPositionId)
+    if (heldShareLegs.some(leg => leg.action === 'sell')) {
+      alert('Held shares can only be used as a long leg; sell them from the stock portfolio instead')
+      return
+    }
+    const heldLotsUsed = heldShareLegs.reduce((sum, leg) => sum + leg.lots * multiplier, 0)
+    if (heldLotsUsed > freeHeldLots) {
+      alert(`Only ${freeHeldLots * 100} held shares of ${ticker} are not already covering open positions`)
+      return
+    }
+    if (shareLegs.some(leg => !leg.stockPositionId && leg.action === 'sell')) {
+      alert('Short stock is not supported; sell shares you hold from the stock portfolio instead')
+      return
+    }
+    const stockCost = shareLegs
+      .filter(leg => !leg.stockPositionId)
+      .reduce((sum, leg) => sum + leg.price * sharesFor(leg), 0)
+    if (stockCost > tradingState.buyingPower) {
+      alert('Insufficient buying power in the stock account for the share legs')
+      return
+    }
+    if (margin.buyingPowerEffect > optionsState.buyingPower) {
+      alert(`The option legs need $${margin.buyingPowerEffect.toFixed(2)} of buying power; $${optionsState.buyingPower.toFixed(2)} is available`)
+      return
+    }
+
+    shareLegs
+      .filter(leg => !leg.stockPositionId)
+      .forEach(leg => tradingDispatch({
+        type: 'PLACE_FILLED_ORDER',
+        payload: {
+          symbol: ticker,
+          type: leg.action,
+          orderType: 'market',
+          quantity: sharesFor(leg),
+          price: leg.price
+        }
+      }))
+
+    const contractLegs: ContractLeg[] = optionLegs.map(leg => ({
+      contract: leg.contract!,
+      action: leg.action,
+      quantity: leg.lots
+    }))
+    const stockLegs: StockLeg[] = shareLegs.map(leg => ({
+      symbol: ticker,
+      price: leg.price,
+      action: leg.action,
+      quantity: leg.lots,
+      stockPositionId: leg.stockPositionId
+    }))
+
+    optionsDispatch({
+      type: 'PLACE_MULTI_LEG_ORDER',
+      payload: {
+        legs: contractLegs,
+        stockLegs,
+        strategyName: strategyName || (classification.confidence > 0 ? classification.name : 'Custom Strategy'),
+        quantity: multiplier,
+        underlyingPrice: currentPrice,
+        heldLots
+      }
+    })
+
+    alert('Strategy order placed')
+  }
+
+  const loadSavedStrategies = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) {
-        alert('Please log in to save strategies')
+        setSavedStrategies([])
         return
       }
+      setSavedStrategies(await SavedStrategiesService.searchStrategies(user.id, { underlyingTicker: ticker }))
+    } catch (error) {
+      console.error('Error loading saved strategies:', error)
+    }
+  }
+
+  // Saved legs are matched to the current chain; legs saved without a price take its last trade
+  const openSavedStrategy = (strategy: SavedStrategy) => {
+    const stamp = Date.now()
+    setLegs(SavedStrategiesService.toPayoffLegs(strategy).map((leg, index): StrategyBuilderLeg => {
+      const id = `leg-${stamp}-${index}`
+      if (leg.type === 'stock') {
+        return { id, action: leg.action, expiry: '', strike: 0, type: 'stock', lots: leg.quantity, price: leg.premium || currentPrice }
+      }
 
-      const strategyLegs: StrategyLeg[] = legs.map(leg => ({
-        type: leg.type,
-        strike: leg.strike,
-        premium: leg.price,
+      const contract = contracts.find(c =>
+        c.expiration_date === leg.expiry &&
+        c.strike_price === leg.strike &&
+        c.contract_type === leg.type
+      )
+      return {
+        id,
         action: leg.action,
-        quantity: leg.lots
-      }))
+        expiry: leg.expiry || '',
+        strike: leg.strike,
+        type: leg.type,
+        lots: leg.quantity,
+        price: leg.premium || contract?.last || 0,
+        contract
+      }
+    }))
+    setMultiplier(1)
+    setSelectedLegId(null)
+    setStrategyName(strategy.custom_name || strategy.strategy_name)
+    setSavedStrategy(strategy)
+  }
+
+  const selectSavedStrategy = (strategyId: string) => {
+    const strategy = savedStrategies.find(saved => saved.id === strategyId)
+    if (strategy) {
+      openSavedStrategy(strategy)
+    } else {
+      setSavedStrategy(null)
+      setShowHistory(false)
+    }
+  }
+
+  const handleSaveStrategy = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        alert('Please log in to save strategies')
+        return
+      }
 
-      await SavedStrategiesService.saveStrategy({
+      const strategy: Omit<SavedStrategy, 'id' | 'created_at' | 'updated_at'> = {
         user_id: user.id,
-        strategy_name: strategyName || 'Custom Strategy',
+        strategy_name: strategyName || (classification.confidence > 0 ? classification.description : 'Custom Strategy'),
         underlying_ticker: ticker,
-        expiration_date: legs[0]?.expiry || new Date().toISOString().split('T')[0],
-        legs: strategyLegs as any,
+        expiration_date: legs.find(leg => leg.expiry)?.expiry || new Date().toISOString().split('T')[0],
+        legs: strategyLegs,
         validation_result: {
           isValid: true,
-          maxProfit: payoffMetrics.maxProfit,
-          maxLoss: payoffMetrics.maxLoss,
+          maxProfit: payoffMetrics.maxProfitUnbounded ? undefined : payoffMetrics.maxProfit,
+          maxLoss: payoffMetrics.maxLossUnbounded ? undefined : payoffMetrics.maxLoss,
+          maxProfitUnbounded: payoffMetrics.maxProfitUnbounded,
+          maxLossUnbounded: payoffMetrics.maxLossUnbounded,
+          breakEvenPoints: payoffMetrics.breakeven,
           errors: [],
           warnings: []
         } as any,
-        is_favorite: false,
-        is_template: false
-      })
+        is_favorite: savedStrategy?.is_favorite ?? false,
+        is_template: savedStrategy?.is_template ?? false
+      }
 
-      alert('Strategy saved successfully!')
+      if (savedStrategy) {
+        const note = prompt('Describe this change (optional)')
+        if (note === null) return
+        setSavedStrategy(await SavedStrategiesService.updateStrategy(savedStrategy.id, strategy, note.trim() || undefined))
+        alert('Strategy updated')
+      } else {
+        setSavedStrategy(await SavedStrategiesService.saveStrategy(strategy))
+        alert('Strategy saved successfully!')
+      }
+      loadSavedStrategies()
     } catch (error) {
       console.error('Error saving strategy:', error)
       alert('Failed to save strategy')
     }
   }
 
+  const handleExport = (form: 'json' | 'text') => {
+    try {
+      const portable = StrategyFormatService.fromPayoffLegs(
+        strategyName || (classification.confidence > 0 ? classification.name : 'Custom Strategy'),
+        ticker,
+        strategyLegs
+      )
+      const text = form === 'json' ? StrategyFormatService.toJSON(portable) : StrategyFormatService.toText(portable)
+      setPortableText(text)
+      setPortableErrors([])
+      setPortableWarnings([])
+      navigator.clipboard?.writeText(text).catch(() => undefined)
+    } catch (error) {
+      setPortableErrors([error instanceof Error ? error.message : 'Failed to export strategy'])
+    }
+  }
+
+  const handleImport = () => {
+    const { strategy, errors } = StrategyFormatService.parse(portableText)
+    setPortableWarnings([])
+    if (!strategy) {
+      setPortableErrors(errors)
+      return
+    }
+    if (strategy.underlying !== ticker) {
+      setPortableErrors([`This strategy is on ${strategy.underlying}; switch the ticker to import it`])
+      return
+    }
+
+    const stamp = Date.now()
+    const warnings: string[] = []
+    const imported: StrategyBuilderLeg[] = strategy.legs.map((portableLeg, index) => {
+      const leg = StrategyFormatService.decodeLeg(portableLeg, strategy.underlying)!
+      const id = `leg-${stamp}-${index}`
+      if (leg.type === 'stock') {
+        return { id, action: leg.action, expiry: '', strike: 0, type: 'stock', lots: leg.quantity, price: leg.price ?? currentPrice }
+      }
+
+      const contract = contracts.find(c =>
+        c.expiration_date === leg.expiry &&
+        c.strike_price === leg.strike &&
+        c.contract_type === leg.type
+      )
+      if (!contract) {
+        warnings.push(`${portableLeg.symbol} is not in the current chain`)
+      }
+      return {
+        id,
+        action: leg.action,
+        expiry: leg.expiry!,
+        strike: leg.strike!,
+        type: leg.type,
+        lots: leg.quantity,
+        price: leg.price ?? contract?.last ?? 0,
+        contract
+      }
+    })
+
+    setLegs(imported)
+    setMultiplier(1)
+    setSelectedLegId(null)
+    setStrategyName(strategy.name)
+    setPortableErrors([])
+    setPortableWarnings(warnings)
+  }
+
+  const handleExportSaved = () => {
+    if (!savedStrategy) return
+    try {
+      const text = StrategyFormatService.toJSON(SavedStrategiesService.exportStrategy(savedStrategy))
+      setPortableText(text)
+      setPortableErrors([])
+      setPortableWarnings([])
+      setShowPortable(true)
+      navigator.clipboard?.writeText(text).catch(() => undefined)
+    } catch (error) {
+      setShowPortable(true)
+      setPortableErrors([error instanceof Error ? error.message : 'Failed to export strategy'])
+    }
+  }
+
+  // Saves the pasted definition straight to the saved strategies list
+  const handleImportToSaved = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        alert('Please log in to save strategies')
+        return
+      }
+
+      const imported = await SavedStrategiesService.importStrategy(portableText, user.id)
+      setPortableErrors([])
+      setPortableWarnings([])
+      await loadSavedStrategies()
+      if (imported.underlying_ticker === ticker) {
+        openSavedStrategy(imported)
+      } else {
+        alert(`Saved to your ${imported.underlying_ticker} strategies`)
+      }
+    } catch (error) {
+      setPortableErrors([error instanceof Error ? error.message : 'Failed to import strategy'])
+    }
+  }
+
   const formatCurrency = (value: number) => {
     const sign = value >= 0 ? '+' : ''
     return `${sign}${value.toFixed(0)}`
@@ -292,7 +684,23 @@ export default function SensibullStrategyBuilder({
 
           <div className="bg-white border border-gray-200 rounded-lg p-4">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold text-gray-900">New Strategy</h3>
+              <div className="flex items-center gap-2">
+                <h3 className="font-semibold text-gray-900">New Strategy</h3>
+                {legs.length > 0 && (
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      classification.confidence >= 0.9
+                        ? 'bg-green-100 text-green-700'
+                        : classification.confidence > 0
+                        ? 'bg-yellow-100 text-yellow-700'
+                        : 'bg-gray-100 text-gray-600'
+                    }`}
+                    title={`${classification.description} (${Math.round(classification.confidence * 100)}% match)`}
+                  >
+                    {classification.name}
+                  </span>
+                )}
+              </div>
               <div className="flex gap-2">
                 <button
                   onClick={clearAllLegs}
@@ -356,46 +764,57 @@ export default function SensibullStrategyBuilder({
                         </button>
                       </td>
                       <td className="px-2 py-2">
-                        <select
-                          value={leg.expiry}
-                          onChange={(e) => updateLeg(leg.id, { expiry: e.target.value })}
-                          className="text-xs border border-gray-300 rounded px-1 py-1"
-                        >
-                          {availableExpiries.map(exp => (
-                            <option key={exp} value={exp}>{exp}</option>
-                          ))}
-                        </select>
+                        {leg.type === 'stock' ? (
+                          <span className="text-gray-400">--</span>
+                        ) : (
+                          <select
+                            value={leg.expiry}
+                            onChange={(e) => updateLeg(leg.id, { expiry: e.target.value })}
+                            className="text-xs border border-gray-300 rounded px-1 py-1"
+                          >
+                            {availableExpiries.map(exp => (
+                              <option key={exp} value={exp}>{exp}</option>
+                            ))}
+                          </select>
+                        )}
                       </td>
                       <td className="px-2 py-2">
-                        <div className="flex items-center gap-1">
-                          <button
-                            onClick={() => updateLeg(leg.id, { strike: leg.strike - 100 })}
-                            className="text-gray-500 hover:text-gray-700"
-                          >
-                            <Minus className="h-3 w-3" />
-                          </button>
-                          <input
-                            type="number"
-                            value={leg.strike}
-                            onChange={(e) => updateLeg(leg.id, { strike: Number(e.target.value) })}
-                            className="w-20 text-xs border border-gray-300 rounded px-1 py-1 text-center"
-                          />
-                          <button
-                            onClick={() => updateLeg(leg.id, { strike: leg.strike + 100 })}
-                            className="text-gray-500 hover:text-gray-700"
-                          >
-                            <Plus className="h-3 w-3" />
-                          </button>
-                        </div>
+                        {leg.type === 'stock' ? (
+                          <span className="text-gray-600" title={leg.stockPositionId ? 'Shares held in the stock portfolio' : undefined}>
+                            {leg.lots * multiplier * 100} sh{leg.stockPositionId ? ' (held)' : ''}
+                          </span>
+                        ) : (
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => updateLeg(leg.id, { strike: leg.strike - 100 })}
+                              className="text-gray-500 hover:text-gray-700"
+                            >
+                              <Minus className="h-3 w-3" />
+                            </button>
+                            <input
+                              type="number"
+                              value={leg.strike}
+                              onChange={(e) => updateLeg(leg.id, { strike: Number(e.target.value) })}
+                              className="w-20 text-xs border border-gray-300 rounded px-1 py-1 text-center"
+                            />
+                            <button
+                              onClick={() => updateLeg(leg.id, { strike: leg.strike + 100 })}
+                              className="text-gray-500 hover:text-gray-700"
+                            >
+                              <Plus className="h-3 w-3" />
+                            </button>
+                          </div>
+                        )}
                       </td>
                       <td className="px-2 py-2">
                         <select
                           value={leg.type}
-                          onChange={(e) => updateLeg(leg.id, { type: e.target.value as 'call' | 'put' })}
+                          onChange={(e) => updateLeg(leg.id, { type: e.target.value as StrategyBuilderLeg['type'] })}
                           className="text-xs border border-gray-300 rounded px-2 py-1"
                         >
                           <option value="call">CE</option>
                           <option value="put">PE</option>
+                          <option value="stock">STK</option>
                         </select>
                       </td>
                       <td className="px-2 py-2">
@@ -404,7 +823,7 @@ export default function SensibullStrategyBuilder({
                           onChange={(e) => updateLeg(leg.id, { lots: Number(e.target.value) })}
                           className="text-xs border border-gray-300 rounded px-2 py-1"
                         >
-                          {[1, 2, 3, 4, 5, 10].map(n => (
+                          {Array.from(new Set([1, 2, 3, 4, 5, 10, leg.lots])).sort((a, b) => a - b).map(n => (
                             <option key={n} value={n}>{n}</option>
                           ))}
                         </select>
@@ -468,10 +887,29 @@ export default function SensibullStrategyBuilder({
                 >
                   Add/Edit
                 </button>
+                <button
+                  onClick={() => addStockLeg(false)}
+                  className="px-3 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Add Stock
+                </button>
+                {freeHeldLots > 0 && (
+                  <button
+                    onClick={() => addStockLeg(true)}
+                    className="px-3 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                    title={`${heldShares?.quantity} shares held at ${heldShares?.avgPrice.toFixed(2)}`}
+                  >
+                    Use Held Shares ({freeHeldLots * 100})
+                  </button>
+                )}
                 <button className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded">
                   Add to Drafts
                 </button>
-                <button className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                <button
+                  onClick={handleTradeAll}
+                  disabled={legs.length === 0}
+                  className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+                >
                   Trade All
                 </button>
               </div>
@@ -577,7 +1015,7 @@ export default function SensibullStrategyBuilder({
                         </div>
                         <div className="flex items-center gap-1">
                           <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                          <span>On Target Date</span>
+                          <span>Today</span>
                         </div>
                       </div>
                     </div>
@@ -656,9 +1094,50 @@ export default function SensibullStrategyBuilder({
             )}
 
             {selectedTab === 'greeks' && (
-              <div className="text-sm text-gray-600">
-                Greeks analysis - showing delta, gamma, theta, vega for the strategy
-              </div>
+              legs.length > 0 ? (
+                <div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {[
+                      { label: 'Delta', value: strategyGreeks.netDelta },
+                      { label: 'Gamma', value: strategyGreeks.netGamma },
+                      { label: 'Theta', value: strategyGreeks.netTheta },
+                      { label: 'Vega', value: strategyGreeks.netVega }
+                    ].map(greek => (
+                      <div key={greek.label} className="bg-gray-50 rounded p-3">
+                        <div className="text-xs text-gray-600 mb-1">Net {greek.label}</div>
+                        <div className={`text-lg font-bold ${greek.value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {greek.value.toFixed(3)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mt-3">
+                    {([
+                      { key: 'vanna', label: 'Vanna', value: strategyGreeks.netVanna },
+                      { key: 'volga', label: 'Volga', value: strategyGreeks.netVolga },
+                      { key: 'charm', label: 'Charm', value: strategyGreeks.netCharm },
+                      { key: 'speed', label: 'Speed', value: strategyGreeks.netSpeed },
+                      { key: 'color', label: 'Color', value: strategyGreeks.netColor },
+                      { key: 'zomma', label: 'Zomma', value: strategyGreeks.netZomma }
+                    ] as Array<{ key: HigherOrderGreek; label: string; value: number }>).map(greek => (
+                      <div key={greek.key} className="bg-gray-50 rounded p-2">
+                        <div className="text-xs text-gray-600 mb-1">Net {greek.label}</div>
+                        <div className="text-sm font-mono font-semibold text-gray-900">
+                          {GreeksCalculator.formatGreek(greek.value, greek.key)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Per-share Greeks summed over lots; each 100-share stock lot adds a delta of 1.
+                    Option legs without a listed contract are left out.
+                  </p>
+                </div>
+              ) : (
+                <div className="text-sm text-gray-600">
+                  Add legs to see the strategy Greeks
+                </div>
+              )
             )}
 
             {selectedTab === 'chart' && (
@@ -667,6 +1146,18 @@ export default function SensibullStrategyBuilder({
               </div>
             )}
           </div>
+
+          {savedStrategy && showHistory && (
+            <StrategyVersionHistory
+              strategyId={savedStrategy.id}
+              ticker={ticker}
+              underlyingPrice={currentPrice}
+              onRestored={(restored) => {
+                openSavedStrategy(restored)
+                loadSavedStrategies()
+              }}
+            />
+          )}
         </div>
 
         <div className="space-y-4">
@@ -675,7 +1166,7 @@ export default function SensibullStrategyBuilder({
               <div className="bg-gray-50 rounded p-3">
                 <div className="text-xs text-gray-600 mb-1">Max Profit</div>
                 <div className="text-lg font-bold text-green-600">
-                  {payoffMetrics.maxProfit === Infinity
+                  {payoffMetrics.maxProfitUnbounded
                     ? '∞'
                     : formatCurrency(payoffMetrics.maxProfit)}
                 </div>
@@ -686,7 +1177,7 @@ export default function SensibullStrategyBuilder({
                   <Info className="h-3 w-3" />
                 </div>
                 <div className="text-lg font-bold text-red-600">
-                  {payoffMetrics.maxLoss === -Infinity
+                  {payoffMetrics.maxLossUnbounded
                     ? '∞'
                     : formatCurrency(payoffMetrics.maxLoss)}
                 </div>
@@ -756,40 +1247,188 @@ export default function SensibullStrategyBuilder({
             </div>
           </div>
 
+          {legs.length > 0 && (
+            <MonteCarloPanel
+              legs={strategyLegs}
+              underlyingPrice={currentPrice}
+              volatility={simulationVolatility}
+              timeToExpiry={simulationTimeToExpiry}
+              defaultResult={simulation}
+            />
+          )}
+
           <div className="bg-white border border-gray-200 rounded-lg p-4">
-            <h3 className="font-semibold text-sm mb-3">Funds & Margins</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-sm">Funds & Margins</h3>
+              <select
+                value={marginMode}
+                onChange={(e) => changeMarginMode(e.target.value as MarginMode)}
+                className="px-2 py-1 border border-gray-300 rounded text-xs"
+              >
+                <option value="reg-t">Reg-T</option>
+                <option value="portfolio">Portfolio Margin</option>
+              </select>
+            </div>
             <div className="space-y-2 text-xs">
               <div className="flex justify-between">
-                <span className="text-gray-600 flex items-center gap-1">
+                <span className="text-gray-600 flex items-center gap-1" title="Buying power used: premium paid or received plus margin held">
                   Standalone Funds
                   <Info className="h-3 w-3" />
                 </span>
-                <span>--</span>
+                <span className={legs.length > 0 && margin.buyingPowerEffect > optionsState.buyingPower ? 'text-red-600 font-medium' : ''}>
+                  {legs.length > 0 ? `$${margin.buyingPowerEffect.toFixed(2)}` : '--'}
+                </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-gray-600 flex items-center gap-1">
+                <span className="text-gray-600 flex items-center gap-1" title="Margin held against the short legs">
                   Standalone Margin
                   <Info className="h-3 w-3" />
                 </span>
-                <span>--</span>
+                <span>{legs.length > 0 ? `$${margin.requirement.toFixed(2)}` : '--'}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Available Buying Power</span>
+                <span>${optionsState.buyingPower.toFixed(2)}</span>
+              </div>
+              {legs.length > 0 && margin.components.length > 0 && (
+                <div className="pt-2 border-t border-gray-100 space-y-1">
+                  {margin.components.map((component, index) => (
+                    <div key={index} className="flex justify-between text-gray-500">
+                      <span>{component.quantity > 1 && marginMode === 'reg-t' ? `${component.quantity}x ` : ''}{component.description}</span>
+                      <span>${component.requirement.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
+          {savedStrategies.length > 0 && (
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-sm mb-2">Saved Strategies</h3>
+              <select
+                value={savedStrategy?.id || ''}
+                onChange={(e) => selectSavedStrategy(e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+              >
+                <option value="">New strategy</option>
+                {savedStrategies.map(saved => (
+                  <option key={saved.id} value={saved.id}>{saved.custom_name || saved.strategy_name}</option>
+                ))}
+              </select>
+              {savedStrategy && (
+                <div className="mt-2 flex items-center justify-between">
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                  >
+                    <History className="h-3 w-3" />
+                    {showHistory ? 'Hide' : 'Show'} Version History
+                  </button>
+                  <button
+                    onClick={handleExportSaved}
+                    className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                  >
+                    <Download className="h-3 w-3" />
+                    Export
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <button
               onClick={handleSaveStrategy}
               className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center justify-center gap-2"
             >
               <Save className="h-4 w-4" />
-              Save Strategy
+              {savedStrategy ? 'Save New Version' : 'Save Strategy'}
             </button>
             <button className="w-full px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 flex items-center justify-center gap-2">
               <Share2 className="h-4 w-4" />
               Share Strategy
             </button>
+            <button
+              onClick={() => setShowPortable(!showPortable)}
+              className="w-full px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 flex items-center justify-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              Import / Export
+            </button>
+            {onCompare && (
+              <button
+                onClick={() => onCompare(
+                  strategyName || (classification.confidence > 0 ? classification.name : 'Custom Strategy'),
+                  strategyLegs
+                )}
+                disabled={legs.length === 0}
+                className="w-full px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <Columns className="h-4 w-4" />
+                Add to Comparison
+              </button>
+            )}
           </div>
 
+          {showPortable && (
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h3 className="font-semibold text-sm mb-2">Import / Export</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Paste strategy JSON or legs such as "-1 {ticker} 2025-01-17 450P @2.10 / +1 {ticker} 2025-01-17 440P".
+                Exports are copied to the clipboard.
+              </p>
+              <textarea
+                value={portableText}
+                onChange={(e) => setPortableText(e.target.value)}
+                rows={6}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+              />
+              {portableErrors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-600 space-y-1">
+                  {portableErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+              {portableWarnings.length > 0 && (
+                <ul className="mt-2 text-xs text-yellow-700 space-y-1">
+                  {portableWarnings.map(warning => <li key={warning}>{warning}; Trade All needs a listed contract</li>)}
+                </ul>
+              )}
+              <div className="mt-2 grid grid-cols-3 gap-2">
+                <button
+                  onClick={() => handleExport('json')}
+                  disabled={legs.length === 0}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={() => handleExport('text')}
+                  disabled={legs.length === 0}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Export Text
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={portableText.trim().length === 0}
+                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 flex items-center justify-center gap-1"
+                >
+                  <Upload className="h-3 w-3" />
+                  Import
+                </button>
+              </div>
+              <button
+                onClick={handleImportToSaved}
+                disabled={portableText.trim().length === 0}
+                className="mt-2 w-full px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center gap-1"
+              >
+                <Save className="h-3 w-3" />
+                Import to Saved Strategies
+              </button>
+            </div>
+          )}
+
           <div className="bg-white border border-gray-200 rounded-lg p-4">
             <div className="flex items-center justify-between mb-3">
               <h3 className="font-semibold text-sm">Ready-made</h3>
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Columns, Plus, X } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts'
+import { SavedStrategiesService, type SavedStrategy } from '../services/savedStrategiesService'
+import {
+  StrategyComparisonService,
+  type ComparedStrategy,
+  type ComparisonRow
+} from '../services/strategyComparisonService'
+import { supabase } from '../lib/supabase'
+
+interface StrategyComparisonProps {
+  ticker: string
+  currentPrice: number
+  // Strategies being compared; the builder adds to these as well
+  strategies: ComparedStrategy[]
+  onChange: (strategies: ComparedStrategy[]) => void
+}
+
+const colors = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c']
+
+export default function StrategyComparison({
+  ticker,
+  currentPrice,
+  strategies,
+  onChange
+}: StrategyComparisonProps) {
+  const [savedStrategies, setSavedStrategies] = useState<SavedStrategy[]>([])
+  const [selectedSavedId, setSelectedSavedId] = useState('')
+  const [daysForward, setDaysForward] = useState(0)
+
+  useEffect(() => {
+    const loadSavedStrategies = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser()
+        setSavedStrategies(user ? await SavedStrategiesService.searchStrategies(user.id, { underlyingTicker: ticker }) : [])
+      } catch (err) {
+        console.error('Error loading saved strategies for comparison:', err)
+      }
+    }
+
+    setSelectedSavedId('')
+    loadSavedStrategies()
+  }, [ticker])
+
+  // Rows run a Monte Carlo simulation per strategy, so they are kept out of
+  // the memo that follows the T+n slider
+  const { rows, error } = useMemo(() => {
+    try {
+      return {
+        rows: StrategyComparisonService.compareRows(strategies, currentPrice, { underlyingTicker: ticker }),
+        error: null
+      }
+    } catch (err) {
+      return { rows: null, error: err instanceof Error ? err.message : 'Comparison failed' }
+    }
+  }, [strategies, currentPrice, ticker])
+
+  const points = useMemo(
+    () => rows ? StrategyComparisonService.comparePoints(strategies, currentPrice, { daysForward, underlyingTicker: ticker }) : [],
+    [rows, strategies, currentPrice, daysForward, ticker]
+  )
+
+  const isFull = strategies.length >= StrategyComparisonService.MAX_STRATEGIES
+
+  const addSavedStrategy = () => {
+    const saved = savedStrategies.find(strategy => strategy.id === selectedSavedId)
+    if (!saved || isFull) return
+
+    onChange([...strategies, {
+      id: `saved-${saved.id}-${Date.now()}`,
+      name: saved.custom_name || saved.strategy_name,
+      legs: SavedStrategiesService.toPayoffLegs(saved)
+    }])
+    setSelectedSavedId('')
+  }
+
+  const removeStrategy = (id: string) => {
+    onChange(strategies.filter(strategy => strategy.id !== id))
+  }
+
+  const formatAmount = (value: number) => {
+    if (value === Infinity) return 'Unlimited'
+    if (value === -Infinity) return '-Unlimited'
+    return value.toFixed(0)
+  }
+
+  const metrics: Array<{ label: string; value: (row: ComparisonRow) => string }> = [
+    { label: 'Max Profit', value: row => formatAmount(row.maxProfit) },
+    { label: 'Max Loss', value: row => formatAmount(row.maxLoss) },
+    { label: 'Breakevens', value: row => row.breakEvenPoints.map(point => point.toFixed(2)).join(' / ') || '--' },
+    { label: 'Net Premium', value: row => `${Math.abs(row.netPremium).toFixed(0)} ${row.netPremium < 0 ? 'cr' : 'db'}` },
+    { label: 'Delta', value: row => row.netDelta.toFixed(3) },
+    { label: 'Gamma', value: row => row.netGamma.toFixed(3) },
+    { label: 'Theta', value: row => row.netTheta.toFixed(3) },
+    { label: 'Vega', value: row => row.netVega.toFixed(3) },
+    { label: 'Margin', value: row => row.margin.requirement.toFixed(0) },
+    { label: 'Buying Power', value: row => row.margin.buyingPowerEffect.toFixed(0) },
+    {
+      label: 'POP',
+      value: row => row.probabilityOfProfit === null ? '--' : `${(row.probabilityOfProfit * 100).toFixed(0)}%`
+    }
+  ]
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Columns className="h-5 w-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-900">Compare Strategies</h3>
+          <span className="text-sm text-gray-500">
+            {strategies.length} of {StrategyComparisonService.MAX_STRATEGIES}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedSavedId}
+            onChange={(e) => setSelectedSavedId(e.target.value)}
+            disabled={isFull || savedStrategies.length === 0}
+            className="px-2 py-1.5 border border-gray-300 rounded text-sm disabled:opacity-50"
+          >
+            <option value="">{savedStrategies.length === 0 ? 'No saved strategies' : 'Add a saved strategy'}</option>
+            {savedStrategies.map(saved => (
+              <option key={saved.id} value={saved.id}>{saved.custom_name || saved.strategy_name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addSavedStrategy}
+            disabled={isFull || !selectedSavedId}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 mb-4">{error}</div>
+      )}
+
+      {strategies.length < StrategyComparisonService.MIN_STRATEGIES && (
+        <p className="text-sm text-gray-500 mb-4">
+          Add at least {StrategyComparisonService.MIN_STRATEGIES} strategies, from your saved {ticker} strategies or
+          with Add to Comparison in the builder.
+        </p>
+      )}
+
+      {rows && strategies.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 mb-2 text-sm">
+            <label className="text-gray-600">Theoretical curve at T+</label>
+            <input
+              type="number"
+              min="0"
+              value={daysForward}
+              onChange={(e) => setDaysForward(Math.max(0, Number(e.target.value)))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-gray-600">days</span>
+            <span className="text-xs text-gray-500 ml-2">Solid lines: expiry. Dashed lines: T+{daysForward}.</span>
+          </div>
+
+          <div className="h-80 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={points}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="price" tickFormatter={(value) => Number(value).toFixed(0)} fontSize={11} />
+                <YAxis fontSize={11} />
+                <Tooltip formatter={(value: number) => value.toFixed(2)} labelFormatter={(label) => `Price ${Number(label).toFixed(2)}`} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#9ca3af" />
+                <ReferenceLine x={currentPrice} stroke="#6b7280" strokeDasharray="3 3" />
+                {strategies.map((strategy, index) => (
+                  <Line
+                    key={`${strategy.id}-expiry`}
+                    type="monotone"
+                    dataKey={StrategyComparisonService.seriesKey(strategy.id, 'expiry')}
+                    name={`${strategy.name} (expiry)`}
+                    stroke={colors[index % colors.length]}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                ))}
+                {strategies.map((strategy, index) => (
+                  <Line
+                    key={`${strategy.id}-horizon`}
+                    type="monotone"
+                    dataKey={StrategyComparisonService.seriesKey(strategy.id, 'horizon')}
+                    name={`${strategy.name} (T+${daysForward})`}
+                    stroke={colors[index % colors.length]}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    strokeWidth={1.5}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-xs text-gray-600">
+                  <th className="text-left py-2 px-2"></th>
+                  {rows.map((row, index) => (
+                    <th key={row.id} className="text-right py-2 px-2">
+                      <div className="flex items-center justify-end gap-1">
+                        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: colors[index % colors.length] }}></span>
+                        <span className="font-medium text-gray-900">{row.name}</span>
+                        <button onClick={() => removeStrategy(row.id)} className="text-gray-400 hover:text-red-600">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.map(metric => (
+                  <tr key={metric.label} className="border-b border-gray-100">
+                    <td className="py-2 px-2 text-gray-600">{metric.label}</td>
+                    {rows.map(row => (
+                      <td key={row.id} className="text-right py-2 px-2">{metric.value(row)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
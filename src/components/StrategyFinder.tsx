@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react'
+import { Search, RefreshCw, Info } from 'lucide-react'
+import type { OptionsContract } from '../types/options'
+import { liveOptionsDataService } from '../services/liveOptionsDataService'
+import {
+  StrategyFinderService,
+  DirectionalBias,
+  FinderCandidate,
+  FinderResult,
+  FinderSortKey
+} from '../services/strategyFinderService'
+
+interface StrategyFinderProps {
+  ticker: string
+  currentPrice: number
+  // Searched when the live chain has no rows for the ticker
+  fallbackContracts: OptionsContract[]
+  // Receives the chain that was searched, which the candidate's legs come from
+  onLoad: (candidate: FinderCandidate, contracts: OptionsContract[]) => void
+}
+
+const biasLabels: Record<DirectionalBias, string> = {
+  bullish: 'Bullish',
+  bearish: 'Bearish',
+  neutral: 'Neutral (range-bound)',
+  volatile: 'Volatile (big move)'
+}
+
+const sortLabels: Record<FinderSortKey, string> = {
+  score: 'Overall Score',
+  expectedValue: 'Expected Value',
+  riskReward: 'Reward / Risk',
+  liquidity: 'Liquidity'
+}
+
+const defaultTargetDate = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + 30)
+  return date.toISOString().split('T')[0]
+}
+
+export default function StrategyFinder({
+  ticker,
+  currentPrice,
+  fallbackContracts,
+  onLoad
+}: StrategyFinderProps) {
+  const [targetLow, setTargetLow] = useState(0)
+  const [targetHigh, setTargetHigh] = useState(0)
+  const [targetDate, setTargetDate] = useState(defaultTargetDate())
+  const [bias, setBias] = useState<DirectionalBias>('bullish')
+  const [maxRisk, setMaxRisk] = useState(1000)
+  const [minPop, setMinPop] = useState(0)
+  const [sortBy, setSortBy] = useState<FinderSortKey>('score')
+  const [chain, setChain] = useState<{ contracts: OptionsContract[]; spotPrice: number } | null>(null)
+  const [result, setResult] = useState<FinderResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setTargetLow(Math.round(currentPrice * 0.95))
+    setTargetHigh(Math.round(currentPrice * 1.05))
+    setChain(null)
+    setResult(null)
+    setError(null)
+  }, [ticker, currentPrice])
+
+  const runSearch = (contracts: OptionsContract[], spotPrice: number, sortKey: FinderSortKey) => {
+    try {
+      setResult(StrategyFinderService.findStrategies(contracts, {
+        spotPrice,
+        targetLow,
+        targetHigh,
+        targetDate,
+        bias,
+        maxRisk,
+        minProbabilityOfProfit: minPop / 100
+      }, sortKey))
+      setError(null)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : 'Strategy search failed')
+    }
+  }
+
+  const findStrategies = async () => {
+    setLoading(true)
+    try {
+      const [liveContracts, livePrice] = await Promise.all([
+        liveOptionsDataService.fetchOptionsForTicker(ticker),
+        liveOptionsDataService.getUnderlyingPrice(ticker)
+      ])
+      const contracts = liveContracts.length > 0
+        ? StrategyFinderService.fromLiveContracts(liveContracts)
+        : fallbackContracts
+      const spotPrice = livePrice || currentPrice
+      setChain({ contracts, spotPrice })
+      runSearch(contracts, spotPrice, sortBy)
+    } catch (err) {
+      console.error('Error loading options chain for strategy finder:', err)
+      setChain({ contracts: fallbackContracts, spotPrice: currentPrice })
+      runSearch(fallbackContracts, currentPrice, sortBy)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changeSort = (sortKey: FinderSortKey) => {
+    setSortBy(sortKey)
+    if (chain) runSearch(chain.contracts, chain.spotPrice, sortKey)
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount)
+  }
+
+  const formatRatio = (value: number) => {
+    return value === Infinity ? '∞' : value.toFixed(2)
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Search className="h-5 w-5 text-blue-600" />
+        <h3 className="font-semibold text-gray-900">Strategy Finder</h3>
+        <span className="text-sm text-gray-500">Describe your view and search the {ticker} chain for structures that fit it</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-4">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Outlook</label>
+          <select
+            value={bias}
+            onChange={(e) => setBias(e.target.value as DirectionalBias)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          >
+            {Object.entries(biasLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Target Low</label>
+          <input
+            type="number"
+            value={targetLow}
+            onChange={(e) => setTargetLow(Number(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Target High</label>
+          <input
+            type="number"
+            value={targetHigh}
+            onChange={(e) => setTargetHigh(Number(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">By Date</label>
+          <input
+            type="date"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Max Risk ($)</label>
+          <input
+            type="number"
+            min="0"
+            value={maxRisk}
+            onChange={(e) => setMaxRisk(Number(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Min POP (%)</label>
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={minPop}
+            onChange={(e) => setMinPop(Number(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={findStrategies}
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Find Strategies
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 mb-4">{error}</div>
+      )}
+
+      {result && (
+        result.candidates.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            {result.expiry
+              ? `None of the ${result.evaluated} structures evaluated for ${result.expiry} fit your risk and probability limits`
+              : 'The chain has no expiry on or after your target date'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-gray-600">
+                {result.candidates.length} of {result.evaluated} structures for the {result.expiry} expiry
+              </span>
+              <select
+                value={sortBy}
+                onChange={(e) => changeSort(e.target.value as FinderSortKey)}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {Object.entries(sortLabels).map(([value, label]) => (
+                  <option key={value} value={value}>Sort by {label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-xs text-gray-600">
+                    <th className="text-left py-2 px-2">Structure</th>
+                    <th className="text-right py-2 px-2">Premium</th>
+                    <th className="text-right py-2 px-2">Max Profit</th>
+                    <th className="text-right py-2 px-2">Max Loss</th>
+                    <th className="text-right py-2 px-2">Breakevens</th>
+                    <th className="text-right py-2 px-2">Expected Value</th>
+                    <th className="text-right py-2 px-2">POP</th>
+                    <th className="text-right py-2 px-2">Reward/Risk</th>
+                    <th className="text-right py-2 px-2">Liquidity</th>
+                    <th className="text-right py-2 px-2">Score</th>
+                    <th className="py-2 px-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.candidates.map((candidate, index) => (
+                    <tr key={`${candidate.description}-${index}`} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-2 px-2">
+                        <div className="font-medium text-gray-900">{candidate.name}</div>
+                        <div className="text-xs text-gray-500">{candidate.description}</div>
+                      </td>
+                      <td className={`text-right py-2 px-2 ${candidate.netPremium < 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                        {formatCurrency(Math.abs(candidate.netPremium))} {candidate.netPremium < 0 ? 'cr' : 'db'}
+                      </td>
+                      <td className="text-right py-2 px-2 text-green-600">
+                        {candidate.maxProfitUnbounded ? 'Unlimited' : formatCurrency(candidate.maxProfit)}
+                      </td>
+                      <td className="text-right py-2 px-2 text-red-600">{formatCurrency(candidate.maxLoss)}</td>
+                      <td className="text-right py-2 px-2">
+                        {candidate.breakEvenPoints.map(point => point.toFixed(2)).join(' / ') || '--'}
+                      </td>
+                      <td className={`text-right py-2 px-2 font-medium ${candidate.expectedValue >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(candidate.expectedValue)}
+                      </td>
+                      <td className="text-right py-2 px-2">{(candidate.probabilityOfProfit * 100).toFixed(0)}%</td>
+                      <td className="text-right py-2 px-2">{formatRatio(candidate.riskReward)}</td>
+                      <td className="text-right py-2 px-2">{(candidate.liquidity * 100).toFixed(0)}%</td>
+                      <td className="text-right py-2 px-2 font-medium">{(candidate.score * 100).toFixed(0)}</td>
+                      <td className="py-2 px-2 text-right">
+                        <button
+                          onClick={() => onLoad(candidate, chain?.contracts ?? fallbackContracts)}
+                          className="px-3 py-1 bg-blue-50 text-blue-700 rounded text-xs font-medium hover:bg-blue-100"
+                        >
+                          Load
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+
+      <p className="text-xs text-gray-500 mt-3 flex items-start">
+        <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+        Your target range is read as a one-standard-deviation band for the price on the target date. Expected value
+        and POP are measured at the first expiry on or after that date, with buys priced at the ask and sells at the bid.
+      </p>
+    </div>
+  )
+}
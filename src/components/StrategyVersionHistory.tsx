@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { History, RotateCcw, RefreshCw } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { SavedStrategiesService, type SavedStrategy, type StrategyVersion } from '../services/savedStrategiesService'
+import { StrategyDiffService, type LegChangeStatus } from '../services/strategyDiffService'
+
+interface StrategyVersionHistoryProps {
+  strategyId: string
+  ticker: string
+  underlyingPrice: number
+  onRestored: (strategy: SavedStrategy) => void
+}
+
+const statusStyles: Record<LegChangeStatus, string> = {
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700',
+  changed: 'bg-yellow-50 text-yellow-700',
+  unchanged: 'text-gray-500'
+}
+
+export default function StrategyVersionHistory({
+  strategyId,
+  ticker,
+  underlyingPrice,
+  onRestored
+}: StrategyVersionHistoryProps) {
+  const [versions, setVersions] = useState<StrategyVersion[]>([])
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadVersions = async () => {
+    setLoading(true)
+    try {
+      const loaded = await SavedStrategiesService.getVersions(strategyId)
+      setVersions(loaded)
+      setFromId(loaded[loaded.length - 2]?.id || loaded[0]?.id || '')
+      setToId(loaded[loaded.length - 1]?.id || '')
+      setError(null)
+    } catch (err) {
+      console.error('Error loading strategy versions:', err)
+      setError('Failed to load version history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+  }, [strategyId])
+
+  const from = versions.find(version => version.id === fromId)
+  const to = versions.find(version => version.id === toId)
+
+  const diff = useMemo(() => {
+    if (!from || !to) return null
+    return StrategyDiffService.diff(
+      SavedStrategiesService.toPayoffLegs(from),
+      SavedStrategiesService.toPayoffLegs(to),
+      underlyingPrice,
+      ticker
+    )
+  }, [from, to, underlyingPrice, ticker])
+
+  const restore = async (version: StrategyVersion) => {
+    if (!confirm(`Restore version ${version.version_number}? The current legs are kept in the history.`)) return
+
+    setRestoring(true)
+    try {
+      const restored = await SavedStrategiesService.restoreVersion(strategyId, version.id)
+      await loadVersions()
+      onRestored(restored)
+    } catch (err) {
+      console.error('Error restoring strategy version:', err)
+      setError('Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const formatValue = (value: number, decimals: number) => {
+    if (value === Infinity) return 'Unlimited'
+    if (value === -Infinity) return '-Unlimited'
+    return value.toFixed(decimals)
+  }
+
+  const formatChange = (before: number, after: number, decimals: number) => {
+    if (!isFinite(before) || !isFinite(after)) return before === after ? '0' : '--'
+    const change = after - before
+    return `${change > 0 ? '+' : ''}${change.toFixed(decimals)}`
+  }
+
+  const latest = versions[versions.length - 1]
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-blue-600" />
+          <h3 className="font-semibold text-sm">Version History</h3>
+        </div>
+        <button onClick={loadVersions} disabled={loading} className="text-gray-500 hover:text-gray-700 disabled:opacity-50">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-2 mb-3 bg-red-50 border border-red-200 rounded text-xs text-red-700">{error}</div>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="text-xs text-gray-500">{loading ? 'Loading versions...' : 'No versions recorded yet'}</p>
+      ) : (
+        <>
+          <div className="max-h-48 overflow-y-auto mb-4">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-1 px-2">Version</th>
+                  <th className="text-left py-1 px-2">Saved</th>
+                  <th className="text-left py-1 px-2">Note</th>
+                  <th className="text-right py-1 px-2">Legs</th>
+                  <th className="py-1 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...versions].reverse().map(version => (
+                  <tr key={version.id} className="border-b border-gray-100">
+                    <td className="py-1 px-2 font-medium">v{version.version_number}</td>
+                    <td className="py-1 px-2 text-gray-600">{new Date(version.created_at).toLocaleString()}</td>
+                    <td className="py-1 px-2 text-gray-600">{version.note || '--'}</td>
+                    <td className="py-1 px-2 text-right">{version.legs.length}</td>
+                    <td className="py-1 px-2 text-right">
+                      {version.id !== latest?.id && (
+                        <button
+                          onClick={() => restore(version)}
+                          disabled={restoring}
+                          className="text-blue-600 hover:text-blue-700 flex items-center gap-1 ml-auto disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Restore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2 mb-3 text-xs">
+            <span className="text-gray-600">Compare</span>
+            <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="px-2 py-1 border border-gray-300 rounded">
+              {versions.map(version => <option key={version.id} value={version.id}>v{version.version_number}</option>)}
+            </select>
+            <span className="text-gray-600">with</span>
+            <select value={toId} onChange={(e) => setToId(e.target.value)} className="px-2 py-1 border border-gray-300 rounded">
+              {versions.map(version => <option key={version.id} value={version.id}>v{version.version_number}</option>)}
+            </select>
+          </div>
+
+          {diff && from && to && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-700 mb-1">Legs</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-600">
+                        <th className="text-left py-1 px-2">v{from.version_number}</th>
+                        <th className="text-left py-1 px-2">v{to.version_number}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.legs.map((leg, index) => (
+                        <tr key={index} className={`border-b border-gray-100 ${statusStyles[leg.status]}`}>
+                          <td className="py-1 px-2">{leg.before ? StrategyDiffService.describeLeg(leg.before) : '--'}</td>
+                          <td className="py-1 px-2">
+                            {leg.after ? StrategyDiffService.describeLeg(leg.after) : '--'}
+                            {leg.changes.length > 0 && (
+                              <div className="text-[10px]">{leg.changes.join(', ')}</div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <h4 className="text-xs font-semibold text-gray-700 mb-1">Payoff & Greeks</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-gray-600">
+                        <th className="text-left py-1 px-2"></th>
+                        <th className="text-right py-1 px-2">v{from.version_number}</th>
+                        <th className="text-right py-1 px-2">v{to.version_number}</th>
+                        <th className="text-right py-1 px-2">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.payoff.map(metric => (
+                        <tr key={metric.label} className="border-b border-gray-100">
+                          <td className="py-1 px-2 text-gray-600">{metric.label}</td>
+                          <td className="py-1 px-2 text-right">{formatValue(metric.before, 0)}</td>
+                          <td className="py-1 px-2 text-right">{formatValue(metric.after, 0)}</td>
+                          <td className="py-1 px-2 text-right font-medium">{formatChange(metric.before, metric.after, 0)}</td>
+                        </tr>
+                      ))}
+                      <tr className="border-b border-gray-100">
+                        <td className="py-1 px-2 text-gray-600">Breakevens</td>
+                        <td className="py-1 px-2 text-right">{diff.breakEvens.before.map(point => point.toFixed(2)).join(' / ') || '--'}</td>
+                        <td className="py-1 px-2 text-right">{diff.breakEvens.after.map(point => point.toFixed(2)).join(' / ') || '--'}</td>
+                        <td className="py-1 px-2"></td>
+                      </tr>
+                      {diff.greeks.map(metric => (
+                        <tr key={metric.label} className="border-b border-gray-100">
+                          <td className="py-1 px-2 text-gray-600">{metric.label}</td>
+                          <td className="py-1 px-2 text-right">{formatValue(metric.before, 3)}</td>
+                          <td className="py-1 px-2 text-right">{formatValue(metric.after, 3)}</td>
+                          <td className="py-1 px-2 text-right font-medium">{formatChange(metric.before, metric.after, 3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={diff.points}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="price" tickFormatter={(value) => Number(value).toFixed(0)} fontSize={10} />
+                    <YAxis fontSize={10} />
+                    <Tooltip formatter={(value: number) => value.toFixed(2)} labelFormatter={(label) => `Price ${Number(label).toFixed(2)}`} />
+                    <ReferenceLine y={0} stroke="#9ca3af" />
+                    <ReferenceLine x={underlyingPrice} stroke="#3b82f6" strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="before" name={`v${from.version_number}`} stroke="#9ca3af" dot={false} strokeWidth={2} />
+                    <Line type="monotone" dataKey="after" name={`v${to.version_number}`} stroke="#2563eb" dot={false} strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
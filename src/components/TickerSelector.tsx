@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react'
 import { liveOptionsDataService, LiquidTicker } from '../services/liveOptionsDataService'
+import { IVRankService, IVRankSummary } from '../services/ivRankService'
 
 interface TickerSelectorProps {
   selectedTicker: string
@@ -14,6 +15,7 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [showDropdown, setShowDropdown] = useState(false)
+  const [ivRanks, setIvRanks] = useState<Record<string, IVRankSummary>>({})
 
   useEffect(() => {
     loadTickers()
@@ -24,6 +26,7 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
     const data = await liveOptionsDataService.fetchLiquidTickers()
     setTickers(data)
     setLoading(false)
+    setIvRanks(await IVRankService.getIVRanks(data.map(t => t.ticker)))
   }
 
   const filteredTickers = tickers.filter(
@@ -46,6 +49,13 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
     return `$${price.toFixed(2)}`
   }
 
+  const formatRank = (value: number | undefined): string => {
+    if (value === undefined) return 'N/A'
+    return value.toFixed(0)
+  }
+
+  const selectedIvRank = ivRanks[selectedTicker]
+
   return (
     <div className="ticker-selector-container">
       <div className="ticker-selector-header">
@@ -63,6 +73,14 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
                   <span className="ticker-name">{selectedTickerData.name}</span>
                 </>
               )}
+              {selectedIvRank && (
+                <span
+                  className="ticker-iv-rank"
+                  title={`30-day ATM IV ${(selectedIvRank.currentIV * 100).toFixed(1)}%`}
+                >
+                  IVR {formatRank(selectedIvRank.ivRank)} · IVP {formatRank(selectedIvRank.ivPercentile)}
+                </span>
+              )}
             </div>
             <svg
               className={`dropdown-arrow ${showDropdown ? 'open' : ''}`}
@@ -120,6 +138,14 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
                           <span className="metric-label">Avg OI:</span>
                           <span className="metric-value">{formatNumber(ticker.avg_open_interest)}</span>
                         </div>
+                        <div className="ticker-metric">
+                          <span className="metric-label">IVR:</span>
+                          <span className="metric-value">{formatRank(ivRanks[ticker.ticker]?.ivRank)}</span>
+                        </div>
+                        <div className="ticker-metric">
+                          <span className="metric-label">IVP:</span>
+                          <span className="metric-value">{formatRank(ivRanks[ticker.ticker]?.ivPercentile)}</span>
+                        </div>
                       </div>
                     </button>
                   ))
@@ -193,6 +219,16 @@ export const TickerSelector: React.FC<TickerSelectorProps> = ({
           min-width: 80px;
         }
 
+        .ticker-iv-rank {
+          font-size: 0.8rem;
+          font-weight: 600;
+          color: #4f46e5;
+          background: #eef2ff;
+          padding: 0.125rem 0.5rem;
+          border-radius: 9999px;
+          white-space: nowrap;
+        }
+
         .ticker-name {
           font-size: 0.9rem;
           color: #6b7280;
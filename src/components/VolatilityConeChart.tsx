@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { Activity, Info } from 'lucide-react'
+import {
+  RealizedVolatilityService,
+  RealizedVolEstimator,
+  REALIZED_VOL_ESTIMATOR_LABELS,
+  VolatilityConePoint
+} from '../services/realizedVolatilityService'
+
+interface ConeContract {
+  underlying_ticker: string
+  contract_type: 'call' | 'put'
+  strike_price: number
+  expiration_date: string
+  implied_volatility?: number
+}
+
+interface VolatilityConeChartProps {
+  ticker: string
+  underlyingPrice: number
+  contracts: ConeContract[]
+  estimator?: RealizedVolEstimator
+  className?: string
+}
+
+export default function VolatilityConeChart({
+  ticker,
+  underlyingPrice,
+  contracts,
+  estimator = 'yang-zhang',
+  className = ''
+}: VolatilityConeChartProps) {
+  const [cone, setCone] = useState<VolatilityConePoint[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    RealizedVolatilityService.loadBars(ticker)
+      .then(bars => {
+        if (!cancelled) setCone(RealizedVolatilityService.buildCone(bars, estimator))
+      })
+      .catch(error => console.error(`Failed to build volatility cone for ${ticker}:`, error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [ticker, estimator])
+
+  // ATM implied volatility at the expiry closest to each cone window
+  const impliedByWindow = useMemo(() => {
+    const byExpiry = new Map<string, ConeContract[]>()
+    for (const contract of contracts) {
+      if (contract.underlying_ticker !== ticker || !contract.implied_volatility) continue
+      const group = byExpiry.get(contract.expiration_date) || []
+      group.push(contract)
+      byExpiry.set(contract.expiration_date, group)
+    }
+    if (byExpiry.size === 0 || underlyingPrice <= 0) return {}
+
+    const expiries = Array.from(byExpiry.keys()).map(date => ({
+      date,
+      tradingDays: (new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24) * RealizedVolatilityService.TRADING_DAYS_PER_YEAR / 365
+    })).filter(expiry => expiry.tradingDays > 0)
+
+    const result: Record<number, number> = {}
+    for (const point of cone) {
+      const nearest = expiries.reduce<typeof expiries[number] | null>((best, expiry) =>
+        !best || Math.abs(expiry.tradingDays - point.window) < Math.abs(best.tradingDays - point.window) ? expiry : best, null)
+      if (!nearest) continue
+
+      const slice = byExpiry.get(nearest.date) || []
+      const atmStrike = slice.reduce((best, contract) =>
+        Math.abs(contract.strike_price - underlyingPrice) < Math.abs(best - underlyingPrice) ? contract.strike_price : best, slice[0].strike_price)
+      const atm = slice.filter(contract => contract.strike_price === atmStrike)
+      result[point.window] = atm.reduce((sum, contract) => sum + (contract.implied_volatility || 0), 0) / atm.length
+    }
+
+    return result
+  }, [contracts, ticker, underlyingPrice, cone])
+
+  const chartData = cone.map(point => ({
+    window: point.window,
+    max: point.max * 100,
+    p75: point.p75 * 100,
+    median: point.median * 100,
+    p25: point.p25 * 100,
+    min: point.min * 100,
+    realized: point.current * 100,
+    implied: impliedByWindow[point.window] !== undefined ? impliedByWindow[point.window] * 100 : null
+  }))
+
+  return (
+    <div className={`card shadow-md border-indigo-200 ${className}`}>
+      <div className="card-header bg-gradient-to-r from-indigo-50 to-indigo-100">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Activity className="h-5 w-5 mr-2 text-indigo-600" />
+          {ticker} IV vs Realized Volatility Cone
+        </h3>
+      </div>
+      <div className="card-body">
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">Loading price history...</div>
+        ) : chartData.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">
+            Not enough daily price history for {ticker} to build a volatility cone
+          </div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="window" tickFormatter={(v) => `${v}d`} tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(v) => `${v.toFixed(0)}%`} tick={{ fontSize: 12 }} width={45} />
+                <Tooltip
+                  formatter={(value: number | null) => value === null ? '--' : `${value.toFixed(1)}%`}
+                  labelFormatter={(label) => `${label} trading-day window`}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line dataKey="max" name="Max" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="p75" name="75th pct" stroke="#6b7280" strokeDasharray="2 2" dot={false} />
+                <Line dataKey="median" name="Median" stroke="#374151" dot={false} />
+                <Line dataKey="p25" name="25th pct" stroke="#6b7280" strokeDasharray="2 2" dot={false} />
+                <Line dataKey="min" name="Min" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="realized" name="Current RV" stroke="#4f46e5" strokeWidth={2} />
+                <Line dataKey="implied" name="ATM IV" stroke="#f97316" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-gray-500 mt-2 flex items-start">
+              <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              {REALIZED_VOL_ESTIMATOR_LABELS[estimator]} realized volatility over non-overlapping windows.
+              ATM IV is taken from the expiry closest to each window.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react'
 import type { OptionsContract, OptionsPosition, OptionsOrder } from '../types/options'
 import { TradingHistoryService } from '../services/tradingHistoryService'
-import type { StrategyLeg } from '../services/strategyValidationService'
+import { StrategyValidationService, type StrategyLeg, type StockLeg } from '../services/strategyValidationService'
+import { MarginService } from '../services/marginService'
+import { getUnderlyingPrice } from '../services/optionsChainGenerator'
+import { ImpliedVolatilityEngine, ChainIVQuote } from '../services/impliedVolatilityEngine'
 
 interface OptionsState {
   balance: number
@@ -12,15 +15,18 @@ interface OptionsState {
   positions: OptionsPosition[]
   orders: OptionsOrder[]
   contracts: OptionsContract[]
+  underlyingPrices: Record<string, number>
+  chainIVs: Record<string, ChainIVQuote>
   selectedUnderlying: string | null
 }
 
 type OptionsAction =
   | { type: 'PLACE_OPTIONS_ORDER'; payload: Omit<OptionsOrder, 'id' | 'timestamp'> }
-  | { type: 'PLACE_MULTI_LEG_ORDER'; payload: { legs: StrategyLeg[]; strategyName: string; quantity: number } }
+  | { type: 'PLACE_MULTI_LEG_ORDER'; payload: { legs: StrategyLeg[]; stockLegs?: StockLeg[]; strategyName: string; quantity: number; underlyingPrice?: number; heldLots?: number } }
   | { type: 'CANCEL_OPTIONS_ORDER'; payload: string }
   | { type: 'FILL_OPTIONS_ORDER'; payload: { orderId: string; filledPrice: number } }
   | { type: 'UPDATE_CONTRACT_PRICES'; payload: OptionsContract[] }
+  | { type: 'SET_UNDERLYING_PRICES'; payload: Record<string, number> }
   | { type: 'SET_SELECTED_UNDERLYING'; payload: string | null }
   | { type: 'LOAD_OPTIONS_DATA' }
   | { type: 'CLOSE_POSITION'; payload: { positionId: string; exitPrice: number; strategyType?: string } }
@@ -34,6 +40,8 @@ const initialState: OptionsState = {
   positions: [],
   orders: [],
   contracts: [],
+  underlyingPrices: {},
+  chainIVs: {},
   selectedUnderlying: null
 }
 
@@ -42,6 +50,23 @@ const OptionsContext = createContext<{
   dispatch: React.Dispatch<OptionsAction>
 } | null>(null)
 
+// Re-solves bid/mid/ask IVs for the whole chain and refreshes each contract's
+// implied_volatility from its mid IV where one exists. American contracts are
+// solved on the same binomial tree GreeksCalculator prices them with
+function withChainIVs(state: OptionsState, contracts: OptionsContract[], underlyingPrices: Record<string, number>): OptionsState {
+  const chainIVs = ImpliedVolatilityEngine.solveChain(contracts, underlyingPrices)
+
+  return {
+    ...state,
+    underlyingPrices,
+    chainIVs,
+    contracts: contracts.map(contract => {
+      const midIV = chainIVs[contract.ticker]?.midIV
+      return midIV ? { ...contract, implied_volatility: midIV } : contract
+    })
+  }
+}
+
 function optionsReducer(state: OptionsState, action: OptionsAction): OptionsState {
   switch (action.type) {
     case 'PLACE_OPTIONS_ORDER': {
@@ -127,10 +152,11 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
     }
     
     case 'UPDATE_CONTRACT_PRICES': {
-      return {
-        ...state,
-        contracts: action.payload
-      }
+      return withChainIVs(state, action.payload, state.underlyingPrices)
+    }
+
+    case 'SET_UNDERLYING_PRICES': {
+      return withChainIVs(state, state.contracts, { ...state.underlyingPrices, ...action.payload })
     }
     
     case 'SET_SELECTED_UNDERLYING': {
@@ -161,14 +187,34 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
     }
 
     case 'PLACE_MULTI_LEG_ORDER': {
-      const { legs, strategyName, quantity } = action.payload
+      const { legs, stockLegs = [], strategyName, quantity, heldLots = 0 } = action.payload
+      const underlyingTicker = legs[0].contract.underlying_ticker
+
+      // Held shares can only be used once, and only as the long side; selling them happens in the stock account
+      const heldLegs = stockLegs.filter(leg => leg.stockPositionId)
+      if (heldLegs.some(leg => leg.action === 'sell')) {
+        console.error('Held shares cannot be sold as part of a multi-leg order')
+        return state
+      }
+      const freeLots = heldLots - StrategyValidationService.linkedStockLots(state.positions, underlyingTicker)
+      if (heldLegs.reduce((sum, leg) => sum + leg.quantity * quantity, 0) > freeLots) {
+        console.error('Held shares are already covering other positions')
+        return state
+      }
+      const underlyingPrice = action.payload.underlyingPrice
+        ?? state.underlyingPrices[underlyingTicker]
+        ?? getUnderlyingPrice(underlyingTicker)
 
-      const totalCost = legs.reduce((sum, leg) => {
-        const sign = leg.action === 'buy' ? 1 : -1
-        return sum + (sign * leg.contract.last * leg.quantity * 100)
-      }, 0)
+      // Stock legs settle in the stock trading account; here they only cover short calls
+      const margin = MarginService.calculate(
+        StrategyValidationService.toPayoffLegs(legs, stockLegs).map(leg => ({ ...leg, quantity: leg.quantity * quantity })),
+        underlyingPrice,
+        undefined,
+        underlyingTicker
+      )
+      const totalCost = margin.netPremium
 
-      if (totalCost > state.buyingPower) {
+      if (margin.buyingPowerEffect > state.buyingPower) {
         console.error('Insufficient buying power for multi-leg order')
         return state
       }
@@ -203,7 +249,28 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
         gamma: 0,
         theta: 0,
         vega: 0,
-        impliedVolatility: 0
+        impliedVolatility: 0,
+        marginRequirement: margin.requirement,
+        entryPremium: totalCost / (quantity * 100),
+        legs: [
+          ...legs.map(leg => ({
+            type: leg.contract.contract_type,
+            strike: leg.contract.strike_price,
+            expiry: leg.contract.expiration_date,
+            action: leg.action,
+            quantity: leg.quantity,
+            premium: leg.contract.last
+          })),
+          ...stockLegs.map(leg => ({
+            type: 'stock' as const,
+            strike: leg.price,
+            expiry: '',
+            action: leg.action,
+            quantity: leg.quantity,
+            premium: leg.price,
+            stockPositionId: leg.stockPositionId
+          }))
+        ]
       }
 
       return {
@@ -211,7 +278,7 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
         orders: [...state.orders, ...orders],
         positions: [...state.positions, position],
         balance: state.balance - totalCost,
-        buyingPower: state.buyingPower - totalCost
+        buyingPower: state.buyingPower - margin.buyingPowerEffect
       }
     }
 
@@ -219,14 +286,20 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
       const position = state.positions.find(p => p.id === action.payload.positionId)
       if (!position) return state
 
+      // exitPrice is the size of the structure's value. A net-short structure
+      // is closed by buying it back, so its exit is a debit rather than a credit
       const exitPrice = action.payload.exitPrice
-      const profitLoss = (exitPrice - position.avgPrice) * position.quantity * 100
-      const profitLossPercent = ((exitPrice - position.avgPrice) / position.avgPrice) * 100
+      const entryPremium = position.entryPremium ?? position.avgPrice
+      const isCredit = entryPremium < 0
+      const closeProceeds = (isCredit ? -exitPrice : exitPrice) * position.quantity * 100
+      const entryCost = entryPremium * position.quantity * 100
+      const profitLoss = closeProceeds - entryCost
+      const profitLossPercent = entryCost !== 0 ? (profitLoss / Math.abs(entryCost)) * 100 : 0
 
       TradingHistoryService.recordTrade({
         contract_ticker: position.contractTicker,
         underlying_ticker: position.underlyingTicker,
-        trade_type: 'sell_to_close',
+        trade_type: isCredit ? 'buy_to_close' : 'sell_to_close',
         entry_price: position.avgPrice,
         exit_price: exitPrice,
         quantity: position.quantity,
@@ -241,8 +314,8 @@ function optionsReducer(state: OptionsState, action: OptionsAction): OptionsStat
       return {
         ...state,
         positions: state.positions.filter(p => p.id !== action.payload.positionId),
-        balance: state.balance + (position.quantity * exitPrice * 100),
-        buyingPower: state.buyingPower + (position.quantity * exitPrice * 100)
+        balance: state.balance + closeProceeds,
+        buyingPower: state.buyingPower + closeProceeds + (position.marginRequirement || 0)
       }
     }
 
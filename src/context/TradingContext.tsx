@@ -62,6 +62,8 @@ interface TradingState {
 
 type TradingAction =
   | { type: 'PLACE_ORDER'; payload: Omit<Order, 'id' | 'timestamp'> }
+  // Filled at the given price rather than the simulated quote, e.g. stock legs of an options strategy
+  | { type: 'PLACE_FILLED_ORDER'; payload: Omit<Order, 'id' | 'timestamp' | 'status'> & { price: number } }
   | { type: 'CANCEL_ORDER'; payload: string }
   | { type: 'FILL_ORDER'; payload: { orderId: string; filledPrice: number } }
   | { type: 'ADD_TO_WATCHLIST'; payload: Stock }
@@ -162,6 +164,17 @@ function tradingReducer(state: TradingState, action: TradingAction): TradingStat
       }
     }
     
+    case 'PLACE_FILLED_ORDER': {
+      const newOrder: Order = {
+        ...action.payload,
+        id: Date.now().toString(),
+        status: 'pending',
+        timestamp: new Date()
+      }
+
+      return fillOrder({ ...state, orders: [...state.orders, newOrder] }, newOrder.id, action.payload.price)
+    }
+
     case 'CANCEL_ORDER': {
       return {
         ...state,
@@ -24,6 +24,28 @@ const finalKey = isValidKey ? supabaseAnonKey : 'demo-key'
 
 export const supabase = createClient(finalUrl, finalKey)
 
+// Supabase returns at most this many rows per select
+const PAGE_SIZE = 1000
+
+/**
+ * Reads every page of a select, which Supabase otherwise cuts off at
+ * PAGE_SIZE rows. fetchPage must apply a total order and the given range,
+ * otherwise pages can overlap or skip rows.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) return { data: rows, error }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null }
+  }
+}
+
 // Auth service wrapper
 export const auth = {
   async signIn(email: string, password: string) {
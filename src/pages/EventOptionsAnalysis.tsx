@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react'
 import { Search, RefreshCw, TrendingUp, AlertCircle } from 'lucide-react'
 import MarketEventsTimeline from '../components/MarketEventsTimeline'
+import ImpliedEventMoveCard from '../components/ImpliedEventMoveCard'
+import EarningsMoveHistory from '../components/EarningsMoveHistory'
 import SentimentDashboard from '../components/SentimentDashboard'
 import AnalystRatingsDisplay from '../components/AnalystRatingsDisplay'
 import { EventAdjustedPricingService } from '../services/eventAdjustedPricingService'
 import { MarketEventsService } from '../services/marketEventsService'
 import { SentimentAnalysisService } from '../services/sentimentAnalysisService'
 import { AnalystRecommendationsService } from '../services/analystRecommendationsService'
+import { RateCurveService } from '../services/rateCurveService'
 
 export default function EventOptionsAnalysis() {
   const [ticker, setTicker] = useState('AAPL')
@@ -28,7 +31,7 @@ export default function EventOptionsAnalysis() {
         spotPrice,
         spotPrice,
         30 / 365,
-        0.05,
+        RateCurveService.getRate(30 / 365),
         0.25,
         true
       )
@@ -197,12 +200,19 @@ export default function EventOptionsAnalysis() {
             daysBack={90}
           />
 
+          <ImpliedEventMoveCard
+            ticker={ticker}
+            daysAhead={60}
+          />
+
           <AnalystRatingsDisplay
             ticker={ticker}
             currentPrice={spotPrice}
           />
         </div>
 
+        <EarningsMoveHistory ticker={ticker} />
+
         <SentimentDashboard ticker={ticker} />
 
         <div className="mt-8 bg-white rounded-lg shadow p-6">
@@ -227,7 +237,7 @@ export default function EventOptionsAnalysis() {
               <div>
                 <div className="font-semibold mb-1">Event Volatility Adjustment</div>
                 <div className="text-sm">
-                  Adjusts implied volatility based on proximity to major events like earnings. IV typically expands 30-50% before earnings and crushes 40% after
+                  Splits the ATM IV term structure into base and event variance to read the move the market implies for the event, cross-checked against the ATM straddle. The event variance drives the pre-event IV and the forecast IV crush once it has passed
                 </div>
               </div>
             </div>
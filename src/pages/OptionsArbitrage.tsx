@@ -14,10 +14,27 @@ import {
   Search,
   Zap,
   Scale,
-  Percent
+  Percent,
+  History
 } from 'lucide-react'
 import { BlackScholesService, ArbitrageOpportunity } from '../services/blackScholesService'
 import { PolygonService } from '../services/polygonService'
+import { getUnderlyingPrice } from '../services/optionsChainGenerator'
+import { ParityArbitrageService, ParityArbitrage, ParityStructure } from '../services/parityArbitrageService'
+import { ChainConsistencyService, ChainViolation } from '../services/chainConsistencyService'
+import { liveOptionsDataService } from '../services/liveOptionsDataService'
+import { DividendService } from '../services/dividendService'
+import { RateCurveService } from '../services/rateCurveService'
+import { TransactionCostService, TransactionCostModel } from '../services/transactionCostService'
+import { ArbitrageTrackingService } from '../services/arbitrageTrackingService'
+import {
+  RealizedVolatilityService,
+  RealizedVolEstimator,
+  REALIZED_VOL_ESTIMATORS,
+  REALIZED_VOL_ESTIMATOR_LABELS
+} from '../services/realizedVolatilityService'
+import VolatilityConeChart from '../components/VolatilityConeChart'
+import ArbitrageHistoryPanel from '../components/ArbitrageHistoryPanel'
 import Disclaimer from '../components/Disclaimer'
 import TradingViewWidget from '../components/TradingViewWidget'
 
@@ -25,18 +42,39 @@ export default function OptionsArbitrage() {
   const [opportunities, setOpportunities] = useState<ArbitrageOpportunity[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedOpportunity, setSelectedOpportunity] = useState<ArbitrageOpportunity | null>(null)
-  const [riskFreeRate, setRiskFreeRate] = useState(0.05)
+  // undefined means each expiry reads its own rate from the Treasury curve
+  const [riskFreeRate, setRiskFreeRate] = useState<number | undefined>(undefined)
   const [minPriceDifference, setMinPriceDifference] = useState(0.05)
   const [searchTerm, setSearchTerm] = useState('')
   const [confidenceFilter, setConfidenceFilter] = useState<string>('all')
   const [typeFilter, setTypeFilter] = useState<string>('all')
-  const [arbitrageType, setArbitrageType] = useState<'price' | 'volatility' | 'put-call-parity'>('price')
+  const [arbitrageType, setArbitrageType] = useState<'price' | 'volatility' | 'put-call-parity' | 'box-conversion' | 'chain-consistency'>('price')
+  // Used only for underlyings without enough price history for an estimate
   const [historicalVolatility, setHistoricalVolatility] = useState(0.25)
+  const [rvEstimator, setRvEstimator] = useState<RealizedVolEstimator>('yang-zhang')
+  const [rvWindow, setRvWindow] = useState(30)
+  const [realizedVolatilities, setRealizedVolatilities] = useState<Record<string, number>>({})
+  const [scannedContracts, setScannedContracts] = useState<any[]>([])
+  const [coneTicker, setConeTicker] = useState('SPY')
+  const [parityResults, setParityResults] = useState<ParityArbitrage[]>([])
+  const [chainViolations, setChainViolations] = useState<ChainViolation[]>([])
   const [showDetails, setShowDetails] = useState(false)
+  const [costModel, setCostModel] = useState<TransactionCostModel>(() => TransactionCostService.getModel())
+  const [minNetEdge, setMinNetEdge] = useState(0)
+  const [minCapacity, setMinCapacity] = useState(0)
+  const [netPositiveOnly, setNetPositiveOnly] = useState(false)
+  const [activeTab, setActiveTab] = useState<'scanner' | 'history'>('scanner')
 
   useEffect(() => {
     loadArbitrageOpportunities()
-  }, [arbitrageType, riskFreeRate, minPriceDifference, historicalVolatility])
+  }, [arbitrageType, riskFreeRate, minPriceDifference, historicalVolatility, rvEstimator, rvWindow, costModel])
+
+  const updateCostModel = (field: keyof TransactionCostModel, value: number) => {
+    if (!isFinite(value) || value < 0) return
+    const updated = { ...costModel, [field]: value }
+    TransactionCostService.setModel(updated)
+    setCostModel(updated)
+  }
 
   const loadArbitrageOpportunities = async () => {
     try {
@@ -56,6 +94,13 @@ export default function OptionsArbitrage() {
         }
       })
       
+      // Refresh dividend schedules so the scanners price off current ex-dates
+      const underlyings = Array.from(new Set(contractsWithPrice.map(c => c.underlying_ticker)))
+      await Promise.all(underlyings.map(ticker => DividendService.loadDividendModel(ticker)))
+
+      // Tracking only closes opportunities that a scan on the same settings stops reporting
+      const scanParameters = JSON.stringify(getScanParameters())
+      
       let arbitrageResults: ArbitrageOpportunity[] = []
       
       switch (arbitrageType) {
@@ -63,17 +108,30 @@ export default function OptionsArbitrage() {
           arbitrageResults = BlackScholesService.findArbitrageOpportunities(
             contractsWithPrice,
             riskFreeRate,
-            minPriceDifference
+            minPriceDifference,
+            costModel
           )
           break
           
-        case 'volatility':
+        case 'volatility': {
+          const realized = await RealizedVolatilityService.getRealizedVolatilities(underlyings, rvEstimator, rvWindow)
+          setRealizedVolatilities(realized)
+          setScannedContracts(contractsWithPrice)
+          if (!underlyings.includes(coneTicker) && underlyings.length > 0) setConeTicker(underlyings[0])
+
+          const volatilityByTicker: Record<string, number> = {}
+          for (const ticker of underlyings) {
+            volatilityByTicker[ticker] = realized[ticker] ?? historicalVolatility
+          }
+
           arbitrageResults = BlackScholesService.findVolatilityArbitrage(
             contractsWithPrice,
-            historicalVolatility,
-            minPriceDifference
+            volatilityByTicker,
+            minPriceDifference,
+            costModel
           )
           break
+        }
           
         case 'put-call-parity':
           const callContracts = contractsWithPrice.filter(c => c.contract_type === 'call')
@@ -86,11 +144,54 @@ export default function OptionsArbitrage() {
             callContracts,
             putContracts,
             spyPrice,
-            riskFreeRate
+            riskFreeRate,
+            costModel
           )
           break
+
+        case 'box-conversion': {
+          // Boxes need every strike, so scan the full chain of each underlying
+          const chains = underlyings.flatMap(ticker => PolygonService.getOptionsChainForUnderlying(ticker))
+          // Spot must match the price the quotes were generated from
+          const spotPrices: Record<string, number> = {}
+          for (const ticker of underlyings) {
+            spotPrices[ticker] = getUnderlyingPrice(ticker)
+          }
+          const results = ParityArbitrageService.scan(chains, spotPrices, riskFreeRate)
+          setParityResults(results)
+          ArbitrageTrackingService.recordScan(arbitrageType, ArbitrageTrackingService.fromParityResults(results), {
+            underlyings,
+            contractTickers: chains.map(c => c.ticker),
+            parameters: scanParameters
+          })
+          break
+        }
+
+        case 'chain-consistency': {
+          const chains = (await Promise.all(underlyings.map(ticker => liveOptionsDataService.fetchOptionsForTicker(ticker)))).flat()
+          const violations = ChainConsistencyService.analyze(chains, riskFreeRate)
+          setChainViolations(violations)
+          ArbitrageTrackingService.recordScan(arbitrageType, ArbitrageTrackingService.fromChainViolations(violations), {
+            underlyings,
+            contractTickers: chains.map(c => c.contract_ticker),
+            parameters: scanParameters
+          })
+          break
+        }
       }
       
+      if (arbitrageType === 'price' || arbitrageType === 'volatility' || arbitrageType === 'put-call-parity') {
+        ArbitrageTrackingService.recordScan(
+          arbitrageType,
+          ArbitrageTrackingService.fromOpportunities(arbitrageType, arbitrageResults),
+          {
+            underlyings,
+            contractTickers: contractsWithPrice.map(c => c.ticker),
+            parameters: scanParameters,
+            prices: Object.fromEntries(contractsWithPrice.map(c => [c.ticker, c.last]))
+          }
+        )
+      }
       setOpportunities(arbitrageResults)
     } catch (error) {
       console.error('Failed to load arbitrage opportunities:', error)
@@ -99,6 +200,21 @@ export default function OptionsArbitrage() {
     }
   }
 
+  // The settings each scan type depends on
+  const getScanParameters = () => {
+    switch (arbitrageType) {
+      case 'price':
+        return { riskFreeRate, minPriceDifference, costModel }
+      case 'volatility':
+        return { minPriceDifference, historicalVolatility, rvEstimator, rvWindow, costModel }
+      case 'put-call-parity':
+        return { riskFreeRate, costModel }
+      case 'box-conversion':
+      case 'chain-consistency':
+        return { riskFreeRate }
+    }
+  }
+
   const getBasePriceForTicker = (ticker: string): number => {
     // Base prices for our simulated options
     const basePrices: { [key: string]: number } = {
@@ -135,6 +251,23 @@ export default function OptionsArbitrage() {
     }
   }
 
+  // Executable parity trades are only as reliable as their exposure to early assignment
+  function parityConfidence(result: ParityArbitrage): 'high' | 'medium' | 'low' {
+    return result.earlyExerciseRisk === 'none' ? 'high' : result.earlyExerciseRisk === 'low' ? 'medium' : 'low'
+  }
+
+  // Discounted vertical bounds and European calendars hold only approximately
+  function violationConfidence(violation: ChainViolation): 'high' | 'medium' | 'low' {
+    return violation.approximate ? 'medium' : 'high'
+  }
+
+  const parityStructureLabels: Record<ParityStructure, string> = {
+    'long-box': 'Long Box',
+    'short-box': 'Short Box',
+    conversion: 'Conversion',
+    reversal: 'Reversal'
+  }
+
   const filteredOpportunities = opportunities.filter(opp => {
     const matchesSearch = 
       opp.contractTicker.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -148,10 +281,47 @@ export default function OptionsArbitrage() {
       typeFilter === 'all' || 
       opp.contractType === typeFilter
     
-    return matchesSearch && matchesConfidence && matchesType
+    const matchesCosts =
+      opp.netEdge >= minNetEdge &&
+      opp.capacity >= minCapacity &&
+      (!netPositiveOnly || opp.netEdge > 0)
+    
+    return matchesSearch && matchesConfidence && matchesType && matchesCosts
   })
 
-  const arbitrageStats = {
+  const filteredParityResults = parityResults.filter(result =>
+    result.underlyingTicker.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (confidenceFilter === 'all' || parityConfidence(result) === confidenceFilter)
+  )
+
+  const filteredChainViolations = chainViolations.filter(violation =>
+    violation.underlyingTicker.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (confidenceFilter === 'all' || violationConfidence(violation) === confidenceFilter) &&
+    (typeFilter === 'all' || violation.contractType === typeFilter)
+  )
+
+  // Box and chain scanners already price at executable bid/ask
+  const scoresCosts = arbitrageType !== 'box-conversion' && arbitrageType !== 'chain-consistency'
+
+  const arbitrageStats = arbitrageType === 'chain-consistency' ? {
+    totalOpportunities: chainViolations.length,
+    highConfidence: chainViolations.filter(v => violationConfidence(v) === 'high').length,
+    avgPriceDifference: chainViolations.length > 0
+      ? chainViolations.reduce((sum, v) => sum + v.edge / 100, 0) / chainViolations.length
+      : 0,
+    maxProfit: chainViolations.length > 0
+      ? Math.max(...chainViolations.map(v => v.edge))
+      : 0
+  } : arbitrageType === 'box-conversion' ? {
+    totalOpportunities: parityResults.length,
+    highConfidence: parityResults.filter(r => parityConfidence(r) === 'high').length,
+    avgPriceDifference: parityResults.length > 0
+      ? parityResults.reduce((sum, r) => sum + r.profit / 100, 0) / parityResults.length
+      : 0,
+    maxProfit: parityResults.length > 0
+      ? Math.max(...parityResults.map(r => r.profit))
+      : 0
+  } : {
     totalOpportunities: opportunities.length,
     highConfidence: opportunities.filter(o => o.confidence === 'high').length,
     avgPriceDifference: opportunities.length > 0 
@@ -201,302 +371,681 @@ export default function OptionsArbitrage() {
         </div>
       </div>
 
-      {/* Arbitrage Statistics */}
-      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4 mb-8">
-        <div className="card bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200 shadow-md hover:shadow-lg transition-shadow">
-          <div className="card-body">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Calculator className="h-8 w-8 text-blue-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Total Opportunities</p>
-                <p className="text-3xl font-bold text-gray-900">{arbitrageStats.totalOpportunities}</p>
-                <p className="text-xs text-gray-500 mt-1">Potential arbitrage trades</p>
+      {/* Tabs */}
+      <div className="border-b border-gray-200 bg-white rounded-lg shadow-sm">
+        <nav className="flex -mb-px">
+          <button
+            onClick={() => setActiveTab('scanner')}
+            className={`py-4 px-6 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === 'scanner'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center space-x-2">
+              <Search className="h-5 w-5" />
+              <span>Scanner</span>
+            </div>
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`py-4 px-6 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === 'history'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-center space-x-2">
+              <History className="h-5 w-5" />
+              <span>History</span>
+            </div>
+          </button>
+        </nav>
+      </div>
+
+      {activeTab === 'history' ? (
+        <ArbitrageHistoryPanel />
+      ) : (
+        <>
+        {/* Arbitrage Statistics */}
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+          <div className="card bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200 shadow-md hover:shadow-lg transition-shadow">
+            <div className="card-body">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <Calculator className="h-8 w-8 text-blue-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-500">Total Opportunities</p>
+                  <p className="text-3xl font-bold text-gray-900">{arbitrageStats.totalOpportunities}</p>
+                  <p className="text-xs text-gray-500 mt-1">Potential arbitrage trades</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        <div className="card bg-gradient-to-br from-green-50 to-green-100 border-green-200 shadow-md hover:shadow-lg transition-shadow">
-          <div className="card-body"> 
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Check className="h-8 w-8 text-green-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">High Confidence</p>
-                <p className="text-2xl font-bold text-gray-900">{arbitrageStats.highConfidence}</p>
-                <p className="text-xs text-gray-500 mt-1">Most reliable opportunities</p>
+          <div className="card bg-gradient-to-br from-green-50 to-green-100 border-green-200 shadow-md hover:shadow-lg transition-shadow">
+            <div className="card-body"> 
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <Check className="h-8 w-8 text-green-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-500">High Confidence</p>
+                  <p className="text-2xl font-bold text-gray-900">{arbitrageStats.highConfidence}</p>
+                  <p className="text-xs text-gray-500 mt-1">Most reliable opportunities</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        <div className="card bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200 shadow-md hover:shadow-lg transition-shadow">
-          <div className="card-body">
-            <div className="flex items-center"> 
-              <div className="flex-shrink-0">
-                <Percent className="h-8 w-8 text-purple-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Avg Price Diff</p>
-                <p className="text-2xl font-bold text-gray-900">{formatCurrency(arbitrageStats.avgPriceDifference)}</p>
-                <p className="text-xs text-gray-500 mt-1">Average mispricing amount</p>
+          <div className="card bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200 shadow-md hover:shadow-lg transition-shadow">
+            <div className="card-body">
+              <div className="flex items-center"> 
+                <div className="flex-shrink-0">
+                  <Percent className="h-8 w-8 text-purple-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-500">Avg Price Diff</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatCurrency(arbitrageStats.avgPriceDifference)}</p>
+                  <p className="text-xs text-gray-500 mt-1">Average mispricing amount</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        <div className="card bg-gradient-to-br from-orange-50 to-orange-100 border-orange-200 shadow-md hover:shadow-lg transition-shadow">
-          <div className="card-body">
-            <div className="flex items-center"> 
-              <div className="flex-shrink-0">
-                <DollarSign className="h-8 w-8 text-green-600" />
-              </div>
-              <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Max Potential Profit</p>
-                <p className="text-2xl font-bold text-gray-900">{formatCurrency(arbitrageStats.maxProfit)}</p>
-                <p className="text-xs text-gray-500 mt-1">Highest profit opportunity</p>
+          <div className="card bg-gradient-to-br from-orange-50 to-orange-100 border-orange-200 shadow-md hover:shadow-lg transition-shadow">
+            <div className="card-body">
+              <div className="flex items-center"> 
+                <div className="flex-shrink-0">
+                  <DollarSign className="h-8 w-8 text-green-600" />
+                </div>
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-gray-500">Max Potential Profit</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatCurrency(arbitrageStats.maxProfit)}</p>
+                  <p className="text-xs text-gray-500 mt-1">Highest profit opportunity</p>
+                </div>
               </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Controls */}
-      <div className="card shadow-md border-blue-200">
-        <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
-          <h3 className="text-lg font-medium text-gray-900">Arbitrage Settings</h3>
-        </div>
-        <div className="card-body">
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-            <div>
-              <label className="form-label">Arbitrage Type</label>
-              <select
-                className="form-select border-blue-300 focus:border-blue-500"
-                value={arbitrageType}
-                onChange={(e) => setArbitrageType(e.target.value as any)}
-              >
-                <option value="price">Price Arbitrage</option>
-                <option value="volatility">Volatility Arbitrage</option>
-                <option value="put-call-parity">Put-Call Parity</option>
-              </select>
-              <p className="text-xs text-gray-500 mt-1">
-                {arbitrageType === 'price' 
-                  ? 'Find options priced differently from their theoretical value'
-                  : arbitrageType === 'volatility'
-                  ? 'Find options with implied volatility different from historical'
-                  : 'Find violations of put-call parity relationship'
-                }
-              </p>
-            </div>
-            
-            <div>
-              <label className="form-label">Risk-Free Rate (%)</label>
-              <input
-                type="number" 
-                className="form-input"
-                value={riskFreeRate * 100}
-                onChange={(e) => setRiskFreeRate(parseFloat(e.target.value) / 100)}
-                step="0.1"
-                min="0"
-                max="10"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Current treasury yield (affects theoretical pricing)
-              </p>
-            </div>
+        {/* Controls */}
+        <div className="card shadow-md border-blue-200">
+          <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
+            <h3 className="text-lg font-medium text-gray-900">Arbitrage Settings</h3>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+              <div>
+                <label className="form-label">Arbitrage Type</label>
+                <select
+                  className="form-select border-blue-300 focus:border-blue-500"
+                  value={arbitrageType}
+                  onChange={(e) => setArbitrageType(e.target.value as any)}
+                >
+                  <option value="price">Price Arbitrage</option>
+                  <option value="volatility">Volatility Arbitrage</option>
+                  <option value="put-call-parity">Put-Call Parity</option>
+                  <option value="box-conversion">Box / Conversion / Reversal</option>
+                  <option value="chain-consistency">Chain Consistency (Static)</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {arbitrageType === 'price' 
+                    ? 'Find options priced differently from their theoretical value'
+                    : arbitrageType === 'volatility'
+                    ? 'Find options with implied volatility different from historical'
+                    : arbitrageType === 'box-conversion'
+                    ? 'Find boxes, conversions and reversals that beat the rate curve at executable bid/ask'
+                    : arbitrageType === 'chain-consistency'
+                    ? 'Find vertical, butterfly and calendar spreads that violate no-arbitrage bounds'
+                    : 'Find violations of put-call parity relationship'
+                  }
+                </p>
+              </div>
             
-            <div>
-              <label className="form-label">Min Price Difference (%)</label>
-              <input
-                type="number" 
-                className="form-input"
-                value={minPriceDifference * 100}
-                onChange={(e) => setMinPriceDifference(parseFloat(e.target.value) / 100)}
-                step="1"
-                min="1"
-                max="50"
-              />
-              <p className="text-xs text-gray-500 mt-1">
-                Minimum difference to consider an arbitrage opportunity
-              </p>
-            </div>
+              <div>
+                <label className="form-label">Risk-Free Rate (%)</label>
+                <input
+                  type="number" 
+                  className="form-input"
+                  value={riskFreeRate !== undefined ? riskFreeRate * 100 : ''}
+                  onChange={(e) => setRiskFreeRate(e.target.value === '' ? undefined : parseFloat(e.target.value) / 100)}
+                  placeholder={`Curve (${(RateCurveService.getRate(30 / 365) * 100).toFixed(2)}% at 1M)`}
+                  step="0.1"
+                  min="0"
+                  max="10"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave blank to use the Treasury curve at each option's expiry
+                </p>
+              </div>
             
-            {arbitrageType === 'volatility' && (
               <div>
-                <label className="form-label">Historical Volatility (%)</label>
+                <label className="form-label">Min Price Difference (%)</label>
                 <input
                   type="number" 
                   className="form-input"
-                  value={historicalVolatility * 100}
-                  onChange={(e) => setHistoricalVolatility(parseFloat(e.target.value) / 100)}
+                  value={minPriceDifference * 100}
+                  onChange={(e) => setMinPriceDifference(parseFloat(e.target.value) / 100)}
                   step="1"
-                  min="5"
-                  max="100"
+                  min="1"
+                  max="50"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Historical volatility of the underlying asset
+                  Minimum difference to consider an arbitrage opportunity
                 </p>
               </div>
-            )}
             
-            <div className="lg:col-span-3 flex justify-end">
-              <button
-                onClick={loadArbitrageOpportunities}
-                disabled={loading} 
-                className="btn btn-primary"
-              >
-                {loading ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-4 w-4" />
-                )}
-                Refresh Opportunities
-              </button>
+              {arbitrageType === 'volatility' && (
+                <div>
+                  <label className="form-label">Realized Volatility Estimator</label>
+                  <div className="flex gap-2">
+                    <select
+                      className="form-select"
+                      value={rvEstimator}
+                      onChange={(e) => setRvEstimator(e.target.value as RealizedVolEstimator)}
+                    >
+                      {REALIZED_VOL_ESTIMATORS.map(estimator => (
+                        <option key={estimator} value={estimator}>{REALIZED_VOL_ESTIMATOR_LABELS[estimator]}</option>
+                      ))}
+                    </select>
+                    <select
+                      className="form-select w-28"
+                      value={rvWindow}
+                      onChange={(e) => setRvWindow(parseInt(e.target.value))}
+                    >
+                      {RealizedVolatilityService.DEFAULT_WINDOWS.map(window => (
+                        <option key={window} value={window}>{window}d</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Realized volatility per underlying over the selected trading-day window
+                  </p>
+                </div>
+              )}
+            
+              {arbitrageType === 'volatility' && (
+                <div>
+                  <label className="form-label">Fallback Volatility (%)</label>
+                  <input
+                    type="number" 
+                    className="form-input"
+                    value={historicalVolatility * 100}
+                    onChange={(e) => setHistoricalVolatility(parseFloat(e.target.value) / 100)}
+                    step="1"
+                    min="5"
+                    max="100"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Used for underlyings without enough price history
+                    {Object.keys(realizedVolatilities).length > 0 && (
+                      <> ({Object.keys(realizedVolatilities).length} with realized data)</>
+                    )}
+                  </p>
+                </div>
+              )}
+            
+              {scoresCosts && (
+                <div className="md:col-span-2 lg:col-span-3">
+                  <label className="form-label">Transaction Costs</label>
+                  <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+                    <div>
+                      <span className="text-xs text-gray-500">Commission ($/contract)</span>
+                      <input
+                        type="number"
+                        className="form-input"
+                        value={costModel.commissionPerContract}
+                        onChange={(e) => updateCostModel('commissionPerContract', parseFloat(e.target.value))}
+                        step="0.05"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <span className="text-xs text-gray-500">Exchange Fees ($/contract)</span>
+                      <input
+                        type="number"
+                        className="form-input"
+                        value={costModel.exchangeFeePerContract}
+                        onChange={(e) => updateCostModel('exchangeFeePerContract', parseFloat(e.target.value))}
+                        step="0.01"
+                        min="0"
+                      />
+                    </div>
+                    <div>
+                      <span className="text-xs text-gray-500">Slippage (% of spread)</span>
+                      <input
+                        type="number"
+                        className="form-input"
+                        value={costModel.slippageFraction * 100}
+                        onChange={(e) => updateCostModel('slippageFraction', parseFloat(e.target.value) / 100)}
+                        step="5"
+                        min="0"
+                        max="100"
+                      />
+                    </div>
+                    <div>
+                      <span className="text-xs text-gray-500">Max % of Volume</span>
+                      <input
+                        type="number"
+                        className="form-input"
+                        value={costModel.maxVolumeFraction * 100}
+                        onChange={(e) => updateCostModel('maxVolumeFraction', parseFloat(e.target.value) / 100)}
+                        step="1"
+                        min="0"
+                        max="100"
+                      />
+                    </div>
+                    <div>
+                      <span className="text-xs text-gray-500">Max % of Open Interest</span>
+                      <input
+                        type="number"
+                        className="form-input"
+                        value={costModel.maxOpenInterestFraction * 100}
+                        onChange={(e) => updateCostModel('maxOpenInterestFraction', parseFloat(e.target.value) / 100)}
+                        step="1"
+                        min="0"
+                        max="100"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Fills at mid plus the slippage share of the spread (50% is the touch); size is capped by volume and open interest
+                  </p>
+                </div>
+              )}
+            
+              <div className="lg:col-span-3 flex justify-end">
+                <button
+                  onClick={loadArbitrageOpportunities}
+                  disabled={loading} 
+                  className="btn btn-primary"
+                >
+                  {loading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  Refresh Opportunities
+                </button>
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Filters */}
-      <div className="card shadow-md border-gray-200">
-        <div className="card-body">
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-              <input
-                type="text"
-                placeholder="Search by ticker..."
-                className="form-input pl-10"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-              />
+        {/* IV vs RV cone */}
+        {arbitrageType === 'volatility' && scannedContracts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-end">
+              <select
+                className="form-select w-40"
+                value={coneTicker}
+                onChange={(e) => setConeTicker(e.target.value)}
+              >
+                {Array.from(new Set(scannedContracts.map(c => c.underlying_ticker))).map(ticker => (
+                  <option key={ticker} value={ticker}>{ticker}</option>
+                ))}
+              </select>
             </div>
+            <VolatilityConeChart
+              ticker={coneTicker}
+              underlyingPrice={getBasePriceForTicker(coneTicker)}
+              contracts={scannedContracts}
+              estimator={rvEstimator}
+            />
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="card shadow-md border-gray-200">
+          <div className="card-body">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <input
+                  type="text"
+                  placeholder="Search by ticker..."
+                  className="form-input pl-10"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
             
-            <select
-              className="form-select"
-              value={confidenceFilter}
-              onChange={(e) => setConfidenceFilter(e.target.value)}
-            >
-              <option value="all">All Confidence Levels</option>
-              <option value="high">High Confidence</option>
-              <option value="medium">Medium Confidence</option>
-              <option value="low">Low Confidence</option>
-            </select>
-
-            <select
-              className="form-select"
-              value={typeFilter}
-              onChange={(e) => setTypeFilter(e.target.value)}
-            >
-              <option value="all">All Option Types</option>
-              <option value="call">Calls Only</option>
-              <option value="put">Puts Only</option>
-            </select>
+              <select
+                className="form-select"
+                value={confidenceFilter}
+                onChange={(e) => setConfidenceFilter(e.target.value)}
+              >
+                <option value="all">All Confidence Levels</option>
+                <option value="high">High Confidence</option>
+                <option value="medium">Medium Confidence</option>
+                <option value="low">Low Confidence</option>
+              </select>
+
+              <select
+                className="form-select"
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+              >
+                <option value="all">All Option Types</option>
+                <option value="call">Calls Only</option>
+                <option value="put">Puts Only</option>
+              </select>
+            </div>
+
+            {scoresCosts && (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 mt-4">
+                <div>
+                  <label className="form-label">Min Net Edge ($)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={minNetEdge}
+                    onChange={(e) => setMinNetEdge(parseFloat(e.target.value) || 0)}
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Min Capacity (contracts)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={minCapacity}
+                    onChange={(e) => setMinCapacity(parseInt(e.target.value) || 0)}
+                    step="1"
+                    min="0"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 sm:mt-6">
+                  <input
+                    type="checkbox"
+                    checked={netPositiveOnly}
+                    onChange={(e) => setNetPositiveOnly(e.target.checked)}
+                  />
+                  Only show trades that are profitable after costs
+                </label>
+              </div>
+            )}
           </div>
         </div>
-      </div>
 
-      {/* Arbitrage Opportunities */}
-      <div className="card shadow-md border-blue-200">
-        <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
-          <h3 className="text-lg font-medium text-gray-900">Arbitrage Opportunities</h3>
-        </div>
-        <div className="card-body">
-          {loading ? (
-            <div className="flex items-center justify-center h-64">
-              <div className="text-center">
-                <RefreshCw className="h-8 w-8 text-blue-500 animate-spin mx-auto mb-4" />
-                <p className="text-gray-500">Calculating arbitrage opportunities...</p>
-              </div>
+        {/* Arbitrage Opportunities */}
+        {arbitrageType === 'chain-consistency' ? (
+          <div className="card shadow-md border-blue-200">
+            <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
+              <h3 className="text-lg font-medium text-gray-900">Static-Arbitrage Violations</h3>
             </div>
-          ) : filteredOpportunities.length === 0 ? (
-            <div className="text-center py-8">
-              <Calculator className="mx-auto h-12 w-12 text-gray-400" />
-              <h3 className="mt-2 text-sm font-medium text-gray-900">No arbitrage opportunities found</h3>
-              <p className="mt-1 text-sm text-gray-500">
-                Try adjusting your filters or decreasing the minimum price difference.
-              </p>
-            </div> 
-          ) : (
-            <div className="overflow-x-auto">
-              <table className="table">
-                <thead>
-                  <tr>
-                    <th>Contract</th>
-                    <th>Type</th>
-                    <th>Strike/Expiry</th>
-                    <th>Market Price</th>
-                    <th>Theoretical Price</th>
-                    <th>Difference</th>
-                    <th>Confidence</th>
-                    <th>Expected Profit</th>
-                    <th>Risk/Reward</th>
-                    <th>Action</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filteredOpportunities.map((opportunity) => (
-                    <tr key={opportunity.contractTicker}>
-                      <td>
-                        <div>
-                          <div className="font-medium text-blue-700">{opportunity.contractTicker}</div>
-                          <div className="text-sm text-gray-500">{opportunity.underlyingTicker}</div>
-                        </div>
-                      </td>
-                      <td>
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          opportunity.contractType === 'call' 
-                            ? 'bg-green-100 text-green-800' 
-                            : 'bg-red-100 text-red-800'
-                        }`}>
-                          {opportunity.contractType.toUpperCase()}
-                        </span>
-                      </td>
-                      <td>
-                        <div>
-                          <div className="font-medium">{formatCurrency(opportunity.strikePrice)}</div>
-                          <div className="text-sm text-gray-500">{opportunity.expirationDate}</div>
-                        </div>
-                      </td>
-                      <td className="font-medium bg-gray-50">{formatCurrency(opportunity.marketPrice)}</td>
-                      <td className="font-medium">{formatCurrency(opportunity.theoreticalPrice)}</td>
-                      <td className={opportunity.priceDifference >= 0 ? 'text-green-600' : 'text-red-600'}>
-                        <div className="font-medium">{formatCurrency(opportunity.priceDifference)}</div>
-                        <div className="text-sm">{formatPercent(opportunity.percentageDifference)}</div>
-                      </td>
-                      <td>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(opportunity.confidence)}`}>
-                          {opportunity.confidence}
-                        </span>
-                      </td>
-                      <td className="font-medium text-green-600 bg-green-50 px-2 py-1 rounded-md">
-                        {formatCurrency(opportunity.expectedProfit)}
-                      </td>
-                      <td className="font-medium bg-blue-50 px-2 py-1 rounded-md">
-                        {opportunity.riskRewardRatio.toFixed(2)}
-                      </td>
-                      <td>
-                        <button
-                          onClick={() => {
-                            setSelectedOpportunity(opportunity)
-                            setShowDetails(true)
-                          }}
-                          className="btn btn-secondary text-sm bg-gradient-to-r from-gray-50 to-gray-100 hover:from-white hover:to-gray-50"
-                        >
-                          Details
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+            <div className="card-body">
+              {loading ? (
+                <div className="flex items-center justify-center h-64">
+                  <div className="text-center">
+                    <RefreshCw className="h-8 w-8 text-blue-500 animate-spin mx-auto mb-4" />
+                    <p className="text-gray-500">Checking chain consistency...</p>
+                  </div>
+                </div>
+              ) : filteredChainViolations.length === 0 ? (
+                <div className="text-center py-8">
+                  <Check className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No static-arbitrage violations found</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Every vertical, butterfly and calendar spread respects its no-arbitrage bounds at executable prices.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Violation</th>
+                        <th>Type</th>
+                        <th>Strikes/Expiry</th>
+                        <th>Trade (executable)</th>
+                        <th>Confidence</th>
+                        <th>Edge</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredChainViolations.map((violation, idx) => (
+                        <tr key={`${violation.type}-${violation.underlyingTicker}-${violation.expirationDate}-${violation.strikes.join('-')}-${idx}`}>
+                          <td>
+                            <div className="font-medium text-blue-700 capitalize">{violation.type}</div>
+                            <div className="text-sm text-gray-500">{violation.underlyingTicker}</div>
+                          </td>
+                          <td>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              violation.contractType === 'call'
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-red-100 text-red-800'
+                            }`}>
+                              {violation.contractType.toUpperCase()}
+                            </span>
+                          </td>
+                          <td>
+                            <div className="font-medium">{violation.strikes.map(strike => formatCurrency(strike)).join(' / ')}</div>
+                            <div className="text-sm text-gray-500">{violation.expirationDate}</div>
+                          </td>
+                          <td className="text-xs">
+                            <div className="text-gray-600 mb-1">{violation.description}</div>
+                            {violation.legs.map((leg, legIdx) => (
+                              <div key={legIdx} className={leg.action === 'buy' ? 'text-green-700' : 'text-red-700'}>
+                                {leg.action === 'buy' ? 'Buy' : 'Sell'} {leg.quantity} × {leg.expirationDate} {leg.strike} {leg.contractType} @ {formatCurrency(leg.price)}
+                              </div>
+                            ))}
+                          </td>
+                          <td>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(violationConfidence(violation))}`}>
+                              {violationConfidence(violation)}
+                            </span>
+                          </td>
+                          <td className="font-medium text-green-600 bg-green-50 px-2 py-1 rounded-md">
+                            {formatCurrency(violation.edge)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-      </div>
+          </div>
+        ) : arbitrageType === 'box-conversion' ? (
+          <div className="card shadow-md border-blue-200">
+            <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
+              <h3 className="text-lg font-medium text-gray-900">Box, Conversion & Reversal Opportunities</h3>
+            </div>
+            <div className="card-body">
+              {loading ? (
+                <div className="flex items-center justify-center h-64">
+                  <div className="text-center">
+                    <RefreshCw className="h-8 w-8 text-blue-500 animate-spin mx-auto mb-4" />
+                    <p className="text-gray-500">Scanning executable quotes...</p>
+                  </div>
+                </div>
+              ) : filteredParityResults.length === 0 ? (
+                <div className="text-center py-8">
+                  <Scale className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No executable parity arbitrage found</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    No box, conversion or reversal beats the rate curve after crossing the bid/ask spread.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Structure</th>
+                        <th>Strikes/Expiry</th>
+                        <th>Legs (executable)</th>
+                        <th>Net Cost</th>
+                        <th>Implied Rate</th>
+                        <th>Curve Rate</th>
+                        <th>Profit</th>
+                        <th>Early Exercise</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredParityResults.map((result, idx) => (
+                        <tr key={`${result.structure}-${result.underlyingTicker}-${result.expirationDate}-${result.lowerStrike}-${result.upperStrike}-${idx}`}>
+                          <td>
+                            <div className="font-medium text-blue-700">{parityStructureLabels[result.structure]}</div>
+                            <div className="text-sm text-gray-500">{result.underlyingTicker}</div>
+                          </td>
+                          <td>
+                            <div className="font-medium">
+                              {result.lowerStrike === result.upperStrike
+                                ? formatCurrency(result.lowerStrike)
+                                : `${formatCurrency(result.lowerStrike)} / ${formatCurrency(result.upperStrike)}`}
+                            </div>
+                            <div className="text-sm text-gray-500">{result.expirationDate}</div>
+                          </td>
+                          <td className="text-xs">
+                            {result.legs.map((leg, legIdx) => (
+                              <div key={legIdx} className={leg.action === 'buy' ? 'text-green-700' : 'text-red-700'}>
+                                {leg.action === 'buy' ? 'Buy' : 'Sell'} {leg.instrument === 'stock' ? 'stock' : `${leg.strike} ${leg.instrument}`} @ {formatCurrency(leg.price)}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="font-medium">
+                            {result.netCost >= 0 ? formatCurrency(result.netCost) : `${formatCurrency(-result.netCost)} cr`}
+                          </td>
+                          <td className="font-medium">{formatPercent(result.impliedRate)}</td>
+                          <td>{formatPercent(result.curveRate)}</td>
+                          <td className="font-medium text-green-600 bg-green-50 px-2 py-1 rounded-md">
+                            {formatCurrency(result.profit)}
+                          </td>
+                          <td>
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(parityConfidence(result))}`}
+                              title={result.earlyExerciseNote}
+                            >
+                              {result.earlyExerciseRisk}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-3 flex items-start">
+                    <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                    Long boxes and conversions lend at the implied rate and profit when it beats the curve; short boxes
+                    and reversals borrow and profit when it is below. Profit is per structure in present value.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="card shadow-md border-blue-200">
+            <div className="card-header bg-gradient-to-r from-blue-50 to-blue-100">
+              <h3 className="text-lg font-medium text-gray-900">Arbitrage Opportunities</h3>
+            </div>
+            <div className="card-body">
+              {loading ? (
+                <div className="flex items-center justify-center h-64">
+                  <div className="text-center">
+                    <RefreshCw className="h-8 w-8 text-blue-500 animate-spin mx-auto mb-4" />
+                    <p className="text-gray-500">Calculating arbitrage opportunities...</p>
+                  </div>
+                </div>
+              ) : filteredOpportunities.length === 0 ? (
+                <div className="text-center py-8">
+                  <Calculator className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No arbitrage opportunities found</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Try adjusting your filters or decreasing the minimum price difference.
+                  </p>
+                </div> 
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Contract</th>
+                        <th>Type</th>
+                        <th>Strike/Expiry</th>
+                        <th>Market Price</th>
+                        <th>Theoretical Price</th>
+                        <th>Difference</th>
+                        <th>Confidence</th>
+                        <th>Expected Profit</th>
+                        <th>Net Edge</th>
+                        <th>Capacity</th>
+                        <th>Risk/Reward</th>
+                        <th>Action</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredOpportunities.map((opportunity) => (
+                        <tr key={opportunity.contractTicker}>
+                          <td>
+                            <div>
+                              <div className="font-medium text-blue-700">{opportunity.contractTicker}</div>
+                              <div className="text-sm text-gray-500">{opportunity.underlyingTicker}</div>
+                            </div>
+                          </td>
+                          <td>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              opportunity.contractType === 'call' 
+                                ? 'bg-green-100 text-green-800' 
+                                : 'bg-red-100 text-red-800'
+                            }`}>
+                              {opportunity.contractType.toUpperCase()}
+                            </span>
+                          </td>
+                          <td>
+                            <div>
+                              <div className="font-medium">{formatCurrency(opportunity.strikePrice)}</div>
+                              <div className="text-sm text-gray-500">{opportunity.expirationDate}</div>
+                            </div>
+                          </td>
+                          <td className="font-medium bg-gray-50">{formatCurrency(opportunity.marketPrice)}</td>
+                          <td className="font-medium">{formatCurrency(opportunity.theoreticalPrice)}</td>
+                          <td className={opportunity.priceDifference >= 0 ? 'text-green-600' : 'text-red-600'}>
+                            <div className="font-medium">{formatCurrency(opportunity.priceDifference)}</div>
+                            <div className="text-sm">{formatPercent(opportunity.percentageDifference)}</div>
+                          </td>
+                          <td>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(opportunity.confidence)}`}>
+                              {opportunity.confidence}
+                            </span>
+                          </td>
+                          <td className="font-medium text-green-600 bg-green-50 px-2 py-1 rounded-md">
+                            {formatCurrency(opportunity.expectedProfit)}
+                          </td>
+                          <td className={opportunity.netEdge > 0 ? 'text-green-600' : 'text-red-600'}>
+                            <div className="font-medium">{formatCurrency(opportunity.netEdge)}</div>
+                            <div className="text-sm text-gray-500" title="Cost per contract at which the edge disappears">
+                              BE {formatCurrency(opportunity.breakEvenCost)}
+                            </div>
+                          </td>
+                          <td className="font-medium">{opportunity.capacity}</td>
+                          <td className="font-medium bg-blue-50 px-2 py-1 rounded-md">
+                            {opportunity.riskRewardRatio.toFixed(2)}
+                          </td>
+                          <td>
+                            <button
+                              onClick={() => {
+                                setSelectedOpportunity(opportunity)
+                                setShowDetails(true)
+                              }}
+                              className="btn btn-secondary text-sm bg-gradient-to-r from-gray-50 to-gray-100 hover:from-white hover:to-gray-50"
+                            >
+                              Details
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        </>
+      )}
 
       {/* Educational Content */}
       <div className="card shadow-md border-blue-200">
@@ -549,9 +1098,9 @@ export default function OptionsArbitrage() {
                 Violations create arbitrage opportunities.
               </p>
               <ul className="text-xs text-green-600 space-y-1">
-                <li>• C + PV(K) = P + S</li>
+                <li>• C + PV(K) = P + S - PV(D)</li>
                 <li>• Requires simultaneous execution</li>
-                <li>• Consider dividend adjustments</li>
+                <li>• Dividends are netted from spot (yield or ex-date schedule)</li>
                 <li>• Watch for early exercise risk</li>
               </ul>
             </div>
@@ -637,6 +1186,24 @@ export default function OptionsArbitrage() {
                         <div className="text-sm text-gray-700">Risk/Reward Ratio:</div>
                         <div className="font-medium">{selectedOpportunity.riskRewardRatio.toFixed(2)}</div>
                       </div>
+                      <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="text-sm text-gray-700">Transaction Cost:</div>
+                        <div className="font-medium text-red-600">{formatCurrency(selectedOpportunity.transactionCost)}</div>
+                      </div>
+                      <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="text-sm text-gray-700">Net Edge (per contract):</div>
+                        <div className={`font-medium ${selectedOpportunity.netEdge > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(selectedOpportunity.netEdge)}
+                        </div>
+                      </div>
+                      <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="text-sm text-gray-700">Break-even Cost:</div>
+                        <div className="font-medium">{formatCurrency(selectedOpportunity.breakEvenCost)}</div>
+                      </div>
+                      <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="text-sm text-gray-700">Capacity:</div>
+                        <div className="font-medium">{selectedOpportunity.capacity} contracts</div>
+                      </div>
                       <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
                         <div className="text-sm text-gray-700">Confidence:</div>
                         <div className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(selectedOpportunity.confidence)}`}>
@@ -3,7 +3,15 @@ import { Link } from 'react-router-dom'
 import { TrendingUp, TrendingDown, DollarSign, Percent, Calculator } from 'lucide-react'
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts'
 import { useOptionsContext } from '../context/OptionsContext'
+import { useTradingContext } from '../context/TradingContext'
 import { format, parseISO } from 'date-fns'
+import type { OptionsPosition } from '../types/options'
+import type { StrategyLeg } from '../services/payoffCalculationService'
+import { StrategyClassifierService, StrategyClassification } from '../services/strategyClassifierService'
+import { MarginService, MarginRequirement } from '../services/marginService'
+import { StrategyValidationService } from '../services/strategyValidationService'
+import { getUnderlyingPrice } from '../services/optionsChainGenerator'
+import { GreeksCalculator, type HigherOrderGreek, type StrategyGreeks } from '../services/greeksCalculator'
 
 const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4']
 const CHART_COLORS = {
@@ -14,6 +22,7 @@ const CHART_COLORS = {
 
 export default function OptionsPortfolio() {
   const { state } = useOptionsContext()
+  const { state: tradingState } = useTradingContext()
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -54,6 +63,81 @@ export default function OptionsPortfolio() {
   const totalInvested = state.positions.reduce((sum, pos) => sum + (pos.quantity * pos.avgPrice * 100), 0)
   const totalUnrealizedPnLPercent = totalInvested > 0 ? (totalUnrealizedPnL / totalInvested) * 100 : 0
 
+  const toStrategyLegs = (position: OptionsPosition): StrategyLeg[] => position.legs
+    ? position.legs.map(leg => ({ ...leg, quantity: leg.quantity * position.quantity }))
+    : [{
+        type: position.contractType,
+        strike: position.strikePrice,
+        premium: position.avgPrice,
+        action: position.quantity >= 0 ? 'buy' : 'sell',
+        quantity: Math.abs(position.quantity),
+        expiry: position.expirationDate
+      }]
+
+  // Whole 100-share lots held in the stock account and not already part of a multi-leg position
+  const freeStockLegs = (ticker: string): StrategyLeg[] => {
+    const holding = tradingState.positions.find(p => p.symbol === ticker)
+    if (!holding) return []
+
+    const lots = Math.floor(holding.quantity / 100) - StrategyValidationService.linkedStockLots(state.positions, ticker)
+
+    return lots > 0
+      ? [{ type: 'stock', strike: holding.avgPrice, premium: holding.avgPrice, action: 'buy', quantity: lots }]
+      : []
+  }
+
+  // Single-leg positions on the same underlying are labelled by the structure they
+  // form together, including shares held in the stock account (covered calls etc.)
+  const combinedStructures: Record<string, StrategyClassification> = {}
+  for (const ticker of Array.from(new Set(state.positions.filter(p => !p.legs).map(p => p.underlyingTicker)))) {
+    const group = state.positions.filter(p => !p.legs && p.underlyingTicker === ticker)
+    combinedStructures[ticker] = StrategyClassifierService.classify([...group.flatMap(toStrategyLegs), ...freeStockLegs(ticker)])
+  }
+
+  const structures: Record<string, StrategyClassification> = {}
+  for (const position of state.positions) {
+    structures[position.id] = position.legs
+      ? StrategyClassifierService.classify(toStrategyLegs(position))
+      : combinedStructures[position.underlyingTicker]
+  }
+
+  // Requirement at today's underlying price, which can differ from the margin held at entry
+  const margins: Record<string, MarginRequirement | null> = {}
+  for (const position of state.positions) {
+    const underlyingPrice = state.underlyingPrices[position.underlyingTicker] ?? getUnderlyingPrice(position.underlyingTicker)
+    try {
+      margins[position.id] = MarginService.calculate(toStrategyLegs(position), underlyingPrice, undefined, position.underlyingTicker)
+    } catch (error) {
+      margins[position.id] = null
+    }
+  }
+  // Net higher-order Greeks at the chain's current IVs; legs missing from the chain use the default volatility
+  const higherOrderGreeks: Record<string, StrategyGreeks> = {}
+  for (const position of state.positions) {
+    const underlyingPrice = state.underlyingPrices[position.underlyingTicker] ?? getUnderlyingPrice(position.underlyingTicker)
+    const legs = toStrategyLegs(position).map(leg => ({
+      ...leg,
+      impliedVolatility: state.contracts.find(contract =>
+        contract.underlying_ticker === position.underlyingTicker &&
+        contract.contract_type === leg.type &&
+        contract.strike_price === leg.strike &&
+        contract.expiration_date === leg.expiry
+      )?.implied_volatility
+    }))
+    higherOrderGreeks[position.id] = GreeksCalculator.calculatePayoffLegGreeks(legs, underlyingPrice)
+  }
+  const higherOrderRows: Array<{ key: HigherOrderGreek; label: string; value: (greeks: StrategyGreeks) => number }> = [
+    { key: 'vanna', label: 'Vanna', value: greeks => greeks.netVanna },
+    { key: 'volga', label: 'Volga', value: greeks => greeks.netVolga },
+    { key: 'charm', label: 'Charm', value: greeks => greeks.netCharm },
+    { key: 'speed', label: 'Speed', value: greeks => greeks.netSpeed },
+    { key: 'color', label: 'Color', value: greeks => greeks.netColor },
+    { key: 'zomma', label: 'Zomma', value: greeks => greeks.netZomma }
+  ]
+
+  const totalMargin = Object.values(margins).reduce((sum, margin) => sum + (margin?.requirement || 0), 0)
+  const marginMode = MarginService.getMode() === 'portfolio' ? 'Portfolio' : 'Reg-T'
+
   return (
     <div className="space-y-6">
       {/* Portfolio Summary */}
@@ -101,7 +185,8 @@ export default function OptionsPortfolio() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Cash Balance</p>
                 <p className="text-3xl font-bold text-gray-900">{formatCurrency(state.balance)}</p>
-                <p className="text-xs text-gray-500 mt-1">Available for trading</p>
+                <p className="text-xs text-gray-500 mt-1">Buying power {formatCurrency(state.buyingPower)}</p>
+                <p className="text-xs text-gray-500">{marginMode} margin {formatCurrency(totalMargin)}</p>
               </div>
             </div>
           </div>
@@ -210,6 +295,7 @@ export default function OptionsPortfolio() {
                   <tr>
                     <th>Contract</th>
                     <th>Underlying</th>
+                    <th>Structure</th>
                     <th>Strike/Expiry</th>
                     <th>Contracts</th>
                     <th>Avg Price</th>
@@ -217,6 +303,7 @@ export default function OptionsPortfolio() {
                     <th>Market Value</th>
                     <th>Unrealized P&L</th>
                     <th>Greeks</th>
+                    <th>Margin</th>
                     <th>Purchase Date</th>
                   </tr>
                 </thead>
@@ -230,6 +317,12 @@ export default function OptionsPortfolio() {
                         </div>
                       </td>
                       <td className="font-medium">{position.underlyingTicker}</td>
+                      <td title={`${structures[position.id].description} (${Math.round(structures[position.id].confidence * 100)}% match)`}>
+                        <div className="font-medium text-gray-900">{structures[position.id].name}</div>
+                        {!position.legs && structures[position.id].family !== 'single' && (
+                          <div className="text-xs text-gray-500">Combined {position.underlyingTicker} legs</div>
+                        )}
+                      </td>
                       <td>
                         <div>
                           <div className="font-medium">{formatCurrency(position.strikePrice)}</div>
@@ -256,6 +349,21 @@ export default function OptionsPortfolio() {
                         <div>Γ: {position.gamma.toFixed(3)}</div>
                         <div>Θ: {position.theta.toFixed(3)}</div>
                         <div>ν: {position.vega.toFixed(3)}</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {higherOrderRows.map(row => (
+                            <div key={row.key}>
+                              {row.label}: {GreeksCalculator.formatGreek(row.value(higherOrderGreeks[position.id]), row.key)}
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                      <td title={margins[position.id]?.components.map(component => component.description).join('\n')}>
+                        <div className="font-medium">
+                          {margins[position.id] ? formatCurrency(margins[position.id]!.requirement) : '--'}
+                        </div>
+                        {position.marginRequirement !== undefined && (
+                          <div className="text-xs text-gray-500">Held {formatCurrency(position.marginRequirement)}</div>
+                        )}
                       </td>
                       <td className="text-sm text-gray-500">
                         {format(position.purchaseDate, 'MMM dd, yyyy')}
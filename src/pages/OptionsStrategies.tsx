@@ -343,11 +343,13 @@ export default function OptionsStrategies() {
                               {leg.action === 'buy' ? 'BUY' : 'SELL'}
                             </span>
                             <span className="mx-2">
-                              {leg.quantity} {leg.optionType.toUpperCase()}
-                            </span>
-                            <span className="text-gray-500">
-                              @ ${leg.strike} ({leg.expiration})
+                              {leg.quantity} {leg.optionType === 'stock' ? 'SHARES' : leg.optionType.toUpperCase()}
                             </span>
+                            {leg.optionType !== 'stock' && (
+                              <span className="text-gray-500">
+                                @ ${leg.strike} ({leg.expiration})
+                              </span>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -2,6 +2,7 @@ import React, { useState } from 'react'
 import { Save, RefreshCw, Download, Upload, AlertTriangle, Database, Activity } from 'lucide-react'
 import { useTradingContext } from '../context/TradingContext'
 import { ConstantContactService } from '../services/constantContactService'
+import { RateCurveService, RatePoint } from '../services/rateCurveService'
 import PageViewCounter from './PageViewCounter'
 
 export default function Settings() {
@@ -30,6 +31,36 @@ export default function Settings() {
     chartType: 'candlestick'
   })
 
+  const seedCurve = RateCurveService.getSeedCurve()
+  const [rateOverride] = useState(() => RateCurveService.getAccountOverride())
+  const [rateMode, setRateMode] = useState<'curve' | 'flat'>(rateOverride?.flatRate !== undefined ? 'flat' : 'curve')
+  const [flatRatePercent, setFlatRatePercent] = useState(
+    rateOverride?.flatRate !== undefined ? rateOverride.flatRate * 100 : seedCurve.points[0].rate * 100
+  )
+  const [curvePoints, setCurvePoints] = useState<RatePoint[]>(
+    rateOverride?.points && rateOverride.points.length > 0 ? rateOverride.points : seedCurve.points
+  )
+
+  const updateCurvePoint = (index: number, ratePercent: number) => {
+    setCurvePoints(curvePoints.map((point, i) => i === index ? { ...point, rate: ratePercent / 100 } : point))
+  }
+
+  const resetRateCurve = () => {
+    RateCurveService.setAccountOverride(null)
+    setRateMode('curve')
+    setFlatRatePercent(seedCurve.points[0].rate * 100)
+    setCurvePoints(seedCurve.points)
+  }
+
+  const saveRateCurve = () => {
+    const curveEdited = curvePoints.some((point, i) => point.rate !== seedCurve.points[i]?.rate)
+    if (rateMode === 'flat') {
+      RateCurveService.setAccountOverride({ flatRate: flatRatePercent / 100 })
+    } else {
+      RateCurveService.setAccountOverride(curveEdited ? { points: curvePoints } : null)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -85,6 +116,13 @@ export default function Settings() {
   }
 
   const saveSettings = () => {
+    try {
+      saveRateCurve()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid rate curve')
+      return
+    }
+
     // In a real app, these would be saved to a backend
     localStorage.setItem('tradingSettings', JSON.stringify({
       notifications,
@@ -308,6 +346,72 @@ export default function Settings() {
         </div>
       </div>
 
+      {/* Risk-Free Rate Curve */}
+      <div className="card">
+        <div className="card-header">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900">Risk-Free Rate Curve</h3>
+            <button onClick={resetRateCurve} className="btn btn-secondary text-sm">
+              <RefreshCw className="h-4 w-4" />
+              Reset to Treasury Curve
+            </button>
+          </div>
+        </div>
+        <div className="card-body">
+          <p className="text-sm text-gray-500 mb-4">
+            Option pricing, Greeks and arbitrage scans discount each contract at the yield matching its time to expiry.
+            Seed curve: {seedCurve.source}, as of {seedCurve.asOf}.
+          </p>
+
+          <div className="form-group">
+            <label className="form-label">Rate Source</label>
+            <select
+              className="form-input"
+              value={rateMode}
+              onChange={(e) => setRateMode(e.target.value as 'curve' | 'flat')}
+              title="Rate Source"
+            >
+              <option value="curve">Term structure (per expiry)</option>
+              <option value="flat">Flat rate for all expiries</option>
+            </select>
+          </div>
+
+          {rateMode === 'flat' ? (
+            <div className="form-group">
+              <label className="form-label">Flat Rate (%)</label>
+              <input
+                type="number"
+                className="form-input"
+                value={flatRatePercent}
+                onChange={(e) => setFlatRatePercent(parseFloat(e.target.value))}
+                step="0.01"
+                title="Flat Rate (%)"
+                placeholder="Enter flat rate (%)"
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-6">
+              {curvePoints.map((point, index) => (
+                <div key={point.tenor} className="form-group">
+                  <label className="form-label">{point.tenor} (%)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={+(point.rate * 100).toFixed(4)}
+                    onChange={(e) => updateCurvePoint(index, parseFloat(e.target.value))}
+                    step="0.01"
+                    title={`${point.tenor} yield (%)`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-sm text-gray-500 mt-2">
+            Yields are entered as Treasury bond-equivalent rates and saved per account with Save Settings.
+          </p>
+        </div>
+      </div>
+
       {/* Display Settings */}
       <div className="card">
         <div className="card-header">
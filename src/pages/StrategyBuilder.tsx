@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react'
-import { ArrowLeft } from 'lucide-react'
+import { ArrowLeft, Search, Columns } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import SensibullStrategyBuilder from '../components/SensibullStrategyBuilder'
+import StrategyFinder from '../components/StrategyFinder'
+import StrategyComparison from '../components/StrategyComparison'
+import type { FinderCandidate } from '../services/strategyFinderService'
+import { StrategyComparisonService, type ComparedStrategy } from '../services/strategyComparisonService'
+import type { StrategyLeg } from '../services/payoffCalculationService'
 import type { OptionsContract } from '../types/options'
 import { generateComprehensiveOptionsChain, getUnderlyingPrice } from '../services/optionsChainGenerator'
 
@@ -11,8 +16,17 @@ export default function StrategyBuilder() {
   const [currentPrice, setCurrentPrice] = useState(170)
   const [contracts, setContracts] = useState<OptionsContract[]>([])
   const [loading, setLoading] = useState(true)
+  const [showFinder, setShowFinder] = useState(false)
+  const [preset, setPreset] = useState<FinderCandidate | null>(null)
+  // Chain the finder searched; the builder edits loaded legs against it
+  const [presetContracts, setPresetContracts] = useState<OptionsContract[] | null>(null)
+  const [showComparison, setShowComparison] = useState(false)
+  const [compared, setCompared] = useState<ComparedStrategy[]>([])
 
   useEffect(() => {
+    setPreset(null)
+    setPresetContracts(null)
+    setCompared([])
     loadOptionsData()
   }, [ticker])
 
@@ -32,6 +46,20 @@ export default function StrategyBuilder() {
     }
   }
 
+  const loadPreset = (candidate: FinderCandidate, searchedContracts: OptionsContract[]) => {
+    setPreset(candidate)
+    setPresetContracts(searchedContracts)
+  }
+
+  const addToComparison = (name: string, legs: StrategyLeg[]) => {
+    if (compared.length >= StrategyComparisonService.MAX_STRATEGIES) {
+      alert(`Compare at most ${StrategyComparisonService.MAX_STRATEGIES} strategies; remove one first`)
+      return
+    }
+    setCompared([...compared, { id: `builder-${Date.now()}`, name, legs }])
+    setShowComparison(true)
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 py-6">
@@ -50,6 +78,24 @@ export default function StrategyBuilder() {
           </div>
 
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowFinder(!showFinder)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium border ${
+                showFinder ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              <Search className="h-4 w-4" />
+              Strategy Finder
+            </button>
+            <button
+              onClick={() => setShowComparison(!showComparison)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium border ${
+                showComparison ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              <Columns className="h-4 w-4" />
+              Compare{compared.length > 0 ? ` (${compared.length})` : ''}
+            </button>
             <select
               value={ticker}
               onChange={(e) => setTicker(e.target.value)}
@@ -73,11 +119,32 @@ export default function StrategyBuilder() {
             </div>
           </div>
         ) : (
-          <SensibullStrategyBuilder
-            ticker={ticker}
-            currentPrice={currentPrice}
-            contracts={contracts}
-          />
+          <>
+            {showFinder && (
+              <StrategyFinder
+                ticker={ticker}
+                currentPrice={currentPrice}
+                fallbackContracts={contracts}
+                onLoad={loadPreset}
+              />
+            )}
+            {showComparison && (
+              <StrategyComparison
+                ticker={ticker}
+                currentPrice={currentPrice}
+                strategies={compared}
+                onChange={setCompared}
+              />
+            )}
+            <SensibullStrategyBuilder
+              ticker={ticker}
+              currentPrice={currentPrice}
+              contracts={presetContracts ?? contracts}
+              initialLegs={preset?.legs}
+              initialName={preset?.description}
+              onCompare={addToComparison}
+            />
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,421 @@
+import type { ArbitrageOpportunity } from './blackScholesService'
+import type { ParityArbitrage } from './parityArbitrageService'
+import type { ChainViolation } from './chainConsistencyService'
+import { HistoricalDataService } from './historicalDataService'
+
+export type ArbitrageScanType = 'price' | 'volatility' | 'put-call-parity' | 'box-conversion' | 'chain-consistency'
+
+export type TrackedOpportunityStatus = 'open' | 'converged' | 'vanished' | 'expired'
+
+export interface ArbitrageCandidate {
+  fingerprint: string
+  type: ArbitrageScanType
+  underlyingTicker: string
+  contractTickers: string[]
+  expirationDate: string
+  description: string
+  // Dollars per contract or structure at detection
+  edge: number
+  // Single-contract opportunities only: the quote and the value it should converge to
+  marketPrice?: number
+  fairValue?: number
+}
+
+export interface TrackedOpportunity extends ArbitrageCandidate {
+  // Settings of the last scan that reported it
+  scanParameters?: string
+  firstSeen: string
+  lastSeen: string
+  observations: number
+  initialEdge: number
+  status: TrackedOpportunityStatus
+  closedAt: string | null
+  closedBy: 'scan' | 'history' | null
+}
+
+/**
+ * What a scan looked at: an opportunity missing from a scan is only closed
+ * if its underlying was scanned under the same settings that last reported
+ * it, and counts as vanished rather than converged when its contracts were
+ * no longer quoted or its quote did not move toward fair value
+ */
+export interface ScanUniverse {
+  underlyings: string[]
+  contractTickers: string[]
+  // Serialized scan settings (thresholds, rates, estimators, costs)
+  parameters: string
+  // Quote each single-contract opportunity was priced from, by contract ticker
+  prices?: Record<string, number>
+}
+
+export interface SurvivalPoint {
+  minutes: number
+  probability: number
+}
+
+export interface ArbitrageSurvivalStats {
+  type: ArbitrageScanType
+  total: number
+  open: number
+  converged: number
+  vanished: number
+  expired: number
+  // Share of closed opportunities that closed with their contracts still quoted
+  convergenceRate: number | null
+  medianLifetimeMinutes: number | null
+  averageInitialEdge: number
+  survival: SurvivalPoint[]
+}
+
+/**
+ * Persistence tracking for arbitrage scanner output.
+ *
+ * Every detected opportunity is stored under a fingerprint of its scan type,
+ * contracts and direction. Later scans extend it while it is still reported
+ * and close it once a scan with the same settings no longer reports it; a
+ * scan with different settings leaves it open, since a changed threshold or
+ * estimator says nothing about the market. Open single-contract
+ * opportunities are also re-checked against stored daily quotes and close as
+ * converged once the market price has moved most of the way back to the fair
+ * value recorded at detection.
+ *
+ * Lifetimes run from first detection to closure, so they are bounded above by
+ * the interval between scans. Survival is estimated with Kaplan-Meier, with
+ * still-open opportunities censored at their last sighting.
+ */
+export class ArbitrageTrackingService {
+  static readonly SURVIVAL_CHECKPOINTS = [15, 60, 240, 1440, 10080]
+
+  // Remaining share of the initial gap at which a single-contract mispricing counts as converged
+  static readonly CONVERGENCE_FRACTION = 0.25
+
+  private static readonly STORAGE_KEY = 'arbitrageOpportunityHistory'
+  private static readonly MAX_RECORDS = 2000
+
+  static fromOpportunities(type: ArbitrageScanType, opportunities: ArbitrageOpportunity[]): ArbitrageCandidate[] {
+    return opportunities.map(opportunity => {
+      const direction = opportunity.priceDifference > 0 ? 'sell' : 'buy'
+      // Parity rows name one leg but trade the call/put pair, so there is no single fair value to track
+      const singleContract = type !== 'put-call-parity'
+
+      return {
+        fingerprint: `${type}:${opportunity.contractTicker}:${direction}`,
+        type,
+        underlyingTicker: opportunity.underlyingTicker,
+        contractTickers: [opportunity.contractTicker],
+        expirationDate: opportunity.expirationDate,
+        description: `${direction === 'sell' ? 'Sell' : 'Buy'} ${opportunity.contractTicker}`,
+        edge: Math.abs(opportunity.priceDifference) * 100,
+        marketPrice: singleContract ? opportunity.marketPrice : undefined,
+        fairValue: singleContract ? opportunity.theoreticalPrice : undefined
+      }
+    })
+  }
+
+  static fromParityResults(results: ParityArbitrage[]): ArbitrageCandidate[] {
+    return results.map(result => {
+      const tickers = result.legs
+        .filter(leg => leg.contractTicker)
+        .map(leg => leg.contractTicker!)
+
+      return {
+        fingerprint: `box-conversion:${result.structure}:${[...tickers].sort().join(',')}`,
+        type: 'box-conversion',
+        underlyingTicker: result.underlyingTicker,
+        contractTickers: tickers,
+        expirationDate: result.expirationDate,
+        description: result.lowerStrike === result.upperStrike
+          ? `${result.structure} ${result.lowerStrike}`
+          : `${result.structure} ${result.lowerStrike}/${result.upperStrike}`,
+        edge: result.profit
+      }
+    })
+  }
+
+  static fromChainViolations(violations: ChainViolation[]): ArbitrageCandidate[] {
+    return violations.map(violation => {
+      const legs = violation.legs.map(leg => `${leg.action}:${leg.contractTicker}`)
+
+      return {
+        fingerprint: `chain-consistency:${violation.type}:${[...legs].sort().join(',')}`,
+        type: 'chain-consistency',
+        underlyingTicker: violation.underlyingTicker,
+        contractTickers: violation.legs.map(leg => leg.contractTicker),
+        expirationDate: violation.expirationDate,
+        description: violation.description,
+        edge: violation.edge
+      }
+    })
+  }
+
+  /**
+   * Merge one scan's results into the history and return the updated records
+   */
+  static recordScan(
+    type: ArbitrageScanType,
+    candidates: ArbitrageCandidate[],
+    universe: ScanUniverse,
+    now: Date = new Date()
+  ): TrackedOpportunity[] {
+    const records = this.getHistory()
+    const timestamp = now.toISOString()
+    const byFingerprint = new Map(records
+      .filter(record => record.status === 'open')
+      .map(record => [record.fingerprint, record]))
+    const seen = new Set<string>()
+
+    for (const candidate of candidates) {
+      if (seen.has(candidate.fingerprint)) continue
+      seen.add(candidate.fingerprint)
+
+      const existing = byFingerprint.get(candidate.fingerprint)
+      if (existing) {
+        existing.scanParameters = universe.parameters
+        existing.lastSeen = timestamp
+        existing.observations += 1
+        existing.edge = candidate.edge
+        existing.marketPrice = candidate.marketPrice
+        continue
+      }
+
+      records.push({
+        ...candidate,
+        scanParameters: universe.parameters,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        observations: 1,
+        initialEdge: candidate.edge,
+        status: 'open',
+        closedAt: null,
+        closedBy: null
+      })
+    }
+
+    const underlyings = new Set(universe.underlyings)
+    const quoted = new Set(universe.contractTickers)
+    for (const record of byFingerprint.values()) {
+      if (record.type !== type || seen.has(record.fingerprint) || !underlyings.has(record.underlyingTicker)) continue
+      if (record.scanParameters !== universe.parameters) continue
+
+      if (this.isExpired(record, now)) {
+        record.status = 'expired'
+      } else {
+        const stillQuoted = record.contractTickers.every(ticker => quoted.has(ticker))
+        record.status = stillQuoted && this.movedTowardFairValue(record, universe.prices) ? 'converged' : 'vanished'
+      }
+      record.closedAt = timestamp
+      record.closedBy = 'scan'
+    }
+
+    this.saveHistory(records)
+    return records
+  }
+
+  /**
+   * Close open single-contract opportunities whose stored daily quotes have
+   * converged on the fair value, and open ones whose contracts have expired.
+   * Quotes are read with one query per underlying.
+   */
+  static async recheckAgainstHistory(now: Date = new Date()): Promise<TrackedOpportunity[]> {
+    const records = this.getHistory()
+    const pending: TrackedOpportunity[] = []
+
+    for (const record of records) {
+      if (record.status !== 'open') continue
+      if (this.isExpired(record, now)) {
+        record.status = 'expired'
+        record.closedAt = now.toISOString()
+        record.closedBy = 'history'
+        continue
+      }
+      if (record.fairValue === undefined || record.marketPrice === undefined) continue
+      if (record.marketPrice === record.fairValue) continue
+      pending.push(record)
+    }
+
+    const byUnderlying = new Map<string, TrackedOpportunity[]>()
+    for (const record of pending) {
+      byUnderlying.set(record.underlyingTicker, [...(byUnderlying.get(record.underlyingTicker) || []), record])
+    }
+
+    await Promise.all(Array.from(byUnderlying.entries()).map(async ([underlyingTicker, group]) => {
+      const startDate = group
+        .map(record => record.firstSeen.split('T')[0])
+        .reduce((earliest, date) => date < earliest ? date : earliest)
+      const rows = await HistoricalDataService.getOptionsHistoricalDataForContracts(
+        underlyingTicker,
+        Array.from(new Set(group.map(record => record.contractTickers[0]))),
+        startDate
+      )
+
+      const rowsByTicker = new Map<string, typeof rows>()
+      for (const row of rows) {
+        rowsByTicker.set(row.contract_ticker, [...(rowsByTicker.get(row.contract_ticker) || []), row])
+      }
+
+      for (const record of group) {
+        const initialGap = record.marketPrice! - record.fairValue!
+        const firstSeenDate = record.firstSeen.split('T')[0]
+
+        // Daily rows are end-of-day, so the detection day itself can already show convergence
+        const convergedRow = (rowsByTicker.get(record.contractTickers[0]) || []).find(row => {
+          if (row.date < firstSeenDate) return false
+          const price = row.bid > 0 && row.ask >= row.bid ? (row.bid + row.ask) / 2 : row.last
+          if (!(price > 0)) return false
+          const gap = price - record.fairValue!
+          return Math.sign(gap) !== Math.sign(initialGap) ||
+            Math.abs(gap) <= this.CONVERGENCE_FRACTION * Math.abs(initialGap)
+        })
+
+        if (convergedRow) {
+          record.status = 'converged'
+          // Never before the last live sighting
+          record.closedAt = new Date(Math.max(
+            new Date(`${convergedRow.date}T23:59:59Z`).getTime(),
+            new Date(record.lastSeen).getTime()
+          )).toISOString()
+          record.closedBy = 'history'
+        }
+      }
+    }))
+
+    this.saveHistory(records)
+    return records
+  }
+
+  static getHistory(): TrackedOpportunity[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY)
+      return stored ? JSON.parse(stored) : []
+    } catch (error) {
+      console.error('Failed to read arbitrage history:', error)
+      return []
+    }
+  }
+
+  static clearHistory(): void {
+    localStorage.removeItem(this.STORAGE_KEY)
+  }
+
+  /**
+   * Lifetime in minutes: to closure for closed records, to the last sighting
+   * for open ones
+   */
+  static lifetimeMinutes(record: TrackedOpportunity): number {
+    const end = record.closedAt ?? record.lastSeen
+    return Math.max(0, (new Date(end).getTime() - new Date(record.firstSeen).getTime()) / (1000 * 60))
+  }
+
+  static getSurvivalStats(records: TrackedOpportunity[] = this.getHistory()): ArbitrageSurvivalStats[] {
+    const types = Array.from(new Set(records.map(record => record.type)))
+    return types.map(type => this.summarize(type, records.filter(record => record.type === type)))
+  }
+
+  private static summarize(type: ArbitrageScanType, records: TrackedOpportunity[]): ArbitrageSurvivalStats {
+    const count = (status: TrackedOpportunityStatus) => records.filter(record => record.status === status).length
+    const converged = count('converged')
+    const vanished = count('vanished')
+    const expired = count('expired')
+    const closed = converged + vanished + expired
+    const curve = this.kaplanMeier(records)
+
+    const survivalAt = (minutes: number) => {
+      let probability = 1
+      for (const point of curve) {
+        if (point.minutes > minutes) break
+        probability = point.probability
+      }
+      return probability
+    }
+
+    const median = curve.find(point => point.probability <= 0.5)
+
+    return {
+      type,
+      total: records.length,
+      open: count('open'),
+      converged,
+      vanished,
+      expired,
+      convergenceRate: closed > 0 ? converged / closed : null,
+      medianLifetimeMinutes: median ? median.minutes : null,
+      averageInitialEdge: records.length > 0
+        ? records.reduce((sum, record) => sum + record.initialEdge, 0) / records.length
+        : 0,
+      survival: this.SURVIVAL_CHECKPOINTS.map(minutes => ({ minutes, probability: survivalAt(minutes) }))
+    }
+  }
+
+  /**
+   * Survival probability after each distinct closure time
+   */
+  private static kaplanMeier(records: TrackedOpportunity[]): SurvivalPoint[] {
+    const observations = records
+      .map(record => ({ minutes: this.lifetimeMinutes(record), closed: record.status !== 'open' }))
+      .sort((a, b) => a.minutes - b.minutes)
+
+    const curve: SurvivalPoint[] = []
+    let atRisk = observations.length
+    let probability = 1
+    let i = 0
+
+    while (i < observations.length) {
+      const minutes = observations[i].minutes
+      let closures = 0
+      let leaving = 0
+      while (i < observations.length && observations[i].minutes === minutes) {
+        if (observations[i].closed) closures++
+        leaving++
+        i++
+      }
+
+      if (closures > 0) {
+        probability *= 1 - closures / atRisk
+        curve.push({ minutes, probability })
+      }
+      atRisk -= leaving
+    }
+
+    return curve
+  }
+
+  /**
+   * Whether a single-contract quote is closer to (or through) the fair value
+   * than at its last sighting. Multi-leg structures have no single fair value;
+   * a scan on the same settings no longer finding them is the convergence.
+   */
+  private static movedTowardFairValue(record: TrackedOpportunity, prices: Record<string, number> = {}): boolean {
+    if (record.fairValue === undefined || record.marketPrice === undefined) return true
+
+    const price = prices[record.contractTickers[0]]
+    if (!(price > 0)) return false
+
+    const lastGap = record.marketPrice - record.fairValue
+    const gap = price - record.fairValue
+    return Math.sign(gap) !== Math.sign(lastGap) || Math.abs(gap) < Math.abs(lastGap)
+  }
+
+  private static isExpired(record: TrackedOpportunity, now: Date): boolean {
+    return new Date(`${record.expirationDate.split('T')[0]}T23:59:59Z`).getTime() < now.getTime()
+  }
+
+  private static saveHistory(records: TrackedOpportunity[]): void {
+    // Drop the oldest closed records first once over the cap
+    let trimmed = records
+    if (records.length > this.MAX_RECORDS) {
+      const excess = records.length - this.MAX_RECORDS
+      const oldestClosed = new Set(records
+        .filter(record => record.status !== 'open')
+        .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen))
+        .slice(0, excess))
+      trimmed = records.filter(record => !oldestClosed.has(record))
+      if (trimmed.length > this.MAX_RECORDS) trimmed = trimmed.slice(trimmed.length - this.MAX_RECORDS)
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(trimmed))
+    } catch (error) {
+      console.error('Failed to persist arbitrage history:', error)
+    }
+  }
+}
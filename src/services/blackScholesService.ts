@@ -6,10 +6,15 @@
  * opportunities in the options market.
  */
 
+import { DividendService } from './dividendService';
+import { ImpliedVolatilityEngine } from './impliedVolatilityEngine';
+import { RateCurveService } from './rateCurveService';
+import { TransactionCostService, TransactionCostModel } from './transactionCostService';
+
 /**
  * Standard normal cumulative distribution function
  */
-function normalCDF(x: number): number {
+export function normalCDF(x: number): number {
   const a1 = 0.254829592;
   const a2 = -0.284496736;
   const a3 = 1.421413741;
@@ -18,7 +23,7 @@ function normalCDF(x: number): number {
   const p = 0.3275911;
 
   const sign = x < 0 ? -1 : 1;
-  x = Math.abs(x);
+  x = Math.abs(x) / Math.SQRT2;
   
   const t = 1.0 / (1.0 + p * x);
   const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
@@ -34,22 +39,69 @@ function normalPDF(x: number): number {
 }
 
 /**
- * Calculate d1 and d2 parameters for Black-Scholes
+ * Calculate d1 and d2 parameters for Black-Scholes (Merton form with a
+ * continuous dividend yield)
  */
 function calculateD1D2(
   spotPrice: number,
   strikePrice: number,
   timeToExpiry: number,
   riskFreeRate: number,
-  volatility: number
+  volatility: number,
+  dividendYield: number = 0
 ): { d1: number; d2: number } {
-  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate + 0.5 * volatility * volatility) * timeToExpiry) / 
+  const d1 = (Math.log(spotPrice / strikePrice) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / 
              (volatility * Math.sqrt(timeToExpiry));
   const d2 = d1 - volatility * Math.sqrt(timeToExpiry);
   
   return { d1, d2 };
 }
 
+export interface CashDividend {
+  time: number; // Years from now until the ex-dividend date
+  amount: number;
+}
+
+/**
+ * Dividend assumptions for a single pricing call. Index/ETF underlyings use a
+ * continuous yield; single names use discrete cash dividends, handled with the
+ * escrowed-dividend model (spot is reduced by the PV of dividends to expiry).
+ */
+export interface DividendInputs {
+  dividendYield?: number;
+  cashDividends?: CashDividend[];
+}
+
+/**
+ * Present value of the cash dividends paid before expiry
+ */
+export function presentValueOfDividends(
+  cashDividends: CashDividend[] | undefined,
+  timeToExpiry: number,
+  riskFreeRate: number
+): number {
+  if (!cashDividends) return 0;
+
+  return cashDividends
+    .filter(dividend => dividend.time > 0 && dividend.time <= timeToExpiry)
+    .reduce((sum, dividend) => sum + dividend.amount * Math.exp(-riskFreeRate * dividend.time), 0);
+}
+
+/**
+ * Re-express dividend timings after `elapsed` years have passed, dropping
+ * dividends that have already gone ex
+ */
+export function shiftDividends(dividends: DividendInputs, elapsed: number): DividendInputs {
+  if (!dividends.cashDividends) return dividends;
+
+  return {
+    ...dividends,
+    cashDividends: dividends.cashDividends
+      .map(dividend => ({ ...dividend, time: dividend.time - elapsed }))
+      .filter(dividend => dividend.time > 0)
+  };
+}
+
 export interface OptionPricingResult {
   price: number;
   delta: number;
@@ -57,6 +109,13 @@ export interface OptionPricingResult {
   theta: number;
   vega: number;
   rho: number;
+  // Higher-order Greeks, scaled like the first-order ones (per 1% vol, per calendar day)
+  vanna: number;
+  volga: number;
+  charm: number;
+  speed: number;
+  color: number;
+  zomma: number;
   impliedVolatility?: number;
 }
 
@@ -75,6 +134,11 @@ export interface ArbitrageOpportunity {
   expectedProfit: number;
   maxLoss: number;
   riskRewardRatio: number;
+  // Net of the cost model, per contract (or per parity pair)
+  transactionCost: number;
+  netEdge: number;
+  breakEvenCost: number;
+  capacity: number;
 }
 
 export class BlackScholesService {
@@ -87,6 +151,7 @@ export class BlackScholesService {
    * @param riskFreeRate Risk-free interest rate (as a decimal, e.g., 0.05 for 5%)
    * @param volatility Implied volatility (as a decimal)
    * @param isCall Whether the option is a call (true) or put (false)
+   * @param dividends Continuous yield and/or discrete cash dividends (default: none)
    * @returns Object containing price and Greeks
    */
   static calculateOptionPrice(
@@ -95,7 +160,8 @@ export class BlackScholesService {
     timeToExpiry: number,
     riskFreeRate: number,
     volatility: number,
-    isCall: boolean
+    isCall: boolean,
+    dividends: DividendInputs = {}
   ): OptionPricingResult {
     // Validate inputs
     if (spotPrice <= 0 || strikePrice <= 0 || timeToExpiry <= 0 || volatility <= 0) {
@@ -107,35 +173,44 @@ export class BlackScholesService {
       timeToExpiry = 0.000001;
     }
 
-    const { d1, d2 } = calculateD1D2(spotPrice, strikePrice, timeToExpiry, riskFreeRate, volatility);
+    // Escrowed-dividend adjustment for discrete cash dividends
+    const dividendYield = dividends.dividendYield || 0;
+    const adjustedSpot = spotPrice - presentValueOfDividends(dividends.cashDividends, timeToExpiry, riskFreeRate);
+    if (adjustedSpot <= 0) {
+      throw new Error('Invalid input parameters: dividends exceed the underlying price');
+    }
+    const dividendDiscount = Math.exp(-dividendYield * timeToExpiry);
+
+    const { d1, d2 } = calculateD1D2(adjustedSpot, strikePrice, timeToExpiry, riskFreeRate, volatility, dividendYield);
     
     let price: number;
     let delta: number;
     
     if (isCall) {
-      price = spotPrice * normalCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d2);
-      delta = normalCDF(d1);
+      price = adjustedSpot * dividendDiscount * normalCDF(d1) - strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(d2);
+      delta = dividendDiscount * normalCDF(d1);
     } else {
-      price = strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) - spotPrice * normalCDF(-d1);
-      delta = normalCDF(d1) - 1;
+      price = strikePrice * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) - adjustedSpot * dividendDiscount * normalCDF(-d1);
+      delta = dividendDiscount * (normalCDF(d1) - 1);
     }
     
     // Calculate other Greeks
-    const gamma = normalPDF(d1) / (spotPrice * volatility * Math.sqrt(timeToExpiry));
+    const gamma = dividendDiscount * normalPDF(d1) / (adjustedSpot * volatility * Math.sqrt(timeToExpiry));
     
     // Theta (per calendar day)
-    const theta1 = -(spotPrice * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
+    const theta1 = -(adjustedSpot * dividendDiscount * volatility * normalPDF(d1)) / (2 * Math.sqrt(timeToExpiry));
     const theta2 = riskFreeRate * strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+    const theta3 = dividendYield * adjustedSpot * dividendDiscount;
     let theta: number;
     
     if (isCall) {
-      theta = (theta1 - theta2 * normalCDF(d2)) / 365;
+      theta = (theta1 - theta2 * normalCDF(d2) + theta3 * normalCDF(d1)) / 365;
     } else {
-      theta = (theta1 + theta2 * normalCDF(-d2)) / 365;
+      theta = (theta1 + theta2 * normalCDF(-d2) - theta3 * normalCDF(-d1)) / 365;
     }
     
     // Vega (for 1% change in volatility)
-    const vega = spotPrice * Math.sqrt(timeToExpiry) * normalPDF(d1) * 0.01;
+    const vega = adjustedSpot * dividendDiscount * Math.sqrt(timeToExpiry) * normalPDF(d1) * 0.01;
     
     // Rho (for 1% change in interest rate)
     let rho: number;
@@ -145,13 +220,44 @@ export class BlackScholesService {
       rho = -strikePrice * timeToExpiry * Math.exp(-riskFreeRate * timeToExpiry) * normalCDF(-d2) * 0.01;
     }
     
+    // Vanna: change in delta per 1% change in volatility
+    const vanna = -dividendDiscount * normalPDF(d1) * d2 / volatility * 0.01;
+
+    // Volga: change in vega (per 1%) per 1% change in volatility
+    const volga = vega * d1 * d2 / volatility * 0.01;
+
+    // Charm: change in delta per calendar day that passes
+    const driftTerm = (2 * (riskFreeRate - dividendYield) * timeToExpiry - d2 * volatility * Math.sqrt(timeToExpiry)) /
+                      (2 * timeToExpiry * volatility * Math.sqrt(timeToExpiry));
+    let charm: number;
+    if (isCall) {
+      charm = (dividendYield * dividendDiscount * normalCDF(d1) - dividendDiscount * normalPDF(d1) * driftTerm) / 365;
+    } else {
+      charm = (-dividendYield * dividendDiscount * normalCDF(-d1) - dividendDiscount * normalPDF(d1) * driftTerm) / 365;
+    }
+
+    // Speed: change in gamma per $1 change in the underlying
+    const speed = -gamma / adjustedSpot * (d1 / (volatility * Math.sqrt(timeToExpiry)) + 1);
+
+    // Color: change in gamma per calendar day that passes
+    const color = gamma * (dividendYield + 1 / (2 * timeToExpiry) + d1 * driftTerm) / 365;
+
+    // Zomma: change in gamma per 1% change in volatility
+    const zomma = gamma * (d1 * d2 - 1) / volatility * 0.01;
+    
     return {
       price,
       delta,
       gamma,
       theta,
       vega,
-      rho
+      rho,
+      vanna,
+      volga,
+      charm,
+      speed,
+      color,
+      zomma
     };
   }
 
@@ -166,6 +272,7 @@ export class BlackScholesService {
    * @param isCall Whether the option is a call (true) or put (false)
    * @param tolerance Precision tolerance (default: 0.0001)
    * @param maxIterations Maximum iterations (default: 100)
+   * @param dividends Continuous yield and/or discrete cash dividends (default: none)
    * @returns Implied volatility or undefined if it doesn't converge
    */
   static calculateImpliedVolatility(
@@ -176,7 +283,8 @@ export class BlackScholesService {
     riskFreeRate: number,
     isCall: boolean,
     tolerance: number = 0.0001,
-    maxIterations: number = 100
+    maxIterations: number = 100,
+    dividends: DividendInputs = {}
   ): number | undefined {
     // Initial guess for implied volatility
     let volatility = 0.3;
@@ -189,7 +297,8 @@ export class BlackScholesService {
         timeToExpiry,
         riskFreeRate,
         volatility,
-        isCall
+        isCall,
+        dividends
       );
       
       const priceDifference = result.price - marketPrice;
@@ -218,14 +327,16 @@ export class BlackScholesService {
    * Find arbitrage opportunities in options contracts
    * 
    * @param contracts Array of options contracts to analyze
-   * @param riskFreeRate Risk-free interest rate (as a decimal)
+   * @param riskFreeRate Risk-free interest rate (as a decimal). Defaults to the rate curve at each expiry
    * @param minPriceDifference Minimum price difference to consider (default: 0.05 or 5%)
+   * @param costModel Commissions, fees, slippage and size limits used for the net edge
    * @returns Array of arbitrage opportunities
    */
   static findArbitrageOpportunities(
     contracts: any[],
-    riskFreeRate: number = 0.05,
-    minPriceDifference: number = 0.05
+    riskFreeRate?: number,
+    minPriceDifference: number = 0.05,
+    costModel: TransactionCostModel = TransactionCostService.getModel()
   ): ArbitrageOpportunity[] {
     const opportunities: ArbitrageOpportunity[] = [];
     
@@ -245,20 +356,25 @@ export class BlackScholesService {
         const currentDate = new Date();
         const timeToExpiryDays = Math.max(1, (expiryDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
         const timeToExpiry = timeToExpiryDays / 365;
+        const rate = riskFreeRate ?? RateCurveService.getRate(timeToExpiry);
+        const dividends = DividendService.getDividendInputs(contract.underlying_ticker, timeToExpiry);
         
-        // Use implied volatility from the contract or calculate it
+        // Use implied volatility from the contract or solve it from the mid price
         let volatility = contract.implied_volatility;
-        if (!volatility && bid > 0 && ask > 0) {
-          // If IV is not provided, calculate it using the mid price
-          const midPrice = (bid + ask) / 2;
-          volatility = this.calculateImpliedVolatility(
+        if (!volatility) {
+          const midPrice = bid > 0 && ask > 0 ? (bid + ask) / 2 : 0;
+          const solved = ImpliedVolatilityEngine.solve(
             midPrice,
             spotPrice,
             strikePrice,
             timeToExpiry,
-            riskFreeRate,
-            contract.contract_type === 'call'
-          ) || 0.3; // Default to 30% if calculation fails
+            rate,
+            contract.contract_type === 'call',
+            dividends
+          );
+          // Without a usable IV there is no theoretical price to compare against
+          if (solved.impliedVolatility === null) continue;
+          volatility = solved.impliedVolatility;
         }
         
         // Calculate theoretical price
@@ -266,9 +382,10 @@ export class BlackScholesService {
           spotPrice,
           strikePrice,
           timeToExpiry,
-          riskFreeRate,
+          rate,
           volatility,
-          contract.contract_type === 'call'
+          contract.contract_type === 'call',
+          dividends
         );
         
         const theoreticalPrice = theoreticalResult.price;
@@ -302,6 +419,13 @@ export class BlackScholesService {
             recommendation = `${contract.contract_type === 'call' ? 'Call' : 'Put'} appears underpriced. Consider buying ${contract.ticker}.`;
           }
           
+          const costs = TransactionCostService.evaluateLeg(
+            contract,
+            theoreticalPrice,
+            priceDifference > 0 ? 'sell' : 'buy',
+            costModel
+          );
+          
           opportunities.push({
             contractTicker: contract.ticker,
             underlyingTicker: contract.underlying_ticker,
@@ -316,7 +440,11 @@ export class BlackScholesService {
             recommendation,
             expectedProfit,
             maxLoss,
-            riskRewardRatio: expectedProfit / maxLoss
+            riskRewardRatio: expectedProfit / maxLoss,
+            transactionCost: costs.transactionCost,
+            netEdge: costs.netEdge,
+            breakEvenCost: costs.breakEvenCost,
+            capacity: costs.capacity
           });
         }
       } catch (error) {
@@ -334,14 +462,16 @@ export class BlackScholesService {
    * @param callContracts Call option contracts
    * @param putContracts Put option contracts with matching strikes and expirations
    * @param spotPrice Current price of the underlying asset
-   * @param riskFreeRate Risk-free interest rate (as a decimal)
+   * @param riskFreeRate Risk-free interest rate (as a decimal). Defaults to the rate curve at each expiry
+   * @param costModel Commissions, fees, slippage and size limits used for the net edge
    * @returns Array of arbitrage opportunities
    */
   static findPutCallParityArbitrage(
     callContracts: any[],
     putContracts: any[],
     spotPrice: number,
-    riskFreeRate: number = 0.05
+    riskFreeRate?: number,
+    costModel: TransactionCostModel = TransactionCostService.getModel()
   ): ArbitrageOpportunity[] {
     const opportunities: ArbitrageOpportunity[] = [];
     
@@ -383,15 +513,19 @@ export class BlackScholesService {
       const currentDate = new Date();
       const timeToExpiryDays = Math.max(1, (expiryDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
       const timeToExpiry = timeToExpiryDays / 365;
+      const rate = riskFreeRate ?? RateCurveService.getRate(timeToExpiry);
       
-      // Put-call parity: C + K*e^(-rT) = P + S
+      // Put-call parity with dividends: C + K*e^(-rT) = P + (S - PV(D))*e^(-qT)
       const callPrice = call.last;
       const putPrice = put.last;
-      const discountedStrike = strikePrice * Math.exp(-riskFreeRate * timeToExpiry);
+      const discountedStrike = strikePrice * Math.exp(-rate * timeToExpiry);
+      const dividends = DividendService.getDividendInputs(call.underlying_ticker, timeToExpiry);
+      const dividendAdjustedSpot = (spotPrice - presentValueOfDividends(dividends.cashDividends, timeToExpiry, rate)) *
+        Math.exp(-(dividends.dividendYield || 0) * timeToExpiry);
       
       // Calculate both sides of the equation
       const leftSide = callPrice + discountedStrike;
-      const rightSide = putPrice + spotPrice;
+      const rightSide = putPrice + dividendAdjustedSpot;
       
       // Calculate the difference
       const difference = Math.abs(leftSide - rightSide);
@@ -419,6 +553,15 @@ export class BlackScholesService {
         const expectedProfit = difference * 100; // Per contract (100 shares)
         const maxLoss = expectedProfit * 0.5; // Estimate
         
+        // The call is valued off the put through parity, so the put leg only pays its spread.
+        // Stock execution costs are not modelled.
+        const sellCall = leftSide > rightSide;
+        const putMid = put.bid > 0 && put.ask >= put.bid ? (put.bid + put.ask) / 2 : putPrice;
+        const costs = TransactionCostService.combine([
+          TransactionCostService.evaluateLeg(call, putMid + dividendAdjustedSpot - discountedStrike, sellCall ? 'sell' : 'buy', costModel),
+          TransactionCostService.evaluateLeg(put, putMid, sellCall ? 'buy' : 'sell', costModel)
+        ]);
+        
         opportunities.push({
           contractTicker,
           underlyingTicker: call.underlying_ticker,
@@ -426,14 +569,18 @@ export class BlackScholesService {
           expirationDate: call.expiration_date,
           contractType,
           marketPrice: contractType === 'call' ? callPrice : putPrice,
-          theoreticalPrice: contractType === 'call' ? (rightSide - discountedStrike) : (leftSide - spotPrice),
+          theoreticalPrice: contractType === 'call' ? (rightSide - discountedStrike) : (leftSide - dividendAdjustedSpot),
           priceDifference: difference,
           percentageDifference,
           confidence: percentageDifference > 0.05 ? 'high' : 'medium',
           recommendation,
           expectedProfit,
           maxLoss,
-          riskRewardRatio: expectedProfit / maxLoss
+          riskRewardRatio: expectedProfit / maxLoss,
+          transactionCost: costs.transactionCost,
+          netEdge: costs.netEdge,
+          breakEvenCost: costs.breakEvenCost,
+          capacity: costs.capacity
         });
       }
     }
@@ -445,14 +592,17 @@ export class BlackScholesService {
    * Find volatility arbitrage opportunities
    * 
    * @param contracts Array of options contracts to analyze
-   * @param historicalVolatility Historical volatility of the underlying asset
+   * @param historicalVolatility Realized volatility, either one value for every contract or
+   *   a map from underlying ticker to that ticker's realized volatility
    * @param minVolDifference Minimum volatility difference to consider (default: 0.1 or 10%)
+   * @param costModel Commissions, fees, slippage and size limits used for the net edge
    * @returns Array of arbitrage opportunities
    */
   static findVolatilityArbitrage(
     contracts: any[],
-    historicalVolatility: number,
-    minVolDifference: number = 0.1
+    historicalVolatility: number | Record<string, number>,
+    minVolDifference: number = 0.1,
+    costModel: TransactionCostModel = TransactionCostService.getModel()
   ): ArbitrageOpportunity[] {
     const opportunities: ArbitrageOpportunity[] = [];
     
@@ -461,9 +611,14 @@ export class BlackScholesService {
         const impliedVolatility = contract.implied_volatility;
         if (!impliedVolatility) continue;
         
+        const realizedVolatility = typeof historicalVolatility === 'number'
+          ? historicalVolatility
+          : historicalVolatility[contract.underlying_ticker];
+        if (!realizedVolatility) continue; // No realized volatility for this underlying
+        
         // Calculate volatility difference
-        const volDifference = impliedVolatility - historicalVolatility;
-        const percentageDifference = Math.abs(volDifference) / historicalVolatility;
+        const volDifference = impliedVolatility - realizedVolatility;
+        const percentageDifference = Math.abs(volDifference) / realizedVolatility;
         
         if (percentageDifference >= minVolDifference) {
           // Calculate theoretical price using historical volatility
@@ -484,9 +639,10 @@ export class BlackScholesService {
             spotPrice,
             strikePrice,
             timeToExpiry,
-            0.05, // Assume 5% risk-free rate
-            historicalVolatility,
-            contract.contract_type === 'call'
+            RateCurveService.getRate(timeToExpiry),
+            realizedVolatility,
+            contract.contract_type === 'call',
+            DividendService.getDividendInputs(contract.underlying_ticker, timeToExpiry)
           );
           
           const theoreticalPrice = theoreticalResult.price;
@@ -496,10 +652,10 @@ export class BlackScholesService {
           let recommendation = '';
           if (volDifference > 0) {
             // Implied volatility higher than historical
-            recommendation = `Implied volatility (${(impliedVolatility * 100).toFixed(1)}%) is higher than historical volatility (${(historicalVolatility * 100).toFixed(1)}%). Consider selling ${contract.contract_type}s and delta-hedging.`;
+            recommendation = `Implied volatility (${(impliedVolatility * 100).toFixed(1)}%) is higher than historical volatility (${(realizedVolatility * 100).toFixed(1)}%). Consider selling ${contract.contract_type}s and delta-hedging.`;
           } else {
             // Historical volatility higher than implied
-            recommendation = `Implied volatility (${(impliedVolatility * 100).toFixed(1)}%) is lower than historical volatility (${(historicalVolatility * 100).toFixed(1)}%). Consider buying ${contract.contract_type}s and delta-hedging.`;
+            recommendation = `Implied volatility (${(impliedVolatility * 100).toFixed(1)}%) is lower than historical volatility (${(realizedVolatility * 100).toFixed(1)}%). Consider buying ${contract.contract_type}s and delta-hedging.`;
           }
           
           // Calculate expected profit and max loss
@@ -508,6 +664,13 @@ export class BlackScholesService {
                          (spotPrice * 0.1 * 100) : // 10% move in underlying for calls
                          (strikePrice * 0.1 * 100); // 10% of strike for puts
           
+          const costs = TransactionCostService.evaluateLeg(
+            contract,
+            theoreticalPrice,
+            volDifference > 0 ? 'sell' : 'buy',
+            costModel
+          );
+          
           opportunities.push({
             contractTicker: contract.ticker,
             underlyingTicker: contract.underlying_ticker,
@@ -522,7 +685,11 @@ export class BlackScholesService {
             recommendation,
             expectedProfit,
             maxLoss,
-            riskRewardRatio: expectedProfit / maxLoss
+            riskRewardRatio: expectedProfit / maxLoss,
+            transactionCost: costs.transactionCost,
+            netEdge: costs.netEdge,
+            breakEvenCost: costs.breakEvenCost,
+            capacity: costs.capacity
           });
         }
       } catch (error) {
@@ -0,0 +1,231 @@
+import { RateCurveService } from './rateCurveService'
+
+export type ChainViolationType = 'vertical' | 'butterfly' | 'calendar'
+
+export interface ChainQuoteContract {
+  contract_ticker?: string
+  ticker?: string
+  underlying_ticker: string
+  contract_type: 'call' | 'put'
+  strike_price: number
+  expiration_date: string
+  bid: number
+  ask: number
+  // Treated as American when missing
+  exercise_style?: 'american' | 'european'
+}
+
+export interface ChainViolationLeg {
+  contractTicker: string
+  contractType: 'call' | 'put'
+  strike: number
+  expirationDate: string
+  action: 'buy' | 'sell'
+  quantity: number
+  price: number
+}
+
+export interface ChainViolation {
+  type: ChainViolationType
+  underlyingTicker: string
+  contractType: 'call' | 'put'
+  expirationDate: string
+  strikes: number[]
+  description: string
+  legs: ChainViolationLeg[]
+  // Executable profit per structure (100 shares) locked in at entry
+  edge: number
+  // The bound only holds approximately: discounted-width verticals and
+  // calendars on European contracts
+  approximate?: boolean
+}
+
+/**
+ * Static no-arbitrage checks on an option chain at executable prices (buy at
+ * the ask, sell at the bid):
+ *
+ * - vertical: call prices must fall and put prices rise with strike, and no
+ *   vertical may cost more than the strike width (discounted for European
+ *   contracts; American puts, and calls on dividend payers, can be exercised
+ *   early and are only bounded by the full width)
+ * - butterfly: prices must be convex in strike, so a long butterfly can never
+ *   be opened for a credit
+ * - calendar: at the same strike a later expiry must be worth at least the
+ *   earlier one, which holds exactly for American options only
+ *
+ * Only adjacent strikes and expiries are compared; any violation between
+ * distant strikes implies one between neighbours at mid prices.
+ */
+export class ChainConsistencyService {
+  static analyze(contracts: ChainQuoteContract[], riskFreeRate?: number): ChainViolation[] {
+    const tradeable = contracts.filter(contract => contract.bid > 0 && contract.ask >= contract.bid)
+    const violations: ChainViolation[] = []
+
+    for (const slice of this.groupBy(tradeable, contract =>
+      `${contract.underlying_ticker}|${contract.expiration_date}|${contract.contract_type}`)) {
+      const sorted = [...slice].sort((a, b) => a.strike_price - b.strike_price)
+      const timeToExpiry = Math.max(1, (new Date(sorted[0].expiration_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)) / 365
+      const discount = Math.exp(-(riskFreeRate ?? RateCurveService.getRate(timeToExpiry)) * timeToExpiry)
+
+      for (let i = 0; i + 1 < sorted.length; i++) {
+        violations.push(...this.checkVertical(sorted[i], sorted[i + 1], discount))
+      }
+      for (let i = 0; i + 2 < sorted.length; i++) {
+        const violation = this.checkButterfly(sorted[i], sorted[i + 1], sorted[i + 2])
+        if (violation) violations.push(violation)
+      }
+    }
+
+    for (const series of this.groupBy(tradeable, contract =>
+      `${contract.underlying_ticker}|${contract.strike_price}|${contract.contract_type}`)) {
+      const sorted = [...series].sort((a, b) => a.expiration_date.localeCompare(b.expiration_date))
+      for (let i = 0; i + 1 < sorted.length; i++) {
+        const violation = this.checkCalendar(sorted[i], sorted[i + 1])
+        if (violation) violations.push(violation)
+      }
+    }
+
+    return violations.sort((a, b) => b.edge - a.edge)
+  }
+
+  /**
+   * Violations that involve a given contract, for flagging rows in a chain
+   */
+  static violationsForContract(violations: ChainViolation[], contractTicker: string): ChainViolation[] {
+    return violations.filter(violation => violation.legs.some(leg => leg.contractTicker === contractTicker))
+  }
+
+  private static checkVertical(
+    lower: ChainQuoteContract,
+    upper: ChainQuoteContract,
+    discount: number
+  ): ChainViolation[] {
+    const isCall = lower.contract_type === 'call'
+    const width = upper.strike_price - lower.strike_price
+    // The option that must be worth more: lower strike for calls, upper for puts
+    const rich = isCall ? lower : upper
+    const cheap = isCall ? upper : lower
+    const violations: ChainViolation[] = []
+
+    // Monotonicity: buying the richer option for a credit
+    const monotoneEdge = cheap.bid - rich.ask
+    if (monotoneEdge > 0) {
+      violations.push({
+        type: 'vertical',
+        underlyingTicker: lower.underlying_ticker,
+        contractType: lower.contract_type,
+        expirationDate: lower.expiration_date,
+        strikes: [lower.strike_price, upper.strike_price],
+        description: `${rich.strike_price} ${lower.contract_type} is offered below the ${cheap.strike_price} bid; the ${isCall ? 'bull call' : 'bear put'} spread opens for a credit and cannot lose`,
+        legs: [this.leg(rich, 'buy', 1), this.leg(cheap, 'sell', 1)],
+        edge: monotoneEdge * 100
+      })
+    }
+
+    // Upper bound: the spread pays at most the strike width, and at expiry
+    // only unless both legs can be exercised early
+    const isEuropean = lower.exercise_style === 'european'
+    const bound = isEuropean ? width * discount : width
+    const boundEdge = rich.bid - cheap.ask - bound
+    if (boundEdge > 0) {
+      violations.push({
+        type: 'vertical',
+        underlyingTicker: lower.underlying_ticker,
+        contractType: lower.contract_type,
+        expirationDate: lower.expiration_date,
+        strikes: [lower.strike_price, upper.strike_price],
+        description: `${lower.strike_price}/${upper.strike_price} ${lower.contract_type} spread bids more than the ${isEuropean ? 'discounted ' : ''}$${width.toFixed(2)} width it can pay`,
+        legs: [this.leg(rich, 'sell', 1), this.leg(cheap, 'buy', 1)],
+        edge: boundEdge * 100,
+        approximate: isEuropean
+      })
+    }
+
+    return violations
+  }
+
+  /**
+   * Long butterfly weighted for uneven strikes: buy (K3 - K2) of K1, buy
+   * (K2 - K1) of K3, sell (K3 - K1) of K2. Its payoff is never negative.
+   */
+  private static checkButterfly(
+    low: ChainQuoteContract,
+    mid: ChainQuoteContract,
+    high: ChainQuoteContract
+  ): ChainViolation | null {
+    const [lowQuantity, midQuantity, highQuantity] = this.integerWeights(
+      high.strike_price - mid.strike_price,
+      high.strike_price - low.strike_price,
+      mid.strike_price - low.strike_price
+    )
+
+    const cost = lowQuantity * low.ask + highQuantity * high.ask - midQuantity * mid.bid
+    if (cost >= 0) return null
+
+    return {
+      type: 'butterfly',
+      underlyingTicker: low.underlying_ticker,
+      contractType: low.contract_type,
+      expirationDate: low.expiration_date,
+      strikes: [low.strike_price, mid.strike_price, high.strike_price],
+      description: `${low.strike_price}/${mid.strike_price}/${high.strike_price} ${low.contract_type} butterfly opens for a credit (prices not convex in strike)`,
+      legs: [
+        this.leg(low, 'buy', lowQuantity),
+        this.leg(mid, 'sell', midQuantity),
+        this.leg(high, 'buy', highQuantity)
+      ],
+      edge: -cost * 100
+    }
+  }
+
+  private static checkCalendar(near: ChainQuoteContract, far: ChainQuoteContract): ChainViolation | null {
+    const edge = near.bid - far.ask
+    if (edge <= 0) return null
+
+    return {
+      type: 'calendar',
+      underlyingTicker: near.underlying_ticker,
+      contractType: near.contract_type,
+      expirationDate: near.expiration_date,
+      strikes: [near.strike_price],
+      description: `${far.expiration_date} ${near.strike_price} ${near.contract_type} is offered below the ${near.expiration_date} bid; the calendar spread opens for a credit`,
+      legs: [this.leg(far, 'buy', 1), this.leg(near, 'sell', 1)],
+      edge: edge * 100,
+      approximate: near.exercise_style === 'european' || far.exercise_style === 'european'
+    }
+  }
+
+  private static leg(contract: ChainQuoteContract, action: 'buy' | 'sell', quantity: number): ChainViolationLeg {
+    return {
+      contractTicker: contract.contract_ticker ?? contract.ticker ?? '',
+      contractType: contract.contract_type,
+      strike: contract.strike_price,
+      expirationDate: contract.expiration_date,
+      action,
+      quantity,
+      price: action === 'buy' ? contract.ask : contract.bid
+    }
+  }
+
+  /**
+   * Smallest whole-contract ratio for strike-difference weights (strikes are
+   * quoted to the cent)
+   */
+  private static integerWeights(...weights: number[]): number[] {
+    const cents = weights.map(weight => Math.round(weight * 100))
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b)
+    const divisor = cents.reduce((result, value) => gcd(result, value))
+    return cents.map(value => value / divisor)
+  }
+
+  private static groupBy(contracts: ChainQuoteContract[], key: (contract: ChainQuoteContract) => string): ChainQuoteContract[][] {
+    const groups = new Map<string, ChainQuoteContract[]>()
+    for (const contract of contracts) {
+      const groupKey = key(contract)
+      const group = groups.get(groupKey) || []
+      group.push(contract)
+      groups.set(groupKey, group)
+    }
+    return Array.from(groups.values())
+  }
+}
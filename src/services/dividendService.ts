@@ -0,0 +1,165 @@
+import { MarketEventsService, MarketEvent } from './marketEventsService'
+import type { DividendInputs } from './blackScholesService'
+
+export interface DividendPayment {
+  ex_date: string
+  amount: number
+}
+
+export interface DividendModel {
+  ticker: string
+  model: 'continuous' | 'discrete' | 'none'
+  dividendYield: number
+  payments: DividendPayment[]
+  source: 'market_events' | 'seed' | 'manual'
+}
+
+interface DiscreteDividendSeed {
+  amount: number
+  frequencyMonths: number
+  anchorExDate: string
+}
+
+export class DividendService {
+  // Indices and ETFs pay many small dividends, modelled as a continuous yield
+  private static readonly CONTINUOUS_YIELD_SEED: Record<string, number> = {
+    SPY: 0.0125,
+    VOO: 0.0125,
+    QQQ: 0.0060,
+    IWM: 0.0120,
+    DIA: 0.0165
+  }
+
+  // Single names pay discrete cash dividends on a regular schedule
+  private static readonly DISCRETE_DIVIDEND_SEED: Record<string, DiscreteDividendSeed> = {
+    AAPL: { amount: 0.26, frequencyMonths: 3, anchorExDate: '2025-08-11' },
+    MSFT: { amount: 0.91, frequencyMonths: 3, anchorExDate: '2025-08-21' },
+    GOOGL: { amount: 0.21, frequencyMonths: 3, anchorExDate: '2025-09-08' },
+    META: { amount: 0.525, frequencyMonths: 3, anchorExDate: '2025-09-22' },
+    NVDA: { amount: 0.01, frequencyMonths: 3, anchorExDate: '2025-09-11' }
+  }
+
+  private static readonly PROJECTION_HORIZON_MONTHS = 24
+
+  private static cache: Map<string, DividendModel> = new Map()
+
+  /**
+   * Synchronous lookup used by the pricing paths. Returns a cached model
+   * (loaded from market_events or set manually) or falls back to the seed data.
+   */
+  static getDividendModel(ticker: string): DividendModel {
+    const key = ticker.toUpperCase()
+    const cached = this.cache.get(key)
+    if (cached) return cached
+
+    return this.getSeedModel(key)
+  }
+
+  static setDividendModel(model: DividendModel): void {
+    this.cache.set(model.ticker.toUpperCase(), model)
+  }
+
+  static clearCache(): void {
+    this.cache.clear()
+  }
+
+  /**
+   * Loads upcoming dividend events for a ticker from market_events. The cash
+   * amount is read from expected_outcome.amount (or actual_outcome.amount).
+   */
+  static async loadDividendModel(ticker: string): Promise<DividendModel> {
+    const key = ticker.toUpperCase()
+
+    try {
+      const events = await MarketEventsService.getMarketEvents(key, 30 * this.PROJECTION_HORIZON_MONTHS, 0)
+      const payments = events
+        .filter(event => event.event_type === 'dividend')
+        .map(event => this.toDividendPayment(event))
+        .filter((payment): payment is DividendPayment => payment !== null)
+
+      if (payments.length > 0) {
+        const model: DividendModel = {
+          ticker: key,
+          model: 'discrete',
+          dividendYield: 0,
+          payments,
+          source: 'market_events'
+        }
+        this.cache.set(key, model)
+        return model
+      }
+    } catch (error) {
+      console.error(`Failed to load dividends for ${key}:`, error)
+    }
+
+    return this.getDividendModel(key)
+  }
+
+  /**
+   * Converts the stored model into pricing inputs for an option expiring
+   * timeToExpiry years from now.
+   */
+  static getDividendInputs(ticker: string | undefined, timeToExpiry: number): DividendInputs {
+    if (!ticker || timeToExpiry <= 0) return {}
+
+    const model = this.getDividendModel(ticker)
+
+    if (model.model === 'continuous') {
+      return { dividendYield: model.dividendYield }
+    }
+
+    if (model.model === 'discrete') {
+      const now = Date.now()
+      const cashDividends = model.payments
+        .map(payment => ({
+          time: (new Date(payment.ex_date).getTime() - now) / (1000 * 60 * 60 * 24 * 365),
+          amount: payment.amount
+        }))
+        .filter(dividend => dividend.time > 0 && dividend.time <= timeToExpiry)
+
+      return { cashDividends }
+    }
+
+    return {}
+  }
+
+  private static getSeedModel(ticker: string): DividendModel {
+    const dividendYield = this.CONTINUOUS_YIELD_SEED[ticker]
+    if (dividendYield !== undefined) {
+      return { ticker, model: 'continuous', dividendYield, payments: [], source: 'seed' }
+    }
+
+    const seed = this.DISCRETE_DIVIDEND_SEED[ticker]
+    if (seed) {
+      return { ticker, model: 'discrete', dividendYield: 0, payments: this.projectPayments(seed), source: 'seed' }
+    }
+
+    return { ticker, model: 'none', dividendYield: 0, payments: [], source: 'seed' }
+  }
+
+  private static projectPayments(seed: DiscreteDividendSeed): DividendPayment[] {
+    const payments: DividendPayment[] = []
+    const today = new Date()
+    const horizon = new Date()
+    horizon.setMonth(horizon.getMonth() + this.PROJECTION_HORIZON_MONTHS)
+
+    const exDate = new Date(seed.anchorExDate)
+    while (exDate <= today) {
+      exDate.setMonth(exDate.getMonth() + seed.frequencyMonths)
+    }
+
+    while (exDate <= horizon) {
+      payments.push({ ex_date: exDate.toISOString().split('T')[0], amount: seed.amount })
+      exDate.setMonth(exDate.getMonth() + seed.frequencyMonths)
+    }
+
+    return payments
+  }
+
+  private static toDividendPayment(event: MarketEvent): DividendPayment | null {
+    const amount = Number(event.expected_outcome?.amount ?? event.actual_outcome?.amount)
+    if (!amount || amount <= 0) return null
+
+    return { ex_date: event.event_date.split('T')[0], amount }
+  }
+}
@@ -0,0 +1,257 @@
+import type { HistoricalData } from '../types/options'
+import { MarketEventsService, MarketEvent } from './marketEventsService'
+import { HistoricalDataService, UnderlyingOptionsHistoricalDataPoint } from './historicalDataService'
+import { EventAdjustedPricingService, EventChainContract, ImpliedEventMove } from './eventAdjustedPricingService'
+import { IVRankService } from './ivRankService'
+
+export interface CapturedImpliedMove {
+  eventDate: string
+  impliedMove: number
+  capturedAt: string
+}
+
+export interface EarningsMoveRecord {
+  eventDate: string
+  eventTitle: string
+  preEventClose: number
+  postEventClose: number
+  realizedMove: number
+  impliedMove: number | null
+  impliedSource: 'captured' | 'options-history' | null
+  ratio: number | null
+  straddleSellerWon: boolean | null
+}
+
+export interface EarningsMoveSummary {
+  ticker: string
+  events: number
+  eventsWithImpliedMove: number
+  averageImpliedMove: number | null
+  averageRealizedMove: number
+  averageRatio: number | null
+  medianRatio: number | null
+  straddleSellerHitRate: number | null
+  records: EarningsMoveRecord[]
+}
+
+// When an event lands relative to the regular session, in New York time
+type EventSession = 'before-open' | 'during-session' | 'after-close' | 'unknown'
+
+// The closes either side of an event
+interface EventWindow {
+  preEvent: HistoricalData
+  postEvent: HistoricalData
+}
+
+/**
+ * Realized vs implied earnings moves per ticker.
+ *
+ * The realized move runs from the last close before the event to the first
+ * close after it. Events timed after the close start from that day's close
+ * and events before or during the session end at it; date-only events span
+ * the whole event day, which covers either kind of report. The implied move is
+ * the one captured live before the event when available, otherwise it is
+ * replayed from stored option quotes at the pre-event close. A ratio above 1
+ * means the options under-priced the move.
+ */
+export class EarningsMoveService {
+  static readonly DEFAULT_LOOKBACK_DAYS = 730
+
+  private static readonly STORAGE_PREFIX = 'impliedEventMoves'
+
+  /**
+   * Remember the latest pre-event implied move so it can be scored once the
+   * event has passed
+   */
+  static recordImpliedMove(ticker: string, move: ImpliedEventMove): void {
+    if (new Date(move.eventDate).getTime() <= Date.now()) return
+
+    const captures = this.getCapturedMoves(ticker)
+    captures[move.eventDate.split('T')[0]] = {
+      eventDate: move.eventDate,
+      impliedMove: move.impliedMove,
+      capturedAt: new Date().toISOString()
+    }
+
+    try {
+      localStorage.setItem(`${this.STORAGE_PREFIX}:${ticker}`, JSON.stringify(captures))
+    } catch (error) {
+      console.error('Failed to store implied event move:', error)
+    }
+  }
+
+  static getCapturedMoves(ticker: string): Record<string, CapturedImpliedMove> {
+    try {
+      const stored = localStorage.getItem(`${this.STORAGE_PREFIX}:${ticker}`)
+      return stored ? JSON.parse(stored) : {}
+    } catch (error) {
+      return {}
+    }
+  }
+
+  static async getEarningsMoveSummary(
+    ticker: string,
+    lookbackDays: number = this.DEFAULT_LOOKBACK_DAYS
+  ): Promise<EarningsMoveSummary> {
+    const [events, bars] = await Promise.all([
+      MarketEventsService.getHistoricalEvents(ticker, lookbackDays),
+      HistoricalDataService.getHistoricalData(ticker, lookbackDays + 10)
+    ])
+
+    const sortedBars = bars.filter(bar => bar.close > 0).sort((a, b) => a.date.localeCompare(b.date))
+    const scored = events
+      .filter(event => event.event_type === 'earnings')
+      .map(event => ({ event, window: this.eventWindow(event, sortedBars) }))
+      .filter((entry): entry is { event: MarketEvent; window: EventWindow } => entry.window !== null)
+
+    // Only the pre-event close of each event is replayed, so only those days of quotes are read
+    const optionsHistory = await HistoricalDataService.getOptionsHistoricalDataForUnderlyingOnDates(
+      ticker,
+      Array.from(new Set(scored.map(({ window }) => window.preEvent.date)))
+    )
+    const quotesByDate = this.groupByDate(optionsHistory)
+    const captures = this.getCapturedMoves(ticker)
+
+    const records = scored.map(({ event, window }) => this.scoreEvent(event, window, quotesByDate, captures))
+
+    return this.summarize(ticker, records)
+  }
+
+  static summarize(ticker: string, records: EarningsMoveRecord[]): EarningsMoveSummary {
+    const withImplied = records.filter(record => record.impliedMove !== null && record.ratio !== null)
+    const ratios = withImplied.map(record => record.ratio!).sort((a, b) => a - b)
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+    return {
+      ticker,
+      events: records.length,
+      eventsWithImpliedMove: withImplied.length,
+      averageImpliedMove: average(withImplied.map(record => record.impliedMove!)),
+      averageRealizedMove: average(records.map(record => Math.abs(record.realizedMove))) ?? 0,
+      averageRatio: average(ratios),
+      medianRatio: ratios.length > 0
+        ? (ratios[Math.floor((ratios.length - 1) / 2)] + ratios[Math.ceil((ratios.length - 1) / 2)]) / 2
+        : null,
+      straddleSellerHitRate: withImplied.length > 0
+        ? withImplied.filter(record => record.straddleSellerWon).length / withImplied.length
+        : null,
+      records: [...records].sort((a, b) => b.eventDate.localeCompare(a.eventDate))
+    }
+  }
+
+  /**
+   * Session of an event from its timestamp. A timestamp at exactly midnight
+   * UTC is a date with no time of day.
+   */
+  private static eventSession(eventDate: string): { day: string; session: EventSession } {
+    const date = new Date(eventDate)
+    if (date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0) {
+      return { day: eventDate.split('T')[0], session: 'unknown' }
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: 'America/New_York',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date)
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+    const minutes = Number(part('hour')) * 60 + Number(part('minute'))
+
+    return {
+      day: `${part('year')}-${part('month')}-${part('day')}`,
+      session: minutes < 9 * 60 + 30 ? 'before-open' : minutes < 16 * 60 ? 'during-session' : 'after-close'
+    }
+  }
+
+  private static eventWindow(event: MarketEvent, bars: HistoricalData[]): EventWindow | null {
+    const { day, session } = this.eventSession(event.event_date)
+    // An after-close report leaves the event day's session untouched; one before or during it does not
+    const preEvent = [...bars].reverse().find(bar => session === 'after-close' ? bar.date <= day : bar.date < day)
+    const postEvent = bars.find(bar => session === 'before-open' || session === 'during-session' ? bar.date >= day : bar.date > day)
+
+    return preEvent && postEvent ? { preEvent, postEvent } : null
+  }
+
+  private static scoreEvent(
+    event: MarketEvent,
+    { preEvent, postEvent }: EventWindow,
+    quotesByDate: Map<string, UnderlyingOptionsHistoricalDataPoint[]>,
+    captures: Record<string, CapturedImpliedMove>
+  ): EarningsMoveRecord {
+    const eventDay = event.event_date.split('T')[0]
+    const realizedMove = postEvent.close / preEvent.close - 1
+
+    let impliedMove: number | null = null
+    let impliedSource: EarningsMoveRecord['impliedSource'] = null
+
+    const captured = captures[eventDay]
+    if (captured) {
+      impliedMove = captured.impliedMove
+      impliedSource = 'captured'
+    } else {
+      const quotes = quotesByDate.get(preEvent.date) || []
+      if (quotes.length > 0) {
+        const replayed = EventAdjustedPricingService.calculateImpliedEventMove(
+          this.toChainContracts(quotes),
+          preEvent.close,
+          event.event_date,
+          new Date(preEvent.date)
+        )
+        if (replayed) {
+          impliedMove = replayed.impliedMove
+          impliedSource = 'options-history'
+        }
+      }
+    }
+
+    const ratio = impliedMove !== null && impliedMove > 0 ? Math.abs(realizedMove) / impliedMove : null
+
+    return {
+      eventDate: eventDay,
+      eventTitle: event.event_title,
+      preEventClose: preEvent.close,
+      postEventClose: postEvent.close,
+      realizedMove,
+      impliedMove,
+      impliedSource,
+      ratio,
+      straddleSellerWon: ratio !== null ? ratio < 1 : null
+    }
+  }
+
+  private static groupByDate(
+    points: UnderlyingOptionsHistoricalDataPoint[]
+  ): Map<string, UnderlyingOptionsHistoricalDataPoint[]> {
+    const byDate = new Map<string, UnderlyingOptionsHistoricalDataPoint[]>()
+    for (const point of points) {
+      const group = byDate.get(point.date) || []
+      group.push(point)
+      byDate.set(point.date, group)
+    }
+    return byDate
+  }
+
+  private static toChainContracts(points: UnderlyingOptionsHistoricalDataPoint[]): EventChainContract[] {
+    const contracts: EventChainContract[] = []
+    for (const point of points) {
+      const parsed = IVRankService.parseContractTicker(point.contract_ticker)
+      if (!parsed) continue
+
+      contracts.push({
+        contract_type: parsed.type,
+        strike_price: parsed.strike,
+        expiration_date: parsed.expiry,
+        bid: point.bid,
+        ask: point.ask,
+        last: point.last,
+        implied_volatility: point.implied_volatility
+      })
+    }
+    return contracts
+  }
+}
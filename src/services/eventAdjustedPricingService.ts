@@ -1,5 +1,8 @@
 import { BlackScholesService, OptionPricingResult } from './blackScholesService'
 import { MarketEventsService, MarketEvent } from './marketEventsService'
+import { DividendService } from './dividendService'
+import { RateCurveService } from './rateCurveService'
+import { liveOptionsDataService } from './liveOptionsDataService'
 import { SentimentAnalysisService, SentimentScore } from './sentimentAnalysisService'
 
 export interface EventAdjustedPricing {
@@ -29,6 +32,52 @@ export interface VolatilityAdjustment {
   finalIV: number
 }
 
+export interface EventChainContract {
+  contract_type: 'call' | 'put'
+  strike_price: number
+  expiration_date: string
+  bid: number
+  ask: number
+  last: number
+  implied_volatility: number
+}
+
+export interface EventTermStructurePoint {
+  expirationDate: string
+  timeToExpiry: number
+  atmStrike: number
+  atmIV: number
+  straddlePrice: number | null
+  spansEvent: boolean
+}
+
+/**
+ * Event move implied by the option chain. Moves are expected absolute
+ * returns over the event (E|r| = sigma * sqrt(2/pi)), as fractions of spot.
+ */
+export interface ImpliedEventMove {
+  eventDate: string
+  daysToEvent: number
+  eventVariance: number | null
+  baseVolatility: number | null
+  termStructureMove: number | null
+  straddleMove: number | null
+  straddleExpiry: string | null
+  impliedMove: number
+  impliedMoveDollars: number
+  method: 'term-structure' | 'straddle'
+  termStructure: EventTermStructurePoint[]
+}
+
+export interface PostEventIVForecast {
+  expirationDate: string
+  strikePrice: number
+  contractType: 'call' | 'put'
+  preEventIV: number
+  postEventIV: number
+  ivCrush: number
+}
+
 export class EventAdjustedPricingService {
   private static readonly PRE_EARNINGS_IV_MULTIPLIERS: Record<number, number> = {
     1: 1.5,
@@ -43,8 +92,12 @@ export class EventAdjustedPricingService {
     30: 1.02
   }
 
+  // Fallback when the chain does not imply an event move
   private static readonly POST_EARNINGS_IV_CRUSH = 0.4
 
+  // E|Z| for a standard normal; converts a standard deviation into an expected absolute move
+  private static readonly MEAN_ABSOLUTE_DEVIATION = Math.sqrt(2 / Math.PI)
+
   private static readonly EVENT_IMPACT_MULTIPLIERS = {
     earnings: 1.0,
     fda_approval: 1.3,
@@ -66,6 +119,8 @@ export class EventAdjustedPricingService {
   ): Promise<EventAdjustedPricing> {
     const upcomingEvents = await MarketEventsService.getUpcomingEvents(ticker, 30)
     const sentimentScore = await SentimentAnalysisService.getSentimentScore(ticker)
+    await DividendService.loadDividendModel(ticker)
+    const dividends = DividendService.getDividendInputs(ticker, timeToExpiry)
 
     const basePricing = BlackScholesService.calculateOptionPrice(
       spotPrice,
@@ -73,17 +128,21 @@ export class EventAdjustedPricingService {
       timeToExpiry,
       riskFreeRate,
       baseVolatility,
-      isCall
+      isCall,
+      dividends
     )
 
     const nearestEvent = this.findNearestEvent(upcomingEvents, timeToExpiry)
     const daysToEvent = nearestEvent ? MarketEventsService.getDaysUntilEvent(nearestEvent.event_date) : 999
+    const impliedMove = nearestEvent ? await this.getImpliedEventMove(ticker, nearestEvent, spotPrice) : null
 
     const volatilityAdjustment = this.calculateVolatilityAdjustment(
       baseVolatility,
       nearestEvent,
       daysToEvent,
-      sentimentScore
+      sentimentScore,
+      impliedMove,
+      timeToExpiry
     )
 
     const eventAdjustedPricing = BlackScholesService.calculateOptionPrice(
@@ -92,7 +151,8 @@ export class EventAdjustedPricingService {
       timeToExpiry,
       riskFreeRate,
       volatilityAdjustment.eventAdjustedIV,
-      isCall
+      isCall,
+      dividends
     )
 
     const sentimentAdjustedPricing = BlackScholesService.calculateOptionPrice(
@@ -101,7 +161,8 @@ export class EventAdjustedPricingService {
       timeToExpiry,
       riskFreeRate,
       volatilityAdjustment.finalIV,
-      isCall
+      isCall,
+      dividends
     )
 
     const eventPremium = eventAdjustedPricing.price - basePricing.price
@@ -147,16 +208,26 @@ export class EventAdjustedPricingService {
     }
   }
 
+  /**
+   * When the chain implies an event variance, the event IV adds that variance
+   * to the base volatility over the option's life; otherwise the fixed
+   * pre-earnings multipliers are used.
+   */
   static calculateVolatilityAdjustment(
     baseIV: number,
     event: MarketEvent | null,
     daysToEvent: number,
-    sentimentScore: SentimentScore | null
+    sentimentScore: SentimentScore | null,
+    impliedMove: ImpliedEventMove | null = null,
+    timeToExpiry?: number
   ): VolatilityAdjustment {
     let eventMultiplier = 1.0
     let sentimentMultiplier = 1.0
 
-    if (event && daysToEvent <= 30) {
+    const eventVariance = impliedMove ? this.getEventVariance(impliedMove) : null
+    if (event && eventVariance !== null && timeToExpiry && timeToExpiry > 0) {
+      eventMultiplier = Math.sqrt(baseIV * baseIV + eventVariance / timeToExpiry) / baseIV
+    } else if (event && daysToEvent <= 30) {
       const baseEventMultiplier = this.EVENT_IMPACT_MULTIPLIERS[event.event_type as keyof typeof this.EVENT_IMPACT_MULTIPLIERS] || 0.5
 
       const daysKey = Object.keys(this.PRE_EARNINGS_IV_MULTIPLIERS)
@@ -192,7 +263,22 @@ export class EventAdjustedPricingService {
     }
   }
 
-  static calculatePostEventIVCrush(preEventIV: number, event: MarketEvent): number {
+  /**
+   * IV once the event has passed. With an implied event variance the event's
+   * share of the contract's total variance is removed:
+   * sigma_post^2 = (sigma_pre^2 * T - eventVariance) / T, floored at a tenth of
+   * the pre-event variance. Without one, a flat historical crush is applied.
+   */
+  static calculatePostEventIVCrush(
+    preEventIV: number,
+    event: MarketEvent,
+    eventVariance: number | null = null,
+    timeToExpiry?: number
+  ): number {
+    if (eventVariance !== null && timeToExpiry && timeToExpiry > 0) {
+      return this.removeEventVariance(preEventIV, eventVariance, timeToExpiry)
+    }
+
     const baseMultiplier = this.POST_EARNINGS_IV_CRUSH
 
     const surpriseFactor = event.surprise_factor || 0
@@ -216,32 +302,50 @@ export class EventAdjustedPricingService {
     ivCrushImpact: number
     priceChange: number
   } | null> {
-    const historicalEvents = await MarketEventsService.getHistoricalEvents(ticker, 180)
-
-    const recentEvent = historicalEvents.find(event => event.event_type === 'earnings')
-    if (!recentEvent) return null
-
-    const daysToExpiry = Math.max(1, (new Date(expirationDate).getTime() - new Date(recentEvent.event_date).getTime()) / (1000 * 60 * 60 * 24))
+    // The option is priced as of today, so its time to expiry runs from now
+    const daysToExpiry = Math.max(1, (new Date(expirationDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
     const timeToExpiry = daysToExpiry / 365
 
+    // The crush comes from one event only: the implied variance of the next
+    // earnings when it falls inside the option's life, otherwise the flat
+    // historical crush of the most recent one
+    const upcomingEarnings = (await MarketEventsService.getUpcomingEvents(ticker, 90))
+      .find(event => event.event_type === 'earnings' && new Date(event.event_date).getTime() < new Date(expirationDate).getTime())
+    const impliedMove = upcomingEarnings ? await this.getImpliedEventMove(ticker, upcomingEarnings, spotPrice) : null
+
+    let crushEvent: MarketEvent
+    let eventVariance: number | null = null
+    if (upcomingEarnings && impliedMove) {
+      crushEvent = upcomingEarnings
+      eventVariance = this.getEventVariance(impliedMove)
+    } else {
+      const recentEvent = (await MarketEventsService.getHistoricalEvents(ticker, 180))
+        .find(event => event.event_type === 'earnings')
+      if (!recentEvent) return null
+      crushEvent = recentEvent
+    }
+    const dividends = DividendService.getDividendInputs(ticker, timeToExpiry)
+
     const preEventPricing = BlackScholesService.calculateOptionPrice(
       spotPrice,
       strikePrice,
       timeToExpiry,
-      0.05,
+      RateCurveService.getRate(timeToExpiry),
       currentIV,
-      isCall
+      isCall,
+      dividends
     )
 
-    const postEventIV = this.calculatePostEventIVCrush(currentIV, recentEvent)
+    const postEventIV = this.calculatePostEventIVCrush(currentIV, crushEvent, eventVariance, timeToExpiry)
 
     const postEventPricing = BlackScholesService.calculateOptionPrice(
       spotPrice,
       strikePrice,
       timeToExpiry,
-      0.05,
+      RateCurveService.getRate(timeToExpiry),
       postEventIV,
-      isCall
+      isCall,
+      dividends
     )
 
     const ivCrushImpact = ((postEventPricing.price - preEventPricing.price) / preEventPricing.price) * 100
@@ -254,6 +358,203 @@ export class EventAdjustedPricingService {
     }
   }
 
+  /**
+   * Load the chain for a ticker and extract the move implied for an event
+   */
+  static async getImpliedEventMove(
+    ticker: string,
+    event: MarketEvent,
+    spotPrice?: number
+  ): Promise<ImpliedEventMove | null> {
+    try {
+      const [contracts, livePrice] = await Promise.all([
+        liveOptionsDataService.fetchOptionsForTicker(ticker),
+        spotPrice ? Promise.resolve(spotPrice) : liveOptionsDataService.getUnderlyingPrice(ticker)
+      ])
+      if (!livePrice || contracts.length === 0) return null
+
+      return this.calculateImpliedEventMove(contracts, livePrice, event.event_date)
+    } catch (error) {
+      console.error(`Failed to derive implied event move for ${ticker}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Implied event move from the chain.
+   *
+   * Term structure: each expiry after the event carries total variance
+   * sigma_i^2 * T_i = sigma_b^2 * T_i + eventVariance. Two post-event expiries
+   * (or one pre-event expiry for sigma_b plus one after) solve for both terms.
+   * Straddle: the first post-event ATM straddle prices the expected absolute
+   * move to that expiry; the base diffusion over the same period is removed
+   * when sigma_b is known. The term-structure estimate is preferred.
+   *
+   * asOf is the quote date, so past chains can be replayed.
+   */
+  static calculateImpliedEventMove(
+    contracts: EventChainContract[],
+    spotPrice: number,
+    eventDate: string,
+    asOf: Date = new Date()
+  ): ImpliedEventMove | null {
+    if (spotPrice <= 0) return null
+
+    const eventTime = new Date(eventDate).getTime()
+    const timeToEvent = Math.max(0, (eventTime - asOf.getTime()) / (1000 * 60 * 60 * 24 * 365))
+    const termStructure = this.buildAtmTermStructure(contracts, spotPrice, eventTime, asOf.getTime())
+    const before = termStructure.filter(point => !point.spansEvent)
+    const after = termStructure.filter(point => point.spansEvent)
+    if (after.length === 0) return null
+
+    let baseVolatility: number | null = null
+    let eventVariance: number | null = null
+
+    if (after.length >= 2) {
+      const [first, second] = after
+      const baseVariance = (second.atmIV ** 2 * second.timeToExpiry - first.atmIV ** 2 * first.timeToExpiry) /
+        (second.timeToExpiry - first.timeToExpiry)
+      if (baseVariance > 0) {
+        baseVolatility = Math.sqrt(baseVariance)
+        eventVariance = first.atmIV ** 2 * first.timeToExpiry - baseVariance * first.timeToExpiry
+      }
+    }
+    if ((eventVariance === null || eventVariance <= 0) && before.length > 0) {
+      const base = before[before.length - 1]
+      const first = after[0]
+      baseVolatility = base.atmIV
+      eventVariance = first.atmIV ** 2 * first.timeToExpiry - base.atmIV ** 2 * first.timeToExpiry
+    }
+    if (eventVariance !== null && eventVariance <= 0) {
+      eventVariance = null
+    }
+
+    const termStructureMove = eventVariance !== null
+      ? Math.sqrt(eventVariance) * this.MEAN_ABSOLUTE_DEVIATION
+      : null
+
+    const straddlePoint = after.find(point => point.straddlePrice !== null) || null
+    let straddleMove: number | null = null
+    if (straddlePoint && straddlePoint.straddlePrice !== null) {
+      const totalDeviation = straddlePoint.straddlePrice / spotPrice / this.MEAN_ABSOLUTE_DEVIATION
+      const baseVariance = baseVolatility !== null ? baseVolatility ** 2 * straddlePoint.timeToExpiry : 0
+      const eventDeviation = Math.sqrt(Math.max(0, totalDeviation ** 2 - baseVariance))
+      straddleMove = eventDeviation * this.MEAN_ABSOLUTE_DEVIATION
+    }
+
+    const impliedMove = termStructureMove ?? straddleMove
+    if (impliedMove === null) return null
+
+    return {
+      eventDate,
+      daysToEvent: Math.round(timeToEvent * 365),
+      eventVariance,
+      baseVolatility,
+      termStructureMove,
+      straddleMove,
+      straddleExpiry: straddlePoint?.expirationDate ?? null,
+      impliedMove,
+      impliedMoveDollars: impliedMove * spotPrice,
+      method: termStructureMove !== null ? 'term-structure' : 'straddle',
+      termStructure
+    }
+  }
+
+  /**
+   * Forecast each contract's IV the day after the event. Contracts expiring
+   * before the event keep their IV.
+   */
+  static forecastPostEventIVs(
+    contracts: EventChainContract[],
+    impliedMove: ImpliedEventMove
+  ): PostEventIVForecast[] {
+    const eventTime = new Date(impliedMove.eventDate).getTime()
+    const eventVariance = this.getEventVariance(impliedMove)
+
+    return contracts
+      .filter(contract => contract.implied_volatility > 0)
+      .map(contract => {
+        const expiryTime = new Date(contract.expiration_date).getTime()
+        const timeToExpiry = (expiryTime - Date.now()) / (1000 * 60 * 60 * 24 * 365)
+        const spansEvent = expiryTime > eventTime && timeToExpiry > 0
+
+        const postEventIV = spansEvent
+          ? this.removeEventVariance(contract.implied_volatility, eventVariance, timeToExpiry)
+          : contract.implied_volatility
+
+        return {
+          expirationDate: contract.expiration_date,
+          strikePrice: contract.strike_price,
+          contractType: contract.contract_type,
+          preEventIV: contract.implied_volatility,
+          postEventIV,
+          ivCrush: 1 - postEventIV / contract.implied_volatility
+        }
+      })
+  }
+
+  private static removeEventVariance(preEventIV: number, eventVariance: number, timeToExpiry: number): number {
+    const totalVariance = preEventIV * preEventIV * timeToExpiry
+    const remaining = Math.max(totalVariance - eventVariance, 0.1 * totalVariance)
+    return Math.sqrt(remaining / timeToExpiry)
+  }
+
+  /**
+   * Event variance, falling back to the one implied by the straddle move
+   */
+  private static getEventVariance(impliedMove: ImpliedEventMove): number {
+    if (impliedMove.eventVariance !== null) return impliedMove.eventVariance
+    return (impliedMove.impliedMove / this.MEAN_ABSOLUTE_DEVIATION) ** 2
+  }
+
+  private static buildAtmTermStructure(
+    contracts: EventChainContract[],
+    spotPrice: number,
+    eventTime: number,
+    asOfTime: number
+  ): EventTermStructurePoint[] {
+    const byExpiry = new Map<string, EventChainContract[]>()
+    for (const contract of contracts) {
+      const group = byExpiry.get(contract.expiration_date) || []
+      group.push(contract)
+      byExpiry.set(contract.expiration_date, group)
+    }
+
+    const points: EventTermStructurePoint[] = []
+    for (const [expirationDate, slice] of byExpiry) {
+      const expiryTime = new Date(expirationDate).getTime()
+      const timeToExpiry = (expiryTime - asOfTime) / (1000 * 60 * 60 * 24 * 365)
+      if (timeToExpiry <= 0) continue
+
+      const atmStrike = slice.reduce((best, contract) =>
+        Math.abs(contract.strike_price - spotPrice) < Math.abs(best - spotPrice) ? contract.strike_price : best,
+        slice[0].strike_price)
+      const atm = slice.filter(contract => contract.strike_price === atmStrike && contract.implied_volatility > 0)
+      if (atm.length === 0) continue
+
+      const call = atm.find(contract => contract.contract_type === 'call')
+      const put = atm.find(contract => contract.contract_type === 'put')
+      const callPrice = call ? this.midPrice(call) : null
+      const putPrice = put ? this.midPrice(put) : null
+
+      points.push({
+        expirationDate,
+        timeToExpiry,
+        atmStrike,
+        atmIV: atm.reduce((sum, contract) => sum + contract.implied_volatility, 0) / atm.length,
+        straddlePrice: callPrice !== null && putPrice !== null ? callPrice + putPrice : null,
+        spansEvent: expiryTime > eventTime
+      })
+    }
+
+    return points.sort((a, b) => a.timeToExpiry - b.timeToExpiry)
+  }
+
+  private static midPrice(contract: EventChainContract): number | null {
+    if (contract.bid > 0 && contract.ask > 0) return (contract.bid + contract.ask) / 2
+    return contract.last > 0 ? contract.last : null
+  }
+
   private static findNearestEvent(events: MarketEvent[], timeToExpiry: number): MarketEvent | null {
     const expiryDate = new Date()
     expiryDate.setDate(expiryDate.getDate() + (timeToExpiry * 365))
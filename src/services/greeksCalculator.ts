@@ -1,5 +1,16 @@
-import { BlackScholesService, OptionPricingResult } from './blackScholesService'
+import { BlackScholesService, OptionPricingResult, DividendInputs, shiftDividends } from './blackScholesService'
+import { BinomialPricingService } from './binomialPricingService'
+import { DividendService } from './dividendService'
+import { RateCurveService } from './rateCurveService'
+import { VolatilitySurfaceService, VolatilitySurface, StickyMode } from './volatilitySurfaceService'
 import { OptionsContract } from '../types/options'
+import type { StrategyLeg as PayoffLeg } from './payoffCalculationService'
+
+export type PricingModel = 'black-scholes' | 'binomial'
+
+export type HigherOrderGreek = 'vanna' | 'volga' | 'charm' | 'speed' | 'color' | 'zomma'
+
+export type GreekType = 'delta' | 'gamma' | 'theta' | 'vega' | 'rho' | HigherOrderGreek
 
 export interface GreeksData {
   delta: number
@@ -9,6 +20,13 @@ export interface GreeksData {
   rho: number
   price: number
   impliedVolatility: number
+  pricingModel?: PricingModel
+  vanna?: number
+  volga?: number
+  charm?: number
+  speed?: number
+  color?: number
+  zomma?: number
 }
 
 export interface StrategyGreeks {
@@ -17,6 +35,12 @@ export interface StrategyGreeks {
   netTheta: number
   netVega: number
   netRho: number
+  netVanna: number
+  netVolga: number
+  netCharm: number
+  netSpeed: number
+  netColor: number
+  netZomma: number
   totalCost: number
   legs: Array<{
     contract: OptionsContract
@@ -27,17 +51,17 @@ export interface StrategyGreeks {
 }
 
 export class GreeksCalculator {
-  private static DEFAULT_RISK_FREE_RATE = 0.05
-
   static calculateGreeks(
     contract: OptionsContract,
     underlyingPrice: number,
-    riskFreeRate: number = this.DEFAULT_RISK_FREE_RATE
+    riskFreeRate?: number,
+    dividends?: DividendInputs
   ): GreeksData {
     const strikePrice = contract.strike_price
     const impliedVolatility = contract.implied_volatility || 0.3
     const timeToExpiry = this.calculateTimeToExpiry(contract.expiration_date)
     const isCall = contract.contract_type === 'call'
+    const pricingModel = this.getPricingModel(contract)
 
     if (timeToExpiry <= 0) {
       return {
@@ -47,18 +71,21 @@ export class GreeksCalculator {
         vega: 0,
         rho: 0,
         price: Math.max(0, isCall ? underlyingPrice - strikePrice : strikePrice - underlyingPrice),
-        impliedVolatility
+        impliedVolatility,
+        pricingModel
       }
     }
 
     try {
-      const result = BlackScholesService.calculateOptionPrice(
+      const result = this.priceOption(
+        pricingModel,
         underlyingPrice,
         strikePrice,
         timeToExpiry,
-        riskFreeRate,
+        riskFreeRate ?? RateCurveService.getRate(timeToExpiry),
         impliedVolatility,
-        isCall
+        isCall,
+        dividends ?? DividendService.getDividendInputs(contract.underlying_ticker, timeToExpiry)
       )
 
       return {
@@ -67,8 +94,15 @@ export class GreeksCalculator {
         theta: result.theta,
         vega: result.vega,
         rho: result.rho,
+        vanna: result.vanna,
+        volga: result.volga,
+        charm: result.charm,
+        speed: result.speed,
+        color: result.color,
+        zomma: result.zomma,
         price: result.price,
-        impliedVolatility
+        impliedVolatility,
+        pricingModel
       }
     } catch (error) {
       console.error('Error calculating Greeks:', error)
@@ -79,11 +113,53 @@ export class GreeksCalculator {
         vega: contract.vega || 0,
         rho: 0,
         price: contract.last,
-        impliedVolatility
+        impliedVolatility,
+        pricingModel
       }
     }
   }
 
+  static getPricingModel(contract: Pick<OptionsContract, 'exercise_style'>): PricingModel {
+    return contract.exercise_style === 'american' ? 'binomial' : 'black-scholes'
+  }
+
+  static getPricingModelLabel(model: PricingModel): string {
+    return model === 'binomial' ? 'Binomial (Leisen-Reimer, American)' : 'Black-Scholes (European)'
+  }
+
+  static priceOption(
+    model: PricingModel,
+    underlyingPrice: number,
+    strikePrice: number,
+    timeToExpiry: number,
+    riskFreeRate: number,
+    volatility: number,
+    isCall: boolean,
+    dividends: DividendInputs = {}
+  ): OptionPricingResult {
+    if (model === 'binomial') {
+      return BinomialPricingService.calculateOptionPrice(
+        underlyingPrice,
+        strikePrice,
+        timeToExpiry,
+        riskFreeRate,
+        volatility,
+        isCall,
+        dividends
+      )
+    }
+
+    return BlackScholesService.calculateOptionPrice(
+      underlyingPrice,
+      strikePrice,
+      timeToExpiry,
+      riskFreeRate,
+      volatility,
+      isCall,
+      dividends
+    )
+  }
+
   static calculateTimeToExpiry(expirationDate: string): number {
     const expiry = new Date(expirationDate)
     const now = new Date()
@@ -91,6 +167,11 @@ export class GreeksCalculator {
     return daysToExpiry / 365
   }
 
+  /**
+   * Stock legs are in lots of multiplier shares (100 unless set). Shares have
+   * delta 1 and no other Greeks, so a 100-share lot offsets one contract's
+   * worth of delta.
+   */
   static calculateStrategyGreeks(
     legs: Array<{
       contract: OptionsContract
@@ -98,13 +179,25 @@ export class GreeksCalculator {
       quantity: number
     }>,
     underlyingPrice: number,
-    riskFreeRate: number = this.DEFAULT_RISK_FREE_RATE
+    riskFreeRate?: number,
+    stockLegs: Array<{
+      action: 'buy' | 'sell'
+      quantity: number
+      price: number
+      multiplier?: number
+    }> = []
   ): StrategyGreeks {
     let netDelta = 0
     let netGamma = 0
     let netTheta = 0
     let netVega = 0
     let netRho = 0
+    let netVanna = 0
+    let netVolga = 0
+    let netCharm = 0
+    let netSpeed = 0
+    let netColor = 0
+    let netZomma = 0
     let totalCost = 0
 
     const legsWithGreeks = legs.map(leg => {
@@ -117,6 +210,12 @@ export class GreeksCalculator {
       netTheta += greeks.theta * multiplier * quantity
       netVega += greeks.vega * multiplier * quantity
       netRho += greeks.rho * multiplier * quantity
+      netVanna += (greeks.vanna || 0) * multiplier * quantity
+      netVolga += (greeks.volga || 0) * multiplier * quantity
+      netCharm += (greeks.charm || 0) * multiplier * quantity
+      netSpeed += (greeks.speed || 0) * multiplier * quantity
+      netColor += (greeks.color || 0) * multiplier * quantity
+      netZomma += (greeks.zomma || 0) * multiplier * quantity
 
       const legCost = greeks.price * quantity * 100 * multiplier
       totalCost += legCost
@@ -129,17 +228,73 @@ export class GreeksCalculator {
       }
     })
 
+    for (const leg of stockLegs) {
+      const sign = leg.action === 'buy' ? 1 : -1
+      const shares = leg.quantity * (leg.multiplier ?? 100)
+      netDelta += sign * shares / 100
+      totalCost += sign * leg.price * shares
+    }
+
     return {
       netDelta,
       netGamma,
       netTheta,
       netVega,
       netRho,
+      netVanna,
+      netVolga,
+      netCharm,
+      netSpeed,
+      netColor,
+      netZomma,
       totalCost,
       legs: legsWithGreeks
     }
   }
 
+  /**
+   * Net Greeks of payoff legs, e.g. saved or compared strategies that are not
+   * tied to chain contracts. Option legs without an expiry are skipped and
+   * legs without their own IV use defaultVolatility.
+   */
+  static calculatePayoffLegGreeks(
+    legs: PayoffLeg[],
+    underlyingPrice: number,
+    defaultVolatility: number = 0.3
+  ): StrategyGreeks {
+    const optionLegs = legs
+      .filter(leg => leg.type !== 'stock' && leg.expiry)
+      .map(leg => {
+        const contract: OptionsContract = {
+          contract_type: leg.type as 'call' | 'put',
+          exercise_style: 'american',
+          expiration_date: leg.expiry!,
+          shares_per_contract: leg.multiplier ?? 100,
+          strike_price: leg.strike,
+          ticker: '',
+          underlying_ticker: '',
+          bid: leg.premium,
+          ask: leg.premium,
+          last: leg.premium,
+          volume: 0,
+          open_interest: 0,
+          implied_volatility: leg.impliedVolatility || defaultVolatility,
+          delta: 0,
+          gamma: 0,
+          theta: 0,
+          vega: 0,
+          intrinsic_value: 0,
+          time_value: 0
+        }
+        return { contract, action: leg.action, quantity: leg.quantity }
+      })
+    const stockLegs = legs
+      .filter(leg => leg.type === 'stock')
+      .map(leg => ({ action: leg.action, quantity: leg.quantity, price: leg.premium, multiplier: leg.multiplier }))
+
+    return this.calculateStrategyGreeks(optionLegs, underlyingPrice, undefined, stockLegs)
+  }
+
   static calculateScenarioGreeks(
     contract: OptionsContract,
     underlyingPrice: number,
@@ -147,16 +302,33 @@ export class GreeksCalculator {
       underlyingPriceChange?: number
       volatilityChange?: number
       daysPassed?: number
+      volatilitySurface?: VolatilitySurface
+      stickyMode?: StickyMode
     },
-    riskFreeRate: number = this.DEFAULT_RISK_FREE_RATE
+    riskFreeRate?: number,
+    dividends?: DividendInputs
   ): GreeksData {
     const adjustedUnderlyingPrice = underlyingPrice * (1 + (scenario.underlyingPriceChange || 0))
-    const currentIV = contract.implied_volatility || 0.3
-    const adjustedVolatility = currentIV * (1 + (scenario.volatilityChange || 0))
 
     const originalTimeToExpiry = this.calculateTimeToExpiry(contract.expiration_date)
     const adjustedTimeToExpiry = Math.max(0, originalTimeToExpiry - (scenario.daysPassed || 0) / 365)
 
+    // With a surface, the base vol is re-read at the scenario spot and remaining time
+    const surfaceVol = scenario.volatilitySurface && scenario.volatilitySurface.slices.length > 0
+      ? VolatilitySurfaceService.getScenarioVol(
+          scenario.volatilitySurface,
+          contract.strike_price,
+          Math.max(adjustedTimeToExpiry, 1 / 365),
+          adjustedUnderlyingPrice,
+          scenario.stickyMode || 'sticky-strike',
+          underlyingPrice
+        )
+      : NaN
+    const currentIV = isFinite(surfaceVol) ? surfaceVol : (contract.implied_volatility || 0.3)
+    const adjustedVolatility = currentIV * (1 + (scenario.volatilityChange || 0))
+
+    const pricingModel = this.getPricingModel(contract)
+
     if (adjustedTimeToExpiry <= 0) {
       const isCall = contract.contract_type === 'call'
       return {
@@ -166,18 +338,24 @@ export class GreeksCalculator {
         vega: 0,
         rho: 0,
         price: Math.max(0, isCall ? adjustedUnderlyingPrice - contract.strike_price : contract.strike_price - adjustedUnderlyingPrice),
-        impliedVolatility: adjustedVolatility
+        impliedVolatility: adjustedVolatility,
+        pricingModel
       }
     }
 
     try {
-      const result = BlackScholesService.calculateOptionPrice(
+      const result = this.priceOption(
+        pricingModel,
         adjustedUnderlyingPrice,
         contract.strike_price,
         adjustedTimeToExpiry,
-        riskFreeRate,
+        riskFreeRate ?? RateCurveService.getRate(adjustedTimeToExpiry),
         adjustedVolatility,
-        contract.contract_type === 'call'
+        contract.contract_type === 'call',
+        dividends ?? shiftDividends(
+          DividendService.getDividendInputs(contract.underlying_ticker, originalTimeToExpiry),
+          (scenario.daysPassed || 0) / 365
+        )
       )
 
       return {
@@ -186,12 +364,19 @@ export class GreeksCalculator {
         theta: result.theta,
         vega: result.vega,
         rho: result.rho,
+        vanna: result.vanna,
+        volga: result.volga,
+        charm: result.charm,
+        speed: result.speed,
+        color: result.color,
+        zomma: result.zomma,
         price: result.price,
-        impliedVolatility: adjustedVolatility
+        impliedVolatility: adjustedVolatility,
+        pricingModel
       }
     } catch (error) {
       console.error('Error calculating scenario Greeks:', error)
-      return this.calculateGreeks(contract, underlyingPrice, riskFreeRate)
+      return this.calculateGreeks(contract, underlyingPrice, riskFreeRate, dividends)
     }
   }
 
@@ -199,13 +384,17 @@ export class GreeksCalculator {
     contract: OptionsContract,
     underlyingPrice: number,
     priceRange: { min: number; max: number; steps: number },
-    riskFreeRate: number = this.DEFAULT_RISK_FREE_RATE
+    riskFreeRate?: number
   ): Array<{
     price: number
     delta: number
     gamma: number
     theta: number
     vega: number
+    vanna: number
+    charm: number
+    speed: number
+    zomma: number
   }> {
     const results = []
     const priceStep = (priceRange.max - priceRange.min) / priceRange.steps
@@ -219,19 +408,31 @@ export class GreeksCalculator {
         delta: greeks.delta,
         gamma: greeks.gamma,
         theta: greeks.theta,
-        vega: greeks.vega
+        vega: greeks.vega,
+        vanna: greeks.vanna || 0,
+        charm: greeks.charm || 0,
+        speed: greeks.speed || 0,
+        zomma: greeks.zomma || 0
       })
     }
 
     return results
   }
 
-  static formatGreek(value: number, greekType: 'delta' | 'gamma' | 'theta' | 'vega' | 'rho'): string {
+  static formatGreek(value: number, greekType: GreekType): string {
     switch (greekType) {
       case 'delta':
         return value.toFixed(4)
       case 'gamma':
         return value.toFixed(5)
+      case 'speed':
+      case 'color':
+      case 'zomma':
+        return value.toFixed(6)
+      case 'vanna':
+      case 'volga':
+      case 'charm':
+        return value.toFixed(5)
       case 'theta':
         return value.toFixed(4)
       case 'vega':
@@ -245,7 +446,7 @@ export class GreeksCalculator {
 
   static getGreekInterpretation(
     value: number,
-    greekType: 'delta' | 'gamma' | 'theta' | 'vega' | 'rho'
+    greekType: GreekType
   ): { label: string; color: string; description: string } {
     switch (greekType) {
       case 'delta':
@@ -282,6 +483,36 @@ export class GreeksCalculator {
         if (Math.abs(value) > 0.2) return { label: 'Moderate', color: 'yellow', description: 'Some rate exposure' }
         return { label: 'Low', color: 'green', description: 'Limited rate risk' }
 
+      case 'vanna':
+        if (Math.abs(value) > 0.02) return { label: 'High', color: 'orange', description: 'Delta shifts sharply with IV' }
+        if (Math.abs(value) > 0.005) return { label: 'Moderate', color: 'yellow', description: 'Delta moves with IV' }
+        return { label: 'Low', color: 'green', description: 'Delta insensitive to IV' }
+
+      case 'volga':
+        if (value > 0.01) return { label: 'High', color: 'orange', description: 'Vega grows quickly with IV' }
+        if (value > 0.002) return { label: 'Moderate', color: 'yellow', description: 'Some vega convexity' }
+        return { label: 'Low', color: 'green', description: 'Vega stable across IV' }
+
+      case 'charm':
+        if (Math.abs(value) > 0.02) return { label: 'Fast Bleed', color: 'red', description: 'Delta drifts quickly with time' }
+        if (Math.abs(value) > 0.005) return { label: 'Moderate Bleed', color: 'yellow', description: 'Noticeable delta drift' }
+        return { label: 'Stable', color: 'green', description: 'Minimal delta drift' }
+
+      case 'speed':
+        if (Math.abs(value) > 0.005) return { label: 'High', color: 'orange', description: 'Gamma shifts quickly with price' }
+        if (Math.abs(value) > 0.001) return { label: 'Moderate', color: 'yellow', description: 'Gamma varies with price' }
+        return { label: 'Low', color: 'green', description: 'Gamma stable across price' }
+
+      case 'color':
+        if (Math.abs(value) > 0.01) return { label: 'High', color: 'red', description: 'Gamma changing fast with time' }
+        if (Math.abs(value) > 0.002) return { label: 'Moderate', color: 'yellow', description: 'Gamma drifts with time' }
+        return { label: 'Low', color: 'green', description: 'Gamma stable over time' }
+
+      case 'zomma':
+        if (Math.abs(value) > 0.005) return { label: 'High', color: 'orange', description: 'Gamma sensitive to IV' }
+        if (Math.abs(value) > 0.001) return { label: 'Moderate', color: 'yellow', description: 'Gamma moves with IV' }
+        return { label: 'Low', color: 'green', description: 'Gamma insensitive to IV' }
+
       default:
         return { label: 'Unknown', color: 'gray', description: '' }
     }
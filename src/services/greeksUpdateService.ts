@@ -1,6 +1,16 @@
 import { GreeksCalculator, GreeksData } from './greeksCalculator'
 import { OptionsContract } from '../types/options'
-import { supabase } from '../lib/supabase'
+import { supabase, fetchAllPages } from '../lib/supabase'
+
+export interface StoredGreeksSnapshot {
+  contract_ticker: string
+  underlying_price: number
+  strike_price: number
+  time_to_expiry: number
+  implied_volatility: number
+  delta: number
+  snapshot_date: string
+}
 
 export interface GreeksSnapshot {
   contractTicker: string
@@ -171,6 +181,36 @@ class GreeksUpdateServiceClass {
     }
   }
 
+  async getUnderlyingSnapshots(
+    underlyingTicker: string,
+    days: number = 365
+  ): Promise<StoredGreeksSnapshot[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return []
+
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - days)
+
+      const { data, error } = await fetchAllPages<StoredGreeksSnapshot>((from, to) => supabase
+        .from('greeks_snapshots')
+        .select('contract_ticker, underlying_price, strike_price, time_to_expiry, implied_volatility, delta, snapshot_date')
+        .eq('user_id', user.id)
+        .eq('underlying_ticker', underlyingTicker)
+        .gte('snapshot_date', startDate.toISOString())
+        .order('snapshot_date', { ascending: true })
+        .order('contract_ticker', { ascending: true })
+        .range(from, to))
+
+      if (error) throw error
+
+      return data
+    } catch (error) {
+      console.error('Error fetching underlying snapshots:', error)
+      return []
+    }
+  }
+
   async cleanupOldSnapshots(daysToKeep: number = 30) {
     try {
       const { data: { user } } = await supabase.auth.getUser()
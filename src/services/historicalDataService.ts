@@ -27,6 +27,16 @@ interface OptionsHistoricalDataPoint {
   vega: number
 }
 
+export interface UnderlyingOptionsHistoricalDataPoint {
+  contract_ticker: string
+  date: string
+  bid: number
+  ask: number
+  last: number
+  implied_volatility: number
+  delta: number
+}
+
 export class HistoricalDataService {
   /**
    * Store historical data for a ticker in Supabase
@@ -252,6 +262,133 @@ export class HistoricalDataService {
     }
   }
 
+  /**
+   * Get daily quotes, IV and delta for every stored contract on an underlying
+   */
+  static async getOptionsHistoricalDataForUnderlying(
+    underlyingTicker: string,
+    days: number = 365
+  ): Promise<UnderlyingOptionsHistoricalDataPoint[]> {
+    const { ENABLE_DATA_PERSISTENCE } = getEnvVars()
+
+    if (!ENABLE_DATA_PERSISTENCE) {
+      return []
+    }
+
+    try {
+      // Import supabase dynamically to avoid build issues
+      const { supabase, fetchAllPages } = await import('../lib/supabase')
+
+      if (!supabase) return []
+
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - days)
+
+      const { data, error } = await fetchAllPages<UnderlyingOptionsHistoricalDataPoint>((from, to) => supabase
+        .from('options_historical_data')
+        .select('contract_ticker, date, bid, ask, last, implied_volatility, delta')
+        .eq('underlying_ticker', underlyingTicker)
+        .gte('date', startDate.toISOString().split('T')[0])
+        .order('date', { ascending: true })
+        .order('contract_ticker', { ascending: true })
+        .range(from, to))
+
+      if (error) {
+        console.error('Error fetching underlying options historical data:', error)
+        return []
+      }
+
+      return data
+    } catch (error) {
+      console.error('Failed to fetch underlying options historical data:', error)
+      return []
+    }
+  }
+
+  /**
+   * Daily quotes for every stored contract on an underlying, on the given
+   * dates only
+   */
+  static async getOptionsHistoricalDataForUnderlyingOnDates(
+    underlyingTicker: string,
+    dates: string[]
+  ): Promise<UnderlyingOptionsHistoricalDataPoint[]> {
+    const { ENABLE_DATA_PERSISTENCE } = getEnvVars()
+
+    if (!ENABLE_DATA_PERSISTENCE || dates.length === 0) {
+      return []
+    }
+
+    try {
+      // Import supabase dynamically to avoid build issues
+      const { supabase, fetchAllPages } = await import('../lib/supabase')
+
+      if (!supabase) return []
+
+      const { data, error } = await fetchAllPages<UnderlyingOptionsHistoricalDataPoint>((from, to) => supabase
+        .from('options_historical_data')
+        .select('contract_ticker, date, bid, ask, last, implied_volatility, delta')
+        .eq('underlying_ticker', underlyingTicker)
+        .in('date', dates)
+        .order('date', { ascending: true })
+        .order('contract_ticker', { ascending: true })
+        .range(from, to))
+
+      if (error) {
+        console.error('Error fetching underlying options historical data:', error)
+        return []
+      }
+
+      return data
+    } catch (error) {
+      console.error('Failed to fetch underlying options historical data:', error)
+      return []
+    }
+  }
+
+  /**
+   * Daily quotes for a set of contracts on one underlying from startDate on,
+   * fetched together rather than one query per contract
+   */
+  static async getOptionsHistoricalDataForContracts(
+    underlyingTicker: string,
+    contractTickers: string[],
+    startDate: string
+  ): Promise<UnderlyingOptionsHistoricalDataPoint[]> {
+    const { ENABLE_DATA_PERSISTENCE } = getEnvVars()
+
+    if (!ENABLE_DATA_PERSISTENCE || contractTickers.length === 0) {
+      return []
+    }
+
+    try {
+      // Import supabase dynamically to avoid build issues
+      const { supabase, fetchAllPages } = await import('../lib/supabase')
+
+      if (!supabase) return []
+
+      const { data, error } = await fetchAllPages<UnderlyingOptionsHistoricalDataPoint>((from, to) => supabase
+        .from('options_historical_data')
+        .select('contract_ticker, date, bid, ask, last, implied_volatility, delta')
+        .eq('underlying_ticker', underlyingTicker)
+        .in('contract_ticker', contractTickers)
+        .gte('date', startDate)
+        .order('date', { ascending: true })
+        .order('contract_ticker', { ascending: true })
+        .range(from, to))
+
+      if (error) {
+        console.error('Error fetching contract options historical data:', error)
+        return []
+      }
+
+      return data
+    } catch (error) {
+      console.error('Failed to fetch contract options historical data:', error)
+      return []
+    }
+  }
+
   /**
    * Clean up old historical data based on retention policy
    */
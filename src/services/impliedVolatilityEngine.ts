@@ -0,0 +1,404 @@
+import { OptionsContract } from '../types/options'
+import { DividendInputs, normalCDF, presentValueOfDividends } from './blackScholesService'
+import { BinomialPricingService } from './binomialPricingService'
+import { DividendService } from './dividendService'
+import { RateCurveService } from './rateCurveService'
+
+export type NoIVReason =
+  | 'expired'
+  | 'invalid_spot'
+  | 'no_quote'
+  | 'zero_bid'
+  | 'crossed_quote'
+  | 'below_intrinsic'
+  | 'above_upper_bound'
+  | 'above_max_volatility'
+  | 'no_convergence'
+
+export interface IVSolveResult {
+  impliedVolatility: number | null
+  reason?: NoIVReason
+}
+
+export interface ChainIVQuote {
+  contractTicker: string
+  bidIV: number | null
+  midIV: number | null
+  askIV: number | null
+  bidReason?: NoIVReason
+  midReason?: NoIVReason
+  askReason?: NoIVReason
+}
+
+export type ChainIVInput = Pick<OptionsContract, 'ticker' | 'underlying_ticker' | 'contract_type' | 'strike_price' | 'expiration_date' | 'bid' | 'ask'> &
+  Partial<Pick<OptionsContract, 'exercise_style'>>
+
+/**
+ * Per-expiry quantities shared by every strike in a slice. Computing them
+ * once per (underlying, expiry) keeps each European solve down to the Black
+ * formula; the raw inputs are kept for the American tree.
+ */
+interface ExpiryTerms {
+  spotPrice: number
+  timeToExpiry: number
+  riskFreeRate: number
+  dividends: DividendInputs
+  discountFactor: number
+  forward: number
+}
+
+// Early-exercise premium at the solved volatility, to seed nearby quotes
+interface AmericanSolveResult extends IVSolveResult {
+  premium?: number
+}
+
+export const NO_IV_REASON_LABELS: Record<NoIVReason, string> = {
+  expired: 'Expired',
+  invalid_spot: 'No underlying price',
+  no_quote: 'No quote',
+  zero_bid: 'Zero bid',
+  crossed_quote: 'Crossed quote',
+  below_intrinsic: 'Below intrinsic',
+  above_upper_bound: 'Above no-arbitrage bound',
+  above_max_volatility: 'IV above 500%',
+  no_convergence: 'Did not converge'
+}
+
+/**
+ * Chain-level implied volatility engine.
+ *
+ * Prices are checked against the no-arbitrage bounds before solving, so every
+ * missing IV comes with a reason. Roots are found with Brent's method on a
+ * fixed [MIN_VOL, MAX_VOL] bracket once both ends are known to straddle the
+ * price.
+ *
+ * American contracts are solved against the same binomial tree that
+ * GreeksCalculator prices them on, using the Black formula as a control
+ * variate: the tree's early-exercise premium at the current guess is taken off
+ * the price and the remainder solved in closed form, which typically settles
+ * in two or three trees instead of a full root search on the tree.
+ */
+export class ImpliedVolatilityEngine {
+  static readonly MIN_VOL = 0.0001
+  static readonly MAX_VOL = 5
+
+  private static readonly VOL_TOLERANCE = 1e-7
+  private static readonly MAX_ITERATIONS = 100
+  private static readonly PRICE_EPSILON = 1e-6
+  private static readonly MAX_AMERICAN_ITERATIONS = 6
+  // The tree itself is only accurate to a few basis points of vol
+  private static readonly TREE_VOL_TOLERANCE = 1e-5
+
+  /**
+   * Solve a single price. Uses the same escrowed-dividend convention as
+   * BlackScholesService.calculateOptionPrice.
+   */
+  static solve(
+    price: number,
+    spotPrice: number,
+    strikePrice: number,
+    timeToExpiry: number,
+    riskFreeRate: number,
+    isCall: boolean,
+    dividends: DividendInputs = {}
+  ): IVSolveResult {
+    if (timeToExpiry <= 0) return { impliedVolatility: null, reason: 'expired' }
+    if (!(spotPrice > 0)) return { impliedVolatility: null, reason: 'invalid_spot' }
+    if (!(price > 0)) return { impliedVolatility: null, reason: 'no_quote' }
+
+    return this.solveWithTerms(price, strikePrice, isCall, this.expiryTerms(spotPrice, timeToExpiry, riskFreeRate, dividends))
+  }
+
+  /**
+   * Bid, mid and ask IVs for every contract in a chain, keyed by contract ticker.
+   * spotPrices maps underlying ticker to its current price. Without an explicit
+   * rate each expiry is discounted at its own point on the rate curve.
+   */
+  static solveChain(
+    contracts: ChainIVInput[],
+    spotPrices: Record<string, number>,
+    riskFreeRate?: number
+  ): Record<string, ChainIVQuote> {
+    const quotes: Record<string, ChainIVQuote> = {}
+    const termsCache = new Map<string, ExpiryTerms | null>()
+    const now = Date.now()
+
+    for (const contract of contracts) {
+      const cacheKey = `${contract.underlying_ticker}|${contract.expiration_date}`
+      let terms = termsCache.get(cacheKey)
+      if (terms === undefined) {
+        const spotPrice = spotPrices[contract.underlying_ticker]
+        const timeToExpiry = (new Date(contract.expiration_date).getTime() - now) / (1000 * 60 * 60 * 24 * 365)
+        terms = spotPrice > 0 && timeToExpiry > 0
+          ? this.expiryTerms(
+              spotPrice,
+              timeToExpiry,
+              riskFreeRate ?? RateCurveService.getRate(timeToExpiry),
+              DividendService.getDividendInputs(contract.underlying_ticker, timeToExpiry)
+            )
+          : null
+        termsCache.set(cacheKey, terms)
+      }
+
+      quotes[contract.ticker] = this.solveQuote(contract, terms, spotPrices[contract.underlying_ticker])
+    }
+
+    return quotes
+  }
+
+  private static solveQuote(contract: ChainIVInput, terms: ExpiryTerms | null, spotPrice: number | undefined): ChainIVQuote {
+    const unavailable = (reason: NoIVReason): ChainIVQuote => ({
+      contractTicker: contract.ticker,
+      bidIV: null,
+      midIV: null,
+      askIV: null,
+      bidReason: reason,
+      midReason: reason,
+      askReason: reason
+    })
+
+    if (!terms) return unavailable(spotPrice && spotPrice > 0 ? 'expired' : 'invalid_spot')
+
+    const bid = contract.bid || 0
+    const ask = contract.ask || 0
+    if (bid <= 0 && ask <= 0) return unavailable('no_quote')
+    if (bid > 0 && ask > 0 && bid > ask) return unavailable('crossed_quote')
+
+    const isCall = contract.contract_type === 'call'
+    const american = contract.exercise_style === 'american' && this.canExerciseEarly(isCall, terms)
+    const solvePrice = (price: number, premium?: number): AmericanSolveResult => american
+      ? this.solveAmerican(price, contract.strike_price, isCall, terms, premium)
+      : this.solveWithTerms(price, contract.strike_price, isCall, terms)
+
+    // Bid and ask start from the mid's early-exercise premium, which barely moves across the spread
+    const midResult: AmericanSolveResult = bid > 0 && ask > 0
+      ? solvePrice((bid + ask) / 2)
+      : { impliedVolatility: null, reason: 'no_quote' as NoIVReason }
+    const askResult = ask > 0
+      ? solvePrice(ask, midResult.premium)
+      : { impliedVolatility: null, reason: 'no_quote' as NoIVReason }
+
+    // Without a bid the "mid" is just half the offer, so it carries no information
+    if (bid <= 0) {
+      return {
+        contractTicker: contract.ticker,
+        bidIV: null,
+        midIV: null,
+        askIV: askResult.impliedVolatility,
+        bidReason: 'zero_bid',
+        midReason: 'zero_bid',
+        askReason: askResult.reason
+      }
+    }
+
+    const bidResult = solvePrice(bid, midResult.premium)
+
+    return {
+      contractTicker: contract.ticker,
+      bidIV: bidResult.impliedVolatility,
+      midIV: midResult.impliedVolatility,
+      askIV: askResult.impliedVolatility,
+      bidReason: bidResult.reason,
+      midReason: midResult.reason,
+      askReason: askResult.reason
+    }
+  }
+
+  private static expiryTerms(
+    spotPrice: number,
+    timeToExpiry: number,
+    riskFreeRate: number,
+    dividends: DividendInputs
+  ): ExpiryTerms {
+    const adjustedSpot = spotPrice - presentValueOfDividends(dividends.cashDividends, timeToExpiry, riskFreeRate)
+    const discountFactor = Math.exp(-riskFreeRate * timeToExpiry)
+    const forward = adjustedSpot * Math.exp(-(dividends.dividendYield || 0) * timeToExpiry) / discountFactor
+
+    return { spotPrice, timeToExpiry, riskFreeRate, dividends, discountFactor, forward }
+  }
+
+  // Early exercise of a call only pays when something is paid out before expiry
+  private static canExerciseEarly(isCall: boolean, terms: ExpiryTerms): boolean {
+    if (!isCall) return true
+    const { dividendYield = 0, cashDividends = [] } = terms.dividends
+    return dividendYield > 0 || cashDividends.some(dividend => dividend.time > 0 && dividend.time <= terms.timeToExpiry)
+  }
+
+  /**
+   * Solves the tree price starting from the Black formula as a control
+   * variate: the first step solves the price less the tree's early-exercise
+   * premium at the European guess, later steps are secant steps on the tree
+   * residual. Quotes where that does not settle fall back to a root search on
+   * the tree itself.
+   */
+  private static solveAmerican(
+    price: number,
+    strikePrice: number,
+    isCall: boolean,
+    terms: ExpiryTerms,
+    premiumSeed?: number
+  ): AmericanSolveResult {
+    const { spotPrice } = terms
+    if (!(terms.forward > 0)) return { impliedVolatility: null, reason: 'invalid_spot' }
+
+    // Immediate exercise bounds an American price below by intrinsic on spot, not on the forward
+    const intrinsic = Math.max(0, isCall ? spotPrice - strikePrice : strikePrice - spotPrice)
+    if (price < intrinsic - this.PRICE_EPSILON) return { impliedVolatility: null, reason: 'below_intrinsic' }
+    if (price >= (isCall ? spotPrice : strikePrice)) return { impliedVolatility: null, reason: 'above_upper_bound' }
+
+    let volatility = this.solveWithTerms(price - (premiumSeed ?? 0), strikePrice, isCall, terms).impliedVolatility
+    let previous: { volatility: number; residual: number } | null = null
+
+    for (let iteration = 0; volatility !== null && iteration < this.MAX_AMERICAN_ITERATIONS; iteration++) {
+      const treeValue = this.treePrice(strikePrice, isCall, terms, volatility)
+      const premium = treeValue - this.blackPrice(strikePrice, isCall, terms, volatility)
+      const residual = treeValue - price
+      if (Math.abs(residual) < this.PRICE_EPSILON) return { impliedVolatility: volatility, premium }
+
+      const next: number | null = previous === null || residual === previous.residual
+        ? this.solveWithTerms(price - premium, strikePrice, isCall, terms).impliedVolatility
+        : volatility - residual * (volatility - previous.volatility) / (residual - previous.residual)
+      if (next === null || !(next > this.MIN_VOL && next < this.MAX_VOL)) break
+      if (Math.abs(next - volatility) < this.TREE_VOL_TOLERANCE) return { impliedVolatility: next, premium }
+
+      previous = { volatility, residual }
+      volatility = next
+    }
+
+    return this.solveOnTree(price, strikePrice, isCall, terms)
+  }
+
+  private static solveOnTree(price: number, strikePrice: number, isCall: boolean, terms: ExpiryTerms): IVSolveResult {
+    const objective = (volatility: number) => this.treePrice(strikePrice, isCall, terms, volatility) - price
+
+    if (objective(this.MIN_VOL) > 0) return { impliedVolatility: null, reason: 'below_intrinsic' }
+    if (objective(this.MAX_VOL) < 0) return { impliedVolatility: null, reason: 'above_max_volatility' }
+
+    const impliedVolatility = this.brent(objective, this.MIN_VOL, this.MAX_VOL, this.TREE_VOL_TOLERANCE)
+
+    return impliedVolatility === null
+      ? { impliedVolatility: null, reason: 'no_convergence' }
+      : { impliedVolatility }
+  }
+
+  private static treePrice(strikePrice: number, isCall: boolean, terms: ExpiryTerms, volatility: number): number {
+    const { spotPrice, timeToExpiry, riskFreeRate, dividends } = terms
+    return BinomialPricingService.calculatePrice(spotPrice, strikePrice, timeToExpiry, riskFreeRate, volatility, isCall, dividends)
+  }
+
+  private static solveWithTerms(price: number, strikePrice: number, isCall: boolean, terms: ExpiryTerms): IVSolveResult {
+    const { discountFactor, forward } = terms
+    if (!(forward > 0)) return { impliedVolatility: null, reason: 'invalid_spot' }
+
+    // European bounds: discounted intrinsic below, discounted forward/strike above
+    const lowerBound = discountFactor * Math.max(0, isCall ? forward - strikePrice : strikePrice - forward)
+    const upperBound = discountFactor * (isCall ? forward : strikePrice)
+
+    if (price < lowerBound - this.PRICE_EPSILON) return { impliedVolatility: null, reason: 'below_intrinsic' }
+    if (price >= upperBound) return { impliedVolatility: null, reason: 'above_upper_bound' }
+
+    const objective = (volatility: number) => this.blackPrice(strikePrice, isCall, terms, volatility) - price
+
+    // A price at (or within rounding of) intrinsic has no time value left to solve for
+    if (objective(this.MIN_VOL) > 0) return { impliedVolatility: null, reason: 'below_intrinsic' }
+    if (objective(this.MAX_VOL) < 0) return { impliedVolatility: null, reason: 'above_max_volatility' }
+
+    const impliedVolatility = this.brent(objective, this.MIN_VOL, this.MAX_VOL)
+
+    return impliedVolatility === null
+      ? { impliedVolatility: null, reason: 'no_convergence' }
+      : { impliedVolatility }
+  }
+
+  private static blackPrice(strikePrice: number, isCall: boolean, terms: ExpiryTerms, volatility: number): number {
+    const { timeToExpiry, discountFactor, forward } = terms
+    const stdDev = volatility * Math.sqrt(timeToExpiry)
+    const d1 = Math.log(forward / strikePrice) / stdDev + 0.5 * stdDev
+    const d2 = d1 - stdDev
+
+    return isCall
+      ? discountFactor * (forward * normalCDF(d1) - strikePrice * normalCDF(d2))
+      : discountFactor * (strikePrice * normalCDF(-d2) - forward * normalCDF(-d1))
+  }
+
+  /**
+   * Brent's method (inverse quadratic interpolation with bisection fallback).
+   * Returns null if the bracket does not contain a sign change.
+   */
+  private static brent(
+    f: (x: number) => number,
+    lower: number,
+    upper: number,
+    volTolerance: number = this.VOL_TOLERANCE
+  ): number | null {
+    let a = lower
+    let b = upper
+    let fa = f(a)
+    let fb = f(b)
+
+    if (fa === 0) return a
+    if (fb === 0) return b
+    if (fa * fb > 0) return null
+
+    let c = a
+    let fc = fa
+    let d = b - a
+    let e = d
+
+    for (let iteration = 0; iteration < this.MAX_ITERATIONS; iteration++) {
+      if (fb * fc > 0) {
+        c = a
+        fc = fa
+        d = b - a
+        e = d
+      }
+      if (Math.abs(fc) < Math.abs(fb)) {
+        a = b
+        b = c
+        c = a
+        fa = fb
+        fb = fc
+        fc = fa
+      }
+
+      const tolerance = 2 * Number.EPSILON * Math.abs(b) + 0.5 * volTolerance
+      const midpoint = 0.5 * (c - b)
+      if (Math.abs(midpoint) <= tolerance || fb === 0) return b
+
+      if (Math.abs(e) >= tolerance && Math.abs(fa) > Math.abs(fb)) {
+        const s = fb / fa
+        let p: number
+        let q: number
+        if (a === c) {
+          p = 2 * midpoint * s
+          q = 1 - s
+        } else {
+          const r = fb / fc
+          const t = fa / fc
+          p = s * (2 * midpoint * t * (t - r) - (b - a) * (r - 1))
+          q = (t - 1) * (r - 1) * (s - 1)
+        }
+        if (p > 0) q = -q
+        p = Math.abs(p)
+
+        if (2 * p < Math.min(3 * midpoint * q - Math.abs(tolerance * q), Math.abs(e * q))) {
+          e = d
+          d = p / q
+        } else {
+          d = midpoint
+          e = d
+        }
+      } else {
+        d = midpoint
+        e = d
+      }
+
+      a = b
+      fa = fb
+      b += Math.abs(d) > tolerance ? d : (midpoint > 0 ? tolerance : -tolerance)
+      fb = f(b)
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,238 @@
+import { GreeksUpdateService } from './greeksUpdateService'
+import { HistoricalDataService } from './historicalDataService'
+
+export interface IVObservation {
+  date: string
+  expiry: string
+  timeToExpiry: number
+  strike: number
+  impliedVolatility: number
+  delta?: number
+  underlyingPrice?: number
+}
+
+export interface IVHistoryPoint {
+  date: string
+  impliedVolatility: number
+}
+
+export interface IVRankSummary {
+  underlying: string
+  currentIV: number
+  ivRank: number
+  ivPercentile: number
+  high52w: number
+  low52w: number
+  observations: number
+  history: IVHistoryPoint[]
+}
+
+/**
+ * IV rank and IV percentile from a daily 30-day constant-maturity ATM IV
+ * series.
+ *
+ * Each day's ATM IV is read per expiry from the strike nearest spot (or the
+ * contract with |delta| nearest 0.5 when spot is unknown). The two expiries
+ * bracketing 30 days are interpolated linearly in total variance; outside the
+ * available expiries the nearest one is used as-is. Stored greeks snapshots
+ * take precedence over options_historical_data on days covered by both.
+ */
+export class IVRankService {
+  static readonly TARGET_DAYS = 30
+  static readonly LOOKBACK_DAYS = 365
+
+  // Fewer daily points than this makes rank/percentile too noisy to show
+  private static readonly MIN_OBSERVATIONS = 20
+  private static readonly CACHE_DURATION = 60 * 60 * 1000
+
+  private static cache: Map<string, { summary: IVRankSummary | null; timestamp: number }> = new Map()
+
+  static async getIVRank(underlying: string): Promise<IVRankSummary | null> {
+    const cached = this.cache.get(underlying)
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.summary
+    }
+
+    const [snapshots, historical] = await Promise.all([
+      GreeksUpdateService.getUnderlyingSnapshots(underlying, this.LOOKBACK_DAYS),
+      HistoricalDataService.getOptionsHistoricalDataForUnderlying(underlying, this.LOOKBACK_DAYS)
+    ])
+
+    const snapshotObservations: IVObservation[] = snapshots.map(snapshot => {
+      const date = snapshot.snapshot_date.split('T')[0]
+      return {
+        date,
+        expiry: this.parseContractTicker(snapshot.contract_ticker)?.expiry ||
+          this.addYears(date, snapshot.time_to_expiry),
+        timeToExpiry: snapshot.time_to_expiry,
+        strike: snapshot.strike_price,
+        impliedVolatility: snapshot.implied_volatility,
+        delta: snapshot.delta,
+        underlyingPrice: snapshot.underlying_price
+      }
+    })
+
+    const snapshotDates = new Set(snapshotObservations.map(observation => observation.date))
+    const historicalObservations: IVObservation[] = []
+    for (const point of historical) {
+      const parsed = this.parseContractTicker(point.contract_ticker)
+      if (!parsed || snapshotDates.has(point.date)) continue
+
+      historicalObservations.push({
+        date: point.date,
+        expiry: parsed.expiry,
+        timeToExpiry: (new Date(parsed.expiry).getTime() - new Date(point.date).getTime()) / (1000 * 60 * 60 * 24 * 365),
+        strike: parsed.strike,
+        impliedVolatility: point.implied_volatility,
+        delta: point.delta
+      })
+    }
+
+    const series = this.buildConstantMaturitySeries([...snapshotObservations, ...historicalObservations])
+    const summary = this.summarize(underlying, series)
+
+    this.cache.set(underlying, { summary, timestamp: Date.now() })
+    return summary
+  }
+
+  /**
+   * IV rank for several underlyings; underlyings without enough history are
+   * left out
+   */
+  static async getIVRanks(underlyings: string[]): Promise<Record<string, IVRankSummary>> {
+    const results: Record<string, IVRankSummary> = {}
+
+    await Promise.all(underlyings.map(async underlying => {
+      try {
+        const summary = await this.getIVRank(underlying)
+        if (summary) results[underlying] = summary
+      } catch (error) {
+        console.error(`Failed to compute IV rank for ${underlying}:`, error)
+      }
+    }))
+
+    return results
+  }
+
+  /**
+   * Parse an OCC-style contract ticker such as O:SPY251219C00580000
+   */
+  static parseContractTicker(contractTicker: string): { underlying: string; expiry: string; type: 'call' | 'put'; strike: number } | null {
+    const match = contractTicker.match(/^(?:O:)?([A-Z.]+)(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/)
+    if (!match) return null
+
+    const [, underlying, year, month, day, type, strike] = match
+    return {
+      underlying,
+      expiry: `20${year}-${month}-${day}`,
+      type: type === 'C' ? 'call' : 'put',
+      strike: parseInt(strike, 10) / 1000
+    }
+  }
+
+  /**
+   * Daily 30-day constant-maturity ATM IV, oldest first
+   */
+  static buildConstantMaturitySeries(observations: IVObservation[]): IVHistoryPoint[] {
+    const byDate = new Map<string, IVObservation[]>()
+    for (const observation of observations) {
+      if (!(observation.impliedVolatility > 0) || !(observation.timeToExpiry > 0)) continue
+      const group = byDate.get(observation.date) || []
+      group.push(observation)
+      byDate.set(observation.date, group)
+    }
+
+    const series: IVHistoryPoint[] = []
+    for (const [date, group] of byDate) {
+      const impliedVolatility = this.interpolateToTarget(this.atmTermStructure(group))
+      if (impliedVolatility !== null) series.push({ date, impliedVolatility })
+    }
+
+    return series.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  /**
+   * IV rank: where the current IV sits between the 52-week low and high.
+   * IV percentile: share of days in the lookback with IV below the current.
+   */
+  static summarize(underlying: string, series: IVHistoryPoint[]): IVRankSummary | null {
+    if (series.length < this.MIN_OBSERVATIONS) return null
+
+    const values = series.map(point => point.impliedVolatility)
+    const currentIV = values[values.length - 1]
+    const high52w = Math.max(...values)
+    const low52w = Math.min(...values)
+    const below = values.slice(0, -1).filter(value => value < currentIV).length
+
+    return {
+      underlying,
+      currentIV,
+      ivRank: high52w > low52w ? (currentIV - low52w) / (high52w - low52w) * 100 : 50,
+      ivPercentile: below / (values.length - 1) * 100,
+      high52w,
+      low52w,
+      observations: series.length,
+      history: series
+    }
+  }
+
+  private static atmTermStructure(observations: IVObservation[]): { timeToExpiry: number; impliedVolatility: number }[] {
+    const byExpiry = new Map<string, IVObservation[]>()
+    for (const observation of observations) {
+      const group = byExpiry.get(observation.expiry) || []
+      group.push(observation)
+      byExpiry.set(observation.expiry, group)
+    }
+
+    const term: { timeToExpiry: number; impliedVolatility: number }[] = []
+    for (const slice of byExpiry.values()) {
+      const spot = slice.find(observation => observation.underlyingPrice)?.underlyingPrice
+      let atm: IVObservation[]
+
+      if (spot) {
+        const atmStrike = slice.reduce((best, observation) =>
+          Math.abs(observation.strike - spot) < Math.abs(best - spot) ? observation.strike : best, slice[0].strike)
+        atm = slice.filter(observation => observation.strike === atmStrike)
+      } else {
+        const withDelta = slice.filter(observation => observation.delta !== undefined && observation.delta !== null)
+        if (withDelta.length === 0) continue
+        const distance = (observation: IVObservation) => Math.abs(Math.abs(observation.delta!) - 0.5)
+        const closest = Math.min(...withDelta.map(distance))
+        atm = withDelta.filter(observation => distance(observation) === closest)
+      }
+
+      term.push({
+        timeToExpiry: atm.reduce((sum, observation) => sum + observation.timeToExpiry, 0) / atm.length,
+        impliedVolatility: atm.reduce((sum, observation) => sum + observation.impliedVolatility, 0) / atm.length
+      })
+    }
+
+    return term.sort((a, b) => a.timeToExpiry - b.timeToExpiry)
+  }
+
+  private static interpolateToTarget(term: { timeToExpiry: number; impliedVolatility: number }[]): number | null {
+    if (term.length === 0) return null
+
+    const target = this.TARGET_DAYS / 365
+    if (target <= term[0].timeToExpiry) return term[0].impliedVolatility
+
+    const last = term[term.length - 1]
+    if (target >= last.timeToExpiry) return last.impliedVolatility
+
+    const upperIndex = term.findIndex(point => point.timeToExpiry >= target)
+    const lower = term[upperIndex - 1]
+    const upper = term[upperIndex]
+    const lowerVariance = lower.impliedVolatility * lower.impliedVolatility * lower.timeToExpiry
+    const upperVariance = upper.impliedVolatility * upper.impliedVolatility * upper.timeToExpiry
+    const weight = (target - lower.timeToExpiry) / (upper.timeToExpiry - lower.timeToExpiry)
+    const variance = lowerVariance + weight * (upperVariance - lowerVariance)
+
+    return Math.sqrt(Math.max(0, variance) / target)
+  }
+
+  private static addYears(date: string, years: number): string {
+    const result = new Date(date)
+    result.setTime(result.getTime() + years * 365 * 24 * 60 * 60 * 1000)
+    return result.toISOString().split('T')[0]
+  }
+}
@@ -737,6 +737,13 @@ export class LearningService {
         type: 'neutral',
         complexity: 'intermediate',
         legs: [
+          {
+            action: 'buy',
+            optionType: 'stock',
+            strike: 0,
+            expiration: '',
+            quantity: 100
+          },
           {
             action: 'sell',
             optionType: 'call',
@@ -753,6 +760,83 @@ export class LearningService {
         timeDecay: 'positive',
         volatilityImpact: 'negative'
       },
+      {
+        id: 'protective_put',
+        name: 'Protective Put',
+        description: 'Own stock and buy a put to cap the downside',
+        type: 'bullish',
+        complexity: 'beginner',
+        legs: [
+          {
+            action: 'buy',
+            optionType: 'stock',
+            strike: 0,
+            expiration: '',
+            quantity: 100
+          },
+          {
+            action: 'buy',
+            optionType: 'put',
+            strike: 0, // At or below current price
+            expiration: '30d',
+            quantity: 1
+          }
+        ],
+        maxRisk: 0, // Stock price - put strike + premium
+        maxProfit: 0, // Unlimited upside less the premium
+        breakeven: [0], // Stock price + premium
+        bestMarketConditions: ['Bullish with event risk', 'Protecting gains'],
+        worstMarketConditions: ['Sideways', 'Falling volatility'],
+        timeDecay: 'negative',
+        volatilityImpact: 'positive',
+        instructions: [
+          "Hold 100 shares per put, or buy them with the put (a married put)",
+          "Pick the put strike at the largest loss you will accept on the shares",
+          "Roll or let the put expire once the risk has passed"
+        ]
+      },
+      {
+        id: 'collar',
+        name: 'Collar',
+        description: 'Own stock, buy a put below and sell a call above to bound the outcome',
+        type: 'neutral',
+        complexity: 'intermediate',
+        legs: [
+          {
+            action: 'buy',
+            optionType: 'stock',
+            strike: 0,
+            expiration: '',
+            quantity: 100
+          },
+          {
+            action: 'buy',
+            optionType: 'put',
+            strike: 0, // Below current price
+            expiration: '30d',
+            quantity: 1
+          },
+          {
+            action: 'sell',
+            optionType: 'call',
+            strike: 0, // Above current price
+            expiration: '30d',
+            quantity: 1
+          }
+        ],
+        maxRisk: 0, // Stock price - put strike + net premium
+        maxProfit: 0, // Call strike - stock price - net premium
+        breakeven: [0], // Stock price + net premium
+        bestMarketConditions: ['Protecting gains', 'Mild bullish'],
+        worstMarketConditions: ['Strong bull'],
+        timeDecay: 'neutral',
+        volatilityImpact: 'neutral',
+        instructions: [
+          "Hold 100 shares per put and call pair",
+          "Choose strikes so the call premium pays for most of the put",
+          "Shares are called away above the call strike"
+        ]
+      },
       {
         id: 'cash_secured_put',
         name: 'Cash-Secured Put',
@@ -0,0 +1,305 @@
+import { PayoffCalculationService, type StrategyLeg } from './payoffCalculationService'
+
+export type MarginMode = 'reg-t' | 'portfolio'
+
+export interface MarginComponent {
+  description: string
+  quantity: number
+  requirement: number
+}
+
+export interface MarginRequirement {
+  mode: MarginMode
+  // Margin held against the short legs, in dollars. Under Reg-T this includes
+  // the premium of naked shorts, which the credit received then offsets
+  requirement: number
+  // Option premium paid (positive) or received (negative)
+  netPremium: number
+  // Change in buying power from opening the position: netPremium + requirement
+  buyingPowerEffect: number
+  components: MarginComponent[]
+}
+
+interface MarginUnit {
+  description: string
+  // Strikes, e.g. 105C or 105C/110C
+  label: string
+  quantity: number
+  // Per unit, in dollars
+  requirement: number
+  premium: number
+}
+
+/**
+ * Initial margin for option strategies on one underlying.
+ *
+ * Reg-T mode applies strategy-based rules: long options are paid in full,
+ * short calls covered by long shares need nothing, shorts paired with a long
+ * of the same type expiring no earlier are held at the spread's max loss,
+ * naked short calls and puts pay premium plus 20% of the underlying less the
+ * out-of-the-money amount (at least 10% of the underlying or strike), short
+ * straddles and iron condors only margin their riskier side.
+ *
+ * Portfolio mode revalues every leg across price slices of ±15% and implied
+ * volatility shifts, and holds the worst loss, with a per-contract minimum.
+ *
+ * Stock legs only count as cover (Reg-T) or as a hedge (portfolio); the
+ * shares themselves are paid for in the stock account.
+ */
+export class MarginService {
+  private static readonly STORAGE_KEY = 'marginMode'
+  private static readonly NAKED_RATE = 0.2
+  private static readonly NAKED_MINIMUM_RATE = 0.1
+  private static readonly PRICE_SHOCK = 0.15
+  private static readonly PRICE_SLICES = 10
+  private static readonly VOLATILITY_SHIFTS = [-0.1, 0, 0.1]
+  private static readonly MINIMUM_PER_CONTRACT = 37.5
+
+  private static mode: MarginMode | null = null
+
+  static getMode(): MarginMode {
+    if (this.mode) return this.mode
+
+    try {
+      this.mode = localStorage.getItem(this.STORAGE_KEY) === 'portfolio' ? 'portfolio' : 'reg-t'
+    } catch (error) {
+      this.mode = 'reg-t'
+    }
+    return this.mode
+  }
+
+  static setMode(mode: MarginMode): void {
+    this.mode = mode
+    try {
+      localStorage.setItem(this.STORAGE_KEY, mode)
+    } catch (error) {
+      console.error('Failed to persist margin mode:', error)
+    }
+  }
+
+  static calculate(
+    legs: StrategyLeg[],
+    underlyingPrice: number,
+    mode: MarginMode = this.getMode(),
+    underlyingTicker?: string
+  ): MarginRequirement {
+    const netPremium = legs
+      .filter(leg => leg.type !== 'stock')
+      .reduce((sum, leg) => sum + (leg.action === 'buy' ? 1 : -1) * leg.premium * leg.quantity * PayoffCalculationService.contractMultiplier(leg), 0)
+
+    if (mode === 'portfolio') {
+      return this.portfolioMargin(legs, underlyingPrice, netPremium, underlyingTicker)
+    }
+
+    const components = this.regTComponents(legs, underlyingPrice)
+    const requirement = components.reduce((sum, component) => sum + component.requirement, 0)
+    return { mode, requirement, netPremium, buyingPowerEffect: netPremium + requirement, components }
+  }
+
+  private static regTComponents(legs: StrategyLeg[], price: number): MarginComponent[] {
+    const components: MarginComponent[] = []
+    const longs = legs
+      .filter(leg => leg.type !== 'stock' && leg.action === 'buy')
+      .map(leg => ({ leg, remaining: leg.quantity }))
+    let coverShares = legs
+      .filter(leg => leg.type === 'stock')
+      .reduce((sum, leg) => sum + (leg.action === 'buy' ? 1 : -1) * leg.quantity * PayoffCalculationService.contractMultiplier(leg), 0)
+
+    // Riskiest shorts are covered or spread first
+    const shorts = legs
+      .filter(leg => leg.type !== 'stock' && leg.action === 'sell')
+      .map(leg => ({ leg, remaining: leg.quantity, naked: this.nakedRequirement(leg, price) }))
+      .sort((a, b) => b.naked - a.naked)
+
+    const nakedUnits: Record<'call' | 'put', MarginUnit[]> = { call: [], put: [] }
+    const spreadUnits: Record<'call' | 'put', MarginUnit[]> = { call: [], put: [] }
+
+    for (const short of shorts) {
+      const type = short.leg.type as 'call' | 'put'
+      const multiplier = PayoffCalculationService.contractMultiplier(short.leg)
+
+      if (type === 'call' && coverShares >= multiplier) {
+        const covered = Math.min(short.remaining, Math.floor(coverShares / multiplier))
+        coverShares -= covered * multiplier
+        short.remaining -= covered
+        components.push({ description: `Covered call ${this.label(short.leg)}`, quantity: covered, requirement: 0 })
+      }
+
+      while (short.remaining > 0) {
+        const best = longs
+          .filter(long => long.remaining > 0 && long.leg.type === type && this.expiresNoEarlier(long.leg, short.leg))
+          .map(long => ({ long, requirement: this.spreadRequirement(short.leg, long.leg) }))
+          .sort((a, b) => a.requirement - b.requirement)[0]
+        if (!best || best.requirement >= short.naked) break
+
+        const paired = Math.min(short.remaining, best.long.remaining)
+        short.remaining -= paired
+        best.long.remaining -= paired
+        const label = `${this.label(short.leg)}/${this.label(best.long.leg)}`
+        spreadUnits[type].push({
+          description: `${type === 'call' ? 'Call' : 'Put'} spread ${label}`,
+          label,
+          quantity: paired,
+          requirement: best.requirement,
+          premium: 0
+        })
+      }
+
+      if (short.remaining > 0) {
+        nakedUnits[type].push({
+          description: `Naked ${type} ${this.label(short.leg)}`,
+          label: this.label(short.leg),
+          quantity: short.remaining,
+          requirement: short.naked,
+          premium: short.leg.premium * multiplier
+        })
+      }
+    }
+
+    // Only one side of a short straddle or strangle can finish in the money
+    components.push(...this.offsetPairs(nakedUnits.call, nakedUnits.put, (call, put) => ({
+      description: `Short straddle/strangle ${put.label} + ${call.label}`,
+      requirement: call.requirement >= put.requirement
+        ? call.requirement + put.premium
+        : put.requirement + call.premium
+    })))
+
+    // Likewise for the call and put spreads of an iron condor
+    components.push(...this.offsetPairs(
+      spreadUnits.call.filter(unit => unit.requirement > 0),
+      spreadUnits.put.filter(unit => unit.requirement > 0),
+      (call, put) => ({
+        description: `Iron condor ${put.label} + ${call.label}`,
+        requirement: Math.max(call.requirement, put.requirement)
+      })
+    ))
+    components.push(...[...spreadUnits.call, ...spreadUnits.put]
+      .filter(unit => unit.requirement === 0)
+      .map(unit => this.toComponent(unit)))
+
+    return components.filter(component => component.quantity > 0)
+  }
+
+  /**
+   * Pairs units of a and b unit for unit, riskiest first. Unpaired quantity
+   * is returned on its own.
+   */
+  private static offsetPairs(
+    a: MarginUnit[],
+    b: MarginUnit[],
+    combine: (a: MarginUnit, b: MarginUnit) => { description: string; requirement: number }
+  ): MarginComponent[] {
+    const left = a.map(unit => ({ ...unit })).sort((x, y) => y.requirement - x.requirement)
+    const right = b.map(unit => ({ ...unit })).sort((x, y) => y.requirement - x.requirement)
+    const components: MarginComponent[] = []
+
+    let i = 0
+    let j = 0
+    while (i < left.length && j < right.length) {
+      const quantity = Math.min(left[i].quantity, right[j].quantity)
+      const pair = combine(left[i], right[j])
+      components.push({ description: pair.description, quantity, requirement: pair.requirement * quantity })
+      left[i].quantity -= quantity
+      right[j].quantity -= quantity
+      if (left[i].quantity === 0) i++
+      if (right[j].quantity === 0) j++
+    }
+
+    return [
+      ...components,
+      ...left.slice(i).concat(right.slice(j)).filter(unit => unit.quantity > 0).map(unit => this.toComponent(unit))
+    ]
+  }
+
+  private static toComponent(unit: MarginUnit): MarginComponent {
+    return { description: unit.description, quantity: unit.quantity, requirement: unit.requirement * unit.quantity }
+  }
+
+  /**
+   * Per contract: premium plus 20% of the underlying less the out-of-the-money
+   * amount, and no less than premium plus 10% of the underlying (calls) or
+   * strike (puts)
+   */
+  private static nakedRequirement(leg: StrategyLeg, price: number): number {
+    const outOfTheMoney = leg.type === 'call' ? Math.max(0, leg.strike - price) : Math.max(0, price - leg.strike)
+    const floorBase = leg.type === 'call' ? price : leg.strike
+    const perShare = leg.premium + Math.max(
+      this.NAKED_RATE * price - outOfTheMoney,
+      this.NAKED_MINIMUM_RATE * floorBase
+    )
+    return perShare * PayoffCalculationService.contractMultiplier(leg)
+  }
+
+  /**
+   * Per contract: the spread's loss at expiry from strikes alone, zero for
+   * debit spreads
+   */
+  private static spreadRequirement(short: StrategyLeg, long: StrategyLeg): number {
+    const width = short.type === 'call' ? long.strike - short.strike : short.strike - long.strike
+    return Math.max(0, width) * PayoffCalculationService.contractMultiplier(short)
+  }
+
+  private static expiresNoEarlier(long: StrategyLeg, short: StrategyLeg): boolean {
+    return !long.expiry || !short.expiry || long.expiry >= short.expiry
+  }
+
+  private static label(leg: StrategyLeg): string {
+    return `${leg.strike}${leg.type === 'call' ? 'C' : 'P'}`
+  }
+
+  /**
+   * Worst option P&L against entry across the stress slices, today. Gains on
+   * shares from the current price offset option losses, but share losses
+   * belong to the stock account. Buying power must also cover the debit paid
+   * and the per-contract minimum.
+   */
+  private static portfolioMargin(
+    legs: StrategyLeg[],
+    price: number,
+    netPremium: number,
+    underlyingTicker?: string
+  ): MarginRequirement {
+    const optionLegs = legs.filter(leg => leg.type !== 'stock')
+    const stockLegs = legs
+      .filter(leg => leg.type === 'stock')
+      .map(leg => ({ ...leg, premium: price }))
+    const components: MarginComponent[] = []
+    let worstLoss = 0
+
+    for (let slice = -this.PRICE_SLICES; slice <= this.PRICE_SLICES; slice++) {
+      const move = this.PRICE_SHOCK * slice / this.PRICE_SLICES
+      const slicePrice = price * (1 + move)
+      for (const volatilityShift of this.VOLATILITY_SHIFTS) {
+        const optionLoss = -PayoffCalculationService.calculateTheoreticalProfitAtPrice(optionLegs, slicePrice, 0, {
+          volatilityShift,
+          underlyingTicker
+        })
+        const stockGain = Math.max(0, PayoffCalculationService.calculateProfitAtPrice(stockLegs, slicePrice))
+        const loss = optionLoss - stockGain
+        if (loss > worstLoss) {
+          worstLoss = loss
+          components[0] = {
+            description: `Stress ${move >= 0 ? '+' : ''}${(move * 100).toFixed(1)}% price, ${volatilityShift >= 0 ? '+' : ''}${(volatilityShift * 100).toFixed(0)} vol`,
+            quantity: 1,
+            requirement: loss
+          }
+        }
+      }
+    }
+
+    const contracts = optionLegs.reduce((sum, leg) => sum + leg.quantity, 0)
+    const minimum = contracts * this.MINIMUM_PER_CONTRACT
+    const buyingPowerEffect = Math.max(worstLoss, netPremium, minimum)
+    if (buyingPowerEffect === minimum && minimum > worstLoss) {
+      components.push({ description: 'Per-contract minimum', quantity: contracts, requirement: minimum })
+    }
+
+    return {
+      mode: 'portfolio',
+      requirement: buyingPowerEffect - netPremium,
+      netPremium,
+      buyingPowerEffect,
+      components
+    }
+  }
+}
@@ -0,0 +1,305 @@
+import { PayoffCalculationService, StrategyLeg } from './payoffCalculationService'
+import { normalCDF } from './blackScholesService'
+import { GreeksCalculator } from './greeksCalculator'
+import { RateCurveService } from './rateCurveService'
+
+export interface JumpParameters {
+  intensity: number
+  meanJump: number
+  jumpVolatility: number
+}
+
+export interface MonteCarloParams {
+  spotPrice: number
+  volatility: number
+  timeToExpiry: number
+  riskFreeRate?: number
+  drift?: number
+  dividendYield?: number
+  paths?: number
+  monitoringSteps?: number
+  seed?: number
+  jumps?: JumpParameters
+  profitTarget?: number
+  stopLoss?: number
+}
+
+export interface DistributionBin {
+  pnlLow: number
+  pnlHigh: number
+  probability: number
+}
+
+export interface MonteCarloResult {
+  probabilityOfProfit: number
+  expectedPnL: number
+  pnlStdDev: number
+  percentiles: {
+    p5: number
+    p25: number
+    p50: number
+    p75: number
+    p95: number
+  }
+  probabilityOfTouchingTarget: number | null
+  probabilityOfTouchingStop: number | null
+  expectedPnLWithExits: number | null
+  distribution: DistributionBin[]
+  paths: number
+  seed: number
+}
+
+/**
+ * Monte Carlo simulation of strategy outcomes under GBM, optionally with
+ * Merton lognormal jumps.
+ *
+ * Paths run to timeToExpiry, normally the front expiry. Legs expiring then
+ * (or without an expiry) are valued at their payoff; later-dated legs of
+ * calendars and diagonals are marked to Black-Scholes with their own
+ * remaining time and implied volatility, falling back to the simulation
+ * volatility. Target/stop monitoring marks every open leg the same way at
+ * each step. Paths are generated from a seeded PRNG so results are
+ * reproducible for a given set of inputs.
+ */
+export class MonteCarloService {
+  static readonly DEFAULT_PATHS = 5000
+  static readonly DEFAULT_SEED = 42
+
+  private static readonly MAX_MONITORING_STEPS = 60
+  private static readonly DISTRIBUTION_BINS = 40
+
+  static simulate(legs: StrategyLeg[], params: MonteCarloParams): MonteCarloResult {
+    const {
+      spotPrice,
+      volatility,
+      timeToExpiry,
+      riskFreeRate = RateCurveService.getRate(timeToExpiry),
+      dividendYield = 0,
+      paths = this.DEFAULT_PATHS,
+      seed = this.DEFAULT_SEED,
+      jumps,
+      profitTarget,
+      stopLoss
+    } = params
+
+    if (legs.length === 0 || spotPrice <= 0 || volatility <= 0 || timeToExpiry <= 0 || paths <= 0) {
+      throw new Error('Invalid simulation parameters: legs, spot, volatility, time and paths must be positive')
+    }
+
+    const drift = params.drift ?? riskFreeRate
+    const monitorPath = profitTarget !== undefined || stopLoss !== undefined
+    const steps = monitorPath
+      ? Math.max(1, Math.min(this.MAX_MONITORING_STEPS, params.monitoringSteps ?? Math.ceil(timeToExpiry * 365)))
+      : 1
+    const dt = timeToExpiry / steps
+
+    // Jump compensation keeps the expected growth rate equal to the drift
+    const jumpCompensation = jumps
+      ? jumps.intensity * (Math.exp(jumps.meanJump + 0.5 * jumps.jumpVolatility * jumps.jumpVolatility) - 1)
+      : 0
+    const stepDrift = (drift - dividendYield - jumpCompensation - 0.5 * volatility * volatility) * dt
+    const stepVol = volatility * Math.sqrt(dt)
+
+    const random = this.createRandom(seed)
+    const nextNormal = this.createNormalSampler(random)
+
+    // Each leg's own time to expiry; legs without one expire with the simulation
+    const legExpiries = legs.map(leg => leg.type !== 'stock' && leg.expiry
+      ? GreeksCalculator.calculateTimeToExpiry(leg.expiry)
+      : timeToExpiry)
+
+    const entryCost = legs.reduce((sum, leg) => sum + this.legSign(leg) * leg.premium * leg.quantity * PayoffCalculationService.contractMultiplier(leg), 0)
+
+    const finalPnL = new Float64Array(paths)
+    let targetHits = 0
+    let stopHits = 0
+    let exitPnLSum = 0
+
+    for (let path = 0; path < paths; path++) {
+      let price = spotPrice
+      let exitPnL: number | null = null
+      let touchedTarget = false
+      let touchedStop = false
+
+      for (let step = 1; step <= steps; step++) {
+        let logReturn = stepDrift + stepVol * nextNormal()
+
+        if (jumps && jumps.intensity > 0) {
+          const jumpCount = this.samplePoisson(jumps.intensity * dt, random)
+          for (let j = 0; j < jumpCount; j++) {
+            logReturn += jumps.meanJump + jumps.jumpVolatility * nextNormal()
+          }
+        }
+
+        price *= Math.exp(logReturn)
+
+        if (monitorPath && step < steps) {
+          const pnl = this.markToModel(legs, legExpiries, price, step * dt, riskFreeRate, volatility, dividendYield) - entryCost
+
+          if (profitTarget !== undefined && pnl >= profitTarget) {
+            touchedTarget = true
+            if (exitPnL === null) exitPnL = pnl
+          }
+          if (stopLoss !== undefined && pnl <= -Math.abs(stopLoss)) {
+            touchedStop = true
+            if (exitPnL === null) exitPnL = pnl
+          }
+        }
+      }
+
+      const expiryPnL = this.markToModel(legs, legExpiries, price, timeToExpiry, riskFreeRate, volatility, dividendYield) - entryCost
+      finalPnL[path] = expiryPnL
+
+      if (monitorPath) {
+        if (profitTarget !== undefined && expiryPnL >= profitTarget) touchedTarget = true
+        if (stopLoss !== undefined && expiryPnL <= -Math.abs(stopLoss)) touchedStop = true
+        if (touchedTarget) targetHits++
+        if (touchedStop) stopHits++
+        exitPnLSum += exitPnL ?? expiryPnL
+      }
+    }
+
+    let sum = 0
+    let sumSquares = 0
+    let profitable = 0
+    for (let i = 0; i < paths; i++) {
+      sum += finalPnL[i]
+      sumSquares += finalPnL[i] * finalPnL[i]
+      if (finalPnL[i] > 0) profitable++
+    }
+    const expectedPnL = sum / paths
+    const variance = Math.max(0, sumSquares / paths - expectedPnL * expectedPnL)
+
+    const sorted = Array.from(finalPnL).sort((a, b) => a - b)
+    const percentile = (p: number) => sorted[Math.min(paths - 1, Math.floor(p * paths))]
+
+    return {
+      probabilityOfProfit: profitable / paths,
+      expectedPnL,
+      pnlStdDev: Math.sqrt(variance),
+      percentiles: {
+        p5: percentile(0.05),
+        p25: percentile(0.25),
+        p50: percentile(0.5),
+        p75: percentile(0.75),
+        p95: percentile(0.95)
+      },
+      probabilityOfTouchingTarget: profitTarget !== undefined ? targetHits / paths : null,
+      probabilityOfTouchingStop: stopLoss !== undefined ? stopHits / paths : null,
+      expectedPnLWithExits: monitorPath ? exitPnLSum / paths : null,
+      distribution: this.buildDistribution(sorted),
+      paths,
+      seed
+    }
+  }
+
+  private static buildDistribution(sorted: number[]): DistributionBin[] {
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+
+    if (max - min < 1e-9) {
+      return [{ pnlLow: min, pnlHigh: max, probability: 1 }]
+    }
+
+    const width = (max - min) / this.DISTRIBUTION_BINS
+    const counts = new Array(this.DISTRIBUTION_BINS).fill(0)
+    for (const pnl of sorted) {
+      counts[Math.min(this.DISTRIBUTION_BINS - 1, Math.floor((pnl - min) / width))]++
+    }
+
+    return counts.map((count, i) => ({
+      pnlLow: min + i * width,
+      pnlHigh: min + (i + 1) * width,
+      probability: count / sorted.length
+    }))
+  }
+
+  /**
+   * Value of the position once elapsed years have passed. Legs at or past
+   * their expiry count at their payoff.
+   */
+  private static markToModel(
+    legs: StrategyLeg[],
+    legExpiries: number[],
+    price: number,
+    elapsed: number,
+    riskFreeRate: number,
+    volatility: number,
+    dividendYield: number
+  ): number {
+    return legs.reduce((sum, leg, index) => {
+      const remaining = legExpiries[index] - elapsed
+      const value = leg.type === 'stock' || remaining <= 0
+        ? PayoffCalculationService.legValueAtExpiry(leg, price)
+        : this.blackScholesValue(leg, price, remaining, riskFreeRate, leg.impliedVolatility || volatility, dividendYield)
+      return sum + this.legSign(leg) * value * leg.quantity * PayoffCalculationService.contractMultiplier(leg)
+    }, 0)
+  }
+
+  private static blackScholesValue(
+    leg: StrategyLeg,
+    price: number,
+    timeToExpiry: number,
+    riskFreeRate: number,
+    volatility: number,
+    dividendYield: number
+  ): number {
+    const stdDev = volatility * Math.sqrt(timeToExpiry)
+    const discount = Math.exp(-riskFreeRate * timeToExpiry)
+    const dividendDiscount = Math.exp(-dividendYield * timeToExpiry)
+
+    const d1 = (Math.log(price / leg.strike) + (riskFreeRate - dividendYield) * timeToExpiry) / stdDev + 0.5 * stdDev
+    const d2 = d1 - stdDev
+    return leg.type === 'call'
+      ? price * dividendDiscount * normalCDF(d1) - leg.strike * discount * normalCDF(d2)
+      : leg.strike * discount * normalCDF(-d2) - price * dividendDiscount * normalCDF(-d1)
+  }
+
+  private static legSign(leg: StrategyLeg): number {
+    return leg.action === 'buy' ? 1 : -1
+  }
+
+  /**
+   * mulberry32: small, fast 32-bit PRNG with good statistical quality
+   */
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+
+  /**
+   * Box-Muller transform; caches the second variate of each pair
+   */
+  private static createNormalSampler(random: () => number): () => number {
+    let spare: number | null = null
+    return () => {
+      if (spare !== null) {
+        const value = spare
+        spare = null
+        return value
+      }
+      const u1 = Math.max(random(), Number.MIN_VALUE)
+      const u2 = random()
+      const radius = Math.sqrt(-2 * Math.log(u1))
+      spare = radius * Math.sin(2 * Math.PI * u2)
+      return radius * Math.cos(2 * Math.PI * u2)
+    }
+  }
+
+  private static samplePoisson(mean: number, random: () => number): number {
+    const limit = Math.exp(-mean)
+    let count = 0
+    let product = random()
+    while (product > limit) {
+      count++
+      product *= random()
+    }
+    return count
+  }
+}
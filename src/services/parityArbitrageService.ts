@@ -0,0 +1,317 @@
+import { presentValueOfDividends, DividendInputs } from './blackScholesService'
+import { DividendService } from './dividendService'
+import { RateCurveService } from './rateCurveService'
+
+export type ParityStructure = 'long-box' | 'short-box' | 'conversion' | 'reversal'
+
+export type EarlyExerciseRisk = 'none' | 'low' | 'high'
+
+export interface ParityQuoteContract {
+  ticker: string
+  underlying_ticker: string
+  contract_type: 'call' | 'put'
+  exercise_style?: 'american' | 'european'
+  strike_price: number
+  expiration_date: string
+  bid: number
+  ask: number
+}
+
+export interface ParityLeg {
+  instrument: 'call' | 'put' | 'stock'
+  action: 'buy' | 'sell'
+  contractTicker?: string
+  strike?: number
+  exerciseStyle?: 'american' | 'european'
+  price: number
+}
+
+export interface ParityArbitrage {
+  structure: ParityStructure
+  underlyingTicker: string
+  expirationDate: string
+  lowerStrike: number
+  upperStrike: number
+  timeToExpiry: number
+  legs: ParityLeg[]
+  // Per share: positive is cash paid today, negative is cash received
+  netCost: number
+  // Per share cash flow at expiry: positive is received, negative is paid
+  expiryCashFlow: number
+  // Continuously compounded rate the structure lends (long box, conversion) or borrows (short box, reversal) at
+  impliedRate: number
+  curveRate: number
+  // Present value profit per structure (100 shares) after crossing the spread on every leg
+  profit: number
+  earlyExerciseRisk: EarlyExerciseRisk
+  earlyExerciseNote: string
+}
+
+interface PricingContext {
+  spotPrice: number
+  timeToExpiry: number
+  rate: number
+  dividends: DividendInputs
+}
+
+/**
+ * Boxes, conversions and reversals priced at executable quotes: every leg is
+ * bought at the ask and sold at the bid. Each structure is a synthetic loan,
+ * so the edge is the gap between its implied financing rate and the rate
+ * curve at the expiry. Short American legs are flagged when early assignment
+ * would break the hedge before expiry.
+ */
+export class ParityArbitrageService {
+  static scan(
+    contracts: ParityQuoteContract[],
+    spotPrices: Record<string, number>,
+    riskFreeRate?: number,
+    minProfit: number = 0
+  ): ParityArbitrage[] {
+    const results: ParityArbitrage[] = []
+
+    for (const slice of this.groupSlices(contracts)) {
+      const spotPrice = spotPrices[slice.underlying]
+      if (!spotPrice) continue
+
+      const timeToExpiry = Math.max(1, (new Date(slice.expirationDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)) / 365
+      const rate = riskFreeRate ?? RateCurveService.getRate(timeToExpiry)
+      const dividends = DividendService.getDividendInputs(slice.underlying, timeToExpiry)
+      const context = { spotPrice, timeToExpiry, rate, dividends }
+
+      const strikes = Array.from(slice.pairs.keys()).sort((a, b) => a - b)
+      for (const strike of strikes) {
+        const pair = slice.pairs.get(strike)!
+        if (!pair.call || !pair.put) continue
+        results.push(...this.evaluateConversionReversal(pair.call, pair.put, context))
+      }
+
+      for (let i = 0; i < strikes.length; i++) {
+        const lower = slice.pairs.get(strikes[i])!
+        if (!lower.call || !lower.put) continue
+        for (let j = i + 1; j < strikes.length; j++) {
+          const upper = slice.pairs.get(strikes[j])!
+          if (!upper.call || !upper.put) continue
+          results.push(...this.evaluateBoxes(lower.call, lower.put, upper.call, upper.put, context))
+        }
+      }
+    }
+
+    return results
+      .filter(result => result.profit > minProfit)
+      .sort((a, b) => b.profit - a.profit)
+  }
+
+  /**
+   * Long box: buy K1 call, sell K2 call, buy K2 put, sell K1 put; receives
+   * K2 - K1 at expiry. The short box is the mirror image.
+   */
+  private static evaluateBoxes(
+    lowerCall: ParityQuoteContract,
+    lowerPut: ParityQuoteContract,
+    upperCall: ParityQuoteContract,
+    upperPut: ParityQuoteContract,
+    context: PricingContext
+  ): ParityArbitrage[] {
+    const { timeToExpiry, rate } = context
+    const width = upperCall.strike_price - lowerCall.strike_price
+    const discountedWidth = width * Math.exp(-rate * timeToExpiry)
+    const results: ParityArbitrage[] = []
+
+    const longCost = lowerCall.ask - upperCall.bid + upperPut.ask - lowerPut.bid
+    if (longCost > 0) {
+      const legs: ParityLeg[] = [
+        this.optionLeg(lowerCall, 'buy'),
+        this.optionLeg(upperCall, 'sell'),
+        this.optionLeg(upperPut, 'buy'),
+        this.optionLeg(lowerPut, 'sell')
+      ]
+      results.push(this.buildResult('long-box', lowerCall, longCost, width, legs, discountedWidth - longCost, context))
+    }
+
+    const shortCredit = lowerCall.bid - upperCall.ask + upperPut.bid - lowerPut.ask
+    if (shortCredit > 0) {
+      const legs: ParityLeg[] = [
+        this.optionLeg(lowerCall, 'sell'),
+        this.optionLeg(upperCall, 'buy'),
+        this.optionLeg(upperPut, 'sell'),
+        this.optionLeg(lowerPut, 'buy')
+      ]
+      results.push(this.buildResult('short-box', lowerCall, -shortCredit, -width, legs, shortCredit - discountedWidth, context))
+    }
+
+    return results
+  }
+
+  /**
+   * Conversion: long stock, short call, long put; delivers the stock at K.
+   * Reversal: short stock, long call, short put; buys the stock back at K.
+   * Dividends paid before expiry accrue to the long stock and are owed by
+   * the short.
+   */
+  private static evaluateConversionReversal(
+    call: ParityQuoteContract,
+    put: ParityQuoteContract,
+    context: PricingContext
+  ): ParityArbitrage[] {
+    const { spotPrice, timeToExpiry, rate } = context
+    const strike = call.strike_price
+    const discountedStrike = strike * Math.exp(-rate * timeToExpiry)
+    const dividendValue = this.presentValueOfAllDividends(context)
+    const results: ParityArbitrage[] = []
+
+    // Dividends are folded into today's cash flow at their present value
+    const conversionCost = spotPrice - call.bid + put.ask - dividendValue
+    if (conversionCost > 0) {
+      const legs: ParityLeg[] = [
+        { instrument: 'stock', action: 'buy', price: spotPrice },
+        this.optionLeg(call, 'sell'),
+        this.optionLeg(put, 'buy')
+      ]
+      results.push(this.buildResult('conversion', call, conversionCost, strike, legs, discountedStrike - conversionCost, context))
+    }
+
+    const reversalCredit = spotPrice - dividendValue - call.ask + put.bid
+    if (reversalCredit > 0) {
+      const legs: ParityLeg[] = [
+        { instrument: 'stock', action: 'sell', price: spotPrice },
+        this.optionLeg(call, 'buy'),
+        this.optionLeg(put, 'sell')
+      ]
+      results.push(this.buildResult('reversal', call, -reversalCredit, -strike, legs, reversalCredit - discountedStrike, context))
+    }
+
+    return results
+  }
+
+  private static buildResult(
+    structure: ParityStructure,
+    reference: ParityQuoteContract,
+    netCost: number,
+    expiryCashFlow: number,
+    legs: ParityLeg[],
+    profitPerShare: number,
+    context: PricingContext
+  ): ParityArbitrage {
+    const { timeToExpiry, rate } = context
+    const risk = this.assessEarlyExercise(legs, context)
+    const strikes = legs.filter(leg => leg.strike !== undefined).map(leg => leg.strike!)
+
+    return {
+      structure,
+      underlyingTicker: reference.underlying_ticker,
+      expirationDate: reference.expiration_date,
+      lowerStrike: Math.min(...strikes),
+      upperStrike: Math.max(...strikes),
+      timeToExpiry,
+      legs,
+      netCost,
+      expiryCashFlow,
+      impliedRate: Math.log(Math.abs(expiryCashFlow) / Math.abs(netCost)) / timeToExpiry,
+      curveRate: rate,
+      profit: profitPerShare * 100,
+      earlyExerciseRisk: risk.level,
+      earlyExerciseNote: risk.note
+    }
+  }
+
+  /**
+   * Short American calls are at risk ahead of an ex-dividend date when the
+   * dividend exceeds their time value; short American puts when deep enough
+   * in the money that the interest on the strike exceeds their time value.
+   */
+  private static assessEarlyExercise(
+    legs: ParityLeg[],
+    context: PricingContext
+  ): { level: EarlyExerciseRisk; note: string } {
+    const { spotPrice, timeToExpiry, rate, dividends } = context
+    let level: EarlyExerciseRisk = 'none'
+    const notes: string[] = []
+
+    for (const leg of legs) {
+      if (leg.action !== 'sell' || leg.instrument === 'stock' || leg.strike === undefined) continue
+      if (leg.exerciseStyle === 'european') continue
+
+      if (leg.instrument === 'call') {
+        const intrinsic = Math.max(0, spotPrice - leg.strike)
+        if (intrinsic <= 0) continue
+        const timeValue = Math.max(0, leg.price - intrinsic)
+        const nextDividend = (dividends.cashDividends || [])
+          .filter(dividend => dividend.time > 0 && dividend.time <= timeToExpiry)
+          .sort((a, b) => a.time - b.time)[0]
+
+        if (nextDividend && nextDividend.amount > timeValue) {
+          level = 'high'
+          notes.push(`Short ${leg.strike} call may be assigned before the $${nextDividend.amount.toFixed(2)} dividend`)
+        } else {
+          if (level === 'none') level = 'low'
+          notes.push(`Short ${leg.strike} call is in the money`)
+        }
+      } else {
+        const intrinsic = Math.max(0, leg.strike - spotPrice)
+        if (intrinsic <= 0) continue
+        const timeValue = Math.max(0, leg.price - intrinsic)
+        const strikeInterest = leg.strike * (1 - Math.exp(-rate * timeToExpiry))
+
+        if (strikeInterest > timeValue) {
+          level = 'high'
+          notes.push(`Short ${leg.strike} put is deep enough in the money for early assignment`)
+        } else {
+          if (level === 'none') level = 'low'
+          notes.push(`Short ${leg.strike} put is in the money`)
+        }
+      }
+    }
+
+    return {
+      level,
+      note: notes.length > 0 ? notes.join('; ') : 'No short legs at risk of early assignment'
+    }
+  }
+
+  private static presentValueOfAllDividends(context: PricingContext): number {
+    const { spotPrice, timeToExpiry, rate, dividends } = context
+    const cashValue = presentValueOfDividends(dividends.cashDividends, timeToExpiry, rate)
+    const yieldValue = (spotPrice - cashValue) * (1 - Math.exp(-(dividends.dividendYield || 0) * timeToExpiry))
+    return cashValue + yieldValue
+  }
+
+  private static optionLeg(contract: ParityQuoteContract, action: 'buy' | 'sell'): ParityLeg {
+    return {
+      instrument: contract.contract_type,
+      action,
+      contractTicker: contract.ticker,
+      strike: contract.strike_price,
+      exerciseStyle: contract.exercise_style,
+      price: action === 'buy' ? contract.ask : contract.bid
+    }
+  }
+
+  private static groupSlices(contracts: ParityQuoteContract[]): {
+    underlying: string
+    expirationDate: string
+    pairs: Map<number, { call?: ParityQuoteContract; put?: ParityQuoteContract }>
+  }[] {
+    const slices = new Map<string, {
+      underlying: string
+      expirationDate: string
+      pairs: Map<number, { call?: ParityQuoteContract; put?: ParityQuoteContract }>
+    }>()
+
+    for (const contract of contracts) {
+      // Only two-sided markets are executable
+      if (!(contract.bid > 0) || !(contract.ask >= contract.bid)) continue
+
+      const key = `${contract.underlying_ticker}-${contract.expiration_date}`
+      if (!slices.has(key)) {
+        slices.set(key, { underlying: contract.underlying_ticker, expirationDate: contract.expiration_date, pairs: new Map() })
+      }
+      const pairs = slices.get(key)!.pairs
+      const pair = pairs.get(contract.strike_price) || {}
+      pair[contract.contract_type] = contract
+      pairs.set(contract.strike_price, pair)
+    }
+
+    return Array.from(slices.values())
+  }
+}
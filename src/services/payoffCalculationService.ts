@@ -1,9 +1,24 @@
+import { BlackScholesService, shiftDividends } from './blackScholesService'
+import { DividendService } from './dividendService'
+import { GreeksCalculator } from './greeksCalculator'
+import { RateCurveService } from './rateCurveService'
+
+/**
+ * One leg of a strategy, with quantity in contracts (multiplier shares each,
+ * 100 unless set). Stock legs are quoted the same way: quantity is in lots of
+ * multiplier shares so one stock leg offsets one contract, premium is the
+ * entry price per share and strike is ignored.
+ */
 export interface StrategyLeg {
-  type: 'call' | 'put'
+  type: 'call' | 'put' | 'stock'
   strike: number
   premium: number
   action: 'buy' | 'sell'
   quantity: number
+  // Needed for time-sliced valuation; legs without an expiry are valued at intrinsic
+  expiry?: string
+  impliedVolatility?: number
+  multiplier?: number
 }
 
 export interface PayoffPoint {
@@ -13,81 +28,367 @@ export interface PayoffPoint {
 
 export interface StrategyPayoff {
   points: PayoffPoint[]
+  // Infinity / -Infinity when the corresponding flag is set
   maxProfit: number
   maxLoss: number
+  maxProfitUnbounded: boolean
+  maxLossUnbounded: boolean
   breakEvenPoints: number[]
+  // P&L change per $1 move below the lowest strike and above the highest strike
+  lowerTailSlope: number
+  upperTailSlope: number
   strategyName: string
 }
 
+export interface TimeSlice {
+  label: string
+  daysFromNow: number
+  points: PayoffPoint[]
+}
+
+export interface TimeSliceOptions {
+  // Extra T+k horizons in calendar days from today
+  daysForward?: number[]
+  // Used for legs without their own implied volatility
+  defaultVolatility?: number
+  // Absolute shift applied to every leg's volatility, e.g. 0.05 for +5 vol points
+  volatilityShift?: number
+  underlyingTicker?: string
+}
+
+/**
+ * Expiry P&L of an options strategy is piecewise linear in the underlying
+ * price with kinks only at strikes, so max profit/loss and breakevens are
+ * computed exactly from the kink values and the tail slopes. The sampled
+ * points are only used for charting.
+ */
 export class PayoffCalculationService {
+  private static readonly CHART_POINTS = 100
+  private static readonly SEARCH_POINTS = 400
+
+  /**
+   * P&L at expiry. When option legs expire on different dates (calendars,
+   * diagonals) this is the P&L at the front expiry, with the later legs
+   * valued theoretically for the time they have left.
+   */
   static calculatePayoff(
     legs: StrategyLeg[],
     underlyingPrice: number,
-    strategyName: string
+    strategyName: string,
+    options: TimeSliceOptions = {}
   ): StrategyPayoff {
-    const minStrike = Math.min(...legs.map(leg => leg.strike))
-    const maxStrike = Math.max(...legs.map(leg => leg.strike))
-
-    const range = maxStrike - minStrike
-    const startPrice = Math.max(0, minStrike - range * 0.5)
-    const endPrice = maxStrike + range * 0.5
+    const frontExpiryDays = this.getFrontExpiryDays(legs)
+    if (frontExpiryDays !== null) {
+      return this.calculateFrontExpiryPayoff(legs, underlyingPrice, strategyName, frontExpiryDays, options)
+    }
 
-    const points: PayoffPoint[] = []
-    const step = (endPrice - startPrice) / 100
+    const strikes = this.getKinkPoints(legs)
+    const kinks = [0, ...strikes.filter(strike => strike > 0)]
+    const kinkProfits = kinks.map(price => this.calculateProfitAtPrice(legs, price))
 
-    for (let price = startPrice; price <= endPrice; price += step) {
-      const profit = this.calculateProfitAtPrice(legs, price)
-      points.push({ price, profit })
-    }
+    const lowerTailSlope = this.slopeAt(legs, strikes.length > 0 ? strikes[0] / 2 : 0)
+    const upperTailSlope = this.slopeAt(legs, Infinity)
 
-    const profits = points.map(p => p.profit)
-    const maxProfit = Math.max(...profits)
-    const maxLoss = Math.min(...profits)
+    const maxProfitUnbounded = upperTailSlope > 0
+    const maxLossUnbounded = upperTailSlope < 0
+    const maxProfit = maxProfitUnbounded ? Infinity : Math.max(...kinkProfits)
+    const maxLoss = maxLossUnbounded ? -Infinity : Math.min(...kinkProfits)
 
-    const breakEvenPoints = this.findBreakEvenPoints(points)
+    const breakEvenPoints = this.findBreakEvenPoints(kinks, kinkProfits, upperTailSlope)
 
     return {
-      points,
+      points: this.buildChartPoints(underlyingPrice, strikes, breakEvenPoints, price => this.calculateProfitAtPrice(legs, price)),
       maxProfit,
       maxLoss,
+      maxProfitUnbounded,
+      maxLossUnbounded,
+      breakEvenPoints,
+      lowerTailSlope,
+      upperTailSlope,
+      strategyName
+    }
+  }
+
+  /**
+   * Days until the first option expiry when option legs expire on more than
+   * one date, otherwise null
+   */
+  static getFrontExpiryDays(legs: StrategyLeg[]): number | null {
+    const expiries = Array.from(new Set(legs
+      .filter(leg => leg.type !== 'stock' && leg.expiry)
+      .map(leg => leg.expiry!)))
+    if (expiries.length < 2) return null
+
+    return Math.min(...expiries.map(expiry => GreeksCalculator.calculateTimeToExpiry(expiry) * 365))
+  }
+
+  /**
+   * The front-expiry curve is smooth between strikes, so extremes and
+   * breakevens come from a dense grid, with breakevens refined by bisection.
+   * Far from the strikes the later legs trade close to intrinsic, so the
+   * tails use the intrinsic slopes.
+   */
+  private static calculateFrontExpiryPayoff(
+    legs: StrategyLeg[],
+    underlyingPrice: number,
+    strategyName: string,
+    frontExpiryDays: number,
+    options: TimeSliceOptions
+  ): StrategyPayoff {
+    const profitAt = (price: number) => this.calculateTheoreticalProfitAtPrice(legs, price, frontExpiryDays, options)
+    const strikes = this.getKinkPoints(legs)
+
+    const lowerTailSlope = this.slopeAt(legs, strikes.length > 0 ? strikes[0] / 2 : 0)
+    const upperTailSlope = this.slopeAt(legs, Infinity)
+    const maxProfitUnbounded = upperTailSlope > 0
+    const maxLossUnbounded = upperTailSlope < 0
+
+    const high = Math.max(underlyingPrice, ...strikes) * 2
+    const prices = [...strikes]
+    for (let i = 0; i <= this.SEARCH_POINTS; i++) {
+      prices.push(high * i / this.SEARCH_POINTS)
+    }
+    prices.sort((a, b) => a - b)
+    const profits = prices.map(profitAt)
+
+    const breakEvenPoints: number[] = []
+    for (let i = 0; i + 1 < prices.length; i++) {
+      if (profits[i] === 0) {
+        breakEvenPoints.push(prices[i])
+      } else if (profits[i] * profits[i + 1] < 0) {
+        let low = prices[i]
+        let up = prices[i + 1]
+        for (let iteration = 0; iteration < 40; iteration++) {
+          const mid = (low + up) / 2
+          if (profitAt(mid) * profits[i] > 0) low = mid
+          else up = mid
+        }
+        breakEvenPoints.push((low + up) / 2)
+      }
+    }
+    const lastProfit = profits[profits.length - 1]
+    if (upperTailSlope !== 0 && lastProfit * upperTailSlope < 0) {
+      breakEvenPoints.push(high - lastProfit / upperTailSlope)
+    }
+
+    return {
+      points: this.buildChartPoints(underlyingPrice, strikes, breakEvenPoints, profitAt),
+      maxProfit: maxProfitUnbounded ? Infinity : Math.max(...profits),
+      maxLoss: maxLossUnbounded ? -Infinity : Math.min(...profits),
+      maxProfitUnbounded,
+      maxLossUnbounded,
       breakEvenPoints,
+      lowerTailSlope,
+      upperTailSlope,
       strategyName
     }
   }
 
-  private static calculateProfitAtPrice(legs: StrategyLeg[], price: number): number {
+  /**
+   * P&L at the horizon calculatePayoff measures: expiry, or the front expiry
+   * when legs expire on different dates
+   */
+  static calculateExpiryProfitAtPrice(legs: StrategyLeg[], price: number, options: TimeSliceOptions = {}): number {
+    const frontExpiryDays = this.getFrontExpiryDays(legs)
+    return frontExpiryDays === null
+      ? this.calculateProfitAtPrice(legs, price)
+      : this.calculateTheoreticalProfitAtPrice(legs, price, frontExpiryDays, options)
+  }
+
+  /**
+   * Shares per contract (or per stock lot)
+   */
+  static contractMultiplier(leg: StrategyLeg): number {
+    return leg.multiplier ?? 100
+  }
+
+  /**
+   * Theoretical P&L curves at today, each requested T+k and each leg's own
+   * expiry. Every leg is priced with its own remaining time, IV and rate from
+   * the curve; legs that have expired by a horizon count at intrinsic value.
+   * Points share the price grid of calculatePayoff for the same inputs.
+   */
+  static calculateTimeSlices(
+    legs: StrategyLeg[],
+    underlyingPrice: number,
+    options: TimeSliceOptions = {}
+  ): TimeSlice[] {
+    const prices = this.calculatePayoff(legs, underlyingPrice, '', options).points.map(point => point.price)
+
+    const horizons = new Map<number, string>()
+    horizons.set(0, 'Today')
+    for (const days of options.daysForward || []) {
+      if (days > 0 && !horizons.has(days)) horizons.set(days, `T+${days}`)
+    }
+    for (const leg of legs) {
+      if (!leg.expiry) continue
+      const days = Math.round(GreeksCalculator.calculateTimeToExpiry(leg.expiry) * 365 * 100) / 100
+      horizons.set(days, `Expiry ${leg.expiry}`)
+    }
+
+    return Array.from(horizons.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([daysFromNow, label]) => ({
+        label,
+        daysFromNow,
+        points: prices.map(price => ({
+          price,
+          profit: this.calculateTheoreticalProfitAtPrice(legs, price, daysFromNow, options)
+        }))
+      }))
+  }
+
+  static calculateTheoreticalProfitAtPrice(
+    legs: StrategyLeg[],
+    price: number,
+    daysFromNow: number,
+    options: TimeSliceOptions = {}
+  ): number {
+    let totalProfit = 0
+
+    for (const leg of legs) {
+      const value = this.legValueAtHorizon(leg, price, daysFromNow / 365, options)
+
+      const legProfit = leg.action === 'buy'
+        ? (value - leg.premium) * leg.quantity
+        : (leg.premium - value) * leg.quantity
+
+      totalProfit += legProfit * this.contractMultiplier(leg)
+    }
+
+    return totalProfit
+  }
+
+  private static legValueAtHorizon(leg: StrategyLeg, price: number, elapsed: number, options: TimeSliceOptions): number {
+    if (leg.type === 'stock' || !leg.expiry) return this.legValueAtExpiry(leg, price)
+
+    const timeToExpiry = GreeksCalculator.calculateTimeToExpiry(leg.expiry)
+    const remaining = timeToExpiry - elapsed
+    if (remaining <= 0 || price <= 0) return this.legValueAtExpiry(leg, price)
+
+    const volatility = Math.max(0.01, (leg.impliedVolatility || options.defaultVolatility || 0.3) + (options.volatilityShift || 0))
+    const dividends = shiftDividends(DividendService.getDividendInputs(options.underlyingTicker, timeToExpiry), elapsed)
+
+    return BlackScholesService.calculateOptionPrice(
+      price,
+      leg.strike,
+      remaining,
+      RateCurveService.getRate(remaining),
+      volatility,
+      leg.type === 'call',
+      dividends
+    ).price
+  }
+
+  static calculateProfitAtPrice(legs: StrategyLeg[], price: number): number {
     let totalProfit = 0
 
     for (const leg of legs) {
-      const intrinsicValue = leg.type === 'call'
-        ? Math.max(0, price - leg.strike)
-        : Math.max(0, leg.strike - price)
+      const value = this.legValueAtExpiry(leg, price)
 
       const legProfit = leg.action === 'buy'
-        ? (intrinsicValue - leg.premium) * leg.quantity
-        : (leg.premium - intrinsicValue) * leg.quantity
+        ? (value - leg.premium) * leg.quantity
+        : (leg.premium - value) * leg.quantity
 
-      totalProfit += legProfit * 100
+      totalProfit += legProfit * this.contractMultiplier(leg)
     }
 
     return totalProfit
   }
 
-  private static findBreakEvenPoints(points: PayoffPoint[]): number[] {
+  /**
+   * Per-share value of a leg at expiry: intrinsic value for options, the
+   * share price itself for stock
+   */
+  static legValueAtExpiry(leg: StrategyLeg, price: number): number {
+    if (leg.type === 'stock') return price
+    return leg.type === 'call'
+      ? Math.max(0, price - leg.strike)
+      : Math.max(0, leg.strike - price)
+  }
+
+  /**
+   * Sorted, de-duplicated option strikes where the payoff can change slope
+   */
+  static getKinkPoints(legs: StrategyLeg[]): number[] {
+    return Array.from(new Set(legs.filter(leg => leg.type !== 'stock').map(leg => leg.strike))).sort((a, b) => a - b)
+  }
+
+  /**
+   * dP&L/dS at a price that is not itself a strike. Infinity gives the slope
+   * above every strike.
+   */
+  private static slopeAt(legs: StrategyLeg[], price: number): number {
+    return legs.reduce((slope, leg) => {
+      let legSlope: number
+      if (leg.type === 'stock') legSlope = 1
+      else if (leg.type === 'call') legSlope = price > leg.strike ? 1 : 0
+      else legSlope = price < leg.strike ? -1 : 0
+
+      return slope + (leg.action === 'buy' ? legSlope : -legSlope) * leg.quantity * this.contractMultiplier(leg)
+    }, 0)
+  }
+
+  private static findBreakEvenPoints(kinks: number[], kinkProfits: number[], upperTailSlope: number): number[] {
     const breakEvens: number[] = []
+    const tolerance = 1e-9
+    const add = (price: number) => {
+      if (!breakEvens.some(existing => Math.abs(existing - price) < 1e-6)) breakEvens.push(price)
+    }
 
-    for (let i = 1; i < points.length; i++) {
-      const prev = points[i - 1]
-      const curr = points[i]
+    for (let i = 0; i < kinks.length; i++) {
+      const profit = kinkProfits[i]
 
-      if ((prev.profit < 0 && curr.profit >= 0) || (prev.profit >= 0 && curr.profit < 0)) {
-        const ratio = Math.abs(prev.profit) / (Math.abs(prev.profit) + Math.abs(curr.profit))
-        const breakEven = prev.price + (curr.price - prev.price) * ratio
-        breakEvens.push(breakEven)
+      // A kink sitting exactly at zero only counts if the P&L actually crosses there
+      if (Math.abs(profit) < tolerance) {
+        const before = i > 0 ? kinkProfits[i - 1] : 0
+        const after = i < kinks.length - 1 ? kinkProfits[i + 1] : upperTailSlope
+        if (before * after < 0) add(kinks[i])
+        continue
       }
+
+      if (i < kinks.length - 1) {
+        const next = kinkProfits[i + 1]
+        if (Math.abs(next) >= tolerance && profit * next < 0) {
+          add(kinks[i] + (kinks[i + 1] - kinks[i]) * profit / (profit - next))
+        }
+      } else if (upperTailSlope !== 0 && profit * upperTailSlope < 0) {
+        add(kinks[i] - profit / upperTailSlope)
+      }
+    }
+
+    return breakEvens.sort((a, b) => a - b)
+  }
+
+  /**
+   * Evenly spaced points covering every strike, breakeven and the current
+   * price, plus the strikes themselves so the chart is exact at the kinks
+   */
+  private static buildChartPoints(
+    underlyingPrice: number,
+    strikes: number[],
+    breakEvenPoints: number[],
+    profitAt: (price: number) => number
+  ): PayoffPoint[] {
+    const anchors = [...strikes, ...breakEvenPoints]
+    if (underlyingPrice > 0) anchors.push(underlyingPrice)
+    if (anchors.length === 0) return []
+
+    const low = Math.min(...anchors)
+    const high = Math.max(...anchors)
+    const padding = Math.max((high - low) * 0.5, high * 0.1, 1)
+    const startPrice = Math.max(0, low - padding)
+    const endPrice = high + padding
+    const step = (endPrice - startPrice) / this.CHART_POINTS
+
+    const prices: number[] = []
+    for (let i = 0; i <= this.CHART_POINTS; i++) {
+      prices.push(startPrice + i * step)
     }
+    prices.push(...strikes.filter(strike => strike >= startPrice && strike <= endPrice))
+    prices.sort((a, b) => a - b)
 
-    return breakEvens
+    return prices.map(price => ({ price, profit: profitAt(price) }))
   }
 
   static getBullCallSpread(
@@ -233,17 +534,11 @@ export class PayoffCalculationService {
     const cPremium = premium || underlyingPrice * 0.03
 
     const legs: StrategyLeg[] = [
+      { type: 'stock', strike: underlyingPrice, premium: underlyingPrice, action: 'buy', quantity: 1 },
       { type: 'call', strike: cStrike, premium: cPremium, action: 'sell', quantity: 1 }
     ]
 
-    const payoff = this.calculatePayoff(legs, underlyingPrice, 'Covered Call')
-
-    payoff.points = payoff.points.map(point => ({
-      price: point.price,
-      profit: point.profit + (point.price - underlyingPrice) * 100
-    }))
-
-    return payoff
+    return this.calculatePayoff(legs, underlyingPrice, 'Covered Call')
   }
 
   static getStrategyByName(
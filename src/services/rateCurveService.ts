@@ -0,0 +1,147 @@
+import treasuryYieldCurve from '../data/treasuryYieldCurve.json'
+
+export interface RatePoint {
+  tenor: string
+  years: number
+  rate: number
+}
+
+export interface RateCurve {
+  asOf: string
+  source: string
+  points: RatePoint[]
+}
+
+/**
+ * Per-account override. A flat rate replaces the curve entirely; otherwise
+ * the account's edited points replace the seed curve.
+ */
+export interface AccountRateOverride {
+  flatRate?: number
+  points?: RatePoint[]
+}
+
+/**
+ * Risk-free rate term structure used by every pricing path.
+ *
+ * The seed curve is US Treasury par yields (bond-equivalent, semi-annual
+ * compounding). Rates are interpolated linearly in maturity and converted to
+ * continuous compounding, which is what the pricing formulas expect. Beyond
+ * the first and last points the curve is held flat.
+ */
+export class RateCurveService {
+  private static readonly STORAGE_PREFIX = 'rateCurveOverride'
+  private static readonly ANONYMOUS_ACCOUNT = 'default'
+
+  private static activeAccountId: string = 'default'
+  private static overrideCache: Map<string, AccountRateOverride | null> = new Map()
+
+  static getSeedCurve(): RateCurve {
+    return {
+      asOf: treasuryYieldCurve.asOf,
+      source: treasuryYieldCurve.source,
+      points: treasuryYieldCurve.points.map(point => ({ ...point }))
+    }
+  }
+
+  /**
+   * Called on sign-in/sign-out so overrides follow the logged-in account
+   */
+  static setActiveAccount(accountId: string | null): void {
+    this.activeAccountId = accountId || this.ANONYMOUS_ACCOUNT
+  }
+
+  static getActiveCurve(): RateCurve {
+    const override = this.getAccountOverride()
+    const seed = this.getSeedCurve()
+
+    if (override?.flatRate !== undefined) {
+      return {
+        asOf: seed.asOf,
+        source: 'Account flat-rate override',
+        points: [{ tenor: 'Flat', years: 1, rate: override.flatRate }]
+      }
+    }
+
+    if (override?.points && override.points.length > 0) {
+      return {
+        asOf: seed.asOf,
+        source: 'Account curve override',
+        points: [...override.points].sort((a, b) => a.years - b.years)
+      }
+    }
+
+    return seed
+  }
+
+  /**
+   * Continuously compounded risk-free rate for an option expiring in
+   * timeToExpiry years
+   */
+  static getRate(timeToExpiry: number): number {
+    const points = this.getActiveCurve().points
+    if (points.length === 0) return 0
+
+    const yieldAtMaturity = this.interpolate(points, Math.max(0, timeToExpiry))
+    return 2 * Math.log(1 + yieldAtMaturity / 2)
+  }
+
+  static getRateForExpiry(expirationDate: string): number {
+    const timeToExpiry = (new Date(expirationDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24 * 365)
+    return this.getRate(timeToExpiry)
+  }
+
+  static getAccountOverride(accountId: string = this.activeAccountId): AccountRateOverride | null {
+    if (this.overrideCache.has(accountId)) {
+      return this.overrideCache.get(accountId) || null
+    }
+
+    let override: AccountRateOverride | null = null
+    try {
+      const stored = localStorage.getItem(`${this.STORAGE_PREFIX}:${accountId}`)
+      override = stored ? JSON.parse(stored) : null
+    } catch (error) {
+      override = null
+    }
+
+    this.overrideCache.set(accountId, override)
+    return override
+  }
+
+  static setAccountOverride(override: AccountRateOverride | null, accountId: string = this.activeAccountId): void {
+    if (override?.flatRate !== undefined && !isFinite(override.flatRate)) {
+      throw new Error('Invalid flat rate')
+    }
+    if (override?.points) {
+      const invalid = override.points.find(point => !(point.years > 0) || !isFinite(point.rate))
+      if (invalid) {
+        throw new Error(`Invalid rate curve point: ${invalid.tenor}`)
+      }
+    }
+
+    this.overrideCache.set(accountId, override)
+    try {
+      if (override) {
+        localStorage.setItem(`${this.STORAGE_PREFIX}:${accountId}`, JSON.stringify(override))
+      } else {
+        localStorage.removeItem(`${this.STORAGE_PREFIX}:${accountId}`)
+      }
+    } catch (error) {
+      console.error('Failed to persist rate curve override:', error)
+    }
+  }
+
+  private static interpolate(points: RatePoint[], years: number): number {
+    if (years <= points[0].years) return points[0].rate
+
+    const last = points[points.length - 1]
+    if (years >= last.years) return last.rate
+
+    const upperIndex = points.findIndex(point => point.years >= years)
+    const lower = points[upperIndex - 1]
+    const upper = points[upperIndex]
+    const weight = (years - lower.years) / (upper.years - lower.years)
+
+    return lower.rate + weight * (upper.rate - lower.rate)
+  }
+}
@@ -0,0 +1,232 @@
+import type { HistoricalData } from '../types/options'
+import { HistoricalDataService } from './historicalDataService'
+
+export type RealizedVolEstimator =
+  | 'close-to-close'
+  | 'parkinson'
+  | 'garman-klass'
+  | 'rogers-satchell'
+  | 'yang-zhang'
+
+export const REALIZED_VOL_ESTIMATORS: RealizedVolEstimator[] = [
+  'close-to-close',
+  'parkinson',
+  'garman-klass',
+  'rogers-satchell',
+  'yang-zhang'
+]
+
+export const REALIZED_VOL_ESTIMATOR_LABELS: Record<RealizedVolEstimator, string> = {
+  'close-to-close': 'Close-to-Close',
+  parkinson: 'Parkinson',
+  'garman-klass': 'Garman-Klass',
+  'rogers-satchell': 'Rogers-Satchell',
+  'yang-zhang': 'Yang-Zhang'
+}
+
+export interface VolatilityConePoint {
+  window: number
+  min: number
+  p25: number
+  median: number
+  p75: number
+  max: number
+  current: number
+}
+
+/**
+ * Realized volatility estimators over daily OHLC bars.
+ *
+ * Windows are counted in trading days and every estimate is annualized with
+ * 252 trading days. Close-to-close and Yang-Zhang use the previous close, so
+ * they need one bar more than the window.
+ */
+export class RealizedVolatilityService {
+  static readonly TRADING_DAYS_PER_YEAR = 252
+  static readonly DEFAULT_WINDOWS = [10, 20, 30, 60, 90]
+
+  // Calendar days of history to request for a full cone over the longest window
+  private static readonly DEFAULT_LOOKBACK_DAYS = 400
+
+  private static barCache: Map<string, HistoricalData[]> = new Map()
+
+  static async loadBars(ticker: string, lookbackDays: number = this.DEFAULT_LOOKBACK_DAYS): Promise<HistoricalData[]> {
+    const cached = this.barCache.get(ticker)
+    if (cached) return cached
+
+    const bars = (await HistoricalDataService.getHistoricalData(ticker, lookbackDays))
+      .filter(bar => bar.open > 0 && bar.high > 0 && bar.low > 0 && bar.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    this.barCache.set(ticker, bars)
+    return bars
+  }
+
+  /**
+   * Latest realized volatility for each ticker; tickers without enough
+   * history are left out
+   */
+  static async getRealizedVolatilities(
+    tickers: string[],
+    estimator: RealizedVolEstimator = 'yang-zhang',
+    window: number = 30
+  ): Promise<Record<string, number>> {
+    const results: Record<string, number> = {}
+
+    await Promise.all(tickers.map(async ticker => {
+      const value = this.calculate(await this.loadBars(ticker), estimator, window)
+      if (value !== null) results[ticker] = value
+    }))
+
+    return results
+  }
+
+  /**
+   * Annualized volatility over the most recent `window` bars, or null when
+   * there is not enough history
+   */
+  static calculate(bars: HistoricalData[], estimator: RealizedVolEstimator, window: number): number | null {
+    const needed = this.usesPreviousClose(estimator) ? window + 1 : window
+    if (window < 2 || bars.length < needed) return null
+
+    const variance = this.dailyVariance(bars.slice(bars.length - needed), estimator)
+    return variance === null || variance < 0 ? null : Math.sqrt(variance * this.TRADING_DAYS_PER_YEAR)
+  }
+
+  /**
+   * Every estimator at every window, keyed by estimator then window
+   */
+  static calculateAll(
+    bars: HistoricalData[],
+    windows: number[] = this.DEFAULT_WINDOWS
+  ): Record<RealizedVolEstimator, Record<number, number | null>> {
+    const results = {} as Record<RealizedVolEstimator, Record<number, number | null>>
+
+    for (const estimator of REALIZED_VOL_ESTIMATORS) {
+      results[estimator] = {}
+      for (const window of windows) {
+        results[estimator][window] = this.calculate(bars, estimator, window)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Rolling estimates over non-overlapping windows, oldest first. Non-overlapping
+   * windows keep the cone percentiles from being dominated by autocorrelation.
+   */
+  static rollingSeries(bars: HistoricalData[], estimator: RealizedVolEstimator, window: number): number[] {
+    const needed = this.usesPreviousClose(estimator) ? window + 1 : window
+    const series: number[] = []
+
+    for (let end = bars.length; end - needed >= 0; end -= window) {
+      const variance = this.dailyVariance(bars.slice(end - needed, end), estimator)
+      if (variance !== null && variance >= 0) {
+        series.push(Math.sqrt(variance * this.TRADING_DAYS_PER_YEAR))
+      }
+    }
+
+    return series.reverse()
+  }
+
+  /**
+   * Volatility cone: distribution of historical realized volatility at each
+   * window length, alongside the current value
+   */
+  static buildCone(
+    bars: HistoricalData[],
+    estimator: RealizedVolEstimator = 'yang-zhang',
+    windows: number[] = this.DEFAULT_WINDOWS
+  ): VolatilityConePoint[] {
+    const cone: VolatilityConePoint[] = []
+
+    for (const window of windows) {
+      const series = this.rollingSeries(bars, estimator, window)
+      if (series.length === 0) continue
+
+      const sorted = [...series].sort((a, b) => a - b)
+      cone.push({
+        window,
+        min: sorted[0],
+        p25: this.percentile(sorted, 0.25),
+        median: this.percentile(sorted, 0.5),
+        p75: this.percentile(sorted, 0.75),
+        max: sorted[sorted.length - 1],
+        current: series[series.length - 1]
+      })
+    }
+
+    return cone
+  }
+
+  private static usesPreviousClose(estimator: RealizedVolEstimator): boolean {
+    return estimator === 'close-to-close' || estimator === 'yang-zhang'
+  }
+
+  private static dailyVariance(bars: HistoricalData[], estimator: RealizedVolEstimator): number | null {
+    switch (estimator) {
+      case 'close-to-close': {
+        const returns = bars.slice(1).map((bar, i) => Math.log(bar.close / bars[i].close))
+        return this.sampleVariance(returns)
+      }
+
+      case 'parkinson': {
+        const sum = bars.reduce((total, bar) => total + Math.log(bar.high / bar.low) ** 2, 0)
+        return sum / (4 * Math.LN2 * bars.length)
+      }
+
+      case 'garman-klass': {
+        const sum = bars.reduce((total, bar) => {
+          const highLow = Math.log(bar.high / bar.low)
+          const closeOpen = Math.log(bar.close / bar.open)
+          return total + 0.5 * highLow * highLow - (2 * Math.LN2 - 1) * closeOpen * closeOpen
+        }, 0)
+        return sum / bars.length
+      }
+
+      case 'rogers-satchell':
+        return this.rogersSatchellVariance(bars)
+
+      case 'yang-zhang': {
+        const current = bars.slice(1)
+        const n = current.length
+        if (n < 2) return null
+
+        const overnight = current.map((bar, i) => Math.log(bar.open / bars[i].close))
+        const openToClose = current.map(bar => Math.log(bar.close / bar.open))
+        const overnightVariance = this.sampleVariance(overnight)
+        const openToCloseVariance = this.sampleVariance(openToClose)
+        const rogersSatchell = this.rogersSatchellVariance(current)
+        if (overnightVariance === null || openToCloseVariance === null || rogersSatchell === null) return null
+
+        const k = 0.34 / (1.34 + (n + 1) / (n - 1))
+        return overnightVariance + k * openToCloseVariance + (1 - k) * rogersSatchell
+      }
+    }
+  }
+
+  private static rogersSatchellVariance(bars: HistoricalData[]): number | null {
+    if (bars.length === 0) return null
+
+    const sum = bars.reduce((total, bar) =>
+      total +
+      Math.log(bar.high / bar.close) * Math.log(bar.high / bar.open) +
+      Math.log(bar.low / bar.close) * Math.log(bar.low / bar.open), 0)
+    return sum / bars.length
+  }
+
+  private static sampleVariance(values: number[]): number | null {
+    if (values.length < 2) return null
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+    return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+  }
+
+  private static percentile(sorted: number[], p: number): number {
+    const position = p * (sorted.length - 1)
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+}
@@ -1,5 +1,7 @@
 import { supabase } from '../lib/supabase'
 import type { StrategyLeg, ValidationResult } from './strategyValidationService'
+import type { StrategyLeg as PayoffLeg } from './payoffCalculationService'
+import { StrategyFormatService, type PortableStrategy } from './strategyFormatService'
 
 export interface SavedStrategy {
   id: string
@@ -8,15 +10,36 @@ export interface SavedStrategy {
   custom_name?: string
   underlying_ticker: string
   expiration_date: string
-  legs: StrategyLeg[]
+  // The strategy builder stores payoff legs; older rows store chain contracts
+  legs: Array<StrategyLeg | PayoffLeg>
   validation_result?: ValidationResult
   notes?: string
+  // Describes the version a write records; the trigger clears it once used
+  version_note?: string
   is_favorite: boolean
   is_template: boolean
   created_at: string
   updated_at: string
 }
 
+// Immutable snapshot of a saved strategy, recorded by a database trigger on
+// every save that changes it
+export interface StrategyVersion {
+  id: string
+  strategy_id: string
+  user_id: string
+  version_number: number
+  note?: string
+  strategy_name: string
+  custom_name?: string
+  underlying_ticker: string
+  expiration_date: string
+  legs: Array<StrategyLeg | PayoffLeg>
+  validation_result?: ValidationResult
+  notes?: string
+  created_at: string
+}
+
 export interface StrategyTemplate {
   id: string
   name: string
@@ -93,13 +116,19 @@ export class SavedStrategiesService {
     return data
   }
 
+  /**
+   * Snapshot changes are recorded as a new version by a database trigger,
+   * with note as its description. The trigger clears the note once used, so
+   * it is only sent when given.
+   */
   static async updateStrategy(
     strategyId: string,
-    updates: Partial<SavedStrategy>
+    updates: Partial<SavedStrategy>,
+    note?: string
   ): Promise<SavedStrategy> {
     const { data, error } = await supabase
       .from('saved_strategies')
-      .update(updates)
+      .update(note === undefined ? updates : { ...updates, version_note: note })
       .eq('id', strategyId)
       .select()
       .maybeSingle()
@@ -110,6 +139,43 @@ export class SavedStrategiesService {
     return data
   }
 
+  static async getVersions(strategyId: string): Promise<StrategyVersion[]> {
+    const { data, error } = await supabase
+      .from('strategy_versions')
+      .select('*')
+      .eq('strategy_id', strategyId)
+      .order('version_number', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  /**
+   * Copies an older version back onto the strategy. The restore itself is
+   * recorded as a new version, so no history is lost.
+   */
+  static async restoreVersion(strategyId: string, versionId: string): Promise<SavedStrategy> {
+    const { data: version, error } = await supabase
+      .from('strategy_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('strategy_id', strategyId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!version) throw new Error('Strategy version not found')
+
+    return this.updateStrategy(strategyId, {
+      strategy_name: version.strategy_name,
+      custom_name: version.custom_name,
+      underlying_ticker: version.underlying_ticker,
+      expiration_date: version.expiration_date,
+      legs: version.legs,
+      validation_result: version.validation_result,
+      notes: version.notes
+    }, `Restored version ${version.version_number}`)
+  }
+
   static async deleteStrategy(strategyId: string): Promise<void> {
     const { error } = await supabase
       .from('saved_strategies')
@@ -280,4 +346,57 @@ export class SavedStrategiesService {
 
     return this.saveStrategy(duplicate)
   }
+
+  /**
+   * Saved legs as payoff legs whatever shape they were stored in. Option legs
+   * saved without their own expiry take the strategy's expiration date.
+   */
+  static toPayoffLegs(strategy: Pick<SavedStrategy, 'legs' | 'expiration_date'>): PayoffLeg[] {
+    return strategy.legs.map((leg): PayoffLeg => {
+      if ('contract' in leg) {
+        return {
+          type: leg.contract.contract_type,
+          strike: leg.contract.strike_price,
+          premium: leg.contract.last,
+          action: leg.action,
+          quantity: leg.quantity,
+          expiry: leg.contract.expiration_date,
+          impliedVolatility: leg.contract.implied_volatility || undefined
+        }
+      }
+      return leg.type === 'stock' || leg.expiry ? leg : { ...leg, expiry: strategy.expiration_date }
+    })
+  }
+
+  static exportStrategy(strategy: SavedStrategy): PortableStrategy {
+    return StrategyFormatService.fromPayoffLegs(
+      strategy.custom_name || strategy.strategy_name,
+      strategy.underlying_ticker,
+      this.toPayoffLegs(strategy),
+      strategy.expiration_date,
+      strategy.notes
+    )
+  }
+
+  /**
+   * Parse a JSON or text strategy definition and save it for the user
+   */
+  static async importStrategy(text: string, userId: string, name?: string): Promise<SavedStrategy> {
+    const { strategy, errors } = StrategyFormatService.parse(text, name)
+    if (!strategy) throw new Error(`Invalid strategy: ${errors.join('; ')}`)
+
+    const legs = StrategyFormatService.toPayoffLegs(strategy)
+    const expiries = legs.map(leg => leg.expiry).filter((expiry): expiry is string => !!expiry).sort()
+
+    return this.saveStrategy({
+      user_id: userId,
+      strategy_name: strategy.name || name || 'Imported Strategy',
+      underlying_ticker: strategy.underlying,
+      expiration_date: expiries[0] || new Date().toISOString().split('T')[0],
+      legs,
+      notes: strategy.notes,
+      is_favorite: false,
+      is_template: false
+    })
+  }
 }
@@ -0,0 +1,440 @@
+import type { StrategyLeg } from './payoffCalculationService'
+
+export type StrategyFamily =
+  | 'single'
+  | 'stock'
+  | 'vertical'
+  | 'ratio'
+  | 'volatility'
+  | 'synthetic'
+  | 'butterfly'
+  | 'condor'
+  | 'combination'
+  | 'box'
+  | 'calendar'
+  | 'diagonal'
+  | 'custom'
+
+export interface StrategyClassification {
+  name: string
+  family: StrategyFamily
+  // 1 for a textbook match, lower for recognizable variants (odd ratios, uneven wings), 0 when unrecognized
+  confidence: number
+  // Name, strikes and expiries in a canonical form, e.g. "Iron Condor 90/95/105/110 2026-11-20 x2"
+  description: string
+  // How many times the normalized structure is held
+  size: number
+}
+
+interface NormalizedLeg {
+  type: 'call' | 'put'
+  strike: number
+  expiry: string
+  // Signed: positive long, negative short, in units of the structure
+  quantity: number
+}
+
+interface StructureMatch {
+  name: string
+  family: StrategyFamily
+  confidence: number
+}
+
+/**
+ * Identifies the structure of an arbitrary leg set.
+ *
+ * Legs are first netted (same type, strike and expiry) and scaled down by the
+ * greatest common quantity, so two iron condors or a condor entered leg by
+ * leg classify the same as one. Stock legs are in 100-share lots, matching
+ * StrategyLeg. Anything that does not match a known shape comes back as
+ * "Custom" with zero confidence.
+ */
+export class StrategyClassifierService {
+  static classify(legs: StrategyLeg[]): StrategyClassification {
+    const { options, stock, size } = this.normalize(legs)
+
+    if (options.length === 0 && stock === 0) {
+      return { name: 'No Position', family: 'custom', confidence: 0, description: 'No open legs', size: 0 }
+    }
+
+    const expiries = Array.from(new Set(options.map(leg => leg.expiry))).sort()
+    let match: StructureMatch | null = null
+
+    if (stock !== 0) {
+      match = this.matchStockStructure(options, stock)
+      // Hedges spread across expiries are recognisable but not textbook
+      if (match && expiries.length > 1) match = { ...match, confidence: match.confidence * 0.85 }
+    } else if (expiries.length === 1) {
+      match = this.matchSingleExpiry(options)
+    } else if (expiries.length === 2) {
+      match = this.matchTwoExpiries(options)
+    }
+
+    if (!match) {
+      return {
+        name: 'Custom',
+        family: 'custom',
+        confidence: 0,
+        description: this.describeLegs(options, stock),
+        size
+      }
+    }
+
+    const strikes = Array.from(new Set(options.map(leg => leg.strike))).sort((a, b) => a - b)
+    const parts = [match.name]
+    if (strikes.length > 0) parts.push(strikes.join('/'))
+    const expiryLabel = expiries.filter(expiry => expiry).join('/')
+    if (expiryLabel) parts.push(expiryLabel)
+    if (size > 1) parts.push(`x${size}`)
+
+    return { ...match, description: parts.join(' '), size }
+  }
+
+  private static normalize(legs: StrategyLeg[]): { options: NormalizedLeg[]; stock: number; size: number } {
+    const net = new Map<string, NormalizedLeg>()
+    let stock = 0
+
+    for (const leg of legs) {
+      const signed = (leg.action === 'buy' ? 1 : -1) * leg.quantity
+      if (leg.type === 'stock') {
+        stock += signed
+        continue
+      }
+
+      const key = `${leg.type}|${leg.strike}|${leg.expiry || ''}`
+      const existing = net.get(key)
+      if (existing) {
+        existing.quantity += signed
+      } else {
+        net.set(key, { type: leg.type, strike: leg.strike, expiry: leg.expiry || '', quantity: signed })
+      }
+    }
+
+    const options = Array.from(net.values())
+      .filter(leg => leg.quantity !== 0)
+      .sort((a, b) => a.expiry.localeCompare(b.expiry) || a.strike - b.strike || a.type.localeCompare(b.type))
+
+    const quantities = [...options.map(leg => leg.quantity), stock].filter(quantity => quantity !== 0)
+    const integral = quantities.every(quantity => Number.isInteger(quantity))
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b)
+    const size = integral && quantities.length > 0
+      ? quantities.map(Math.abs).reduce((result, value) => gcd(result, value))
+      : 1
+
+    return {
+      options: options.map(leg => ({ ...leg, quantity: leg.quantity / size })),
+      stock: stock / size,
+      size
+    }
+  }
+
+  private static matchSingleExpiry(options: NormalizedLeg[]): StructureMatch | null {
+    const calls = options.filter(leg => leg.type === 'call')
+    const puts = options.filter(leg => leg.type === 'put')
+
+    switch (options.length) {
+      case 1: {
+        const [leg] = options
+        return { name: `${leg.quantity > 0 ? 'Long' : 'Short'} ${this.typeLabel(leg.type)}`, family: 'single', confidence: 1 }
+      }
+      case 2:
+        return calls.length === 1
+          ? this.matchCallPut(calls[0], puts[0])
+          : this.matchSameTypePair(options[0], options[1])
+      case 3:
+        if (calls.length === 3 || puts.length === 3) return this.matchThreeSameType(options)
+        return this.matchThreeMixed(calls, puts)
+      case 4:
+        if (calls.length === 2) return this.matchFourMixed(calls, puts)
+        if (calls.length === 4 || puts.length === 4) return this.matchCondor(options)
+        return null
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Verticals for equal quantities, ratio spreads otherwise. Legs are sorted
+   * by strike.
+   */
+  private static matchSameTypePair(lower: NormalizedLeg, upper: NormalizedLeg): StructureMatch | null {
+    if (Math.sign(lower.quantity) === Math.sign(upper.quantity)) return null
+    const type = this.typeLabel(lower.type)
+    const isCall = lower.type === 'call'
+
+    if (Math.abs(lower.quantity) === Math.abs(upper.quantity)) {
+      const bullish = isCall ? lower.quantity > 0 : upper.quantity < 0
+      return {
+        name: `${bullish ? 'Bull' : 'Bear'} ${type} Spread`,
+        family: 'vertical',
+        confidence: 1
+      }
+    }
+
+    const long = lower.quantity > 0 ? lower : upper
+    const short = lower.quantity > 0 ? upper : lower
+    const frontRatio = Math.abs(short.quantity) > long.quantity
+    // Textbook orientation: a ratio spread buys the nearer strike, a backspread sells it
+    const longIsNearer = isCall ? long.strike < short.strike : long.strike > short.strike
+
+    return {
+      name: frontRatio ? `${type} Ratio Spread` : `${type} Ratio Backspread`,
+      family: 'ratio',
+      confidence: frontRatio === longIsNearer ? 1 : 0.6
+    }
+  }
+
+  private static matchCallPut(call: NormalizedLeg, put: NormalizedLeg): StructureMatch {
+    const equal = Math.abs(call.quantity) === Math.abs(put.quantity)
+
+    if (Math.sign(call.quantity) === Math.sign(put.quantity)) {
+      const side = call.quantity > 0 ? 'Long' : 'Short'
+      if (call.strike === put.strike) {
+        if (!equal && call.quantity > 0 && (call.quantity === 2 * put.quantity || put.quantity === 2 * call.quantity)) {
+          return { name: call.quantity > put.quantity ? 'Strap' : 'Strip', family: 'volatility', confidence: 1 }
+        }
+        return { name: `${side} Straddle`, family: 'volatility', confidence: equal ? 1 : 0.8 }
+      }
+      return {
+        name: put.strike < call.strike ? `${side} Strangle` : `${side} Guts`,
+        family: 'volatility',
+        confidence: equal ? 1 : 0.8
+      }
+    }
+
+    const bullish = call.quantity > 0
+    if (call.strike === put.strike) {
+      return {
+        name: bullish ? 'Synthetic Long Stock' : 'Synthetic Short Stock',
+        family: 'synthetic',
+        confidence: equal ? 1 : 0.8
+      }
+    }
+
+    // Risk reversals trade out-of-the-money wings on both sides
+    const otmWings = put.strike < call.strike
+    return {
+      name: bullish ? 'Bullish Risk Reversal' : 'Bearish Risk Reversal',
+      family: 'synthetic',
+      confidence: (otmWings ? 1 : 0.7) * (equal ? 1 : 0.8)
+    }
+  }
+
+  /**
+   * Butterflies (balanced, broken-wing or unbalanced) and ladders, legs
+   * sorted by strike
+   */
+  private static matchThreeSameType(options: NormalizedLeg[]): StructureMatch | null {
+    const [low, mid, high] = options
+    const type = this.typeLabel(low.type)
+    const signs = options.map(leg => Math.sign(leg.quantity)).join(',')
+
+    if ((signs === '1,-1,1' || signs === '-1,1,-1') &&
+      Math.abs(mid.quantity) === Math.abs(low.quantity) + Math.abs(high.quantity)) {
+      const side = low.quantity > 0 ? 'Long' : 'Short'
+      const lowerWidth = mid.strike - low.strike
+      const upperWidth = high.strike - mid.strike
+
+      if (Math.abs(low.quantity) !== Math.abs(high.quantity)) {
+        return { name: `${side} Unbalanced ${type} Butterfly`, family: 'butterfly', confidence: 0.85 }
+      }
+      return {
+        name: lowerWidth === upperWidth ? `${side} ${type} Butterfly` : `${side} Broken-Wing ${type} Butterfly`,
+        family: 'butterfly',
+        confidence: 1
+      }
+    }
+
+    const equal = options.every(leg => Math.abs(leg.quantity) === Math.abs(low.quantity))
+    if (equal && low.type === 'call' && signs === '1,-1,-1') {
+      return { name: 'Call Ladder', family: 'ratio', confidence: 0.9 }
+    }
+    if (equal && low.type === 'put' && signs === '-1,-1,1') {
+      return { name: 'Put Ladder', family: 'ratio', confidence: 0.9 }
+    }
+
+    return null
+  }
+
+  /**
+   * Jade lizards (short put plus short call spread), reverse jade lizards
+   * (short call plus short put spread) and seagulls
+   */
+  private static matchThreeMixed(calls: NormalizedLeg[], puts: NormalizedLeg[]): StructureMatch | null {
+    const all = [...calls, ...puts]
+    const equal = all.every(leg => Math.abs(leg.quantity) === Math.abs(all[0].quantity))
+    const scale = equal ? 1 : 0.7
+
+    if (calls.length === 2) {
+      const [put] = puts
+      const [lowCall, highCall] = calls
+      if (put.quantity < 0 && lowCall.quantity < 0 && highCall.quantity > 0) {
+        return { name: 'Jade Lizard', family: 'combination', confidence: (put.strike < lowCall.strike ? 1 : 0.8) * scale }
+      }
+      if (put.quantity < 0 && lowCall.quantity > 0 && highCall.quantity < 0) {
+        return { name: 'Bullish Seagull', family: 'combination', confidence: (put.strike < lowCall.strike ? 0.9 : 0.7) * scale }
+      }
+      return null
+    }
+
+    const [call] = calls
+    const [lowPut, highPut] = puts
+    if (call.quantity < 0 && highPut.quantity < 0 && lowPut.quantity > 0) {
+      return { name: 'Reverse Jade Lizard', family: 'combination', confidence: (highPut.strike < call.strike ? 1 : 0.8) * scale }
+    }
+    if (call.quantity < 0 && highPut.quantity > 0 && lowPut.quantity < 0) {
+      return { name: 'Bearish Seagull', family: 'combination', confidence: (highPut.strike < call.strike ? 0.9 : 0.7) * scale }
+    }
+    return null
+  }
+
+  /**
+   * Iron condors, iron butterflies and boxes. Calls and puts are each sorted
+   * by strike.
+   */
+  private static matchFourMixed(calls: NormalizedLeg[], puts: NormalizedLeg[]): StructureMatch | null {
+    const [lowPut, highPut] = puts
+    const [lowCall, highCall] = calls
+    const equal = [...calls, ...puts].every(leg => Math.abs(leg.quantity) === Math.abs(lowPut.quantity))
+    const scale = equal ? 1 : 0.7
+
+    const shortIron = lowPut.quantity > 0 && highPut.quantity < 0 && lowCall.quantity < 0 && highCall.quantity > 0
+    const longIron = lowPut.quantity < 0 && highPut.quantity > 0 && lowCall.quantity > 0 && highCall.quantity < 0
+    if ((shortIron || longIron) && highPut.strike <= lowCall.strike) {
+      const evenWings = highPut.strike - lowPut.strike === highCall.strike - lowCall.strike
+      const butterfly = highPut.strike === lowCall.strike
+      const base = butterfly ? 'Iron Butterfly' : 'Iron Condor'
+      const name = shortIron ? base : butterfly ? 'Long Iron Butterfly' : 'Reverse Iron Condor'
+      return {
+        name: evenWings ? name : `Broken-Wing ${name}`,
+        family: butterfly ? 'butterfly' : 'condor',
+        confidence: (evenWings ? 1 : 0.9) * scale
+      }
+    }
+
+    // Bull call spread plus bear put spread on the same two strikes
+    if (lowCall.strike === lowPut.strike && highCall.strike === highPut.strike && equal) {
+      if (lowCall.quantity > 0 && highCall.quantity < 0 && highPut.quantity > 0 && lowPut.quantity < 0) {
+        return { name: 'Long Box', family: 'box', confidence: 1 }
+      }
+      if (lowCall.quantity < 0 && highCall.quantity > 0 && highPut.quantity < 0 && lowPut.quantity > 0) {
+        return { name: 'Short Box', family: 'box', confidence: 1 }
+      }
+    }
+
+    return null
+  }
+
+  private static matchCondor(options: NormalizedLeg[]): StructureMatch | null {
+    const type = this.typeLabel(options[0].type)
+    const signs = options.map(leg => Math.sign(leg.quantity)).join(',')
+    const equal = options.every(leg => Math.abs(leg.quantity) === Math.abs(options[0].quantity))
+    if (!equal || (signs !== '1,-1,-1,1' && signs !== '-1,1,1,-1')) return null
+
+    const evenWings = options[1].strike - options[0].strike === options[3].strike - options[2].strike
+    return {
+      name: `${options[0].quantity > 0 ? 'Long' : 'Short'} ${type} Condor`,
+      family: 'condor',
+      confidence: evenWings ? 1 : 0.85
+    }
+  }
+
+  /**
+   * Calendars and diagonals, and their double (call plus put) versions
+   */
+  private static matchTwoExpiries(options: NormalizedLeg[]): StructureMatch | null {
+    const calls = options.filter(leg => leg.type === 'call')
+    const puts = options.filter(leg => leg.type === 'put')
+
+    if (options.length === 2 && (calls.length === 2 || puts.length === 2)) {
+      return this.matchTimeSpread(options[0], options[1])
+    }
+
+    if (options.length === 4 && calls.length === 2 && puts.length === 2) {
+      const callSpread = this.matchTimeSpread(calls[0], calls[1])
+      const putSpread = this.matchTimeSpread(puts[0], puts[1])
+      if (!callSpread || !putSpread) return null
+
+      const callSide = callSpread.name.split(' ')[0]
+      if (callSide !== putSpread.name.split(' ')[0]) return null
+      const diagonal = callSpread.family === 'diagonal' || putSpread.family === 'diagonal'
+      return {
+        name: `${callSide === 'Long' ? '' : 'Short '}Double ${diagonal ? 'Diagonal' : 'Calendar'}`,
+        family: diagonal ? 'diagonal' : 'calendar',
+        confidence: Math.min(callSpread.confidence, putSpread.confidence)
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Legs are sorted by expiry; long the far expiry is a long calendar/diagonal
+   */
+  private static matchTimeSpread(near: NormalizedLeg, far: NormalizedLeg): StructureMatch | null {
+    if (near.expiry === far.expiry || Math.sign(near.quantity) === Math.sign(far.quantity)) return null
+
+    const side = far.quantity > 0 ? 'Long' : 'Short'
+    const calendar = near.strike === far.strike
+    return {
+      name: `${side} ${this.typeLabel(near.type)} ${calendar ? 'Calendar' : 'Diagonal'}`,
+      family: calendar ? 'calendar' : 'diagonal',
+      confidence: Math.abs(near.quantity) === Math.abs(far.quantity) ? 1 : 0.8
+    }
+  }
+
+  /**
+   * Covered calls/puts, protective puts/calls, collars, conversions and
+   * reversals. Stock is in 100-share lots so full coverage is one contract
+   * per lot.
+   */
+  private static matchStockStructure(options: NormalizedLeg[], stock: number): StructureMatch | null {
+    const longStock = stock > 0
+
+    if (options.length === 0) {
+      return { name: longStock ? 'Long Stock' : 'Short Stock', family: 'stock', confidence: 1 }
+    }
+
+    const covered = (leg: NormalizedLeg) => Math.abs(leg.quantity) === Math.abs(stock)
+
+    if (options.length === 1) {
+      const [leg] = options
+      let name: string | null = null
+      if (longStock && leg.type === 'call' && leg.quantity < 0) name = 'Covered Call'
+      if (longStock && leg.type === 'put' && leg.quantity > 0) name = 'Protective Put'
+      if (!longStock && leg.type === 'put' && leg.quantity < 0) name = 'Covered Put'
+      if (!longStock && leg.type === 'call' && leg.quantity > 0) name = 'Protective Call'
+      return name ? { name, family: 'stock', confidence: covered(leg) ? 1 : 0.7 } : null
+    }
+
+    if (options.length === 2) {
+      const call = options.find(leg => leg.type === 'call')
+      const put = options.find(leg => leg.type === 'put')
+      if (!call || !put) return null
+
+      const fullyCovered = covered(call) && covered(put)
+      const scale = fullyCovered ? 1 : 0.7
+      if (longStock && call.quantity < 0 && put.quantity > 0) {
+        if (call.strike === put.strike) return { name: 'Conversion', family: 'synthetic', confidence: scale }
+        if (put.strike < call.strike) return { name: 'Collar', family: 'stock', confidence: scale }
+      }
+      if (!longStock && call.quantity > 0 && put.quantity < 0) {
+        if (call.strike === put.strike) return { name: 'Reversal', family: 'synthetic', confidence: scale }
+        if (put.strike < call.strike) return { name: 'Short Collar', family: 'stock', confidence: scale }
+      }
+    }
+
+    return null
+  }
+
+  private static describeLegs(options: NormalizedLeg[], stock: number): string {
+    const parts = options.map(leg =>
+      `${leg.quantity > 0 ? '+' : ''}${leg.quantity} ${leg.strike}${leg.type === 'call' ? 'C' : 'P'}${leg.expiry ? ` ${leg.expiry}` : ''}`)
+    if (stock !== 0) parts.push(`${stock > 0 ? '+' : ''}${stock} stock`)
+    return parts.join(', ')
+  }
+
+  private static typeLabel(type: 'call' | 'put'): string {
+    return type === 'call' ? 'Call' : 'Put'
+  }
+}
@@ -0,0 +1,163 @@
+import { PayoffCalculationService, type StrategyLeg } from './payoffCalculationService'
+import { GreeksCalculator } from './greeksCalculator'
+import { MarginService, type MarginMode, type MarginRequirement } from './marginService'
+import { MonteCarloService } from './monteCarloService'
+
+export interface ComparedStrategy {
+  id: string
+  name: string
+  legs: StrategyLeg[]
+}
+
+export interface ComparisonRow {
+  id: string
+  name: string
+  maxProfit: number
+  maxLoss: number
+  breakEvenPoints: number[]
+  // Option premium paid (positive) or received (negative)
+  netPremium: number
+  netDelta: number
+  netGamma: number
+  netTheta: number
+  netVega: number
+  margin: MarginRequirement
+  // Null when the strategy cannot be simulated, e.g. it has no legs
+  probabilityOfProfit: number | null
+}
+
+// One price on the shared grid; other keys come from seriesKey
+export type ComparisonPoint = { price: number } & Record<string, number>
+
+export interface ComparisonOptions {
+  // Horizon of the T+n curves in calendar days from today
+  daysForward?: number
+  // Used for legs without their own implied volatility
+  defaultVolatility?: number
+  marginMode?: MarginMode
+  underlyingTicker?: string
+}
+
+/**
+ * Side-by-side metrics and payoff curves for a handful of strategies on the
+ * same underlying. Every strategy is evaluated on one price grid so their
+ * curves can be overlaid: its expiry P&L (the front expiry for calendars)
+ * and its theoretical P&L n days from today.
+ */
+export class StrategyComparisonService {
+  static readonly MIN_STRATEGIES = 2
+  static readonly MAX_STRATEGIES = 5
+
+  private static readonly DEFAULT_VOLATILITY = 0.3
+
+  /**
+   * Metrics for each strategy. These do not depend on daysForward, and the
+   * probability of profit runs a simulation per strategy, so callers that
+   * move the horizon should keep the rows and only recompute the points.
+   */
+  static compareRows(
+    strategies: ComparedStrategy[],
+    underlyingPrice: number,
+    options: ComparisonOptions = {}
+  ): ComparisonRow[] {
+    this.assertWithinLimit(strategies)
+
+    const { defaultVolatility = this.DEFAULT_VOLATILITY, marginMode, underlyingTicker } = options
+    return strategies.map(strategy => this.compareOne(strategy, underlyingPrice, defaultVolatility, marginMode, underlyingTicker))
+  }
+
+  static comparePoints(
+    strategies: ComparedStrategy[],
+    underlyingPrice: number,
+    options: ComparisonOptions = {}
+  ): ComparisonPoint[] {
+    this.assertWithinLimit(strategies)
+
+    const {
+      daysForward = 0,
+      defaultVolatility = this.DEFAULT_VOLATILITY,
+      underlyingTicker
+    } = options
+    const sliceOptions = { defaultVolatility, underlyingTicker }
+
+    const allLegs = strategies.flatMap(strategy => strategy.legs)
+    const grid = allLegs.length > 0
+      ? PayoffCalculationService.calculatePayoff(allLegs, underlyingPrice, '', sliceOptions).points.map(point => point.price)
+      : []
+
+    return grid.map(price => {
+      const point: ComparisonPoint = { price } as ComparisonPoint
+      for (const strategy of strategies) {
+        point[this.seriesKey(strategy.id, 'expiry')] =
+          PayoffCalculationService.calculateExpiryProfitAtPrice(strategy.legs, price, sliceOptions)
+        point[this.seriesKey(strategy.id, 'horizon')] =
+          PayoffCalculationService.calculateTheoreticalProfitAtPrice(strategy.legs, price, daysForward, sliceOptions)
+      }
+      return point
+    })
+  }
+
+  static seriesKey(strategyId: string, curve: 'expiry' | 'horizon'): string {
+    return `${strategyId}:${curve}`
+  }
+
+  private static assertWithinLimit(strategies: ComparedStrategy[]): void {
+    if (strategies.length > this.MAX_STRATEGIES) {
+      throw new Error(`Compare at most ${this.MAX_STRATEGIES} strategies at a time`)
+    }
+  }
+
+  private static compareOne(
+    strategy: ComparedStrategy,
+    underlyingPrice: number,
+    defaultVolatility: number,
+    marginMode?: MarginMode,
+    underlyingTicker?: string
+  ): ComparisonRow {
+    const payoff = PayoffCalculationService.calculatePayoff(strategy.legs, underlyingPrice, strategy.name, {
+      defaultVolatility,
+      underlyingTicker
+    })
+    const greeks = GreeksCalculator.calculatePayoffLegGreeks(strategy.legs, underlyingPrice, defaultVolatility)
+    const margin = MarginService.calculate(strategy.legs, underlyingPrice, marginMode, underlyingTicker)
+
+    return {
+      id: strategy.id,
+      name: strategy.name,
+      maxProfit: payoff.maxProfit,
+      maxLoss: payoff.maxLoss,
+      breakEvenPoints: payoff.breakEvenPoints,
+      netPremium: margin.netPremium,
+      netDelta: greeks.netDelta,
+      netGamma: greeks.netGamma,
+      netTheta: greeks.netTheta,
+      netVega: greeks.netVega,
+      margin,
+      probabilityOfProfit: this.probabilityOfProfit(strategy.legs, underlyingPrice, defaultVolatility)
+    }
+  }
+
+  /**
+   * Simulated to the nearest expiry at the average leg IV. Later-dated legs
+   * are valued there with their own expiry and IV, legs without one taking
+   * defaultVolatility as the payoff curves do, so calendars and diagonals get
+   * the POP of their front-expiry curve.
+   */
+  private static probabilityOfProfit(legs: StrategyLeg[], underlyingPrice: number, defaultVolatility: number): number | null {
+    const pricedLegs = legs.map(leg => leg.type === 'stock' || leg.impliedVolatility
+      ? leg
+      : { ...leg, impliedVolatility: defaultVolatility })
+    const ivs = legs.map(leg => leg.impliedVolatility).filter((iv): iv is number => !!iv && iv > 0)
+    const times = legs.filter(leg => leg.expiry).map(leg => GreeksCalculator.calculateTimeToExpiry(leg.expiry!))
+
+    try {
+      return MonteCarloService.simulate(pricedLegs, {
+        spotPrice: underlyingPrice,
+        volatility: ivs.length > 0 ? ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length : defaultVolatility,
+        timeToExpiry: times.length > 0 ? Math.max(1 / 365, Math.min(...times)) : 30 / 365
+      }).probabilityOfProfit
+    } catch (error) {
+      return null
+    }
+  }
+}
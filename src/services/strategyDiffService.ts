@@ -0,0 +1,112 @@
+import { PayoffCalculationService, type StrategyLeg } from './payoffCalculationService'
+import { GreeksCalculator } from './greeksCalculator'
+
+export type LegChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface LegDiff {
+  status: LegChangeStatus
+  before?: StrategyLeg
+  after?: StrategyLeg
+  // Human-readable field changes, e.g. "quantity 1 → 2"
+  changes: string[]
+}
+
+export interface MetricChange {
+  label: string
+  // Infinity / -Infinity for unbounded payoff extremes
+  before: number
+  after: number
+}
+
+export interface StrategyDiff {
+  legs: LegDiff[]
+  payoff: MetricChange[]
+  breakEvens: { before: number[]; after: number[] }
+  greeks: MetricChange[]
+  // Both versions' P&L on a shared price grid, for overlaying
+  points: Array<{ price: number; before: number; after: number }>
+}
+
+/**
+ * Compares two leg sets of the same strategy, typically two saved versions.
+ * Legs are matched on type, side, strike and expiry, so a roll to a new
+ * strike shows as one leg removed and one added while a size or price
+ * change on the same contract shows as changed.
+ */
+export class StrategyDiffService {
+  static diff(
+    before: StrategyLeg[],
+    after: StrategyLeg[],
+    underlyingPrice: number,
+    underlyingTicker?: string
+  ): StrategyDiff {
+    const beforePayoff = PayoffCalculationService.calculatePayoff(before, underlyingPrice, '', { underlyingTicker })
+    const afterPayoff = PayoffCalculationService.calculatePayoff(after, underlyingPrice, '', { underlyingTicker })
+    const beforeGreeks = GreeksCalculator.calculatePayoffLegGreeks(before, underlyingPrice)
+    const afterGreeks = GreeksCalculator.calculatePayoffLegGreeks(after, underlyingPrice)
+
+    const grid = PayoffCalculationService.calculatePayoff([...before, ...after], underlyingPrice, '', { underlyingTicker })
+      .points.map(point => point.price)
+
+    return {
+      legs: this.diffLegs(before, after),
+      payoff: [
+        { label: 'Max Profit', before: beforePayoff.maxProfit, after: afterPayoff.maxProfit },
+        { label: 'Max Loss', before: beforePayoff.maxLoss, after: afterPayoff.maxLoss },
+        { label: 'Net Premium', before: this.netPremium(before), after: this.netPremium(after) }
+      ],
+      breakEvens: { before: beforePayoff.breakEvenPoints, after: afterPayoff.breakEvenPoints },
+      greeks: [
+        { label: 'Delta', before: beforeGreeks.netDelta, after: afterGreeks.netDelta },
+        { label: 'Gamma', before: beforeGreeks.netGamma, after: afterGreeks.netGamma },
+        { label: 'Theta', before: beforeGreeks.netTheta, after: afterGreeks.netTheta },
+        { label: 'Vega', before: beforeGreeks.netVega, after: afterGreeks.netVega }
+      ],
+      points: grid.map(price => ({
+        price,
+        before: PayoffCalculationService.calculateExpiryProfitAtPrice(before, price, { underlyingTicker }),
+        after: PayoffCalculationService.calculateExpiryProfitAtPrice(after, price, { underlyingTicker })
+      }))
+    }
+  }
+
+  static describeLeg(leg: StrategyLeg): string {
+    const side = leg.action === 'buy' ? 'Buy' : 'Sell'
+    if (leg.type === 'stock') return `${side} ${leg.quantity}x stock @ ${leg.premium.toFixed(2)}`
+    const expiry = leg.expiry ? ` ${leg.expiry}` : ''
+    return `${side} ${leg.quantity}x ${leg.strike}${leg.type === 'call' ? 'C' : 'P'}${expiry} @ ${leg.premium.toFixed(2)}`
+  }
+
+  private static diffLegs(before: StrategyLeg[], after: StrategyLeg[]): LegDiff[] {
+    const remaining = [...after]
+    const diffs: LegDiff[] = []
+
+    for (const leg of before) {
+      const index = remaining.findIndex(candidate => this.legKey(candidate) === this.legKey(leg))
+      if (index < 0) {
+        diffs.push({ status: 'removed', before: leg, changes: [] })
+        continue
+      }
+
+      const match = remaining.splice(index, 1)[0]
+      const changes: string[] = []
+      if (match.quantity !== leg.quantity) changes.push(`quantity ${leg.quantity} → ${match.quantity}`)
+      if (match.premium !== leg.premium) changes.push(`price ${leg.premium.toFixed(2)} → ${match.premium.toFixed(2)}`)
+      diffs.push({ status: changes.length > 0 ? 'changed' : 'unchanged', before: leg, after: match, changes })
+    }
+
+    return [...diffs, ...remaining.map(leg => ({ status: 'added' as const, after: leg, changes: [] }))]
+  }
+
+  private static legKey(leg: StrategyLeg): string {
+    return leg.type === 'stock'
+      ? `stock-${leg.action}`
+      : `${leg.type}-${leg.action}-${leg.strike}-${leg.expiry || ''}`
+  }
+
+  private static netPremium(legs: StrategyLeg[]): number {
+    return legs
+      .filter(leg => leg.type !== 'stock')
+      .reduce((sum, leg) => sum + (leg.action === 'buy' ? 1 : -1) * leg.premium * leg.quantity * PayoffCalculationService.contractMultiplier(leg), 0)
+  }
+}
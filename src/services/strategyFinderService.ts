@@ -0,0 +1,417 @@
+import { normalCDF } from './blackScholesService'
+import { PayoffCalculationService, type StrategyLeg as PayoffLeg, type StrategyPayoff } from './payoffCalculationService'
+import type { StrategyLeg } from './strategyValidationService'
+import type { LiveOptionsContract } from './liveOptionsDataService'
+import type { OptionsContract } from '../types/options'
+
+export type DirectionalBias = 'bullish' | 'bearish' | 'neutral' | 'volatile'
+
+export type FinderStructure =
+  | 'Long Call'
+  | 'Long Put'
+  | 'Short Put'
+  | 'Bull Call Spread'
+  | 'Bull Put Spread'
+  | 'Bear Put Spread'
+  | 'Bear Call Spread'
+  | 'Iron Condor'
+  | 'Iron Butterfly'
+  | 'Long Call Butterfly'
+  | 'Long Straddle'
+  | 'Long Strangle'
+
+export type FinderSortKey = 'score' | 'expectedValue' | 'riskReward' | 'liquidity'
+
+export interface MarketView {
+  spotPrice: number
+  // Read as a one-standard-deviation band for the price at the target date
+  targetLow: number
+  targetHigh: number
+  // Structures use the first listed expiry on or after this date
+  targetDate: string
+  bias: DirectionalBias
+  // Largest acceptable loss per structure in dollars; unbounded-loss structures are never returned
+  maxRisk: number
+  minProbabilityOfProfit: number
+}
+
+// Legs carry the executable entry price: the ask for buys and the bid for sells
+export interface FinderLeg extends StrategyLeg {
+  price: number
+}
+
+export interface FinderCandidate {
+  name: FinderStructure
+  expiry: string
+  legs: FinderLeg[]
+  description: string
+  // Positive for a debit, negative for a credit, per structure
+  netPremium: number
+  maxProfit: number
+  maxProfitUnbounded: boolean
+  maxLoss: number
+  breakEvenPoints: number[]
+  // Under the view's price distribution at expiry
+  expectedValue: number
+  probabilityOfProfit: number
+  riskReward: number
+  // 0-1, set by the thinnest leg's open interest and spread
+  liquidity: number
+  score: number
+}
+
+export interface FinderResult {
+  expiry: string | null
+  evaluated: number
+  candidates: FinderCandidate[]
+}
+
+const STRUCTURES_BY_BIAS: Record<DirectionalBias, FinderStructure[]> = {
+  bullish: ['Long Call', 'Bull Call Spread', 'Bull Put Spread', 'Short Put'],
+  bearish: ['Long Put', 'Bear Put Spread', 'Bear Call Spread'],
+  neutral: ['Iron Condor', 'Iron Butterfly', 'Long Call Butterfly'],
+  volatile: ['Long Straddle', 'Long Strangle']
+}
+
+/**
+ * Searches one expiry of a chain for the structures that best fit a market
+ * view. The view's target range is treated as a lognormal one-sigma band, so
+ * expected value and probability of profit are exact integrals of the
+ * piecewise-linear expiry payoff rather than simulations.
+ *
+ * Candidates are priced at executable quotes and ranked by a blend of
+ * return on risk, reward/risk and liquidity percentiles.
+ */
+export class StrategyFinderService {
+  private static readonly MAX_STRIKES = 30
+  private static readonly MAX_WIDTH_STEPS = 6
+  private static readonly MAX_WING_STEPS = 4
+  private static readonly FULL_LIQUIDITY_OPEN_INTEREST = 500
+  // Below this a leg's spread is most of its price and quotes are not fillable
+  private static readonly MIN_LIQUIDITY = 0.1
+  private static readonly MAX_RESULTS = 25
+
+  static findStrategies(
+    contracts: OptionsContract[],
+    view: MarketView,
+    sortBy: FinderSortKey = 'score'
+  ): FinderResult {
+    if (!(view.spotPrice > 0) || !(view.targetLow > 0) || view.targetHigh < view.targetLow) {
+      throw new Error('Market view needs a positive spot price and a target range with low <= high')
+    }
+
+    const expiry = this.selectExpiry(contracts, view.targetDate)
+    if (!expiry) {
+      return { expiry: null, evaluated: 0, candidates: [] }
+    }
+
+    const slice = contracts.filter(c => c.expiration_date === expiry && this.isQuoted(c))
+    const calls = this.strikeWindow(slice.filter(c => c.contract_type === 'call'), view)
+    const puts = this.strikeWindow(slice.filter(c => c.contract_type === 'put'), view)
+
+    const structures = STRUCTURES_BY_BIAS[view.bias]
+    const raw = structures.flatMap(structure => this.generate(structure, calls, puts))
+
+    const candidates: FinderCandidate[] = []
+    for (const { name, legs } of raw) {
+      const candidate = this.evaluate(name, expiry, legs, view)
+      if (!candidate) continue
+      if (candidate.maxLoss > view.maxRisk) continue
+      if (candidate.liquidity < this.MIN_LIQUIDITY) continue
+      if (candidate.probabilityOfProfit < view.minProbabilityOfProfit) continue
+      candidates.push(candidate)
+    }
+
+    this.scoreCandidates(candidates)
+
+    // Compared rather than subtracted: unbounded reward/risk is Infinity
+    candidates.sort((a, b) => a[sortBy] === b[sortBy] ? 0 : a[sortBy] < b[sortBy] ? 1 : -1)
+
+    return { expiry, evaluated: raw.length, candidates: candidates.slice(0, this.MAX_RESULTS) }
+  }
+
+  /**
+   * Live chain rows use contract_ticker and carry no exercise style
+   */
+  static fromLiveContracts(contracts: LiveOptionsContract[]): OptionsContract[] {
+    return contracts.map(contract => ({
+      contract_type: contract.contract_type,
+      exercise_style: 'american',
+      expiration_date: contract.expiration_date,
+      shares_per_contract: 100,
+      strike_price: contract.strike_price,
+      ticker: contract.contract_ticker,
+      underlying_ticker: contract.underlying_ticker,
+      bid: contract.bid,
+      ask: contract.ask,
+      last: contract.last || contract.mark,
+      volume: contract.volume,
+      open_interest: contract.open_interest,
+      implied_volatility: contract.implied_volatility,
+      delta: contract.delta,
+      gamma: contract.gamma,
+      theta: contract.theta,
+      vega: contract.vega,
+      intrinsic_value: contract.intrinsic_value,
+      time_value: contract.time_value
+    }))
+  }
+
+  /**
+   * Expected P&L and probability of profit at expiry when ln(S) ~ N(mu, sigma²)
+   */
+  static evaluateUnderView(
+    legs: PayoffLeg[],
+    payoff: StrategyPayoff,
+    view: Pick<MarketView, 'targetLow' | 'targetHigh'>
+  ): { expectedValue: number; probabilityOfProfit: number } {
+    const mu = (Math.log(view.targetLow) + Math.log(view.targetHigh)) / 2
+    const sigma = Math.max(0.01, (Math.log(view.targetHigh) - Math.log(view.targetLow)) / 2)
+    const mean = Math.exp(mu + sigma * sigma / 2)
+
+    const cdf = (x: number) => x <= 0 ? 0 : x === Infinity ? 1 : normalCDF((Math.log(x) - mu) / sigma)
+    // E[S; S < x]
+    const partialMean = (x: number) => x <= 0 ? 0 : x === Infinity ? mean : mean * normalCDF((Math.log(x) - mu - sigma * sigma) / sigma)
+    const profitAt = (price: number) => PayoffCalculationService.calculateProfitAtPrice(legs, price)
+
+    const kinks = PayoffCalculationService.getKinkPoints(legs)
+    const bounds = [0, ...kinks, Infinity]
+    let expectedValue = 0
+
+    // Profit is a + b*S on each segment between strikes
+    for (let i = 0; i + 1 < bounds.length; i++) {
+      const lower = bounds[i]
+      const upper = bounds[i + 1]
+      let slope: number
+      let anchor: number
+      if (lower === 0) {
+        slope = payoff.lowerTailSlope
+        anchor = upper === Infinity ? 0 : upper
+      } else if (upper === Infinity) {
+        slope = payoff.upperTailSlope
+        anchor = lower
+      } else {
+        slope = (profitAt(upper) - profitAt(lower)) / (upper - lower)
+        anchor = lower
+      }
+      const intercept = profitAt(anchor) - slope * anchor
+
+      expectedValue += intercept * (cdf(upper) - cdf(lower)) + slope * (partialMean(upper) - partialMean(lower))
+    }
+
+    const edges = [0, ...payoff.breakEvenPoints, Infinity]
+    let probabilityOfProfit = 0
+    for (let i = 0; i + 1 < edges.length; i++) {
+      const lower = edges[i]
+      const upper = edges[i + 1]
+      const probe = upper === Infinity ? Math.max(lower, kinks[kinks.length - 1] || 0) * 1.5 + 1 : (lower + upper) / 2
+      if (profitAt(probe) > 0) {
+        probabilityOfProfit += cdf(upper) - cdf(lower)
+      }
+    }
+
+    return { expectedValue, probabilityOfProfit }
+  }
+
+  private static selectExpiry(contracts: OptionsContract[], targetDate: string): string | null {
+    const today = new Date().toISOString().split('T')[0]
+    const expiries = Array.from(new Set(contracts.map(c => c.expiration_date)))
+      .filter(expiry => expiry >= today)
+      .sort()
+    if (expiries.length === 0) return null
+
+    return expiries.find(expiry => expiry >= targetDate) || expiries[expiries.length - 1]
+  }
+
+  private static isQuoted(contract: OptionsContract): boolean {
+    return contract.bid > 0 && contract.ask >= contract.bid
+  }
+
+  /**
+   * Strikes around the spot and the target range, nearest to the spot first
+   * when the chain is wider than MAX_STRIKES
+   */
+  private static strikeWindow(contracts: OptionsContract[], view: MarketView): OptionsContract[] {
+    const low = Math.min(view.spotPrice, view.targetLow) * 0.85
+    const high = Math.max(view.spotPrice, view.targetHigh) * 1.15
+
+    return contracts
+      .filter(c => c.strike_price >= low && c.strike_price <= high)
+      .sort((a, b) => Math.abs(a.strike_price - view.spotPrice) - Math.abs(b.strike_price - view.spotPrice))
+      .slice(0, this.MAX_STRIKES)
+      .sort((a, b) => a.strike_price - b.strike_price)
+  }
+
+  private static generate(
+    structure: FinderStructure,
+    calls: OptionsContract[],
+    puts: OptionsContract[]
+  ): Array<{ name: FinderStructure; legs: FinderLeg[] }> {
+    const results: Array<{ name: FinderStructure; legs: FinderLeg[] }> = []
+    const add = (legs: FinderLeg[]) => results.push({ name: structure, legs })
+    const verticals = (chain: OptionsContract[], build: (lower: OptionsContract, upper: OptionsContract) => FinderLeg[]) => {
+      for (let i = 0; i < chain.length; i++) {
+        for (let j = i + 1; j < chain.length && j - i <= this.MAX_WIDTH_STEPS; j++) {
+          add(build(chain[i], chain[j]))
+        }
+      }
+    }
+
+    switch (structure) {
+      case 'Long Call':
+        calls.forEach(call => add([this.leg(call, 'buy')]))
+        break
+      case 'Long Put':
+        puts.forEach(put => add([this.leg(put, 'buy')]))
+        break
+      case 'Short Put':
+        puts.forEach(put => add([this.leg(put, 'sell')]))
+        break
+      case 'Bull Call Spread':
+        verticals(calls, (lower, upper) => [this.leg(lower, 'buy'), this.leg(upper, 'sell')])
+        break
+      case 'Bear Call Spread':
+        verticals(calls, (lower, upper) => [this.leg(lower, 'sell'), this.leg(upper, 'buy')])
+        break
+      case 'Bull Put Spread':
+        verticals(puts, (lower, upper) => [this.leg(lower, 'buy'), this.leg(upper, 'sell')])
+        break
+      case 'Bear Put Spread':
+        verticals(puts, (lower, upper) => [this.leg(lower, 'sell'), this.leg(upper, 'buy')])
+        break
+      case 'Iron Condor':
+        for (let p = 1; p < puts.length; p++) {
+          for (let c = 0; c + 1 < calls.length; c++) {
+            if (calls[c].strike_price <= puts[p].strike_price) continue
+            for (let wing = 1; wing <= this.MAX_WING_STEPS && p - wing >= 0 && c + wing < calls.length; wing++) {
+              add([
+                this.leg(puts[p - wing], 'buy'),
+                this.leg(puts[p], 'sell'),
+                this.leg(calls[c], 'sell'),
+                this.leg(calls[c + wing], 'buy')
+              ])
+            }
+          }
+        }
+        break
+      case 'Iron Butterfly':
+        for (let p = 1; p < puts.length; p++) {
+          const c = calls.findIndex(call => call.strike_price === puts[p].strike_price)
+          if (c < 0) continue
+          for (let wing = 1; wing <= this.MAX_WING_STEPS && p - wing >= 0 && c + wing < calls.length; wing++) {
+            add([
+              this.leg(puts[p - wing], 'buy'),
+              this.leg(puts[p], 'sell'),
+              this.leg(calls[c], 'sell'),
+              this.leg(calls[c + wing], 'buy')
+            ])
+          }
+        }
+        break
+      case 'Long Call Butterfly':
+        for (let center = 1; center + 1 < calls.length; center++) {
+          for (let wing = 1; wing <= this.MAX_WING_STEPS && center - wing >= 0 && center + wing < calls.length; wing++) {
+            const lower = calls[center - wing]
+            const upper = calls[center + wing]
+            const mid = calls[center].strike_price
+            if (Math.abs((mid - lower.strike_price) - (upper.strike_price - mid)) > 1e-9) continue
+            add([this.leg(lower, 'buy'), this.leg(calls[center], 'sell', 2), this.leg(upper, 'buy')])
+          }
+        }
+        break
+      case 'Long Straddle':
+        for (const call of calls) {
+          const put = puts.find(p => p.strike_price === call.strike_price)
+          if (put) add([this.leg(put, 'buy'), this.leg(call, 'buy')])
+        }
+        break
+      case 'Long Strangle':
+        for (const put of puts) {
+          for (const call of calls) {
+            if (call.strike_price > put.strike_price) add([this.leg(put, 'buy'), this.leg(call, 'buy')])
+          }
+        }
+        break
+    }
+
+    return results
+  }
+
+  private static leg(contract: OptionsContract, action: 'buy' | 'sell', quantity = 1): FinderLeg {
+    return { contract, action, quantity, price: action === 'buy' ? contract.ask : contract.bid }
+  }
+
+  private static evaluate(
+    name: FinderStructure,
+    expiry: string,
+    legs: FinderLeg[],
+    view: MarketView
+  ): FinderCandidate | null {
+    const payoffLegs: PayoffLeg[] = legs.map(leg => ({
+      type: leg.contract.contract_type,
+      strike: leg.contract.strike_price,
+      premium: leg.price,
+      action: leg.action,
+      quantity: leg.quantity,
+      expiry: leg.contract.expiration_date
+    }))
+
+    const payoff = PayoffCalculationService.calculatePayoff(payoffLegs, view.spotPrice, name)
+    if (payoff.maxLossUnbounded) return null
+
+    const maxLoss = Math.abs(Math.min(0, payoff.maxLoss))
+    // A structure that cannot lose is an arbitrage or a quote error; skip rather than rank it first
+    if (maxLoss <= 0) return null
+
+    const { expectedValue, probabilityOfProfit } = this.evaluateUnderView(payoffLegs, payoff, view)
+    const netPremium = legs.reduce((sum, leg) =>
+      sum + (leg.action === 'buy' ? 1 : -1) * leg.price * leg.quantity * 100, 0)
+
+    return {
+      name,
+      expiry,
+      legs,
+      description: `${name} ${Array.from(new Set(legs.map(leg => leg.contract.strike_price))).join('/')}`,
+      netPremium,
+      maxProfit: payoff.maxProfit,
+      maxProfitUnbounded: payoff.maxProfitUnbounded,
+      maxLoss,
+      breakEvenPoints: payoff.breakEvenPoints,
+      expectedValue,
+      probabilityOfProfit,
+      riskReward: payoff.maxProfitUnbounded ? Infinity : payoff.maxProfit / maxLoss,
+      liquidity: Math.min(...legs.map(leg => this.legLiquidity(leg.contract))),
+      score: 0
+    }
+  }
+
+  private static legLiquidity(contract: OptionsContract): number {
+    const mid = (contract.bid + contract.ask) / 2
+    const spreadFraction = mid > 0 ? (contract.ask - contract.bid) / mid : 1
+    const depth = Math.min(1, (contract.open_interest ?? 0) / this.FULL_LIQUIDITY_OPEN_INTEREST)
+    return depth * Math.max(0, 1 - spreadFraction)
+  }
+
+  /**
+   * Score is a weighted average of percentile ranks: half return on risk
+   * (expected value per dollar of max loss), a quarter each reward/risk and
+   * liquidity, so no one metric's scale dominates
+   */
+  private static scoreCandidates(candidates: FinderCandidate[]): void {
+    if (candidates.length === 0) return
+
+    const percentiles = (values: number[]) => {
+      const sorted = [...values].sort((a, b) => a - b)
+      return values.map(value =>
+        sorted.length > 1 ? sorted.lastIndexOf(value) / (sorted.length - 1) : 1)
+    }
+
+    const returnOnRisk = percentiles(candidates.map(c => c.expectedValue / c.maxLoss))
+    const riskReward = percentiles(candidates.map(c => c.riskReward))
+    const liquidity = percentiles(candidates.map(c => c.liquidity))
+
+    candidates.forEach((candidate, i) => {
+      candidate.score = 0.5 * returnOnRisk[i] + 0.25 * riskReward[i] + 0.25 * liquidity[i]
+    })
+  }
+}
@@ -0,0 +1,343 @@
+import type { StrategyLeg as PayoffLeg } from './payoffCalculationService'
+
+export const STRATEGY_FORMAT = 'options-strategy'
+export const STRATEGY_FORMAT_VERSION = 1
+
+export interface PortableLeg {
+  // OCC symbol such as SPY250117P00450000; stock legs use the underlying ticker
+  symbol: string
+  // Signed: positive to buy, negative to sell. Contracts for options, 100-share lots for stock
+  quantity: number
+  // Per-share premium for options, share price for stock
+  price?: number
+}
+
+export interface PortableStrategy {
+  format: typeof STRATEGY_FORMAT
+  version: number
+  name: string
+  underlying: string
+  legs: PortableLeg[]
+  notes?: string
+}
+
+export interface DecodedLeg {
+  type: 'call' | 'put' | 'stock'
+  action: 'buy' | 'sell'
+  quantity: number
+  expiry?: string
+  strike?: number
+  price?: number
+}
+
+export interface StrategyParseResult {
+  strategy: PortableStrategy | null
+  errors: string[]
+}
+
+/**
+ * Portable strategy definitions for moving strategies between tools. The JSON
+ * form is versioned; the text form is one leg per "/" or line, e.g.
+ * "-1 SPY 2025-01-17 450P @2.10 / +1 SPY 2025-01-17 440P @1.05". A leg may also
+ * be written as a bare OCC symbol, and "+1 SPY STK" is 100 shares.
+ */
+export class StrategyFormatService {
+  private static readonly OCC_PATTERN = /^(?:O:)?([A-Z][A-Z0-9.]{0,5})\s*(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/
+  private static readonly TICKER_PATTERN = /^[A-Z][A-Z0-9.]{0,5}$/
+  private static readonly PADDED_OCC_PATTERN = /((?:O:)?[A-Z][A-Z0-9.]{0,5})\s+(\d{6}[CP]\d{8})(?=\s|$)/
+
+  static toOccSymbol(underlying: string, expiry: string, type: 'call' | 'put', strike: number): string {
+    const date = expiry.replace(/-/g, '').slice(2)
+    const strikeCode = Math.round(strike * 1000).toString().padStart(8, '0')
+    return `${underlying}${date}${type === 'call' ? 'C' : 'P'}${strikeCode}`
+  }
+
+  /**
+   * Accepts the compact form, the space-padded 21-character OCC form and the
+   * O: prefix used by the live chain
+   */
+  static parseOccSymbol(symbol: string): { underlying: string; expiry: string; type: 'call' | 'put'; strike: number } | null {
+    const match = symbol.trim().toUpperCase().match(this.OCC_PATTERN)
+    if (!match) return null
+
+    const [, underlying, year, month, day, type, strike] = match
+    const expiry = `20${year}-${month}-${day}`
+    if (!this.isCalendarDate(expiry)) return null
+
+    return {
+      underlying,
+      expiry,
+      type: type === 'C' ? 'call' : 'put',
+      strike: parseInt(strike, 10) / 1000
+    }
+  }
+
+  static decodeLeg(leg: PortableLeg, underlying: string): DecodedLeg | null {
+    const base = {
+      action: leg.quantity < 0 ? 'sell' as const : 'buy' as const,
+      quantity: Math.abs(leg.quantity),
+      price: leg.price
+    }
+    if (leg.symbol === underlying) {
+      return { ...base, type: 'stock' }
+    }
+
+    const option = this.parseOccSymbol(leg.symbol)
+    if (!option || option.underlying !== underlying) return null
+    return { ...base, type: option.type, expiry: option.expiry, strike: option.strike }
+  }
+
+  /**
+   * Option legs without their own expiry take defaultExpiry
+   */
+  static fromPayoffLegs(
+    name: string,
+    underlying: string,
+    legs: PayoffLeg[],
+    defaultExpiry?: string,
+    notes?: string
+  ): PortableStrategy {
+    return {
+      format: STRATEGY_FORMAT,
+      version: STRATEGY_FORMAT_VERSION,
+      name,
+      underlying,
+      legs: legs.map(leg => {
+        const quantity = leg.action === 'sell' ? -leg.quantity : leg.quantity
+        if (leg.type === 'stock') {
+          return { symbol: underlying, quantity, price: leg.premium }
+        }
+
+        const expiry = leg.expiry || defaultExpiry
+        if (!expiry) {
+          throw new Error(`The ${leg.strike} ${leg.type} leg has no expiry`)
+        }
+        return { symbol: this.toOccSymbol(underlying, expiry, leg.type, leg.strike), quantity, price: leg.premium }
+      }),
+      ...(notes ? { notes } : {})
+    }
+  }
+
+  /**
+   * Legs without a price get a zero premium
+   */
+  static toPayoffLegs(strategy: PortableStrategy): PayoffLeg[] {
+    return strategy.legs.map(leg => {
+      const decoded = this.decodeLeg(leg, strategy.underlying)
+      if (!decoded) {
+        throw new Error(`Leg ${leg.symbol} is not a ${strategy.underlying} option or share`)
+      }
+      return {
+        type: decoded.type,
+        strike: decoded.strike ?? decoded.price ?? 0,
+        premium: decoded.price ?? 0,
+        action: decoded.action,
+        quantity: decoded.quantity,
+        ...(decoded.expiry ? { expiry: decoded.expiry } : {})
+      }
+    })
+  }
+
+  static toJSON(strategy: PortableStrategy): string {
+    return JSON.stringify(strategy, null, 2)
+  }
+
+  static toText(strategy: PortableStrategy): string {
+    return strategy.legs.map(leg => {
+      const quantity = `${leg.quantity > 0 ? '+' : ''}${leg.quantity}`
+      const price = leg.price !== undefined ? ` @${this.formatNumber(leg.price)}` : ''
+      const option = this.parseOccSymbol(leg.symbol)
+      if (!option) {
+        return `${quantity} ${leg.symbol} STK${price}`
+      }
+      const strike = `${this.formatNumber(option.strike)}${option.type === 'call' ? 'C' : 'P'}`
+      return `${quantity} ${option.underlying} ${option.expiry} ${strike}${price}`
+    }).join(' / ')
+  }
+
+  /**
+   * JSON when the text starts with "{", otherwise the text form
+   */
+  static parse(text: string, name = ''): StrategyParseResult {
+    return text.trim().startsWith('{') ? this.parseJSON(text) : this.parseText(text, name)
+  }
+
+  static parseJSON(text: string): StrategyParseResult {
+    let raw: unknown
+    try {
+      raw = JSON.parse(text)
+    } catch (error) {
+      return { strategy: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+    }
+
+    const errors: string[] = []
+    if (!this.isRecord(raw)) {
+      return { strategy: null, errors: ['Strategy must be a JSON object'] }
+    }
+    if (raw.format !== STRATEGY_FORMAT) {
+      errors.push(`format must be "${STRATEGY_FORMAT}"`)
+    }
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+      errors.push('version must be a positive integer')
+    } else if (raw.version > STRATEGY_FORMAT_VERSION) {
+      errors.push(`version ${raw.version} is newer than the supported version ${STRATEGY_FORMAT_VERSION}`)
+    }
+    if (typeof raw.name !== 'string') {
+      errors.push('name must be a string')
+    }
+    if (raw.notes !== undefined && typeof raw.notes !== 'string') {
+      errors.push('notes must be a string')
+    }
+
+    const underlying = typeof raw.underlying === 'string' ? raw.underlying.trim().toUpperCase() : ''
+    if (!this.TICKER_PATTERN.test(underlying)) {
+      errors.push('underlying must be a ticker symbol')
+    }
+    if (!Array.isArray(raw.legs) || raw.legs.length === 0) {
+      errors.push('legs must be a non-empty array')
+      return { strategy: null, errors }
+    }
+
+    const legs: PortableLeg[] = []
+    raw.legs.forEach((leg: unknown, index: number) => {
+      const label = `Leg ${index + 1}`
+      if (!this.isRecord(leg)) {
+        errors.push(`${label}: must be an object`)
+        return
+      }
+      const symbol = typeof leg.symbol === 'string' ? leg.symbol.trim().toUpperCase() : ''
+      const legErrors = this.validateLeg(symbol, leg.quantity, leg.price, underlying)
+      errors.push(...legErrors.map(error => `${label}: ${error}`))
+      if (legErrors.length > 0 || typeof leg.quantity !== 'number') return
+      legs.push({
+        symbol: this.normalizeSymbol(symbol, underlying),
+        quantity: leg.quantity,
+        ...(typeof leg.price === 'number' ? { price: leg.price } : {})
+      })
+    })
+
+    if (errors.length > 0 || typeof raw.name !== 'string') return { strategy: null, errors }
+    const notes = typeof raw.notes === 'string' ? raw.notes : undefined
+
+    return {
+      strategy: {
+        format: STRATEGY_FORMAT,
+        version: STRATEGY_FORMAT_VERSION,
+        name: raw.name,
+        underlying,
+        legs,
+        ...(notes ? { notes } : {})
+      },
+      errors
+    }
+  }
+
+  static parseText(text: string, name = ''): StrategyParseResult {
+    const parts = text.split(/[/\n]/).map(part => part.trim()).filter(part => part.length > 0)
+    if (parts.length === 0) {
+      return { strategy: null, errors: ['No legs found'] }
+    }
+
+    const errors: string[] = []
+    const legs: PortableLeg[] = []
+    let underlying: string | null = null
+
+    parts.forEach((part, index) => {
+      const label = `Leg ${index + 1} ("${part}")`
+      const priceMatch = part.match(/\s*@\s*(\S+)$/)
+      const price = priceMatch ? Number(priceMatch[1]) : undefined
+      // Close the padding of a 21-character OCC symbol so it stays one token
+      const tokens = (priceMatch ? part.slice(0, priceMatch.index) : part).trim().toUpperCase()
+        .replace(this.PADDED_OCC_PATTERN, '$1$2')
+        .split(/\s+/)
+      const quantity = /^[+-]?\d+$/.test(tokens[0]) ? parseInt(tokens[0], 10) : NaN
+
+      let symbol: string
+      let legUnderlying: string
+      if (tokens.length === 2) {
+        const option = this.parseOccSymbol(tokens[1])
+        if (!option) {
+          errors.push(`${label}: expected an OCC symbol, "TICKER YYYY-MM-DD STRIKE[C|P]" or "TICKER STK"`)
+          return
+        }
+        symbol = tokens[1].replace(/^O:/, '')
+        legUnderlying = option.underlying
+      } else if (tokens.length === 3 && tokens[2] === 'STK') {
+        symbol = tokens[1]
+        legUnderlying = tokens[1]
+      } else if (tokens.length === 4) {
+        const strikeMatch = tokens[3].match(/^(\d+(?:\.\d+)?)([CP])$/)
+        if (!this.isCalendarDate(tokens[2]) || !strikeMatch) {
+          errors.push(`${label}: expected "TICKER YYYY-MM-DD STRIKE[C|P]"`)
+          return
+        }
+        symbol = this.toOccSymbol(tokens[1], tokens[2], strikeMatch[2] === 'C' ? 'call' : 'put', Number(strikeMatch[1]))
+        legUnderlying = tokens[1]
+      } else {
+        errors.push(`${label}: expected "QTY TICKER YYYY-MM-DD STRIKE[C|P] [@PRICE]"`)
+        return
+      }
+
+      if (underlying === null) {
+        underlying = legUnderlying
+      } else if (legUnderlying !== underlying) {
+        errors.push(`${label}: underlying ${legUnderlying} does not match ${underlying}`)
+        return
+      }
+
+      const legErrors = this.validateLeg(symbol, quantity, price, underlying)
+      errors.push(...legErrors.map(error => `${label}: ${error}`))
+      legs.push({ symbol, quantity, ...(price !== undefined ? { price } : {}) })
+    })
+
+    if (errors.length > 0 || underlying === null) return { strategy: null, errors }
+
+    return {
+      strategy: { format: STRATEGY_FORMAT, version: STRATEGY_FORMAT_VERSION, name, underlying, legs },
+      errors
+    }
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  private static validateLeg(symbol: string, quantity: unknown, price: unknown, underlying: string): string[] {
+    const errors: string[] = []
+
+    if (symbol !== underlying) {
+      const option = this.parseOccSymbol(symbol)
+      if (!option) {
+        errors.push(`symbol "${symbol}" is neither an OCC option symbol nor the underlying`)
+      } else if (option.underlying !== underlying) {
+        errors.push(`option on ${option.underlying} does not match underlying ${underlying}`)
+      } else if (!(option.strike > 0)) {
+        errors.push('strike must be positive')
+      }
+    }
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity === 0) {
+      errors.push('quantity must be a non-zero whole number')
+    }
+    if (price !== undefined && (typeof price !== 'number' || !isFinite(price) || price < 0)) {
+      errors.push('price must be a non-negative number')
+    }
+
+    return errors
+  }
+
+  private static normalizeSymbol(symbol: string, underlying: string): string {
+    if (symbol === underlying) return symbol
+    const option = this.parseOccSymbol(symbol)
+    return option ? this.toOccSymbol(option.underlying, option.expiry, option.type, option.strike) : symbol
+  }
+
+  private static isCalendarDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+    const date = new Date(`${value}T00:00:00Z`)
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+  }
+
+  private static formatNumber(value: number): string {
+    return Number(value.toFixed(4)).toString()
+  }
+}
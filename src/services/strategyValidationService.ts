@@ -1,9 +1,31 @@
-import type { OptionsContract } from '../types/options'
+import type { OptionsContract, OptionsPosition } from '../types/options'
+import { StrategyClassifierService, StrategyClassification } from './strategyClassifierService'
+import { PayoffCalculationService, type StrategyLeg as PayoffLeg } from './payoffCalculationService'
 
+/**
+ * Expiry and implied volatility come from the contract
+ */
 export interface StrategyLeg {
   contract: OptionsContract
   action: 'buy' | 'sell'
   quantity: number
+  // Shares per contract, 100 unless set
+  multiplier?: number
+}
+
+/**
+ * Shares of the underlying traded or held alongside the option legs.
+ * Quantity is in lots of multiplier shares (100 unless set), so one lot
+ * covers one contract.
+ */
+export interface StockLeg {
+  symbol: string
+  price: number
+  action: 'buy' | 'sell'
+  quantity: number
+  multiplier?: number
+  // Set when the shares are already held in the stock portfolio
+  stockPositionId?: string
 }
 
 export interface ValidationResult {
@@ -12,6 +34,9 @@ export interface ValidationResult {
   warnings: string[]
   maxProfit?: number
   maxLoss?: number
+  // Stored explicitly because Infinity does not survive JSON persistence
+  maxProfitUnbounded?: boolean
+  maxLossUnbounded?: boolean
   breakEvenPoints?: number[]
   netDebit?: number
   netCredit?: number
@@ -22,6 +47,8 @@ export interface StrategyRequirement {
   maxLegs: number
   requiredTypes: Array<'call' | 'put' | 'both'>
   requiresSameExpiration: boolean
+  // Long shares of the underlying, one lot per option contract
+  requiresStock?: boolean
   description: string
 }
 
@@ -117,6 +144,34 @@ const STRATEGY_REQUIREMENTS: Record<string, StrategyRequirement> = {
     requiresSameExpiration: false,
     description: 'Sell near-term call, buy longer-term call at same strike'
   },
+  'Calendar Spread': {
+    minLegs: 2,
+    maxLegs: 2,
+    requiredTypes: ['both', 'both'],
+    requiresSameExpiration: false,
+    description: 'Sell a near-term option, buy a longer-term option of the same type at the same strike'
+  },
+  'Diagonal Spread': {
+    minLegs: 2,
+    maxLegs: 2,
+    requiredTypes: ['both', 'both'],
+    requiresSameExpiration: false,
+    description: 'Sell a near-term option, buy a longer-term option of the same type at a different strike'
+  },
+  'Double Calendar': {
+    minLegs: 4,
+    maxLegs: 4,
+    requiredTypes: ['put', 'put', 'call', 'call'],
+    requiresSameExpiration: false,
+    description: 'Put calendar below the market and call calendar above it'
+  },
+  'Double Diagonal': {
+    minLegs: 4,
+    maxLegs: 4,
+    requiredTypes: ['put', 'put', 'call', 'call'],
+    requiresSameExpiration: false,
+    description: 'Put diagonal below the market and call diagonal above it, long legs in the back month'
+  },
   'Bull Condor': {
     minLegs: 4,
     maxLegs: 4,
@@ -137,6 +192,38 @@ const STRATEGY_REQUIREMENTS: Record<string, StrategyRequirement> = {
     requiredTypes: ['call', 'put'],
     requiresSameExpiration: true,
     description: 'Buy call and sell put at same strike to replicate long stock'
+  },
+  'Covered Call': {
+    minLegs: 1,
+    maxLegs: 1,
+    requiredTypes: ['call'],
+    requiresSameExpiration: true,
+    requiresStock: true,
+    description: 'Own 100 shares and sell one call against them'
+  },
+  'Protective Put': {
+    minLegs: 1,
+    maxLegs: 1,
+    requiredTypes: ['put'],
+    requiresSameExpiration: true,
+    requiresStock: true,
+    description: 'Buy one put for every 100 shares already held'
+  },
+  'Married Put': {
+    minLegs: 1,
+    maxLegs: 1,
+    requiredTypes: ['put'],
+    requiresSameExpiration: true,
+    requiresStock: true,
+    description: 'Buy 100 shares and one put together in the same order'
+  },
+  'Collar': {
+    minLegs: 2,
+    maxLegs: 2,
+    requiredTypes: ['put', 'call'],
+    requiresSameExpiration: true,
+    requiresStock: true,
+    description: 'Own 100 shares, buy a put below the market and sell a call above it'
   }
 }
 
@@ -538,7 +625,7 @@ export class StrategyValidationService {
     }
   }
 
-  static validateStrategy(strategyName: string, legs: StrategyLeg[]): ValidationResult {
+  static validateStrategy(strategyName: string, legs: StrategyLeg[], stockLegs: StockLeg[] = []): ValidationResult {
     if (legs.length === 0) {
       return {
         isValid: false,
@@ -564,8 +651,25 @@ export class StrategyValidationService {
       case 'Butterfly Spread':
       case 'Bull Butterfly':
         return this.validateButterflySpread(legs)
-      case 'Call Ratio Back Spread':
       case 'Long Calendar with Calls':
+        return this.validateCalendarSpread(legs, 'call')
+      case 'Calendar Spread':
+        return this.validateCalendarSpread(legs)
+      case 'Diagonal Spread':
+        return this.validateDiagonalSpread(legs)
+      case 'Double Calendar':
+        return this.validateDoubleTimeSpread(legs, true)
+      case 'Double Diagonal':
+        return this.validateDoubleTimeSpread(legs, false)
+      case 'Covered Call':
+        return this.validateCoveredCall(legs, stockLegs)
+      case 'Protective Put':
+        return this.validateProtectivePut(legs, stockLegs, false)
+      case 'Married Put':
+        return this.validateProtectivePut(legs, stockLegs, true)
+      case 'Collar':
+        return this.validateCollar(legs, stockLegs)
+      case 'Call Ratio Back Spread':
       case 'Bull Condor':
       case 'Range Forward':
       case 'Long Synthetic Future':
@@ -574,7 +678,6 @@ export class StrategyValidationService {
       case 'Long Put':
       case 'Sell Put':
       case 'Cash-Secured Put':
-      case 'Covered Call':
         if (legs.length !== 1) {
           return {
             isValid: false,
@@ -597,6 +700,387 @@ export class StrategyValidationService {
     }
   }
 
+  static validateCoveredCall(legs: StrategyLeg[], stockLegs: StockLeg[]): ValidationResult {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (legs.length !== 1) {
+      errors.push('Covered Call requires exactly 1 option leg')
+      return { isValid: false, errors, warnings }
+    }
+
+    const call = legs[0]
+    if (call.contract.contract_type !== 'call' || call.action !== 'sell') {
+      errors.push('The option leg must be a short call')
+    }
+
+    const shares = this.checkStockCoverage(legs, stockLegs, errors)
+    const sharesNeeded = call.quantity * (call.multiplier ?? 100)
+    if (shares > 0 && shares < sharesNeeded) {
+      errors.push(`Selling ${call.quantity} call(s) needs ${sharesNeeded} shares; only ${shares} are covered`)
+    } else if (shares > sharesNeeded) {
+      warnings.push(`Only ${sharesNeeded} of ${shares} shares are covered by the short call`)
+    }
+
+    const stockPrice = this.averageStockPrice(stockLegs)
+    if (stockPrice > 0 && call.contract.strike_price < stockPrice) {
+      warnings.push('Call strike is below the stock price; the shares are likely to be called away')
+    }
+
+    if (call.contract.open_interest === 0 && call.contract.volume === 0) {
+      warnings.push('Call leg has low liquidity')
+    }
+
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings }
+    }
+
+    return { isValid: true, errors: [], warnings, ...this.payoffMetrics(legs, stockLegs) }
+  }
+
+  /**
+   * Protective put on shares already held, or a married put that buys the
+   * shares and the put in the same order
+   */
+  static validateProtectivePut(legs: StrategyLeg[], stockLegs: StockLeg[], married: boolean): ValidationResult {
+    const name = married ? 'Married Put' : 'Protective Put'
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (legs.length !== 1) {
+      errors.push(`${name} requires exactly 1 option leg`)
+      return { isValid: false, errors, warnings }
+    }
+
+    const put = legs[0]
+    if (put.contract.contract_type !== 'put' || put.action !== 'buy') {
+      errors.push('The option leg must be a long put')
+    }
+
+    if (married && stockLegs.some(leg => leg.stockPositionId)) {
+      errors.push('A married put buys the shares with the put; use a protective put for shares already held')
+    }
+
+    const shares = this.checkStockCoverage(legs, stockLegs, errors)
+    const sharesProtected = put.quantity * (put.multiplier ?? 100)
+    if (shares > 0 && shares < sharesProtected) {
+      errors.push(`${put.quantity} put(s) protect ${sharesProtected} shares but only ${shares} are held`)
+    } else if (shares > sharesProtected) {
+      warnings.push(`${shares - sharesProtected} shares are left unprotected`)
+    }
+
+    const stockPrice = this.averageStockPrice(stockLegs)
+    if (stockPrice > 0 && put.contract.strike_price > stockPrice) {
+      warnings.push('Put is in the money; most of its premium is intrinsic value')
+    }
+
+    if (put.contract.open_interest === 0 && put.contract.volume === 0) {
+      warnings.push('Put leg has low liquidity')
+    }
+
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings }
+    }
+
+    return { isValid: true, errors: [], warnings, ...this.payoffMetrics(legs, stockLegs) }
+  }
+
+  static validateCollar(legs: StrategyLeg[], stockLegs: StockLeg[]): ValidationResult {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (legs.length !== 2) {
+      errors.push('Collar requires exactly 2 option legs')
+      return { isValid: false, errors, warnings }
+    }
+
+    const put = legs.find(l => l.contract.contract_type === 'put')
+    const call = legs.find(l => l.contract.contract_type === 'call')
+    if (!put || !call) {
+      errors.push('Requires one put leg and one call leg')
+      return { isValid: false, errors, warnings }
+    }
+
+    if (put.action !== 'buy' || call.action !== 'sell') {
+      errors.push('Buy the put and sell the call')
+    }
+    if (put.contract.expiration_date !== call.contract.expiration_date) {
+      errors.push('Both legs must have the same expiration date')
+    }
+    if (put.quantity !== call.quantity) {
+      errors.push('Both legs must have the same quantity')
+    }
+    if (put.contract.strike_price >= call.contract.strike_price) {
+      errors.push('Put strike must be below the call strike')
+    }
+
+    const shares = this.checkStockCoverage(legs, stockLegs, errors)
+    const sharesNeeded = call.quantity * (call.multiplier ?? 100)
+    if (shares > 0 && shares < sharesNeeded) {
+      errors.push(`The collar needs ${sharesNeeded} shares; only ${shares} are covered`)
+    } else if (shares > sharesNeeded) {
+      warnings.push(`Only ${sharesNeeded} of ${shares} shares are collared`)
+    }
+
+    const stockPrice = this.averageStockPrice(stockLegs)
+    if (stockPrice > 0 && (stockPrice < put.contract.strike_price || stockPrice > call.contract.strike_price)) {
+      warnings.push('Stock price is outside the collar strikes')
+    }
+
+    for (const leg of [put, call]) {
+      if (leg.contract.open_interest === 0 && leg.contract.volume === 0) {
+        warnings.push(`${leg.contract.contract_type === 'put' ? 'Put' : 'Call'} leg has low liquidity`)
+      }
+    }
+
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings }
+    }
+
+    return { isValid: true, errors: [], warnings, ...this.payoffMetrics(legs, stockLegs) }
+  }
+
+  /**
+   * Checks stock legs are long shares of the options' underlying and returns
+   * the net number of shares
+   */
+  private static checkStockCoverage(legs: StrategyLeg[], stockLegs: StockLeg[], errors: string[]): number {
+    const underlying = legs[0].contract.underlying_ticker
+    if (stockLegs.some(leg => leg.symbol !== underlying)) {
+      errors.push(`Stock legs must be shares of ${underlying}`)
+    }
+    if (stockLegs.some(leg => !(leg.price > 0))) {
+      errors.push('Stock legs need a share price')
+    }
+
+    const shares = stockLegs.reduce((sum, leg) => {
+      const sign = leg.action === 'buy' ? 1 : -1
+      return sum + sign * leg.quantity * (leg.multiplier ?? 100)
+    }, 0)
+    if (shares <= 0) {
+      errors.push(`Requires long shares of ${underlying}, held or bought with the order`)
+    }
+    return shares
+  }
+
+  private static averageStockPrice(stockLegs: StockLeg[]): number {
+    const long = stockLegs.filter(leg => leg.action === 'buy')
+    const shares = long.reduce((sum, leg) => sum + leg.quantity * (leg.multiplier ?? 100), 0)
+    return shares > 0
+      ? long.reduce((sum, leg) => sum + leg.price * leg.quantity * (leg.multiplier ?? 100), 0) / shares
+      : 0
+  }
+
+  static validateCalendarSpread(legs: StrategyLeg[], requiredType?: 'call' | 'put'): ValidationResult {
+    return this.validateTimeSpread('Calendar Spread', legs, true, requiredType)
+  }
+
+  static validateDiagonalSpread(legs: StrategyLeg[], requiredType?: 'call' | 'put'): ValidationResult {
+    return this.validateTimeSpread('Diagonal Spread', legs, false, requiredType)
+  }
+
+  /**
+   * Double calendar (sameStrike) or double diagonal: a put time spread below
+   * a call time spread sharing the same two expiries
+   */
+  static validateDoubleTimeSpread(legs: StrategyLeg[], sameStrike: boolean): ValidationResult {
+    const name = sameStrike ? 'Double Calendar' : 'Double Diagonal'
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (legs.length !== 4) {
+      errors.push(`${name} requires exactly 4 legs`)
+      return { isValid: false, errors, warnings }
+    }
+
+    const calls = legs.filter(l => l.contract.contract_type === 'call')
+    const puts = legs.filter(l => l.contract.contract_type === 'put')
+    if (calls.length !== 2 || puts.length !== 2) {
+      errors.push('Requires two call legs and two put legs')
+      return { isValid: false, errors, warnings }
+    }
+
+    for (const [label, pair] of [['Call', calls], ['Put', puts]] as const) {
+      for (const message of this.checkTimeSpread(pair[0], pair[1], sameStrike, warnings)) {
+        errors.push(`${label} side: ${message}`)
+      }
+    }
+
+    const expiries = new Set(legs.map(l => l.contract.expiration_date))
+    if (expiries.size !== 2) {
+      errors.push('Both sides must use the same front and back expiries')
+    }
+
+    const highestPut = Math.max(...puts.map(l => l.contract.strike_price))
+    const lowestCall = Math.min(...calls.map(l => l.contract.strike_price))
+    if (highestPut > lowestCall) {
+      errors.push('Put strikes must be at or below the call strikes')
+    }
+
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings }
+    }
+
+    return { isValid: true, errors: [], warnings, ...this.payoffMetrics(legs) }
+  }
+
+  private static validateTimeSpread(
+    name: string,
+    legs: StrategyLeg[],
+    sameStrike: boolean,
+    requiredType?: 'call' | 'put'
+  ): ValidationResult {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (legs.length !== 2) {
+      errors.push(`${name} requires exactly 2 legs`)
+      return { isValid: false, errors, warnings }
+    }
+
+    if (requiredType && legs.some(l => l.contract.contract_type !== requiredType)) {
+      errors.push(`Both legs must be ${requiredType} options`)
+    }
+
+    errors.push(...this.checkTimeSpread(legs[0], legs[1], sameStrike, warnings))
+
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings }
+    }
+
+    return { isValid: true, errors: [], warnings, ...this.payoffMetrics(legs) }
+  }
+
+  /**
+   * Structural checks shared by calendars and diagonals: same type and
+   * underlying, two expiries, short front month, long back month, equal size
+   */
+  private static checkTimeSpread(
+    first: StrategyLeg,
+    second: StrategyLeg,
+    sameStrike: boolean,
+    warnings: string[]
+  ): string[] {
+    const errors: string[] = []
+    const [near, far] = first.contract.expiration_date <= second.contract.expiration_date
+      ? [first, second]
+      : [second, first]
+
+    if (near.contract.contract_type !== far.contract.contract_type) {
+      errors.push('Both legs must be the same option type')
+    }
+    if (near.contract.underlying_ticker !== far.contract.underlying_ticker) {
+      errors.push('Both legs must have the same underlying asset')
+    }
+    if (near.contract.expiration_date === far.contract.expiration_date) {
+      errors.push('Legs must have different expiration dates')
+      return errors
+    }
+    if (near.action !== 'sell' || far.action !== 'buy') {
+      errors.push('Sell the front-month leg and buy the back-month leg')
+    }
+    if (near.quantity !== far.quantity) {
+      errors.push('Both legs must have the same quantity')
+    }
+
+    const nearStrike = near.contract.strike_price
+    const farStrike = far.contract.strike_price
+    if (sameStrike && nearStrike !== farStrike) {
+      errors.push('Both legs must have the same strike price')
+    }
+    if (!sameStrike && nearStrike === farStrike) {
+      errors.push('Strikes must differ; use a calendar spread for the same strike')
+    }
+
+    // A long leg further out of the money than the short leg can lose more than the debit
+    const isCall = near.contract.contract_type === 'call'
+    if (!sameStrike && (isCall ? farStrike > nearStrike : farStrike < nearStrike)) {
+      warnings.push('Long back-month strike is further out of the money than the short strike')
+    }
+
+    if (sameStrike && far.contract.last <= near.contract.last) {
+      warnings.push('Back-month option is priced at or below the front month; check the quotes')
+    }
+
+    for (const leg of [near, far]) {
+      if (leg.contract.open_interest === 0 && leg.contract.volume === 0) {
+        warnings.push(`${leg.contract.expiration_date} leg has low liquidity`)
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Max profit/loss and breakevens at the front expiry, with back-month legs
+   * valued theoretically
+   */
+  private static payoffMetrics(legs: StrategyLeg[], stockLegs: StockLeg[] = []): Partial<ValidationResult> {
+    const payoff = PayoffCalculationService.calculatePayoff(
+      this.toPayoffLegs(legs, stockLegs),
+      legs[0].contract.strike_price,
+      '',
+      { underlyingTicker: legs[0].contract.underlying_ticker }
+    )
+    const netCost = legs.reduce((sum, leg) => {
+      const sign = leg.action === 'buy' ? 1 : -1
+      return sum + sign * leg.contract.last * leg.quantity * (leg.multiplier ?? 100)
+    }, 0) + stockLegs
+      // Shares already held are not paid for again
+      .filter(leg => !leg.stockPositionId)
+      .reduce((sum, leg) => sum + (leg.action === 'buy' ? 1 : -1) * leg.price * leg.quantity * (leg.multiplier ?? 100), 0)
+
+    return {
+      maxProfit: payoff.maxProfit,
+      maxLoss: payoff.maxLossUnbounded ? Infinity : Math.abs(Math.min(0, payoff.maxLoss)),
+      maxProfitUnbounded: payoff.maxProfitUnbounded,
+      maxLossUnbounded: payoff.maxLossUnbounded,
+      breakEvenPoints: payoff.breakEvenPoints,
+      netDebit: netCost > 0 ? netCost : 0,
+      netCredit: netCost < 0 ? -netCost : 0
+    }
+  }
+
+  /**
+   * Convert contract legs to payoff legs, carrying expiry, IV and multiplier.
+   * Stock legs are appended with their share price as the entry premium.
+   */
+  static toPayoffLegs(legs: StrategyLeg[], stockLegs: StockLeg[] = []): PayoffLeg[] {
+    const stock: PayoffLeg[] = stockLegs.map(leg => ({
+      type: 'stock',
+      strike: leg.price,
+      premium: leg.price,
+      action: leg.action,
+      quantity: leg.quantity,
+      multiplier: leg.multiplier
+    }))
+
+    return legs.map((leg): PayoffLeg => ({
+      type: leg.contract.contract_type,
+      strike: leg.contract.strike_price,
+      premium: leg.contract.last,
+      action: leg.action,
+      quantity: leg.quantity,
+      expiry: leg.contract.expiration_date,
+      impliedVolatility: leg.contract.implied_volatility || undefined,
+      multiplier: leg.multiplier
+    })).concat(stock)
+  }
+
+  /**
+   * Lots of an underlying already tied up as stock legs of open multi-leg
+   * positions. Those shares sit in the stock account too, so only the rest of
+   * a holding is free to cover new short calls.
+   */
+  static linkedStockLots(positions: OptionsPosition[], underlyingTicker: string): number {
+    return positions
+      .filter(position => position.legs && position.underlyingTicker === underlyingTicker)
+      .flatMap(position => position.legs!
+        .filter(leg => leg.type === 'stock')
+        .map(leg => (leg.action === 'buy' ? leg.quantity : -leg.quantity) * position.quantity))
+      .reduce((sum, lots) => sum + lots, 0)
+  }
+
   static validateGenericMultiLeg(strategyName: string, legs: StrategyLeg[]): ValidationResult {
     const errors: string[] = []
     const warnings: string[] = []
@@ -646,8 +1130,15 @@ export class StrategyValidationService {
     }
   }
 
+  /**
+   * Identify which strategy a set of contract legs forms, without being told
+   */
+  static identifyStrategy(legs: StrategyLeg[], stockLegs: StockLeg[] = []): StrategyClassification {
+    return StrategyClassifierService.classify(this.toPayoffLegs(legs, stockLegs))
+  }
+
   static isSingleLegStrategy(strategyName: string): boolean {
-    return ['Long Call', 'Long Put', 'Sell Put', 'Cash-Secured Put', 'Covered Call'].includes(strategyName)
+    return ['Long Call', 'Long Put', 'Sell Put', 'Cash-Secured Put'].includes(strategyName)
   }
 
   static isMultiLegStrategy(strategyName: string): boolean {
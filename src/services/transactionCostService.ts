@@ -0,0 +1,125 @@
+export interface TransactionCostModel {
+  commissionPerContract: number
+  exchangeFeePerContract: number
+  // Share of the bid-ask spread paid beyond mid: 0 fills at mid, 0.5 at the touch
+  slippageFraction: number
+  // Largest share of the day's volume / open interest we expect to trade without moving the market
+  maxVolumeFraction: number
+  maxOpenInterestFraction: number
+}
+
+export const DEFAULT_TRANSACTION_COST_MODEL: TransactionCostModel = {
+  commissionPerContract: 0.65,
+  exchangeFeePerContract: 0.05,
+  slippageFraction: 0.5,
+  maxVolumeFraction: 0.1,
+  maxOpenInterestFraction: 0.05
+}
+
+export interface CostQuote {
+  bid: number
+  ask: number
+  last?: number
+  volume?: number
+  open_interest?: number
+}
+
+export interface CostAdjustedEdge {
+  executionPrice: number
+  // All amounts are per contract (100 shares)
+  grossEdge: number
+  transactionCost: number
+  netEdge: number
+  breakEvenCost: number
+  capacity: number
+}
+
+/**
+ * Execution costs for arbitrage scoring. A leg fills at mid plus (buys) or
+ * minus (sells) slippageFraction of the spread, then pays commission and
+ * exchange fees. Capacity is the number of contracts the quote's volume and
+ * open interest can absorb.
+ */
+export class TransactionCostService {
+  private static readonly STORAGE_KEY = 'transactionCostModel'
+
+  private static model: TransactionCostModel | null = null
+
+  static getModel(): TransactionCostModel {
+    if (this.model) return this.model
+
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY)
+      this.model = stored ? { ...DEFAULT_TRANSACTION_COST_MODEL, ...JSON.parse(stored) } : { ...DEFAULT_TRANSACTION_COST_MODEL }
+    } catch (error) {
+      this.model = { ...DEFAULT_TRANSACTION_COST_MODEL }
+    }
+    return this.model!
+  }
+
+  static setModel(model: TransactionCostModel): void {
+    const invalid = Object.entries(model).find(([, value]) => !isFinite(value) || value < 0)
+    if (invalid) {
+      throw new Error(`Invalid transaction cost setting: ${invalid[0]}`)
+    }
+
+    this.model = { ...model }
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(model))
+    } catch (error) {
+      console.error('Failed to persist transaction cost model:', error)
+    }
+  }
+
+  /**
+   * Price a single leg against its fair value. Without a two-sided quote the
+   * last trade is used with no spread cost.
+   */
+  static evaluateLeg(
+    quote: CostQuote,
+    fairValue: number,
+    action: 'buy' | 'sell',
+    model: TransactionCostModel = this.getModel()
+  ): CostAdjustedEdge {
+    const hasQuote = quote.bid > 0 && quote.ask >= quote.bid
+    const mid = hasQuote ? (quote.bid + quote.ask) / 2 : quote.last || 0
+    const spread = hasQuote ? quote.ask - quote.bid : 0
+    const executionPrice = action === 'buy'
+      ? mid + model.slippageFraction * spread
+      : mid - model.slippageFraction * spread
+
+    const direction = action === 'buy' ? 1 : -1
+    const edgeAtMid = direction * (fairValue - mid) * 100
+    const grossEdge = direction * (fairValue - executionPrice) * 100
+    const fees = model.commissionPerContract + model.exchangeFeePerContract
+
+    return {
+      executionPrice,
+      grossEdge,
+      transactionCost: edgeAtMid - grossEdge + fees,
+      netEdge: grossEdge - fees,
+      breakEvenCost: edgeAtMid,
+      capacity: this.capacity(quote, model)
+    }
+  }
+
+  /**
+   * Combine legs traded together as one structure; capacity is set by the
+   * thinnest leg
+   */
+  static combine(legs: CostAdjustedEdge[]): Omit<CostAdjustedEdge, 'executionPrice'> {
+    return {
+      grossEdge: legs.reduce((sum, leg) => sum + leg.grossEdge, 0),
+      transactionCost: legs.reduce((sum, leg) => sum + leg.transactionCost, 0),
+      netEdge: legs.reduce((sum, leg) => sum + leg.netEdge, 0),
+      breakEvenCost: legs.reduce((sum, leg) => sum + leg.breakEvenCost, 0),
+      capacity: legs.length > 0 ? Math.min(...legs.map(leg => leg.capacity)) : 0
+    }
+  }
+
+  static capacity(quote: CostQuote, model: TransactionCostModel = this.getModel()): number {
+    const byVolume = (quote.volume || 0) * model.maxVolumeFraction
+    const byOpenInterest = (quote.open_interest || 0) * model.maxOpenInterestFraction
+    return Math.max(0, Math.floor(Math.min(byVolume, byOpenInterest)))
+  }
+}
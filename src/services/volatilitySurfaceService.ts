@@ -0,0 +1,393 @@
+import { liveOptionsDataService, LiveOptionsContract } from './liveOptionsDataService'
+import { DividendService } from './dividendService'
+import { presentValueOfDividends } from './blackScholesService'
+import { RateCurveService } from './rateCurveService'
+
+/**
+ * Raw SVI parameterisation of total implied variance for one expiry:
+ * w(k) = a + b * (rho * (k - m) + sqrt((k - m)^2 + sigma^2)), k = ln(K / F)
+ */
+export interface SVIParams {
+  a: number
+  b: number
+  rho: number
+  m: number
+  sigma: number
+}
+
+export interface SurfaceSlice {
+  expirationDate: string
+  timeToExpiry: number
+  forward: number
+  params: SVIParams
+  rmse: number
+  pointCount: number
+}
+
+export interface VolatilitySurface {
+  underlying: string
+  spotPrice: number
+  // Flat rate override; when absent each slice's forward uses the rate curve
+  riskFreeRate?: number
+  builtAt: Date
+  slices: SurfaceSlice[]
+}
+
+export type StickyMode = 'sticky-strike' | 'sticky-delta'
+
+export type SurfaceContract = Pick<LiveOptionsContract, 'strike_price' | 'expiration_date' | 'implied_volatility' | 'contract_type'>
+
+export class VolatilitySurfaceService {
+  private static readonly MIN_POINTS_PER_SLICE = 5
+  private static readonly MIN_IV = 0.01
+  private static readonly MAX_IV = 5
+
+  private static cache: Map<string, VolatilitySurface> = new Map()
+
+  static async loadSurface(ticker: string, riskFreeRate?: number): Promise<VolatilitySurface | null> {
+    try {
+      const [contracts, spotPrice] = await Promise.all([
+        liveOptionsDataService.fetchOptionsForTicker(ticker),
+        liveOptionsDataService.getUnderlyingPrice(ticker)
+      ])
+
+      if (!spotPrice || contracts.length === 0) return null
+
+      const surface = this.buildSurface(ticker, spotPrice, contracts, riskFreeRate)
+      this.cache.set(ticker, surface)
+      return surface
+    } catch (error) {
+      console.error(`Failed to build volatility surface for ${ticker}:`, error)
+      return null
+    }
+  }
+
+  static getCachedSurface(ticker: string): VolatilitySurface | undefined {
+    return this.cache.get(ticker)
+  }
+
+  static buildSurface(
+    underlying: string,
+    spotPrice: number,
+    contracts: SurfaceContract[],
+    riskFreeRate?: number
+  ): VolatilitySurface {
+    const byExpiry = new Map<string, SurfaceContract[]>()
+    for (const contract of contracts) {
+      if (!contract.implied_volatility || contract.implied_volatility < this.MIN_IV || contract.implied_volatility > this.MAX_IV) continue
+      const group = byExpiry.get(contract.expiration_date) || []
+      group.push(contract)
+      byExpiry.set(contract.expiration_date, group)
+    }
+
+    const slices: SurfaceSlice[] = []
+    for (const [expirationDate, group] of byExpiry.entries()) {
+      const timeToExpiry = this.yearsUntil(expirationDate)
+      if (timeToExpiry <= 0) continue
+
+      const forward = this.calculateForward(underlying, spotPrice, timeToExpiry, riskFreeRate)
+
+      // Use out-of-the-money quotes only: they carry the cleanest IVs
+      const points = group
+        .filter(c => (c.contract_type === 'call' ? c.strike_price >= forward : c.strike_price <= forward))
+        .map(c => ({
+          k: Math.log(c.strike_price / forward),
+          w: c.implied_volatility * c.implied_volatility * timeToExpiry
+        }))
+
+      const fitPoints = points.length >= this.MIN_POINTS_PER_SLICE
+        ? points
+        : group.map(c => ({
+            k: Math.log(c.strike_price / forward),
+            w: c.implied_volatility * c.implied_volatility * timeToExpiry
+          }))
+
+      const { params, rmse } = this.fitSVISlice(
+        fitPoints.map(p => p.k),
+        fitPoints.map(p => p.w)
+      )
+
+      slices.push({
+        expirationDate,
+        timeToExpiry,
+        forward,
+        params,
+        rmse,
+        pointCount: fitPoints.length
+      })
+    }
+
+    slices.sort((a, b) => a.timeToExpiry - b.timeToExpiry)
+
+    return {
+      underlying,
+      spotPrice,
+      riskFreeRate,
+      builtAt: new Date(),
+      slices
+    }
+  }
+
+  /**
+   * Implied volatility at a strike and expiry. Expiry may be an ISO date or a
+   * time in years. Between slices the surface is interpolated linearly in total
+   * variance at constant forward moneyness; outside it, vol is held flat.
+   */
+  static getVol(surface: VolatilitySurface, strike: number, expiry: string | number): number {
+    if (surface.slices.length === 0) return NaN
+
+    const timeToExpiry = Math.max(1 / 365, typeof expiry === 'number' ? expiry : this.yearsUntil(expiry))
+    const forward = this.calculateForward(surface.underlying, surface.spotPrice, timeToExpiry, surface.riskFreeRate)
+    const k = Math.log(strike / forward)
+
+    const totalVariance = this.interpolateTotalVariance(surface.slices, k, timeToExpiry)
+    const vol = Math.sqrt(Math.max(0, totalVariance) / timeToExpiry)
+
+    return Math.min(this.MAX_IV, Math.max(this.MIN_IV, vol))
+  }
+
+  /**
+   * Vol for repricing a contract under a spot/time scenario.
+   * Sticky-strike keeps each strike's vol as the spot moves; sticky-delta keeps
+   * vol attached to moneyness, so the smile slides with the underlying.
+   */
+  static getScenarioVol(
+    surface: VolatilitySurface,
+    strike: number,
+    timeToExpiry: number,
+    scenarioSpotPrice: number,
+    mode: StickyMode,
+    referenceSpotPrice: number = surface.spotPrice
+  ): number {
+    const effectiveStrike = mode === 'sticky-delta'
+      ? strike * referenceSpotPrice / scenarioSpotPrice
+      : strike
+
+    return this.getVol(surface, effectiveStrike, timeToExpiry)
+  }
+
+  static sviTotalVariance(params: SVIParams, k: number): number {
+    const x = k - params.m
+    return params.a + params.b * (params.rho * x + Math.sqrt(x * x + params.sigma * params.sigma))
+  }
+
+  /**
+   * Quasi-explicit SVI calibration: for fixed (m, sigma) the remaining
+   * parameters solve a linear least-squares problem, so only the 2-D outer
+   * search over (m, sigma) is nonlinear (grid search then Nelder-Mead).
+   */
+  static fitSVISlice(logStrikes: number[], totalVariances: number[]): { params: SVIParams; rmse: number } {
+    const n = logStrikes.length
+    const meanVariance = n > 0 ? totalVariances.reduce((sum, w) => sum + w, 0) / n : 0
+
+    if (n < this.MIN_POINTS_PER_SLICE) {
+      const params: SVIParams = { a: meanVariance, b: 0, rho: 0, m: 0, sigma: 0.1 }
+      return { params, rmse: this.rmse(params, logStrikes, totalVariances) }
+    }
+
+    const kMin = Math.min(...logStrikes)
+    const kMax = Math.max(...logStrikes)
+    const kRange = Math.max(kMax - kMin, 0.01)
+
+    let best = { m: 0, sigma: 0.1, error: Infinity }
+    for (let i = 0; i <= 10; i++) {
+      const m = kMin + (kRange * i) / 10
+      for (let j = 0; j <= 10; j++) {
+        const sigma = 0.005 * Math.pow(200, j / 10)
+        const error = this.innerFit(m, sigma, logStrikes, totalVariances).error
+        if (error < best.error) best = { m, sigma, error }
+      }
+    }
+
+    const refined = this.nelderMead(
+      ([m, logSigma]) => this.innerFit(m, Math.exp(logSigma), logStrikes, totalVariances).error,
+      [best.m, Math.log(best.sigma)],
+      [kRange * 0.1, 0.5]
+    )
+
+    const m = refined[0]
+    const sigma = Math.exp(refined[1])
+    const { a, b, rho } = this.innerFit(m, sigma, logStrikes, totalVariances)
+    const params: SVIParams = { a, b, rho, m, sigma }
+
+    return { params, rmse: this.rmse(params, logStrikes, totalVariances) }
+  }
+
+  private static innerFit(
+    m: number,
+    sigma: number,
+    logStrikes: number[],
+    totalVariances: number[]
+  ): { a: number; b: number; rho: number; error: number } {
+    // w = a + d*y + c*sqrt(y^2 + 1) with y = (k - m) / sigma, c = b*sigma, d = rho*b*sigma
+    const ys = logStrikes.map(k => (k - m) / sigma)
+    const zs = ys.map(y => Math.sqrt(y * y + 1))
+
+    const solution = this.solveLeastSquares(
+      ys.map((y, i) => [1, y, zs[i]]),
+      totalVariances
+    )
+
+    let [a, d, c] = solution || [totalVariances.reduce((s, w) => s + w, 0) / totalVariances.length, 0, 0]
+
+    // Enforce c >= 0 and |d| <= c, then refit the level for the clamped shape
+    if (c < 0 || Math.abs(d) > c) {
+      c = Math.max(0, c, Math.abs(d) * 0.999)
+      d = Math.max(-c, Math.min(c, d))
+      a = totalVariances.reduce((sum, w, i) => sum + (w - d * ys[i] - c * zs[i]), 0) / totalVariances.length
+    }
+
+    // Minimum total variance must be non-negative
+    const minVariance = a + c * Math.sqrt(Math.max(0, 1 - (c > 0 ? (d / c) ** 2 : 0)))
+    if (minVariance < 0) {
+      a -= minVariance
+    }
+
+    const b = c / sigma
+    const rho = c > 0 ? d / c : 0
+    const error = totalVariances.reduce((sum, w, i) => {
+      const residual = a + d * ys[i] + c * zs[i] - w
+      return sum + residual * residual
+    }, 0)
+
+    return { a, b, rho, error }
+  }
+
+  private static solveLeastSquares(rows: number[][], targets: number[]): number[] | null {
+    const size = rows[0].length
+    const normal = Array.from({ length: size }, () => new Array(size + 1).fill(0))
+
+    for (let r = 0; r < rows.length; r++) {
+      for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+          normal[i][j] += rows[r][i] * rows[r][j]
+        }
+        normal[i][size] += rows[r][i] * targets[r]
+      }
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < size; col++) {
+      let pivot = col
+      for (let row = col + 1; row < size; row++) {
+        if (Math.abs(normal[row][col]) > Math.abs(normal[pivot][col])) pivot = row
+      }
+      if (Math.abs(normal[pivot][col]) < 1e-14) return null
+      ;[normal[col], normal[pivot]] = [normal[pivot], normal[col]]
+
+      for (let row = col + 1; row < size; row++) {
+        const factor = normal[row][col] / normal[col][col]
+        for (let k = col; k <= size; k++) {
+          normal[row][k] -= factor * normal[col][k]
+        }
+      }
+    }
+
+    const solution = new Array(size).fill(0)
+    for (let row = size - 1; row >= 0; row--) {
+      let sum = normal[row][size]
+      for (let k = row + 1; k < size; k++) {
+        sum -= normal[row][k] * solution[k]
+      }
+      solution[row] = sum / normal[row][row]
+    }
+
+    return solution
+  }
+
+  private static nelderMead(
+    objective: (point: number[]) => number,
+    start: number[],
+    stepSizes: number[],
+    maxIterations: number = 200
+  ): number[] {
+    const dim = start.length
+    let simplex = [start, ...stepSizes.map((step, i) => start.map((v, j) => (i === j ? v + step : v)))]
+    let values = simplex.map(objective)
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b])
+      simplex = order.map(i => simplex[i])
+      values = order.map(i => values[i])
+
+      if (Math.abs(values[dim] - values[0]) < 1e-12) break
+
+      const centroid = new Array(dim).fill(0)
+      for (let i = 0; i < dim; i++) {
+        for (let j = 0; j < dim; j++) centroid[j] += simplex[i][j] / dim
+      }
+
+      const worst = simplex[dim]
+      const reflected = centroid.map((c, j) => c + (c - worst[j]))
+      const reflectedValue = objective(reflected)
+
+      if (reflectedValue < values[0]) {
+        const expanded = centroid.map((c, j) => c + 2 * (c - worst[j]))
+        const expandedValue = objective(expanded)
+        if (expandedValue < reflectedValue) {
+          simplex[dim] = expanded
+          values[dim] = expandedValue
+        } else {
+          simplex[dim] = reflected
+          values[dim] = reflectedValue
+        }
+      } else if (reflectedValue < values[dim - 1]) {
+        simplex[dim] = reflected
+        values[dim] = reflectedValue
+      } else {
+        const contracted = centroid.map((c, j) => c + 0.5 * (worst[j] - c))
+        const contractedValue = objective(contracted)
+        if (contractedValue < values[dim]) {
+          simplex[dim] = contracted
+          values[dim] = contractedValue
+        } else {
+          for (let i = 1; i <= dim; i++) {
+            simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]))
+            values[i] = objective(simplex[i])
+          }
+        }
+      }
+    }
+
+    return simplex[values.indexOf(Math.min(...values))]
+  }
+
+  private static interpolateTotalVariance(slices: SurfaceSlice[], k: number, timeToExpiry: number): number {
+    const first = slices[0]
+    const last = slices[slices.length - 1]
+
+    if (timeToExpiry <= first.timeToExpiry) {
+      return this.sviTotalVariance(first.params, k) * timeToExpiry / first.timeToExpiry
+    }
+    if (timeToExpiry >= last.timeToExpiry) {
+      return this.sviTotalVariance(last.params, k) * timeToExpiry / last.timeToExpiry
+    }
+
+    const upperIndex = slices.findIndex(slice => slice.timeToExpiry >= timeToExpiry)
+    const lower = slices[upperIndex - 1]
+    const upper = slices[upperIndex]
+    const weight = (timeToExpiry - lower.timeToExpiry) / (upper.timeToExpiry - lower.timeToExpiry)
+
+    return (1 - weight) * this.sviTotalVariance(lower.params, k) + weight * this.sviTotalVariance(upper.params, k)
+  }
+
+  private static calculateForward(underlying: string, spotPrice: number, timeToExpiry: number, riskFreeRate?: number): number {
+    const rate = riskFreeRate ?? RateCurveService.getRate(timeToExpiry)
+    const dividends = DividendService.getDividendInputs(underlying, timeToExpiry)
+    const netSpot = spotPrice - presentValueOfDividends(dividends.cashDividends, timeToExpiry, rate)
+    return netSpot * Math.exp((rate - (dividends.dividendYield || 0)) * timeToExpiry)
+  }
+
+  private static rmse(params: SVIParams, logStrikes: number[], totalVariances: number[]): number {
+    if (logStrikes.length === 0) return 0
+    const sumSquares = logStrikes.reduce((sum, k, i) => {
+      const residual = this.sviTotalVariance(params, k) - totalVariances[i]
+      return sum + residual * residual
+    }, 0)
+    return Math.sqrt(sumSquares / logStrikes.length)
+  }
+
+  private static yearsUntil(date: string): number {
+    return (new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24 * 365)
+  }
+}
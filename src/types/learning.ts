@@ -110,9 +110,10 @@ export interface StrategyTemplate {
   examples?: string[]
 }
 
+// Stock legs count quantity in shares and leave strike and expiration unused
 export interface StrategyLeg {
   action: 'buy' | 'sell'
-  optionType: 'call' | 'put'
+  optionType: 'call' | 'put' | 'stock'
   strike: number
   expiration: string
   quantity: number
@@ -54,6 +54,27 @@ export interface OptionsPosition {
   theta: number
   vega: number
   impliedVolatility: number
+  // Multi-leg positions keep their legs so the structure can be identified later
+  legs?: PositionLeg[]
+  // Margin held against the position's short legs, released when it closes
+  marginRequirement?: number
+  // Net premium per unit at entry, positive when paid and negative when received;
+  // avgPrice holds its size. Positions without it were bought outright
+  entryPremium?: number
+}
+
+// Stock legs have no expiry, use the share price as strike and premium and
+// count quantity in 100-share lots
+export interface PositionLeg {
+  type: 'call' | 'put' | 'stock'
+  strike: number
+  expiry: string
+  action: 'buy' | 'sell'
+  // Contracts (or stock lots) per unit of the position
+  quantity: number
+  premium: number
+  // Stock position in the trading account that supplied the shares
+  stockPositionId?: string
 }
 
 export interface OptionsOrder {
@@ -0,0 +1,116 @@
+/*
+  # Saved Strategy Version History
+
+  1. New Tables
+    - `strategy_versions`
+      - `id` (uuid, primary key) - Unique identifier for each version
+      - `strategy_id` (uuid, foreign key) - Links to saved_strategies
+      - `user_id` (uuid, foreign key) - Links to auth.users
+      - `version_number` (integer) - 1 for the first snapshot, increasing per strategy
+      - `note` (text, nullable) - What changed in this version
+      - `strategy_name`, `custom_name`, `underlying_ticker`, `expiration_date`,
+        `legs`, `validation_result`, `notes` - Snapshot of the saved strategy row
+      - `created_at` (timestamptz) - When the version was recorded
+
+  2. Changes to `saved_strategies`
+    - `version_note` (text, nullable) - Note for the version the current write
+      records; the trigger clears it once used, so it never carries over
+
+  3. Versioning
+    - A trigger records a version whenever a strategy is created or its
+      snapshot fields change, in the same transaction as the write, so a saved
+      row always has its version
+    - The trigger runs before the write so it can clear `version_note`; the
+      foreign key to saved_strategies is deferred so a new strategy's first
+      version can be written before the strategy row itself
+    - Version numbers are assigned inside the trigger. The row lock taken by
+      the update serialises concurrent saves of one strategy
+    - Existing strategies get their current state recorded as version 1
+
+  4. Security
+    - Enable RLS
+    - Users can view versions of their own strategies
+    - No insert, update or delete policies: only the trigger, running as
+      SECURITY DEFINER, writes versions, and they are immutable once written
+*/
+
+ALTER TABLE saved_strategies ADD COLUMN IF NOT EXISTS version_note text;
+
+CREATE TABLE IF NOT EXISTS strategy_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  strategy_id uuid REFERENCES saved_strategies(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  version_number integer NOT NULL,
+  note text,
+  strategy_name text NOT NULL,
+  custom_name text,
+  underlying_ticker text NOT NULL,
+  expiration_date date NOT NULL,
+  legs jsonb NOT NULL DEFAULT '[]'::jsonb,
+  validation_result jsonb,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (strategy_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_versions_strategy_id ON strategy_versions(strategy_id);
+
+ALTER TABLE strategy_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own strategy versions"
+  ON strategy_versions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Record a version for every insert and every change to the snapshot, then
+-- clear the note so a later write without one does not reuse it
+CREATE OR REPLACE FUNCTION record_strategy_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+    (NEW.strategy_name, NEW.custom_name, NEW.underlying_ticker, NEW.expiration_date,
+     NEW.legs, NEW.validation_result, NEW.notes)
+    IS NOT DISTINCT FROM
+    (OLD.strategy_name, OLD.custom_name, OLD.underlying_ticker, OLD.expiration_date,
+     OLD.legs, OLD.validation_result, OLD.notes)
+  THEN
+    NEW.version_note := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO strategy_versions (
+    strategy_id, user_id, version_number, note,
+    strategy_name, custom_name, underlying_ticker, expiration_date,
+    legs, validation_result, notes
+  )
+  SELECT
+    NEW.id, NEW.user_id, COALESCE(MAX(version_number), 0) + 1,
+    COALESCE(NEW.version_note, CASE WHEN TG_OP = 'INSERT' THEN 'Created' END),
+    NEW.strategy_name, NEW.custom_name, NEW.underlying_ticker, NEW.expiration_date,
+    NEW.legs, NEW.validation_result, NEW.notes
+  FROM strategy_versions
+  WHERE strategy_id = NEW.id;
+
+  NEW.version_note := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_strategy_version_trigger ON saved_strategies;
+CREATE TRIGGER record_strategy_version_trigger
+  BEFORE INSERT OR UPDATE ON saved_strategies
+  FOR EACH ROW
+  EXECUTE FUNCTION record_strategy_version();
+
+-- Strategies saved before version history existed start from their current state
+INSERT INTO strategy_versions (
+  strategy_id, user_id, version_number, note,
+  strategy_name, custom_name, underlying_ticker, expiration_date,
+  legs, validation_result, notes
+)
+SELECT
+  id, user_id, 1, 'Original',
+  strategy_name, custom_name, underlying_ticker, expiration_date,
+  legs, validation_result, notes
+FROM saved_strategies
+ON CONFLICT (strategy_id, version_number) DO NOTHING;